@@ -0,0 +1,5 @@
+module.exports = {
+  root: true,
+  extends: ['expo'],
+  ignorePatterns: ['node_modules/', 'dist/', 'coverage/'],
+};
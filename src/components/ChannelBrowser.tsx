@@ -0,0 +1,325 @@
+/**
+ * Channel Browser Component
+ * Farcaster channels with their mints, and the cast each mint came from
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Image, FlatList } from 'react-native';
+import type { FarcasterCast, FarcasterChannel, NFT } from '../types';
+import { useFarcasterChannels } from '../store';
+import type { ChannelSummary, FarcasterChannelService } from '../services/farcaster/channels';
+import { NFTCard } from './NFTCard';
+
+interface ChannelBrowserProps {
+  data: FarcasterChannelService;
+  onNFTPress: (nft: NFT) => void;
+}
+
+export const ChannelBrowser: React.FC<ChannelBrowserProps> = ({ data, onNFTPress }) => {
+  const channels = useFarcasterChannels();
+  const [selectedId, setSelectedId] = useState<string>();
+  const selected = channels.find((channel) => channel.id === selectedId);
+
+  if (selected) {
+    return (
+      <ChannelPage
+        summary={selected}
+        data={data}
+        onBack={() => setSelectedId(undefined)}
+        onNFTPress={onNFTPress}
+      />
+    );
+  }
+
+  if (channels.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>No Farcaster channel mints yet</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      data={channels}
+      keyExtractor={(channel) => channel.id}
+      renderItem={({ item }) => (
+        <ChannelRow summary={item} data={data} onPress={() => setSelectedId(item.id)} />
+      )}
+      contentContainerStyle={styles.contentContainer}
+    />
+  );
+};
+
+/**
+ * Channel info, or undefined while loading and when the lookup fails
+ */
+function useChannelInfo(data: FarcasterChannelService, id: string) {
+  const [channel, setChannel] = useState<FarcasterChannel>();
+
+  useEffect(() => {
+    let cancelled = false;
+    data
+      .getChannel(id)
+      .then((info) => {
+        if (!cancelled) setChannel(info);
+      })
+      .catch((error) => console.warn(`Failed to load channel /${id}:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, id]);
+
+  return channel;
+}
+
+const ChannelRow: React.FC<{
+  summary: ChannelSummary;
+  data: FarcasterChannelService;
+  onPress: () => void;
+}> = ({ summary, data, onPress }) => {
+  const channel = useChannelInfo(data, summary.id);
+
+  return (
+    <Pressable style={styles.channelRow} onPress={onPress}>
+      {channel?.imageUrl ? (
+        <Image source={{ uri: channel.imageUrl }} style={styles.channelImage} />
+      ) : (
+        <View style={[styles.channelImage, styles.channelImagePlaceholder]} />
+      )}
+      <View style={styles.channelText}>
+        <Text style={styles.channelName}>/{summary.id}</Text>
+        {channel?.description && (
+          <Text style={styles.channelDescription} numberOfLines={2}>
+            {channel.description}
+          </Text>
+        )}
+      </View>
+      <Text style={styles.channelCount}>{summary.count}</Text>
+    </Pressable>
+  );
+};
+
+const ChannelPage: React.FC<{
+  summary: ChannelSummary;
+  data: FarcasterChannelService;
+  onBack: () => void;
+  onNFTPress: (nft: NFT) => void;
+}> = ({ summary, data, onBack, onNFTPress }) => {
+  const channel = useChannelInfo(data, summary.id);
+
+  const header = (
+    <View style={styles.pageHeader}>
+      <Pressable onPress={onBack}>
+        <Text style={styles.backText}>‹ Channels</Text>
+      </Pressable>
+      {channel?.imageUrl && (
+        <Image source={{ uri: channel.imageUrl }} style={styles.pageImage} />
+      )}
+      <Text style={styles.pageTitle}>{channel?.name || `/${summary.id}`}</Text>
+      <Text style={styles.pageMeta}>
+        /{summary.id} · {summary.count} {summary.count === 1 ? 'mint' : 'mints'}
+        {channel?.followerCount !== undefined && ` · ${channel.followerCount} followers`}
+      </Text>
+      {channel?.description && (
+        <Text style={styles.pageDescription}>{channel.description}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <FlatList
+      data={summary.nfts}
+      keyExtractor={(nft) => nft.id}
+      ListHeaderComponent={header}
+      renderItem={({ item }) => <MintRow nft={item} data={data} onPress={onNFTPress} />}
+      contentContainerStyle={styles.contentContainer}
+    />
+  );
+};
+
+const MintRow: React.FC<{
+  nft: NFT;
+  data: FarcasterChannelService;
+  onPress: (nft: NFT) => void;
+}> = ({ nft, data, onPress }) => {
+  const [cast, setCast] = useState<FarcasterCast>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    data
+      .getMintCast(nft)
+      .then((found) => {
+        if (!cancelled) setCast(found);
+      })
+      .catch((error) => console.warn(`Failed to find the cast for ${nft.id}:`, error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, nft]);
+
+  return (
+    <View style={styles.mintRow}>
+      <NFTCard nft={nft} onPress={onPress} size="small" />
+      <View style={styles.cast}>
+        {cast ? (
+          <>
+            <View style={styles.castAuthor}>
+              {cast.author.pfpUrl && (
+                <Image source={{ uri: cast.author.pfpUrl }} style={styles.authorImage} />
+              )}
+              <Text style={styles.authorName} numberOfLines={1}>
+                {cast.author.displayName || cast.author.username || `FID ${cast.author.fid}`}
+              </Text>
+              {cast.author.username && (
+                <Text style={styles.authorHandle}>@{cast.author.username}</Text>
+              )}
+            </View>
+            <Text style={styles.castText} numberOfLines={4}>
+              {cast.text}
+            </Text>
+            <Text style={styles.castMeta}>
+              {new Date(cast.timestamp).toLocaleString()}
+              {cast.frameUrl && ' · via frame'}
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.castMissing}>
+            {isLoading ? 'Looking up cast…' : 'Original cast not found'}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  contentContainer: {
+    padding: 8,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e0e0e0',
+  },
+  channelImage: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+  },
+  channelImagePlaceholder: {
+    backgroundColor: '#8A63D2',
+  },
+  channelText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  channelName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#000',
+  },
+  channelDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  channelCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  pageHeader: {
+    padding: 12,
+  },
+  backText: {
+    fontSize: 15,
+    color: '#8A63D2',
+    marginBottom: 12,
+  },
+  pageImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  pageTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#000',
+  },
+  pageMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  pageDescription: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 8,
+  },
+  mintRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+  },
+  cast: {
+    flex: 1,
+    marginLeft: 12,
+    justifyContent: 'center',
+  },
+  castAuthor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  authorImage: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    marginRight: 6,
+  },
+  authorName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    flexShrink: 1,
+  },
+  authorHandle: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 4,
+  },
+  castText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  castMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  castMissing: {
+    fontSize: 13,
+    color: '#999',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
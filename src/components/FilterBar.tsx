@@ -0,0 +1,162 @@
+/**
+ * Filter Bar Component
+ * Horizontal row of active filter chips with match counts
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView } from 'react-native';
+import { useStore, useHiddenCount, useSharedNFTs } from '../store';
+import {
+  getFilterChips,
+  countChipMatches,
+  removeFilterChip,
+  type FilterChip,
+} from '../services/nft/filters';
+
+interface FilterBarProps {
+  onOpenFilters?: () => void;
+}
+
+export const FilterBar: React.FC<FilterBarProps> = ({ onOpenFilters }) => {
+  const nfts = useStore((state) => state.nfts);
+  const collections = useStore((state) => state.collections);
+  const wallets = useStore((state) => state.wallets);
+  const customGroups = useStore((state) => state.customGroups);
+  const filterOptions = useStore((state) => state.filterOptions);
+  const setFilterOptions = useStore((state) => state.setFilterOptions);
+  const hiddenCount = useHiddenCount();
+  const sharedCount = useSharedNFTs().length;
+
+  const chips = useMemo(
+    () => getFilterChips(filterOptions, { collections, wallets, customGroups }),
+    [filterOptions, collections, wallets, customGroups]
+  );
+
+  const counts = useMemo(
+    () =>
+      countChipMatches(Array.from(nfts.values()), filterOptions, chips, {
+        customGroups,
+        nfts,
+      }),
+    [nfts, filterOptions, chips, customGroups]
+  );
+
+  const handleRemove = (chip: FilterChip) => {
+    setFilterOptions(removeFilterChip(filterOptions, chip));
+  };
+
+  const handleClearAll = () => {
+    setFilterOptions({});
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        {onOpenFilters && (
+          <Pressable style={[styles.chip, styles.filterButton]} onPress={onOpenFilters}>
+            <Text style={styles.filterButtonText}>Filters</Text>
+          </Pressable>
+        )}
+
+        {chips.map((chip) => (
+          <Pressable
+            key={chip.key}
+            style={styles.chip}
+            onPress={() => handleRemove(chip)}
+            accessibilityLabel={`Remove filter ${chip.label}`}
+          >
+            <Text style={styles.chipLabel} numberOfLines={1}>
+              {chip.label}
+            </Text>
+            <Text style={styles.chipCount}>{counts.get(chip.key) ?? 0}</Text>
+            <Text style={styles.chipRemove}>✕</Text>
+          </Pressable>
+        ))}
+
+        {hiddenCount > 0 && (filterOptions.visibility || 'visible') === 'visible' && (
+          <Pressable
+            style={[styles.chip, styles.clearButton]}
+            onPress={() => setFilterOptions({ ...filterOptions, visibility: 'hidden' })}
+            accessibilityLabel="Show hidden and spam NFTs"
+          >
+            <Text style={styles.clearText}>Hidden</Text>
+            <Text style={styles.chipCount}>{hiddenCount}</Text>
+          </Pressable>
+        )}
+
+        {sharedCount > 0 && filterOptions.multiWallet === undefined && (
+          <Pressable
+            style={[styles.chip, styles.clearButton]}
+            onPress={() => setFilterOptions({ ...filterOptions, multiWallet: true })}
+            accessibilityLabel="Show NFTs held in several wallets"
+          >
+            <Text style={styles.clearText}>Shared</Text>
+            <Text style={styles.chipCount}>{sharedCount}</Text>
+          </Pressable>
+        )}
+
+        {chips.length > 1 && (
+          <Pressable style={[styles.chip, styles.clearButton]} onPress={handleClearAll}>
+            <Text style={styles.clearText}>Clear all</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+  },
+  chipRow: {
+    paddingHorizontal: 12,
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 16,
+    backgroundColor: '#f0ecfa',
+  },
+  chipLabel: {
+    maxWidth: 140,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4a3a7a',
+  },
+  chipCount: {
+    marginLeft: 6,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8A63D2',
+  },
+  chipRemove: {
+    marginLeft: 6,
+    fontSize: 11,
+    color: '#888',
+  },
+  filterButton: {
+    backgroundColor: '#8A63D2',
+  },
+  filterButtonText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  clearButton: {
+    backgroundColor: '#f5f5f5',
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+  },
+});
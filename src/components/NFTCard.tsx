@@ -13,6 +13,10 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import type { NFT } from '../types';
+import { getRarityPercentile } from '../services/nft/rarity';
+import { isHidden } from '../services/nft/spam';
+import { getQuantity } from '../services/nft/holdings';
+import { getLockLabel, getTokenStandardBadge } from '../utils/standards';
 
 interface NFTCardProps {
   nft: NFT;
@@ -39,6 +43,9 @@ export const NFTCard: React.FC<NFTCardProps> = ({
   }[size];
 
   const imageUrl = nft.imageOptimized || nft.image;
+  const standardBadge = getTokenStandardBadge(nft.tokenStandard);
+  const lockLabel = getLockLabel(nft);
+  const quantity = getQuantity(nft);
 
   return (
     <Pressable
@@ -71,13 +78,56 @@ export const NFTCard: React.FC<NFTCardProps> = ({
           />
         )}
 
-        {/* Farcaster Badge */}
-        {nft.metadata.isFarcasterMint && (
-          <View style={styles.farcasterBadge}>
-            <Text style={styles.badgeText}>FC</Text>
+        {/* Farcaster, Standard and Lock Badges */}
+        <View style={styles.topBadges}>
+          {nft.metadata.isFarcasterMint && (
+            <View style={styles.farcasterBadge}>
+              <Text style={styles.badgeText}>FC</Text>
+            </View>
+          )}
+          {standardBadge && (
+            <View style={styles.standardBadge}>
+              <Text style={styles.badgeText}>{standardBadge}</Text>
+            </View>
+          )}
+          {lockLabel && (
+            <View style={styles.lockBadge}>
+              <Text style={styles.badgeText}>🔒 {lockLabel}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Rarity Badge */}
+        {nft.rarity && (
+          <View
+            style={[
+              styles.rarityBadge,
+              { backgroundColor: getRarityColor(getRarityPercentile(nft.rarity)) },
+            ]}
+          >
+            <Text style={styles.badgeText}>#{nft.rarity.rank}</Text>
           </View>
         )}
 
+        {/* Hidden/Spam, Quantity and Shared Badges */}
+        <View style={styles.bottomBadges}>
+          {isHidden(nft) && (
+            <View style={styles.hiddenBadge}>
+              <Text style={styles.badgeText}>{nft.hidden ? 'HIDDEN' : 'SPAM'}</Text>
+            </View>
+          )}
+          {nft.holdings && (
+            <View style={styles.quantityBadge}>
+              <Text style={styles.badgeText}>{nft.holdings.length} wallets</Text>
+            </View>
+          )}
+          {quantity > 1 && (
+            <View style={styles.quantityBadge}>
+              <Text style={styles.badgeText}>×{quantity}</Text>
+            </View>
+          )}
+        </View>
+
         {/* Chain Badge */}
         <View style={[styles.chainBadge, { backgroundColor: getChainColor(nft.chain) }]}>
           <Text style={styles.chainText}>{getChainLabel(nft.chain, nft.evmChain)}</Text>
@@ -116,6 +166,13 @@ function getChainColor(chain: string): string {
   return colors[chain] || '#666';
 }
 
+function getRarityColor(percentile: number): string {
+  if (percentile < 1) return '#F5A623';
+  if (percentile < 10) return '#8A63D2';
+  if (percentile < 25) return '#45B7D1';
+  return 'rgba(0,0,0,0.6)';
+}
+
 function getChainLabel(chain: string, evmChain?: string): string {
   if (chain === 'evm' && evmChain) {
     return evmChain.charAt(0).toUpperCase();
@@ -163,20 +220,66 @@ const styles = StyleSheet.create({
   errorText: {
     fontSize: 32,
   },
-  farcasterBadge: {
+  topBadges: {
     position: 'absolute',
     top: 8,
     left: 8,
+    alignItems: 'flex-start',
+  },
+  farcasterBadge: {
     backgroundColor: '#8A63D2',
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderRadius: 6,
+    marginBottom: 4,
+  },
+  standardBadge: {
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 6,
+    marginBottom: 4,
+  },
+  lockBadge: {
+    backgroundColor: '#F57C00',
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 6,
+    marginBottom: 4,
   },
   badgeText: {
     color: '#fff',
     fontSize: 10,
     fontWeight: '700',
   },
+  rarityBadge: {
+    position: 'absolute',
+    bottom: 8,
+    left: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  bottomBadges: {
+    position: 'absolute',
+    bottom: 8,
+    right: 8,
+    flexDirection: 'row',
+  },
+  hiddenBadge: {
+    backgroundColor: '#E53935',
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 6,
+    marginLeft: 4,
+  },
+  quantityBadge: {
+    backgroundColor: 'rgba(0,0,0,0.75)',
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    borderRadius: 6,
+    marginLeft: 4,
+  },
   chainBadge: {
     position: 'absolute',
     top: 8,
@@ -0,0 +1,658 @@
+/**
+ * NFT Detail Component
+ * Full-screen view with media, metadata, traits, provenance and actions
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Image,
+  Linking,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
+import { Video, ResizeMode } from 'expo-av';
+import { WebView } from 'react-native-webview';
+import * as Clipboard from 'expo-clipboard';
+import type { NFT } from '../types';
+import { useStore, useFloorHistory } from '../store';
+import { getMediaType } from '../utils/media';
+import {
+  formatAttributeValue,
+  formatRoyalty,
+  formatAmount,
+  shortenAddress,
+  getWalletDisplayName,
+} from '../utils/formatting';
+import { NFTNormalizer } from '../services/nft/normalizer';
+import { getCollectionId } from '../services/nft/collections';
+import { isHidden } from '../services/nft/spam';
+import { getFarcasterOverride, normalizeChannel } from '../services/nft/detector';
+import { getHoldings, getQuantity } from '../services/nft/holdings';
+import { ASSET_STATE_LABELS, TOKEN_STANDARD_LABELS, getAssetStates } from '../utils/standards';
+import { ValueChart } from './ValueChart';
+
+interface NFTDetailProps {
+  nftId: string;
+  onClose?: () => void;
+  onRefreshMetadata?: (nftId: string) => Promise<unknown>;
+}
+
+export const NFTDetail: React.FC<NFTDetailProps> = ({
+  nftId,
+  onClose,
+  onRefreshMetadata,
+}) => {
+  const nft = useStore((state) => state.nfts.get(nftId));
+  const wallets = useStore((state) => state.wallets);
+  const collection = useStore((state) =>
+    nft ? state.collections.get(getCollectionId(nft)) : undefined
+  );
+  const customGroups = useStore((state) => state.customGroups);
+  const addToGroup = useStore((state) => state.addToGroup);
+  const removeFromGroup = useStore((state) => state.removeFromGroup);
+  const setNFTHidden = useStore((state) => state.setNFTHidden);
+  const setFarcasterOverride = useStore((state) => state.setFarcasterOverride);
+
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string>();
+  const [copied, setCopied] = useState(false);
+  const [channelDraft, setChannelDraft] = useState('');
+
+  if (!nft) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>This NFT is no longer in your portfolio</Text>
+        {onClose && (
+          <Pressable style={styles.actionButton} onPress={onClose}>
+            <Text style={styles.actionText}>Close</Text>
+          </Pressable>
+        )}
+      </View>
+    );
+  }
+
+  const floorPrice = collection?.floorPrice || nft.collection.floorPrice;
+  const hidden = isHidden(nft);
+  const assetStates = getAssetStates(nft);
+  const holdings = getHoldings(nft);
+  const showQuantities = holdings.length > 1 || getQuantity(nft) > 1;
+  const detection = nft.metadata.farcasterDetection;
+  const farcasterOverride = getFarcasterOverride(nft);
+
+  const handleCopyId = async () => {
+    await Clipboard.setStringAsync(nft.id);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleRefresh = async () => {
+    if (!onRefreshMetadata) return;
+    setIsRefreshing(true);
+    setRefreshError(undefined);
+    try {
+      await onRefreshMetadata(nft.id);
+    } catch (error) {
+      setRefreshError(error instanceof Error ? error.message : 'Refresh failed');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleSetChannel = () => {
+    if (!normalizeChannel(channelDraft)) return;
+    setFarcasterOverride(nft.id, { isFarcasterMint: true, channel: channelDraft });
+    setChannelDraft('');
+  };
+
+  const toggleGroup = (groupId: string, isMember: boolean) => {
+    if (isMember) {
+      removeFromGroup(groupId, [nft.id]);
+    } else {
+      addToGroup(groupId, [nft.id]);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {onClose && (
+        <Pressable style={styles.closeButton} onPress={onClose} accessibilityLabel="Close">
+          <Text style={styles.closeText}>✕</Text>
+        </Pressable>
+      )}
+
+      <NFTMedia nft={nft} />
+
+      {/* Title */}
+      <View style={styles.section}>
+        <Text style={styles.name}>{nft.name}</Text>
+        <Text style={styles.collectionName}>{nft.collection.name}</Text>
+        {nft.description ? <Text style={styles.description}>{nft.description}</Text> : null}
+      </View>
+
+      {/* Spam */}
+      {nft.spam?.isSpam && (
+        <View style={styles.section}>
+          <View style={styles.spamNotice}>
+            <Text style={styles.spamTitle}>
+              {nft.hidden === false ? 'Flagged as spam (shown by you)' : 'Flagged as spam'}
+            </Text>
+            <Text style={styles.spamReasons}>{nft.spam.reasons.join(' · ')}</Text>
+          </View>
+        </View>
+      )}
+
+      {/* Ownership */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{holdings.length > 1 ? 'Owners' : 'Owner'}</Text>
+        {holdings.map((holding) => {
+          const wallet = wallets.find((w) => w.id === holding.walletId);
+          return (
+            <View key={holding.walletId} style={styles.row}>
+              <View style={styles.ownerLabel}>
+                <View style={[styles.walletSwatch, { backgroundColor: wallet?.color || '#ccc' }]} />
+                {wallet?.name?.avatarUrl && (
+                  <Image source={{ uri: wallet.name.avatarUrl }} style={styles.walletAvatar} />
+                )}
+                <Text style={styles.rowValue}>
+                  {wallet ? getWalletDisplayName(wallet) : 'Unknown wallet'}
+                </Text>
+                {wallet?.name?.mismatch && (
+                  <Text style={styles.nameMismatch}>
+                    {` ⚠ ${wallet.name.name} ${
+                      wallet.name.mismatch.resolvedTo
+                        ? `now points to ${shortenAddress(wallet.name.mismatch.resolvedTo)}`
+                        : 'no longer resolves'
+                    }`}
+                  </Text>
+                )}
+              </View>
+              {showQuantities && <Text style={styles.rowLabel}>×{holding.quantity}</Text>}
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Farcaster */}
+      {(nft.metadata.isFarcasterMint ||
+        farcasterOverride ||
+        (detection && detection.signals.length > 0)) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Farcaster</Text>
+          <InfoRow
+            label="Farcaster mint"
+            value={
+              farcasterOverride
+                ? `${nft.metadata.isFarcasterMint ? 'Yes' : 'No'} (set by you)`
+                : `${nft.metadata.isFarcasterMint ? 'Yes' : 'No'} (${Math.round((detection?.confidence ?? 0) * 100)}% confident)`
+            }
+          />
+          {nft.metadata.isFarcasterMint && (
+            <InfoRow
+              label="Channel"
+              value={nft.metadata.farcasterChannel ? `/${nft.metadata.farcasterChannel}` : 'Unknown'}
+            />
+          )}
+          {detection && detection.signals.length > 0 && (
+            <Text style={styles.signals}>
+              {detection.signals.map((signal) => signal.label).join(' · ')}
+            </Text>
+          )}
+          <View style={styles.channelRow}>
+            <TextInput
+              style={styles.channelInput}
+              value={channelDraft}
+              onChangeText={setChannelDraft}
+              placeholder="/channel"
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleSetChannel}
+            />
+            <Pressable style={styles.actionButton} onPress={handleSetChannel}>
+              <Text style={styles.actionText}>Set channel</Text>
+            </Pressable>
+          </View>
+          <View style={styles.groupRow}>
+            <Pressable
+              style={styles.actionButton}
+              onPress={() =>
+                setFarcasterOverride(
+                  nft.id,
+                  nft.metadata.isFarcasterMint
+                    ? { isFarcasterMint: false }
+                    : { isFarcasterMint: true }
+                )
+              }
+            >
+              <Text style={styles.actionText}>
+                {nft.metadata.isFarcasterMint ? 'Not a Farcaster mint' : 'Is a Farcaster mint'}
+              </Text>
+            </Pressable>
+            {farcasterOverride && (
+              <Pressable style={styles.actionButton} onPress={() => setFarcasterOverride(nft.id)}>
+                <Text style={styles.actionText}>Use detection</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Collection */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Collection</Text>
+        {nft.collection.imageUrl ? (
+          <Image
+            source={{ uri: NFTNormalizer.normalizeImageUrl(nft.collection.imageUrl) }}
+            style={styles.collectionImage}
+          />
+        ) : null}
+        <InfoRow label="Contract" value={shortenAddress(nft.contractAddress)} />
+        <InfoRow label="Token ID" value={nft.tokenId} />
+        <InfoRow label="Chain" value={nft.evmChain || nft.chain} />
+        {nft.tokenStandard && (
+          <InfoRow label="Standard" value={TOKEN_STANDARD_LABELS[nft.tokenStandard]} />
+        )}
+        {assetStates.length > 0 && (
+          <InfoRow
+            label="State"
+            value={assetStates.map((state) => ASSET_STATE_LABELS[state]).join(', ')}
+          />
+        )}
+        {nft.ownershipState?.delegate && (
+          <InfoRow label="Delegate" value={shortenAddress(nft.ownershipState.delegate)} />
+        )}
+        {floorPrice && (
+          <InfoRow label="Floor" value={formatAmount(floorPrice.amount, floorPrice.currency)} />
+        )}
+        {collection && <InfoRow label="Owned" value={String(collection.nftCount)} />}
+        {nft.collection.description ? (
+          <Text style={styles.description}>{nft.collection.description}</Text>
+        ) : null}
+        <FloorHistory collectionId={getCollectionId(nft)} />
+      </View>
+
+      {/* Provenance */}
+      {(nft.metadata.creator || nft.metadata.royalties !== undefined || nft.metadata.mintedAt) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Provenance</Text>
+          {nft.metadata.creator && (
+            <InfoRow label="Creator" value={shortenAddress(nft.metadata.creator)} />
+          )}
+          {nft.metadata.royalties !== undefined && (
+            <InfoRow label="Royalties" value={formatRoyalty(nft.metadata.royalties)} />
+          )}
+          {nft.metadata.mintedAt && (
+            <InfoRow label="Minted" value={new Date(nft.metadata.mintedAt).toLocaleDateString()} />
+          )}
+        </View>
+      )}
+
+      {/* Traits */}
+      {nft.metadata.attributes && nft.metadata.attributes.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Traits</Text>
+          <View style={styles.traitGrid}>
+            {nft.metadata.attributes.map((attr, index) => (
+              <View key={`${attr.trait_type}-${index}`} style={styles.trait}>
+                <Text style={styles.traitType} numberOfLines={1}>
+                  {attr.trait_type}
+                </Text>
+                <Text style={styles.traitValue} numberOfLines={2}>
+                  {formatAttributeValue(attr)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Groups */}
+      {customGroups.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Groups</Text>
+          <View style={styles.groupRow}>
+            {customGroups.map((group) => {
+              const isMember = group.nftIds.includes(nft.id);
+              return (
+                <Pressable
+                  key={group.id}
+                  style={[
+                    styles.groupChip,
+                    { borderColor: group.color },
+                    isMember && { backgroundColor: group.color },
+                  ]}
+                  onPress={() => toggleGroup(group.id, isMember)}
+                >
+                  <Text style={[styles.groupText, isMember && styles.groupTextActive]}>
+                    {isMember ? '✓ ' : '+ '}
+                    {group.name}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        {nft.externalUrl && (
+          <Pressable style={styles.actionButton} onPress={() => Linking.openURL(nft.externalUrl!)}>
+            <Text style={styles.actionText}>Open website</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.actionButton} onPress={handleCopyId}>
+          <Text style={styles.actionText}>{copied ? 'Copied!' : 'Copy ID'}</Text>
+        </Pressable>
+        <Pressable style={styles.actionButton} onPress={() => setNFTHidden([nft.id], !hidden)}>
+          <Text style={styles.actionText}>{hidden ? 'Unhide' : 'Hide'}</Text>
+        </Pressable>
+        {onRefreshMetadata && (
+          <Pressable
+            style={styles.actionButton}
+            onPress={handleRefresh}
+            disabled={isRefreshing}
+          >
+            {isRefreshing ? (
+              <ActivityIndicator size="small" color="#8A63D2" />
+            ) : (
+              <Text style={styles.actionText}>Refresh metadata</Text>
+            )}
+          </Pressable>
+        )}
+      </View>
+      {refreshError && <Text style={styles.errorText}>{refreshError}</Text>}
+    </ScrollView>
+  );
+};
+
+const NFTMedia: React.FC<{ nft: NFT }> = ({ nft }) => {
+  const mediaType = getMediaType(nft);
+  const image = NFTNormalizer.normalizeImageUrl(nft.image);
+  const animation = nft.animationUrl
+    ? NFTNormalizer.normalizeImageUrl(nft.animationUrl)
+    : undefined;
+
+  if (animation && (mediaType === 'video' || mediaType === 'audio')) {
+    return (
+      <Video
+        source={{ uri: animation }}
+        posterSource={image ? { uri: image } : undefined}
+        usePoster={!!image}
+        style={styles.media}
+        resizeMode={ResizeMode.CONTAIN}
+        useNativeControls
+        isLooping={mediaType === 'video'}
+      />
+    );
+  }
+
+  if (animation && (mediaType === 'html' || mediaType === 'model')) {
+    return (
+      <WebView
+        source={{ uri: animation }}
+        style={styles.media}
+        originWhitelist={['https://*']}
+        allowsInlineMediaPlayback
+      />
+    );
+  }
+
+  return image ? (
+    <Image source={{ uri: image }} style={styles.media} resizeMode="contain" />
+  ) : (
+    <View style={[styles.media, styles.mediaPlaceholder]}>
+      <Text style={styles.placeholderText}>🖼️</Text>
+    </View>
+  );
+};
+
+const FloorHistory: React.FC<{ collectionId: string }> = ({ collectionId }) => {
+  const { points, currency } = useFloorHistory(collectionId);
+  return (
+    <ValueChart
+      title="Floor history"
+      points={points}
+      formatValue={(value) => formatAmount(value, currency || '')}
+    />
+  );
+};
+
+const InfoRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <View style={styles.row}>
+    <Text style={styles.rowLabel}>{label}</Text>
+    <Text style={styles.rowValue} numberOfLines={1}>
+      {value}
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 16,
+    right: 16,
+    zIndex: 1,
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  media: {
+    width: '100%',
+    aspectRatio: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  mediaPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 48,
+  },
+  section: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#888',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  name: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#000',
+  },
+  collectionName: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 2,
+  },
+  description: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  rowValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  ownerLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexShrink: 1,
+  },
+  walletSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  walletAvatar: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    marginRight: 6,
+  },
+  nameMismatch: {
+    fontSize: 12,
+    color: '#C62828',
+    flexShrink: 1,
+  },
+  collectionImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  traitGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  trait: {
+    width: '31%',
+    margin: '1%',
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f0ecfa',
+  },
+  traitType: {
+    fontSize: 11,
+    color: '#8A63D2',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  traitValue: {
+    fontSize: 13,
+    color: '#000',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  spamNotice: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FDECEA',
+  },
+  spamTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#C62828',
+  },
+  spamReasons: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 4,
+  },
+  signals: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  channelInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  groupRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  groupChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  groupText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  groupTextActive: {
+    color: '#fff',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 12,
+    paddingTop: 16,
+  },
+  actionButton: {
+    minWidth: 100,
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    margin: 4,
+    borderRadius: 10,
+    backgroundColor: '#f0ecfa',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8A63D2',
+  },
+  errorText: {
+    color: '#FF4444',
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
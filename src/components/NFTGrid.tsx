@@ -6,8 +6,12 @@
 import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, RefreshControl } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
-import type { NFT, SortMode } from '../types';
+import type { NFT, SortMode, PriceTable } from '../types';
 import { NFTCard } from './NFTCard';
+import { getCollectionId } from '../services/nft/collections';
+import { getRarityPercentile } from '../services/nft/rarity';
+import { summarizeChannels } from '../services/farcaster/channels';
+import { getNFTValue, getNativeValue } from '../services/valuation/portfolio';
 
 interface NFTGridProps {
   nfts: NFT[];
@@ -16,6 +20,7 @@ interface NFTGridProps {
   isRefreshing?: boolean;
   showFloorPrice?: boolean;
   sortMode?: SortMode;
+  priceTable?: PriceTable;
   numColumns?: number;
   emptyMessage?: string;
 }
@@ -27,13 +32,14 @@ export const NFTGrid: React.FC<NFTGridProps> = ({
   isRefreshing = false,
   showFloorPrice = false,
   sortMode = 'recent',
+  priceTable,
   numColumns = 2,
   emptyMessage = 'No NFTs found',
 }) => {
   // Sort and group NFTs based on sort mode
   const sections = useMemo(() => {
-    return groupAndSortNFTs(nfts, sortMode);
-  }, [nfts, sortMode]);
+    return groupAndSortNFTs(nfts, sortMode, priceTable);
+  }, [nfts, sortMode, priceTable]);
 
   const renderItem = ({ item }: { item: NFT | SectionHeader }) => {
     if ('isHeader' in item) {
@@ -95,15 +101,19 @@ interface SectionHeader {
 /**
  * Group and sort NFTs based on sort mode
  */
-function groupAndSortNFTs(nfts: NFT[], sortMode: SortMode): Array<NFT | SectionHeader> {
-  const result: Array<NFT | SectionHeader> = [];
+function groupAndSortNFTs(
+  nfts: NFT[],
+  sortMode: SortMode,
+  priceTable?: PriceTable
+): (NFT | SectionHeader)[] {
+  const result: (NFT | SectionHeader)[] = [];
 
   switch (sortMode) {
     case 'collection': {
       // Group by collection
       const collections = new Map<string, NFT[]>();
       nfts.forEach((nft) => {
-        const key = nft.collection.address;
+        const key = getCollectionId(nft);
         if (!collections.has(key)) {
           collections.set(key, []);
         }
@@ -127,17 +137,28 @@ function groupAndSortNFTs(nfts: NFT[], sortMode: SortMode): Array<NFT | SectionH
     }
 
     case 'farcaster': {
-      // Separate Farcaster mints from others
-      const farcasterNfts = nfts.filter((nft) => nft.metadata.isFarcasterMint);
+      // One section per channel (most mints first), then channel-less mints, then the rest
+      summarizeChannels(nfts).forEach((channel) => {
+        result.push({
+          isHeader: true,
+          title: `/${channel.id}`,
+          count: channel.count,
+        });
+        result.push(...channel.nfts);
+      });
+
+      const unchanneledNfts = nfts.filter(
+        (nft) => nft.metadata.isFarcasterMint && !nft.metadata.farcasterChannel
+      );
       const otherNfts = nfts.filter((nft) => !nft.metadata.isFarcasterMint);
 
-      if (farcasterNfts.length > 0) {
+      if (unchanneledNfts.length > 0) {
         result.push({
           isHeader: true,
           title: 'Farcaster Mints',
-          count: farcasterNfts.length,
+          count: unchanneledNfts.length,
         });
-        result.push(...farcasterNfts);
+        result.push(...unchanneledNfts);
       }
 
       if (otherNfts.length > 0) {
@@ -152,11 +173,53 @@ function groupAndSortNFTs(nfts: NFT[], sortMode: SortMode): Array<NFT | SectionH
     }
 
     case 'value': {
-      // Sort by floor price (descending)
+      if (priceTable) {
+        // Sort by floor value in the quote currency (descending)
+        const sorted = [...nfts].sort((a, b) => {
+          const aValue = getNFTValue(a, priceTable) ?? -1;
+          const bValue = getNFTValue(b, priceTable) ?? -1;
+          return bValue - aValue;
+        });
+        result.push(...sorted);
+        break;
+      }
+
+      // Without rates, floors in different currencies aren't comparable:
+      // section by currency and sort by floor within each
+      const byCurrency = new Map<string, NFT[]>();
+      nfts.forEach((nft) => {
+        const key = getNativeValue(nft)?.currency || 'No floor';
+        if (!byCurrency.has(key)) {
+          byCurrency.set(key, []);
+        }
+        byCurrency.get(key)!.push(nft);
+      });
+
+      Array.from(byCurrency.entries())
+        .sort(([a], [b]) => (a === 'No floor' ? 1 : b === 'No floor' ? -1 : a.localeCompare(b)))
+        .forEach(([currency, currencyNfts]) => {
+          result.push({
+            isHeader: true,
+            title: currency,
+            count: currencyNfts.length,
+          });
+          result.push(
+            ...currencyNfts.sort(
+              (a, b) => (getNativeValue(b)?.amount || 0) - (getNativeValue(a)?.amount || 0)
+            )
+          );
+        });
+      break;
+    }
+
+    case 'rarity': {
+      // Rarest first across all collections; percentiles make ranks comparable
+      // between collections of different sizes
       const sorted = [...nfts].sort((a, b) => {
-        const aPrice = a.collection.floorPrice?.amount || 0;
-        const bPrice = b.collection.floorPrice?.amount || 0;
-        return bPrice - aPrice;
+        const aPercentile = a.rarity ? getRarityPercentile(a.rarity) : Infinity;
+        const bPercentile = b.rarity ? getRarityPercentile(b.rarity) : Infinity;
+        if (aPercentile === bPercentile) return 0;
+        return aPercentile < bPercentile ? -1 : 1;
       });
       result.push(...sorted);
       break;
@@ -164,8 +227,10 @@ function groupAndSortNFTs(nfts: NFT[], sortMode: SortMode): Array<NFT | SectionH
 
     case 'recent':
     default: {
-      // Sort by last fetched (most recent first)
-      const sorted = [...nfts].sort((a, b) => b.lastFetched - a.lastFetched);
+      // Sort by when the NFT first appeared (most recent first)
+      const sorted = [...nfts].sort(
+        (a, b) => (b.firstSeenAt ?? b.lastFetched) - (a.firstSeenAt ?? a.lastFetched)
+      );
       result.push(...sorted);
       break;
     }
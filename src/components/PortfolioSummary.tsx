@@ -0,0 +1,207 @@
+/**
+ * Portfolio Summary Component
+ * Header above the grid with total value and per-wallet/chain/collection breakdowns
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { usePortfolioValuation, usePortfolioHistory } from '../store';
+import type { ValueBreakdown } from '../services/valuation/portfolio';
+import { formatAmount } from '../utils/formatting';
+import { ValueChart } from './ValueChart';
+
+type BreakdownTab = 'byWallet' | 'byChain' | 'byCollection';
+
+const TABS: { key: BreakdownTab; label: string }[] = [
+  { key: 'byWallet', label: 'Wallets' },
+  { key: 'byChain', label: 'Chains' },
+  { key: 'byCollection', label: 'Collections' },
+];
+
+interface PortfolioSummaryProps {
+  maxRows?: number;
+}
+
+export const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ maxRows = 5 }) => {
+  const valuation = usePortfolioValuation();
+  const history = usePortfolioHistory();
+  const [tab, setTab] = useState<BreakdownTab>('byWallet');
+
+  const nativeTotals = Object.entries(valuation.native)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, amount]) => formatAmount(amount, currency))
+    .join(' · ');
+
+  const rows = valuation[tab].slice(0, maxRows);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Portfolio floor value</Text>
+      <Text style={styles.total}>{formatFiat(valuation.total, valuation.quote)}</Text>
+      {nativeTotals ? <Text style={styles.native}>{nativeTotals}</Text> : null}
+      {valuation.pricedCount < valuation.nftCount && (
+        <Text style={styles.note}>
+          {valuation.nftCount - valuation.pricedCount} of {valuation.nftCount} NFTs unpriced
+        </Text>
+      )}
+
+      <ValueChart
+        title="Value history"
+        points={history}
+        formatValue={(value) => formatFiat(value, valuation.quote)}
+      />
+
+      <View style={styles.tabs}>
+        {TABS.map(({ key, label }) => (
+          <Pressable
+            key={key}
+            style={[styles.tab, tab === key && styles.tabActive]}
+            onPress={() => setTab(key)}
+          >
+            <Text style={[styles.tabText, tab === key && styles.tabTextActive]}>{label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {rows.map((row) => (
+        <BreakdownRow
+          key={row.key}
+          row={row}
+          quote={valuation.quote}
+          share={valuation.total > 0 ? row.value / valuation.total : 0}
+        />
+      ))}
+    </View>
+  );
+};
+
+const BreakdownRow: React.FC<{ row: ValueBreakdown; quote: string; share: number }> = ({
+  row,
+  quote,
+  share,
+}) => (
+  <View style={styles.row}>
+    <View style={styles.rowInfo}>
+      <Text style={styles.rowLabel} numberOfLines={1}>
+        {row.label}
+      </Text>
+      <Text style={styles.rowCount}>{row.nftCount} NFTs</Text>
+    </View>
+    <View style={styles.rowValueContainer}>
+      <Text style={styles.rowValue}>{formatFiat(row.value, quote)}</Text>
+      <View style={styles.shareTrack}>
+        <View style={[styles.shareFill, { width: `${Math.round(share * 100)}%` }]} />
+      </View>
+    </View>
+  </View>
+);
+
+function formatFiat(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 12,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#000',
+    marginTop: 4,
+  },
+  native: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  tabs: {
+    flexDirection: 'row',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  tab: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 14,
+    backgroundColor: '#f5f5f5',
+  },
+  tabActive: {
+    backgroundColor: '#8A63D2',
+  },
+  tabText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  tabTextActive: {
+    color: '#fff',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  rowCount: {
+    fontSize: 11,
+    color: '#888',
+  },
+  rowValueContainer: {
+    width: 110,
+    alignItems: 'flex-end',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  shareTrack: {
+    width: '100%',
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: '#f0ecfa',
+    marginTop: 4,
+  },
+  shareFill: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: '#8A63D2',
+  },
+});
@@ -0,0 +1,99 @@
+/**
+ * Search Bar Component
+ * Text input that drives the store's search query
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, Pressable } from 'react-native';
+import { useStore } from '../store';
+
+interface SearchBarProps {
+  placeholder?: string;
+  debounceMs?: number;
+  resultCount?: number;
+}
+
+export const SearchBar: React.FC<SearchBarProps> = ({
+  placeholder = 'Search NFTs, traits, channels…',
+  debounceMs = 200,
+  resultCount,
+}) => {
+  const searchQuery = useStore((state) => state.searchQuery);
+  const setSearchQuery = useStore((state) => state.setSearchQuery);
+  const [text, setText] = useState(searchQuery);
+
+  // Keep local text in sync when the query is cleared elsewhere
+  useEffect(() => {
+    setText(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (text === searchQuery) return;
+    const timeout = setTimeout(() => setSearchQuery(text), debounceMs);
+    return () => clearTimeout(timeout);
+  }, [text, searchQuery, setSearchQuery, debounceMs]);
+
+  const handleClear = () => {
+    setText('');
+    setSearchQuery('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.icon}>🔍</Text>
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={setText}
+        placeholder={placeholder}
+        placeholderTextColor="#999"
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="search"
+        onSubmitEditing={() => setSearchQuery(text)}
+        clearButtonMode="never"
+      />
+      {searchQuery.trim().length > 0 && resultCount !== undefined && (
+        <Text style={styles.count}>{resultCount}</Text>
+      )}
+      {text.length > 0 && (
+        <Pressable onPress={handleClear} hitSlop={8} accessibilityLabel="Clear search">
+          <Text style={styles.clear}>✕</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 12,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: '#f5f5f5',
+  },
+  icon: {
+    fontSize: 14,
+    marginRight: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000',
+  },
+  count: {
+    marginLeft: 8,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  clear: {
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#888',
+  },
+});
@@ -0,0 +1,202 @@
+/**
+ * Value Chart Component
+ * Bar sparkline of a value series with 24h/7d/30d change and range selection
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import {
+  CHANGE_WINDOWS,
+  computeChanges,
+  type ChangeWindow,
+  type ValuePoint,
+} from '../services/valuation/history';
+
+interface ValueChartProps {
+  title: string;
+  points: ValuePoint[];
+  formatValue: (value: number) => string;
+  height?: number;
+  maxBars?: number;
+}
+
+const WINDOWS = Object.keys(CHANGE_WINDOWS) as ChangeWindow[];
+
+export const ValueChart: React.FC<ValueChartProps> = ({
+  title,
+  points,
+  formatValue,
+  height = 64,
+  maxBars = 48,
+}) => {
+  const [range, setRange] = useState<ChangeWindow>('7d');
+  const changes = useMemo(() => computeChanges(points), [points]);
+
+  const bars = useMemo(() => {
+    const start = Date.now() - CHANGE_WINDOWS[range];
+    return toBars(points.filter((p) => p.timestamp >= start), start, maxBars);
+  }, [points, range, maxBars]);
+
+  if (points.length === 0) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.empty}>No history yet</Text>
+      </View>
+    );
+  }
+
+  const values = bars.map((bar) => bar.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const change = changes[range];
+  const rising = (change?.absolute ?? 0) >= 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.latest}>{formatValue(points[points.length - 1].value)}</Text>
+      </View>
+
+      <View style={[styles.bars, { height }]}>
+        {bars.map((bar) => (
+          <View
+            key={bar.timestamp}
+            style={[
+              styles.bar,
+              rising ? styles.barUp : styles.barDown,
+              // Keep a sliver visible at the minimum so flat series still render
+              { height: max > min ? 4 + ((bar.value - min) / (max - min)) * (height - 4) : height / 2 },
+            ]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.ranges}>
+        {WINDOWS.map((window) => {
+          const windowChange = changes[window];
+          return (
+            <Pressable
+              key={window}
+              style={[styles.range, range === window && styles.rangeActive]}
+              onPress={() => setRange(window)}
+            >
+              <Text style={[styles.rangeLabel, range === window && styles.rangeLabelActive]}>
+                {window}
+              </Text>
+              <Text
+                style={[
+                  styles.rangeChange,
+                  windowChange && (windowChange.absolute >= 0 ? styles.up : styles.down),
+                ]}
+              >
+                {formatChange(windowChange?.percent)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Bucket points into at most `maxBars` bars, keeping the last value per bucket
+ */
+function toBars(points: ValuePoint[], start: number, maxBars: number): ValuePoint[] {
+  if (points.length <= maxBars) return points;
+
+  const span = Math.max(Date.now() - start, 1);
+  const buckets = new Map<number, ValuePoint>();
+  points.forEach((point) => {
+    const bucket = Math.min(Math.floor(((point.timestamp - start) / span) * maxBars), maxBars - 1);
+    buckets.set(bucket, point);
+  });
+  return Array.from(buckets.values());
+}
+
+function formatChange(percent?: number): string {
+  if (percent === undefined) return '—';
+  const sign = percent > 0 ? '+' : '';
+  return `${sign}${percent.toFixed(1)}%`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+  },
+  latest: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  empty: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 6,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  barUp: {
+    backgroundColor: '#8A63D2',
+  },
+  barDown: {
+    backgroundColor: '#E57373',
+  },
+  ranges: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  range: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginHorizontal: 2,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  rangeActive: {
+    backgroundColor: '#f0ecfa',
+  },
+  rangeLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#888',
+  },
+  rangeLabelActive: {
+    color: '#8A63D2',
+  },
+  rangeChange: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+    marginTop: 2,
+  },
+  up: {
+    color: '#2E7D32',
+  },
+  down: {
+    color: '#C62828',
+  },
+});
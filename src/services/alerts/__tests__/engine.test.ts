@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createStore } from 'zustand/vanilla';
+import type { AlertNotification, AlertRule, Collection, NFT } from '../../../types';
+import type { NotificationSink } from '../delivery';
+import { AlertEngine, getQuietTimeEnd } from '../engine';
+
+const COLLECTION_ID = `eip155:1/nft:0x${'ab'.repeat(20)}`;
+const QUIET = { start: 22, end: 7 };
+
+// Local time, like quiet hours
+const LATE_EVENING = new Date(2026, 0, 1, 23, 0).getTime();
+const MORNING = new Date(2026, 0, 2, 7, 0).getTime();
+
+const rule: AlertRule = {
+  id: 'rule-1',
+  type: 'floor_threshold',
+  collectionId: COLLECTION_ID,
+  direction: 'below',
+  threshold: 1,
+  enabled: true,
+  createdAt: 0,
+};
+
+function collections(floor: number): Map<string, Collection> {
+  return new Map([
+    [
+      COLLECTION_ID,
+      {
+        id: COLLECTION_ID,
+        name: 'Test Collection',
+        contractAddress: `0x${'ab'.repeat(20)}`,
+        chain: 'evm',
+        evmChain: 'ethereum',
+        nftCount: 1,
+        walletCounts: {},
+        floorPrice: { amount: floor, currency: 'ETH' },
+      },
+    ],
+  ]);
+}
+
+// delivery.ts's InMemoryNotificationSink pulls in expo-notifications
+function createSink(): NotificationSink & { delivered: AlertNotification[] } {
+  const delivered: AlertNotification[] = [];
+  return { delivered, deliver: async (notification) => void delivered.push(notification) };
+}
+
+function createAlertStore(heldAlerts: AlertNotification[] = []) {
+  return createStore<any>()((set) => ({
+    nfts: new Map<string, NFT>(),
+    collections: collections(2),
+    wallets: [],
+    alertRules: [rule],
+    settings: { enableNotifications: true, quietHours: QUIET },
+    heldAlerts,
+    setHeldAlerts: (notifications: AlertNotification[]) => set({ heldAlerts: notifications }),
+  }));
+}
+
+describe('AlertEngine quiet hours', () => {
+  let engine: AlertEngine | undefined;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: LATE_EVENING });
+  });
+
+  afterEach(() => {
+    engine?.dispose();
+    engine = undefined;
+    jest.useRealTimers();
+  });
+
+  it('delivers held alerts when quiet hours end, without another alert', async () => {
+    const store = createAlertStore();
+    const sink = createSink();
+    engine = new AlertEngine({ store, sink, now: () => Date.now() });
+
+    store.setState({ collections: collections(0.5) });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sink.delivered).toHaveLength(0);
+    expect(store.getState().heldAlerts).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(MORNING - LATE_EVENING - 1);
+    expect(sink.delivered).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sink.delivered.map((n) => n.ruleId)).toEqual(['rule-1']);
+    expect(store.getState().heldAlerts).toEqual([]);
+  });
+
+  it('delivers alerts held before a restart', async () => {
+    jest.setSystemTime(MORNING + 60 * 1000);
+    const held: AlertNotification = {
+      id: 'alert-1',
+      ruleId: 'rule-1',
+      title: 'Held',
+      body: 'From last night',
+      createdAt: LATE_EVENING,
+    };
+    const store = createAlertStore([held]);
+    const sink = createSink();
+    engine = new AlertEngine({ store, sink, now: () => Date.now() });
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sink.delivered).toEqual([held]);
+    expect(store.getState().heldAlerts).toEqual([]);
+  });
+});
+
+describe('getQuietTimeEnd', () => {
+  it('ends the next morning for quiet hours spanning midnight', () => {
+    expect(getQuietTimeEnd(QUIET, new Date(LATE_EVENING))).toBe(MORNING);
+    expect(getQuietTimeEnd(QUIET, new Date(new Date(2026, 0, 2, 3, 0).getTime()))).toBe(MORNING);
+  });
+
+  it('is undefined outside quiet hours', () => {
+    expect(getQuietTimeEnd(QUIET, new Date(MORNING))).toBeUndefined();
+    expect(getQuietTimeEnd(undefined, new Date(LATE_EVENING))).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Notification Delivery
+ * Sinks that alert notifications are handed to: local device notifications or memory
+ */
+
+import * as Notifications from 'expo-notifications';
+import type { AlertNotification } from '../../types';
+
+export interface NotificationSink {
+  deliver: (notification: AlertNotification) => Promise<void>;
+}
+
+/**
+ * Collects notifications instead of showing them; for tests and in-app feeds
+ */
+export class InMemoryNotificationSink implements NotificationSink {
+  readonly delivered: AlertNotification[] = [];
+
+  async deliver(notification: AlertNotification): Promise<void> {
+    this.delivered.push(notification);
+  }
+
+  clear(): void {
+    this.delivered.length = 0;
+  }
+}
+
+/**
+ * Shows notifications immediately via expo-notifications
+ */
+export class LocalNotificationSink implements NotificationSink {
+  private permitted?: boolean;
+
+  /**
+   * Ask for notification permission. Returns whether it was granted.
+   */
+  async requestPermissions(): Promise<boolean> {
+    const current = await Notifications.getPermissionsAsync();
+    const result = current.granted ? current : await Notifications.requestPermissionsAsync();
+    this.permitted = result.granted;
+    return result.granted;
+  }
+
+  async deliver(notification: AlertNotification): Promise<void> {
+    if (this.permitted === undefined) {
+      await this.requestPermissions();
+    }
+    if (!this.permitted) return;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: { ruleId: notification.ruleId, ...notification.data },
+      },
+      trigger: null,
+    });
+  }
+}
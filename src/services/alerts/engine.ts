@@ -0,0 +1,605 @@
+/**
+ * Alert Engine
+ * Evaluates alert rules against each store update and delivers notifications
+ */
+
+import type {
+  AlertNotification,
+  AlertRule,
+  Collection,
+  FloorChangeRule,
+  FloorThresholdRule,
+  NFT,
+  NFTChangeSet,
+  QuietHours,
+  Wallet,
+} from '../../types';
+import type { NFTDatabase } from '../storage/database';
+import type { ValuePoint } from '../valuation/history';
+import type { NotificationSink } from './delivery';
+import { toChangeSet } from '../nft/diff';
+import { isHeldBy } from '../nft/holdings';
+import { isHidden } from '../nft/spam';
+import { formatAmount, getWalletDisplayName } from '../../utils/formatting';
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_COOLDOWN = 6 * HOUR;
+const DEFAULT_TRANSFER_GRACE = 15 * 60 * 1000;
+const OBSERVATION_RETENTION = 30 * 24 * HOUR;
+
+/**
+ * The parts of store state rules are evaluated against
+ */
+export interface AlertSnapshot {
+  nfts: Map<string, NFT>;
+  collections: Map<string, Collection>;
+}
+
+export interface AlertEvaluationInput {
+  previous: AlertSnapshot;
+  current: AlertSnapshot;
+  changes?: NFTChangeSet;
+  wallets: Wallet[];
+  now: number;
+}
+
+export interface AlertCandidate {
+  rule: AlertRule;
+  dedupKeys: string[];
+  cooldown: number; // ms before the same keys may fire again
+  title: string;
+  body: string;
+  data?: AlertNotification['data'];
+}
+
+/**
+ * Floor points for a collection in one currency since a time, oldest first
+ */
+export type FloorHistoryLoader = (
+  collectionId: string,
+  currency: string,
+  since: number
+) => Promise<ValuePoint[]>;
+
+export interface EvaluateOptions {
+  loadFloorHistory?: FloorHistoryLoader;
+  isDuplicate?: (key: string) => boolean;
+  cooldown?: number;
+}
+
+/**
+ * Evaluate rules for one state transition. Event rules produce one candidate
+ * per rule covering every NFT that isn't a duplicate.
+ */
+export async function evaluateRules(
+  rules: AlertRule[],
+  input: AlertEvaluationInput,
+  options: EvaluateOptions = {}
+): Promise<AlertCandidate[]> {
+  const isDuplicate = options.isDuplicate || (() => false);
+  const cooldown = options.cooldown ?? DEFAULT_COOLDOWN;
+  const candidates: AlertCandidate[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    let candidate: AlertCandidate | undefined;
+    switch (rule.type) {
+      case 'floor_threshold':
+        candidate = evaluateFloorThreshold(rule, input, cooldown);
+        break;
+      case 'floor_change':
+        candidate = options.loadFloorHistory
+          ? await evaluateFloorChange(rule, input, options.loadFloorHistory)
+          : undefined;
+        break;
+      case 'new_nft':
+      case 'farcaster_mint':
+      case 'nft_transferred_out':
+        candidate = evaluateNFTEvent(rule, input, isDuplicate, cooldown);
+        break;
+    }
+
+    if (candidate && !candidate.dedupKeys.every(isDuplicate)) {
+      candidates.push(candidate);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Whether a time falls inside quiet hours (local time)
+ */
+export function isQuietTime(quietHours: QuietHours | undefined, date: Date): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const hour = date.getHours();
+  return quietHours.start < quietHours.end
+    ? hour >= quietHours.start && hour < quietHours.end
+    : hour >= quietHours.start || hour < quietHours.end;
+}
+
+/**
+ * When the quiet hours a time falls in end; undefined outside quiet hours
+ */
+export function getQuietTimeEnd(quietHours: QuietHours | undefined, date: Date): number | undefined {
+  if (!quietHours || !isQuietTime(quietHours, date)) return undefined;
+  const end = new Date(date);
+  end.setHours(quietHours.end, 0, 0, 0);
+  if (end.getTime() <= date.getTime()) end.setDate(end.getDate() + 1);
+  return end.getTime();
+}
+
+/**
+ * Floor history loader backed by the snapshots HistoryTracker records
+ */
+export function floorHistoryFromDatabase(db: NFTDatabase): FloorHistoryLoader {
+  return async (collectionId, currency, since) => {
+    const snapshots = await db.loadFloorSnapshots(collectionId, since);
+    return snapshots
+      .filter((s) => s.currency === currency)
+      .map((s) => ({ timestamp: s.timestamp, value: s.amount }));
+  };
+}
+
+interface AlertStoreState extends AlertSnapshot {
+  wallets: Wallet[];
+  alertRules: AlertRule[];
+  lastChangeSet?: NFTChangeSet;
+  settings: { enableNotifications: boolean; quietHours?: QuietHours };
+  heldAlerts: AlertNotification[];
+  setHeldAlerts: (notifications: AlertNotification[]) => void;
+}
+
+/**
+ * Minimal slice of the Zustand store the alert engine depends on
+ */
+export interface AlertStore {
+  getState: () => AlertStoreState;
+  subscribe: (
+    listener: (state: AlertStoreState, prevState: AlertStoreState) => void
+  ) => () => void;
+}
+
+export interface AlertEngineConfig {
+  store: AlertStore;
+  sink: NotificationSink;
+  /**
+   * Source for floor_change baselines. Without one, the engine uses the
+   * floors it has observed since it was created.
+   */
+  loadFloorHistory?: FloorHistoryLoader;
+  cooldown?: number;
+  /**
+   * How long to hold back transferred-out alerts in case the NFT turns up in
+   * another of our wallets; 0 reports them immediately
+   */
+  transferGraceMs?: number;
+  now?: () => number;
+}
+
+export class AlertEngine {
+  private store: AlertStore;
+  private sink: NotificationSink;
+  private loadFloorHistory: FloorHistoryLoader;
+  private cooldown: number;
+  private transferGraceMs: number;
+  private now: () => number;
+  private fired = new Map<string, number>(); // dedup key -> expires at
+  private heldTimer?: ReturnType<typeof setTimeout>;
+  private departures = new Map<string, { nft: NFT; walletId: string; at: number }>(); // `${walletId}:${nftId}`
+  private departureTimer?: ReturnType<typeof setTimeout>;
+  private observations = new Map<string, ValuePoint[]>(); // `${collectionId}:${currency}` -> floors
+  private pending: Promise<unknown> = Promise.resolve();
+  private unsubscribe?: () => void;
+
+  constructor(config: AlertEngineConfig) {
+    this.store = config.store;
+    this.sink = config.sink;
+    this.cooldown = config.cooldown ?? DEFAULT_COOLDOWN;
+    this.transferGraceMs = config.transferGraceMs ?? DEFAULT_TRANSFER_GRACE;
+    this.now = config.now || Date.now;
+    this.loadFloorHistory = config.loadFloorHistory || this.loadObservedFloors;
+
+    this.recordFloors(this.store.getState().collections, new Map(), this.now());
+
+    // Evaluate every NFT or collection update against the state it replaced
+    this.unsubscribe = this.store.subscribe((state, prevState) => {
+      // Re-time held alerts when quiet hours change or held alerts are restored
+      if (state.settings.quietHours !== prevState.settings.quietHours) {
+        this.clearHeldTimer();
+        this.scheduleHeld();
+      } else if (state.heldAlerts !== prevState.heldAlerts) {
+        this.scheduleHeld();
+      }
+      if (state.nfts === prevState.nfts && state.collections === prevState.collections) return;
+
+      const input: AlertEvaluationInput = {
+        previous: prevState,
+        current: state,
+        changes: state.lastChangeSet !== prevState.lastChangeSet ? state.lastChangeSet : undefined,
+        wallets: state.wallets,
+        now: this.now(),
+      };
+
+      // Serialize evaluations so de-duplication sees earlier results
+      this.pending = this.pending
+        .then(() => this.evaluate(input))
+        .catch((error) => console.warn('Alert evaluation failed:', error));
+    });
+
+    // Alerts held before a restart are delivered when their quiet hours end
+    this.scheduleHeld();
+  }
+
+  /**
+   * Evaluate rules for a state transition and dispatch the resulting notifications.
+   * Returns the notifications raised (delivered or held for quiet hours).
+   */
+  async evaluate(input: AlertEvaluationInput): Promise<AlertNotification[]> {
+    this.recordFloors(input.current.collections, input.previous.collections, input.now);
+    const changes = input.changes && this.deferDepartures(input.changes, input.now);
+
+    const { alertRules, settings } = this.store.getState();
+    if (!settings.enableNotifications || alertRules.length === 0) return [];
+
+    this.expireFired(input.now);
+    const candidates = await evaluateRules(alertRules, { ...input, changes }, {
+      loadFloorHistory: this.loadFloorHistory,
+      isDuplicate: (key) => this.fired.has(key),
+      cooldown: this.cooldown,
+    });
+
+    return this.dispatch(candidates, input.now);
+  }
+
+  /**
+   * Report NFTs whose transfer grace period has run out without them
+   * arriving in another of our wallets
+   */
+  async flushDepartures(): Promise<AlertNotification[]> {
+    const now = this.now();
+    const due = new Map<string, NFT[]>(); // walletId -> NFTs
+    this.departures.forEach((departure, key) => {
+      if (departure.at + this.transferGraceMs > now) return;
+      this.departures.delete(key);
+      due.set(departure.walletId, [...(due.get(departure.walletId) || []), departure.nft]);
+    });
+    this.scheduleDepartures();
+
+    const state = this.store.getState();
+    const rules = state.alertRules.filter((rule) => rule.type === 'nft_transferred_out');
+    if (!state.settings.enableNotifications || rules.length === 0) return [];
+
+    this.expireFired(now);
+    const raised: AlertNotification[] = [];
+    for (const [walletId, nfts] of due) {
+      const candidates = await evaluateRules(
+        rules,
+        {
+          previous: state,
+          current: state,
+          changes: toChangeSet(walletId, { added: [], changed: [], transferredOut: nfts }, now),
+          wallets: state.wallets,
+          now,
+        },
+        { isDuplicate: (key) => this.fired.has(key), cooldown: this.cooldown }
+      );
+      raised.push(...(await this.dispatch(candidates, now)));
+    }
+    return raised;
+  }
+
+  /**
+   * Deliver notifications held during quiet hours, if quiet hours have ended.
+   * Runs on its own when they end; no new alert is needed.
+   */
+  async flushHeld(): Promise<void> {
+    const { settings, heldAlerts, setHeldAlerts } = this.store.getState();
+    if (heldAlerts.length === 0 || isQuietTime(settings.quietHours, new Date(this.now()))) return;
+
+    setHeldAlerts([]);
+    for (const notification of heldAlerts) {
+      await this.deliver(notification);
+    }
+  }
+
+  /**
+   * Notifications waiting for quiet hours to end
+   */
+  getHeld(): AlertNotification[] {
+    return [...this.store.getState().heldAlerts];
+  }
+
+  /**
+   * Stop listening to the store; pending evaluations still finish.
+   * Transfers still in their grace period are dropped.
+   */
+  dispose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    if (this.departureTimer) clearTimeout(this.departureTimer);
+    this.departureTimer = undefined;
+    this.departures.clear();
+    this.clearHeldTimer();
+  }
+
+  /**
+   * Turn candidates into notifications, then deliver them or hold them for quiet hours
+   */
+  private async dispatch(candidates: AlertCandidate[], now: number): Promise<AlertNotification[]> {
+    const { settings } = this.store.getState();
+    const notifications = candidates.map((candidate) => {
+      candidate.dedupKeys.forEach((key) => this.fired.set(key, now + candidate.cooldown));
+      return {
+        id: `alert_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        ruleId: candidate.rule.id,
+        title: candidate.title,
+        body: candidate.body,
+        createdAt: now,
+        data: candidate.data,
+      };
+    });
+
+    if (isQuietTime(settings.quietHours, new Date(now))) {
+      if (notifications.length > 0) {
+        const { heldAlerts, setHeldAlerts } = this.store.getState();
+        setHeldAlerts([...heldAlerts, ...notifications]);
+        this.scheduleHeld();
+      }
+      return notifications;
+    }
+
+    await this.flushHeld();
+    for (const notification of notifications) {
+      await this.deliver(notification);
+    }
+    return notifications;
+  }
+
+  /**
+   * Hold this change set's departures back, and cancel earlier ones that
+   * turned out to be moves between our wallets
+   */
+  private deferDepartures(changes: NFTChangeSet, now: number): NFTChangeSet {
+    changes.internalTransfers.forEach((transfer) => {
+      this.departures.delete(`${transfer.fromWalletId}:${transfer.nft.id}`);
+    });
+    if (this.transferGraceMs <= 0 || changes.transferredOut.length === 0) return changes;
+
+    changes.transferredOut.forEach((nft) => {
+      this.departures.set(`${changes.walletId}:${nft.id}`, {
+        nft,
+        walletId: changes.walletId,
+        at: now,
+      });
+    });
+    this.scheduleDepartures();
+    return { ...changes, transferredOut: [] };
+  }
+
+  private scheduleDepartures(): void {
+    if (this.departureTimer || this.departures.size === 0 || !this.unsubscribe) return;
+
+    let earliest = Infinity;
+    this.departures.forEach((departure) => {
+      earliest = Math.min(earliest, departure.at);
+    });
+
+    this.departureTimer = setTimeout(() => {
+      this.departureTimer = undefined;
+      this.pending = this.pending
+        .then(() => this.flushDepartures())
+        .catch((error) => console.warn('Alert evaluation failed:', error));
+    }, Math.max(0, earliest + this.transferGraceMs - this.now()));
+  }
+
+  /**
+   * Flush held notifications when the current quiet hours end
+   */
+  private scheduleHeld(): void {
+    const { settings, heldAlerts } = this.store.getState();
+    if (this.heldTimer || heldAlerts.length === 0 || !this.unsubscribe) return;
+
+    const now = this.now();
+    const end = getQuietTimeEnd(settings.quietHours, new Date(now)) ?? now;
+    this.heldTimer = setTimeout(() => {
+      this.heldTimer = undefined;
+      this.pending = this.pending
+        .then(() => this.flushHeld())
+        .catch((error) => console.warn('Alert delivery failed:', error))
+        // Quiet hours may have moved while the timer ran
+        .then(() => this.scheduleHeld());
+    }, Math.max(0, end - now));
+  }
+
+  private clearHeldTimer(): void {
+    if (this.heldTimer) clearTimeout(this.heldTimer);
+    this.heldTimer = undefined;
+  }
+
+  private async deliver(notification: AlertNotification): Promise<void> {
+    try {
+      await this.sink.deliver(notification);
+    } catch (error) {
+      console.warn(`Failed to deliver alert ${notification.id}:`, error);
+    }
+  }
+
+  private expireFired(now: number): void {
+    this.fired.forEach((expiresAt, key) => {
+      if (expiresAt <= now) this.fired.delete(key);
+    });
+  }
+
+  private recordFloors(
+    current: Map<string, Collection>,
+    previous: Map<string, Collection>,
+    now: number
+  ): void {
+    current.forEach((collection, id) => {
+      const floor = collection.floorPrice;
+      const before = previous.get(id)?.floorPrice;
+      if (!floor || (before && before.amount === floor.amount && before.currency === floor.currency)) {
+        return;
+      }
+
+      const key = `${id}:${floor.currency}`;
+      const points = (this.observations.get(key) || []).filter(
+        (p) => p.timestamp > now - OBSERVATION_RETENTION
+      );
+      points.push({ timestamp: now, value: floor.amount });
+      this.observations.set(key, points);
+    });
+  }
+
+  private loadObservedFloors: FloorHistoryLoader = async (collectionId, currency, since) =>
+    (this.observations.get(`${collectionId}:${currency}`) || []).filter(
+      (p) => p.timestamp >= since
+    );
+}
+
+function evaluateFloorThreshold(
+  rule: FloorThresholdRule,
+  input: AlertEvaluationInput,
+  cooldown: number
+): AlertCandidate | undefined {
+  const collection = input.current.collections.get(rule.collectionId);
+  const floor = collection?.floorPrice;
+  const before = input.previous.collections.get(rule.collectionId)?.floorPrice;
+  if (!collection || !floor || !before || floor.currency !== before.currency) return undefined;
+
+  const crossed =
+    rule.direction === 'above'
+      ? before.amount <= rule.threshold && floor.amount > rule.threshold
+      : before.amount >= rule.threshold && floor.amount < rule.threshold;
+  if (!crossed) return undefined;
+
+  return {
+    rule,
+    dedupKeys: [`${rule.id}:${rule.direction}`],
+    cooldown,
+    title: `${collection.name} floor ${rule.direction} ${formatAmount(rule.threshold, floor.currency)}`,
+    body: `Floor is now ${formatAmount(floor.amount, floor.currency)} (was ${formatAmount(before.amount, before.currency)})`,
+    data: { collectionId: rule.collectionId },
+  };
+}
+
+async function evaluateFloorChange(
+  rule: FloorChangeRule,
+  input: AlertEvaluationInput,
+  loadFloorHistory: FloorHistoryLoader
+): Promise<AlertCandidate | undefined> {
+  const collection = input.current.collections.get(rule.collectionId);
+  const floor = collection?.floorPrice;
+  const before = input.previous.collections.get(rule.collectionId)?.floorPrice;
+  // Only re-check when the floor actually moved
+  if (!collection || !floor || (before?.amount === floor.amount && before.currency === floor.currency)) {
+    return undefined;
+  }
+
+  const history = await loadFloorHistory(rule.collectionId, floor.currency, input.now - rule.window);
+  const baseline = history.find((p) => p.timestamp < input.now && p.value > 0);
+  if (!baseline) return undefined;
+
+  const percent = ((floor.amount - baseline.value) / baseline.value) * 100;
+  const matchesDirection =
+    !rule.direction || (rule.direction === 'up' ? percent > 0 : percent < 0);
+  if (!matchesDirection || Math.abs(percent) < rule.percent) return undefined;
+
+  const sign = percent > 0 ? '+' : '';
+  return {
+    rule,
+    dedupKeys: [rule.id],
+    // One alert per window for the same move
+    cooldown: rule.window,
+    title: `${collection.name} floor ${sign}${percent.toFixed(1)}%`,
+    body: `Floor moved from ${formatAmount(baseline.value, floor.currency)} to ${formatAmount(floor.amount, floor.currency)}`,
+    data: { collectionId: rule.collectionId },
+  };
+}
+
+function evaluateNFTEvent(
+  rule: AlertRule & { type: 'new_nft' | 'farcaster_mint' | 'nft_transferred_out' },
+  input: AlertEvaluationInput,
+  isDuplicate: (key: string) => boolean,
+  cooldown: number
+): AlertCandidate | undefined {
+  const { changes } = input;
+  if (!changes) return undefined;
+  if ('walletId' in rule && rule.walletId && rule.walletId !== changes.walletId) return undefined;
+
+  let nfts: NFT[];
+  if (rule.type === 'nft_transferred_out') {
+    nfts = changes.transferredOut;
+  } else {
+    // A wallet's first sync is its baseline, not a batch of new arrivals
+    if (!hasWalletNFTs(input.previous.nfts, changes.walletId)) return undefined;
+    // Spam airdrops are exactly the arrivals nobody wants to hear about
+    nfts = changes.added.filter((nft) => !isHidden(nft));
+  }
+
+  if (rule.type === 'farcaster_mint') {
+    const channel = rule.channel?.toLowerCase();
+    nfts = nfts.filter(
+      (nft) =>
+        nft.metadata.isFarcasterMint &&
+        (!channel || nft.metadata.farcasterChannel?.toLowerCase() === channel)
+    );
+  }
+
+  const fresh = nfts.filter((nft) => !isDuplicate(`${rule.id}:${nft.id}`));
+  if (fresh.length === 0) return undefined;
+
+  const walletLabel = getWalletLabel(input.wallets, changes.walletId);
+  const names = listNames(fresh);
+  const count = fresh.length === 1 ? 'NFT' : `${fresh.length} NFTs`;
+
+  let title: string;
+  let body: string;
+  switch (rule.type) {
+    case 'new_nft':
+      title = fresh.length === 1 ? `New NFT in ${walletLabel}` : `${count} new in ${walletLabel}`;
+      body = names;
+      break;
+    case 'farcaster_mint': {
+      const channels = Array.from(
+        new Set(fresh.map((nft) => nft.metadata.farcasterChannel).filter(Boolean))
+      );
+      title = channels.length === 1 ? `New mint in /${channels[0]}` : 'New Farcaster mint';
+      body = `${names} in ${walletLabel}`;
+      break;
+    }
+    case 'nft_transferred_out':
+      title = fresh.length === 1 ? `NFT left ${walletLabel}` : `${count} left ${walletLabel}`;
+      body = names;
+      break;
+  }
+
+  return {
+    rule,
+    dedupKeys: fresh.map((nft) => `${rule.id}:${nft.id}`),
+    cooldown,
+    title,
+    body,
+    data: { walletId: changes.walletId, nftIds: fresh.map((nft) => nft.id) },
+  };
+}
+
+function hasWalletNFTs(nfts: Map<string, NFT>, walletId: string): boolean {
+  for (const nft of nfts.values()) {
+    if (isHeldBy(nft, walletId)) return true;
+  }
+  return false;
+}
+
+function getWalletLabel(wallets: Wallet[], walletId: string): string {
+  const wallet = wallets.find((w) => w.id === walletId);
+  return wallet ? getWalletDisplayName(wallet) : 'a wallet';
+}
+
+function listNames(nfts: NFT[], max: number = 3): string {
+  const names = nfts.slice(0, max).map((nft) => nft.name);
+  const rest = nfts.length - names.length;
+  return rest > 0 ? `${names.join(', ')} and ${rest} more` : names.join(', ');
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { startHubStub, type HubStubAccount, type HubStubConfig } from '../../../testing/hubStub';
+import type { StubServer } from '../../../testing/stubServer';
+import { flushDatabaseWrites, useStore } from '../../../store';
+import { toChecksumAddress } from '../../../utils/validation';
+import { HttpClient } from '../../http/client';
+import { FarcasterAccountSync } from '../accounts';
+import { FarcasterHubClient } from '../hub';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const HOUR = 60 * 60 * 1000;
+const START = 1_000_000;
+
+const CUSTODY = `0x${'11'.repeat(20)}`;
+const VERIFIED = `0x${'22'.repeat(20)}`;
+const NEWLY_VERIFIED = `0x${'33'.repeat(20)}`;
+
+describe('FarcasterAccountSync', () => {
+  let hub: StubServer;
+  let config: HubStubConfig;
+  let alice: HubStubAccount;
+  let clock: number;
+  let sync: FarcasterAccountSync;
+
+  beforeEach(async () => {
+    alice = { fid: 42, username: 'alice', custodyAddress: CUSTODY, verifiedAddresses: [VERIFIED] };
+    config = { accounts: [alice] };
+    hub = await startHubStub(config);
+    clock = START;
+    sync = new FarcasterAccountSync({
+      store: useStore,
+      hub: new FarcasterHubClient({
+        baseUrl: hub.url,
+        http: new HttpClient({ provider: 'Farcaster hub', retries: 0 }),
+      }),
+      intervalMs: 6 * HOUR,
+      retryMs: 15 * 60 * 1000,
+      now: () => clock,
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    sync.stop();
+    await hub.close();
+    jest.restoreAllMocks();
+    useStore.getState().clearAllData();
+    await flushDatabaseWrites();
+  });
+
+  const addresses = () => useStore.getState().wallets.map((w) => [w.address, w.label]);
+  const source = () => useStore.getState().walletSources[0];
+
+  it('links an account and adds its addresses as labeled wallets', async () => {
+    const result = await sync.addAccount('@alice');
+
+    expect(result.added).toHaveLength(2);
+    expect(addresses()).toEqual([
+      [toChecksumAddress(CUSTODY), '@alice'],
+      [toChecksumAddress(VERIFIED), '@alice'],
+    ]);
+    expect(useStore.getState().wallets.every((w) => w.sourceId === source().id)).toBe(true);
+    expect(source()).toMatchObject({ type: 'farcaster', fid: 42, username: 'alice' });
+    expect(source().lastCheckedAt).toBe(START);
+  });
+
+  it('re-checks an already linked account instead of linking it twice', async () => {
+    await sync.addAccount('@alice');
+    const again = await sync.addAccount(42);
+
+    expect(again.added).toEqual([]);
+    expect(useStore.getState().walletSources).toHaveLength(1);
+    expect(useStore.getState().wallets).toHaveLength(2);
+  });
+
+  it('picks up a newly verified address once the account is due', async () => {
+    await sync.addAccount('alice');
+    alice.verifiedAddresses.push(NEWLY_VERIFIED);
+
+    clock = START + 6 * HOUR - 1;
+    await sync.checkDue();
+    expect(useStore.getState().wallets).toHaveLength(2);
+
+    clock = START + 6 * HOUR;
+    await sync.checkDue();
+    expect(addresses()[2]).toEqual([toChecksumAddress(NEWLY_VERIFIED), '@alice']);
+    expect(source().lastCheckedAt).toBe(START + 6 * HOUR);
+  });
+
+  it('relabels wallets after a username change, except ones the user renamed', async () => {
+    const { added } = await sync.addAccount('@alice');
+    useStore.getState().updateWallet(added[1].id, { label: 'Hot wallet' });
+
+    alice.username = 'alicia';
+    await sync.check(source().id);
+
+    expect(addresses()).toEqual([
+      [toChecksumAddress(CUSTODY), '@alicia'],
+      [toChecksumAddress(VERIFIED), 'Hot wallet'],
+    ]);
+    expect(source().username).toBe('alicia');
+  });
+
+  it('waits retryMs after a failed check before trying again', async () => {
+    await sync.addAccount('@alice');
+    config.unavailable = true;
+
+    clock = START + 6 * HOUR;
+    await sync.checkDue();
+    expect(source().lastError).toMatch('503');
+    const requests = hub.requests.length;
+
+    clock += 15 * 60 * 1000 - 1;
+    await sync.checkDue();
+    expect(hub.requests).toHaveLength(requests);
+
+    config.unavailable = false;
+    clock += 1;
+    await sync.checkDue();
+    expect(hub.requests.length).toBeGreaterThan(requests);
+    expect(source().lastError).toBeUndefined();
+    expect(source().lastCheckedAt).toBe(clock);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { FarcasterCast, FarcasterChannel, NFT } from '../../../types';
+import { FarcasterChannelService, summarizeChannels } from '../channels';
+import type { FarcasterDataClient } from '../data';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeMint(tokenId: string, channel?: string, overrides: Partial<NFT> = {}): NFT {
+  const contract = `0x${'ab'.repeat(20)}`;
+  return {
+    id: `eip155:8453/nft:${contract}/${tokenId}`,
+    walletId: 'wallet-1',
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: contract,
+    tokenId,
+    name: `Mint #${tokenId}`,
+    image: '',
+    collection: { name: 'Mints', address: contract },
+    metadata: { isFarcasterMint: true, farcasterChannel: channel, attributes: [] },
+    lastFetched: 0,
+    ...overrides,
+  };
+}
+
+const channel: FarcasterChannel = { id: 'art', name: 'Art' };
+const cast: FarcasterCast = { hash: '0xcast', author: { fid: 1 }, text: 'mint', timestamp: 0 };
+
+function createClient(): { [K in keyof FarcasterDataClient]: jest.Mock<FarcasterDataClient[K]> } {
+  return {
+    getChannel: jest.fn(async () => channel),
+    findMintCast: jest.fn(async () => cast),
+  };
+}
+
+describe('summarizeChannels', () => {
+  it('orders channels by mint count, then name, and mints by most recent', () => {
+    const summaries = summarizeChannels([
+      makeMint('1', 'zora', { firstSeenAt: 10 }),
+      makeMint('2', 'art', { firstSeenAt: 30 }),
+      makeMint('3', 'zora', { lastFetched: 50 }),
+      makeMint('4', 'base'),
+      makeMint('5', 'art', { firstSeenAt: 20 }),
+      makeMint('6', 'zora', { firstSeenAt: 40 }),
+    ]);
+
+    expect(summaries.map(({ id, count }) => [id, count])).toEqual([
+      ['zora', 3],
+      ['art', 2],
+      ['base', 1],
+    ]);
+    expect(summaries[0].nfts.map((nft) => nft.tokenId)).toEqual(['3', '6', '1']);
+    expect(summaries[1].nfts.map((nft) => nft.tokenId)).toEqual(['2', '5']);
+  });
+
+  it('leaves out mints without a channel and NFTs that are not mints', () => {
+    const notMint = makeMint('2', 'art');
+    notMint.metadata = { ...notMint.metadata, isFarcasterMint: false };
+
+    expect(summarizeChannels([makeMint('1'), notMint])).toEqual([]);
+  });
+});
+
+describe('FarcasterChannelService', () => {
+  it('shares one request between concurrent lookups', async () => {
+    const client = createClient();
+    const service = new FarcasterChannelService({ client });
+
+    const first = service.getChannel('art');
+    const second = service.getChannel('art');
+
+    expect(second).toBe(first);
+    await expect(first).resolves.toBe(channel);
+    expect(client.getChannel).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks a channel up again once its TTL has passed', async () => {
+    let clock = 0;
+    const client = createClient();
+    const service = new FarcasterChannelService({ client, channelTtlMs: HOUR, now: () => clock });
+
+    await service.getChannel('art');
+    clock = HOUR - 1;
+    await service.getChannel('art');
+    expect(client.getChannel).toHaveBeenCalledTimes(1);
+
+    clock = HOUR;
+    await service.getChannel('art');
+    expect(client.getChannel).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failed lookups', async () => {
+    const client = createClient();
+    client.findMintCast.mockRejectedValueOnce(new Error('Neynar down'));
+    const service = new FarcasterChannelService({ client });
+    const mint = makeMint('1', 'art');
+
+    await expect(service.getMintCast(mint)).rejects.toThrow('Neynar down');
+    await expect(service.getMintCast(mint)).resolves.toBe(cast);
+    await service.getMintCast(mint);
+
+    expect(client.findMintCast).toHaveBeenCalledTimes(2);
+  });
+
+  it('remembers that no cast was found', async () => {
+    const client = createClient();
+    client.findMintCast.mockResolvedValue(undefined);
+    const service = new FarcasterChannelService({ client });
+    const mint = makeMint('1', 'art');
+
+    await expect(service.getMintCast(mint)).resolves.toBeUndefined();
+    await expect(service.getMintCast(mint)).resolves.toBeUndefined();
+
+    expect(client.findMintCast).toHaveBeenCalledTimes(1);
+  });
+
+  it('only looks up casts for Farcaster mints', async () => {
+    const client = createClient();
+    const service = new FarcasterChannelService({ client });
+    const notMint = makeMint('1');
+    notMint.metadata = { ...notMint.metadata, isFarcasterMint: false };
+
+    await expect(service.getMintCast(notMint)).resolves.toBeUndefined();
+    expect(client.findMintCast).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import type { NFT, NeynarCast } from '../../../types';
+import { startStubServer, type StubServer } from '../../../testing/stubServer';
+import { HttpClient } from '../../http/client';
+import { NeynarDataClient } from '../data';
+
+const CONTRACT = `0x${'ab'.repeat(20)}`;
+
+function makeMint(tokenId: string, tokenStandard: NFT['tokenStandard']): NFT {
+  return {
+    id: `eip155:8453/nft:${CONTRACT}/${tokenId}`,
+    walletId: 'wallet-1',
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: CONTRACT,
+    tokenId,
+    tokenStandard,
+    name: `Mint #${tokenId}`,
+    image: '',
+    collection: { name: 'Mints', address: CONTRACT },
+    metadata: { isFarcasterMint: true, farcasterChannel: 'art', attributes: [] },
+    lastFetched: 0,
+  };
+}
+
+function makeCast(hash: string, url: string): NeynarCast {
+  return {
+    hash,
+    text: 'New drop',
+    timestamp: '2026-01-01T00:00:00Z',
+    author: { fid: 1, username: 'artist' },
+    embeds: [{ url }],
+    channel: { id: 'art' },
+  };
+}
+
+describe('NeynarDataClient.findMintCast', () => {
+  let server: StubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function search(casts: NeynarCast[]): Promise<NeynarDataClient> {
+    server = await startStubServer(() => ({ body: { result: { casts } } }));
+    return new NeynarDataClient({
+      apiKey: 'test-key',
+      baseUrl: server.url,
+      http: new HttpClient({ provider: 'Neynar', retries: 0 }),
+    });
+  }
+
+  it('prefers a cast linking to the token over one linking to its contract', async () => {
+    const client = await search([
+      makeCast('0xcontract', `https://zora.co/collect/base:${CONTRACT}`),
+      makeCast('0xother-token', `https://zora.co/collect/base:${CONTRACT}/12`),
+      makeCast('0xtoken', `https://zora.co/collect/base:${CONTRACT}/1`),
+    ]);
+
+    const cast = await client.findMintCast(makeMint('1', 'erc721'));
+
+    expect(cast?.hash).toBe('0xtoken');
+    expect(cast?.channelId).toBe('art');
+    expect(server?.requests[0].url.searchParams.get('q')).toBe(CONTRACT);
+    expect(server?.requests[0].url.searchParams.get('channel_id')).toBe('art');
+  });
+
+  it('falls back to a contract link for an ERC-721 token', async () => {
+    const client = await search([
+      makeCast('0xcontract', `https://zora.co/collect/base:${CONTRACT}`),
+    ]);
+
+    await expect(client.findMintCast(makeMint('1', 'erc721'))).resolves.toMatchObject({
+      hash: '0xcontract',
+    });
+  });
+
+  it('does not attribute a contract link to an ERC-1155 token', async () => {
+    const client = await search([
+      makeCast('0xother-token', `https://zora.co/collect/base:${CONTRACT}/12`),
+      makeCast('0xcontract', `https://zora.co/collect/base:${CONTRACT}`),
+    ]);
+
+    await expect(client.findMintCast(makeMint('1', 'erc1155'))).resolves.toBeUndefined();
+  });
+});
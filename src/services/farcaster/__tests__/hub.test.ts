@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { startStubServer, type StubServer } from '../../../testing/stubServer';
+import { HttpClient } from '../../http/client';
+import { HttpError } from '../../http/errors';
+import { FarcasterAccountNotFoundError, FarcasterHubClient } from '../hub';
+
+const CUSTODY = '0x1111111111111111111111111111111111111111';
+const VERIFIED = '0x2222222222222222222222222222222222222222';
+
+// Error bodies as hubs send them
+const notFound = (details: string) => ({
+  status: 400,
+  body: { errCode: 'not_found', presentable: false, name: 'HubError', code: 3, details },
+});
+const validationFailure = (details: string) => ({
+  status: 400,
+  body: {
+    errCode: 'bad_request.validation_failure',
+    presentable: false,
+    name: 'HubError',
+    code: 3,
+    details,
+    metadata: { errcode: ['bad_request.validation_failure'] },
+  },
+});
+
+describe('FarcasterHubClient', () => {
+  let hub: StubServer;
+  let client: FarcasterHubClient;
+
+  beforeEach(async () => {
+    hub = await startStubServer((request) => {
+      const params = request.url.searchParams;
+      switch (request.url.pathname) {
+        case '/v1/userNameProofByName': {
+          const name = params.get('name') || '';
+          if (name === 'alice') return { body: { name, owner: CUSTODY, fid: 42, timestamp: 1 } };
+          if (!/^[a-z0-9][a-z0-9-]{0,15}(\.eth)?$/.test(name)) {
+            return validationFailure(`name "${name}" is not a valid fname`);
+          }
+          return notFound(`NotFound: userNameProof not found for ${name}`);
+        }
+        case '/v1/onChainIdRegistryEventByFid':
+          return params.get('fid') === '42'
+            ? { body: { fid: 42, idRegisterEventBody: { to: CUSTODY } } }
+            : notFound('NotFound: no id registry event');
+        case '/v1/userDataByFid':
+          return {
+            body: {
+              data: {
+                type: 'MESSAGE_TYPE_USER_DATA_ADD',
+                fid: 42,
+                timestamp: 1,
+                userDataBody: { type: 'USER_DATA_TYPE_USERNAME', value: 'alice' },
+              },
+            },
+          };
+        case '/v1/verificationsByFid':
+          return {
+            body: {
+              messages: [
+                {
+                  data: {
+                    type: 'MESSAGE_TYPE_VERIFICATION_ADD_ETH_ADDRESS',
+                    fid: 42,
+                    timestamp: 2,
+                    verificationAddAddressBody: {
+                      address: VERIFIED,
+                      protocol: 'PROTOCOL_ETHEREUM',
+                    },
+                  },
+                },
+              ],
+              nextPageToken: '',
+            },
+          };
+        default:
+          return { status: 404 };
+      }
+    });
+    client = new FarcasterHubClient({
+      baseUrl: hub.url,
+      http: new HttpClient({ provider: 'Farcaster hub', retries: 0 }),
+    });
+  });
+
+  afterEach(() => hub.close());
+
+  it('resolves a username to its account', async () => {
+    await expect(client.resolveAccount('@alice')).resolves.toEqual({
+      fid: 42,
+      username: 'alice',
+      custodyAddress: CUSTODY,
+      verifiedAddresses: [{ address: VERIFIED, chain: 'evm' }],
+    });
+  });
+
+  it('treats a 400 not_found as no such account', async () => {
+    await expect(client.getFidByUsername('nobody')).resolves.toBeUndefined();
+    await expect(client.resolveAccount('nobody')).rejects.toBeInstanceOf(
+      FarcasterAccountNotFoundError
+    );
+    await expect(client.resolveAccount(7)).rejects.toBeInstanceOf(FarcasterAccountNotFoundError);
+  });
+
+  it('surfaces other 400s instead of reporting not found', async () => {
+    const error = await client.getFidByUsername('not a name!').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(400);
+    expect((error as HttpError).body).toMatchObject({ errCode: 'bad_request.validation_failure' });
+  });
+});
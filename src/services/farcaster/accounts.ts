@@ -0,0 +1,226 @@
+/**
+ * Farcaster Account Sync
+ * Imports a Farcaster account's custody and verified addresses as wallets and
+ * re-checks linked accounts so newly verified addresses appear automatically
+ */
+
+import type { FarcasterWalletSource, Wallet, WalletSource } from '../../types';
+import type { FarcasterAccount, FarcasterAddress, FarcasterHubClient } from './hub';
+
+const HOUR = 60 * 60 * 1000;
+
+interface AccountStoreState {
+  wallets: Wallet[];
+  walletSources: WalletSource[];
+  updateWallet: (id: string, updates: Partial<Wallet>) => void;
+  addWalletSource: (source: Omit<WalletSource, 'id' | 'addedAt'>) => string;
+  updateWalletSource: (id: string, updates: Partial<WalletSource>) => void;
+  addSourceWallets: (
+    sourceId: string,
+    addresses: FarcasterAddress[],
+    label?: string
+  ) => Wallet[];
+}
+
+/**
+ * Minimal slice of the Zustand store account sync depends on
+ */
+export interface FarcasterAccountStore {
+  getState: () => AccountStoreState;
+}
+
+export interface FarcasterAccountSyncConfig {
+  store: FarcasterAccountStore;
+  hub: FarcasterHubClient;
+  intervalMs?: number; // how often each linked account is re-checked
+  retryMs?: number; // wait after a failed check before trying again
+  now?: () => number;
+}
+
+export interface AccountCheckResult {
+  source: FarcasterWalletSource;
+  account: FarcasterAccount;
+  /**
+   * Wallets created by this check; addresses already tracked are skipped
+   */
+  added: Wallet[];
+}
+
+export class FarcasterAccountSync {
+  private store: FarcasterAccountStore;
+  private hub: FarcasterHubClient;
+  private intervalMs: number;
+  private retryMs: number;
+  private now: () => number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private checking = false;
+  // Last attempt per source, so a failing account isn't retried in a loop
+  private attempts = new Map<string, number>();
+
+  constructor(config: FarcasterAccountSyncConfig) {
+    this.store = config.store;
+    this.hub = config.hub;
+    this.intervalMs = config.intervalMs ?? 6 * HOUR;
+    this.retryMs = config.retryMs ?? 15 * 60 * 1000;
+    this.now = config.now || Date.now;
+  }
+
+  /**
+   * Link an account by username or FID and import its addresses. Linking an
+   * account that is already linked re-checks it instead.
+   */
+  async addAccount(input: string | number): Promise<AccountCheckResult> {
+    const account = await this.hub.resolveAccount(input);
+    const state = this.store.getState();
+
+    const existing = getFarcasterSources(state.walletSources).find(
+      (source) => source.fid === account.fid
+    );
+    const sourceId =
+      existing?.id ||
+      state.addWalletSource({ type: 'farcaster', fid: account.fid, username: account.username });
+
+    const result = this.apply(sourceId, account);
+    this.reschedule();
+    return result;
+  }
+
+  /**
+   * Re-resolve a linked account and add any addresses it verified since.
+   * Failures are recorded on the source and rethrown.
+   */
+  async check(sourceId: string): Promise<AccountCheckResult> {
+    const source = this.getSource(sourceId);
+    if (!source) {
+      throw new Error(`Unknown wallet source: ${sourceId}`);
+    }
+
+    this.attempts.set(sourceId, this.now());
+    try {
+      const account = await this.hub.resolveAccount(source.fid);
+      return this.apply(sourceId, account);
+    } catch (error) {
+      this.store.getState().updateWalletSource(sourceId, {
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check every linked account that is due. Never throws; failures are
+   * recorded on their sources.
+   */
+  async checkDue(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const now = this.now();
+      const due = getFarcasterSources(this.store.getState().walletSources).filter(
+        (source) => this.getDueAt(source) <= now
+      );
+
+      for (const source of due) {
+        try {
+          await this.check(source.id);
+        } catch (error) {
+          console.warn(`Failed to check Farcaster account ${source.fid}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Start re-checking linked accounts. Accounts that are overdue are checked right away.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.reschedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  private apply(sourceId: string, account: FarcasterAccount): AccountCheckResult {
+    const state = this.store.getState();
+    const previous = this.getSource(sourceId);
+    const label = formatAccountLabel(account);
+
+    // Follow username changes, leaving labels the user edited alone
+    if (previous && previous.username !== account.username) {
+      const oldLabel = formatAccountLabel(previous);
+      state.wallets
+        .filter((w) => w.sourceId === sourceId && w.label === oldLabel)
+        .forEach((w) => state.updateWallet(w.id, { label }));
+    }
+
+    const addresses: FarcasterAddress[] = account.custodyAddress
+      ? [{ address: account.custodyAddress, chain: 'evm' }, ...account.verifiedAddresses]
+      : account.verifiedAddresses;
+    const added = state.addSourceWallets(sourceId, addresses, label);
+
+    state.updateWalletSource(sourceId, {
+      username: account.username,
+      lastCheckedAt: this.now(),
+      lastError: undefined,
+    });
+
+    return { source: this.getSource(sourceId)!, account, added };
+  }
+
+  private getSource(id: string): FarcasterWalletSource | undefined {
+    return getFarcasterSources(this.store.getState().walletSources).find(
+      (source) => source.id === id
+    );
+  }
+
+  /**
+   * One interval after the last successful check, but not sooner than
+   * retryMs after the last attempt
+   */
+  private getDueAt(source: FarcasterWalletSource): number {
+    const dueAt = (source.lastCheckedAt ?? 0) + this.intervalMs;
+    const attempt = this.attempts.get(source.id);
+    return attempt !== undefined ? Math.max(dueAt, attempt + this.retryMs) : dueAt;
+  }
+
+  private reschedule(): void {
+    this.clearTimer();
+    if (!this.running) return;
+
+    const sources = getFarcasterSources(this.store.getState().walletSources);
+    if (sources.length === 0) return;
+
+    const nextDueAt = Math.min(...sources.map((source) => this.getDueAt(source)));
+    const delay = Math.max(0, nextDueAt - this.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.checkDue().finally(() => this.reschedule());
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Label for an account's wallets: the username, or the FID when it has none
+ */
+export function formatAccountLabel(account: { fid: number; username?: string }): string {
+  return account.username ? `@${account.username}` : `FID ${account.fid}`;
+}
+
+function getFarcasterSources(sources: WalletSource[]): FarcasterWalletSource[] {
+  return sources.filter((source): source is FarcasterWalletSource => source.type === 'farcaster');
+}
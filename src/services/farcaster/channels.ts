@@ -0,0 +1,112 @@
+/**
+ * Farcaster Channels
+ * Channel buckets for the channel browser, with cached channel info and mint casts
+ */
+
+import type { FarcasterCast, FarcasterChannel, NFT } from '../../types';
+import type { FarcasterDataClient } from './data';
+
+export interface ChannelSummary {
+  id: string;
+  count: number;
+  /**
+   * Mints in the channel, most recent first
+   */
+  nfts: NFT[];
+}
+
+/**
+ * Channels with Farcaster mints, most mints first. Mints without a channel are left out.
+ */
+export function summarizeChannels(nfts: NFT[]): ChannelSummary[] {
+  const byChannel = new Map<string, NFT[]>();
+
+  nfts.forEach((nft) => {
+    const channel = nft.metadata.isFarcasterMint ? nft.metadata.farcasterChannel : undefined;
+    if (!channel) return;
+    if (!byChannel.has(channel)) {
+      byChannel.set(channel, []);
+    }
+    byChannel.get(channel)!.push(nft);
+  });
+
+  return Array.from(byChannel.entries())
+    .map(([id, channelNfts]) => ({
+      id,
+      count: channelNfts.length,
+      nfts: channelNfts.sort(
+        (a, b) => (b.firstSeenAt ?? b.lastFetched) - (a.firstSeenAt ?? a.lastFetched)
+      ),
+    }))
+    .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id));
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+export interface FarcasterChannelServiceConfig {
+  client: FarcasterDataClient;
+  channelTtlMs?: number;
+  castTtlMs?: number; // also how long "no cast found" is remembered
+  now?: () => number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Caches channel info and mint casts in memory. Concurrent lookups of the same
+ * channel or NFT share one request, and failed lookups aren't cached.
+ */
+export class FarcasterChannelService {
+  private client: FarcasterDataClient;
+  private channelTtlMs: number;
+  private castTtlMs: number;
+  private now: () => number;
+  private channels = new Map<string, CacheEntry<FarcasterChannel | undefined>>();
+  private casts = new Map<string, CacheEntry<FarcasterCast | undefined>>();
+
+  constructor(config: FarcasterChannelServiceConfig) {
+    this.client = config.client;
+    this.channelTtlMs = config.channelTtlMs ?? 24 * HOUR;
+    this.castTtlMs = config.castTtlMs ?? 24 * HOUR;
+    this.now = config.now || Date.now;
+  }
+
+  getChannel(id: string): Promise<FarcasterChannel | undefined> {
+    return this.cached(this.channels, id, this.channelTtlMs, () => this.client.getChannel(id));
+  }
+
+  /**
+   * The cast an NFT was minted from. Only looked up for Farcaster mints.
+   */
+  getMintCast(nft: NFT): Promise<FarcasterCast | undefined> {
+    if (!nft.metadata.isFarcasterMint) return Promise.resolve(undefined);
+    return this.cached(this.casts, nft.id, this.castTtlMs, () => this.client.findMintCast(nft));
+  }
+
+  clear(): void {
+    this.channels.clear();
+    this.casts.clear();
+  }
+
+  private cached<T>(
+    cache: Map<string, CacheEntry<T>>,
+    key: string,
+    ttlMs: number,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > this.now()) return entry.value;
+
+    const value = load();
+    cache.set(key, { value, expiresAt: this.now() + ttlMs });
+    value.catch(() => {
+      if (cache.get(key)?.value === value) {
+        cache.delete(key);
+      }
+    });
+    return value;
+  }
+}
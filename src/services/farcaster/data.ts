@@ -0,0 +1,189 @@
+/**
+ * Farcaster Data
+ * Pluggable lookups of channel info and the casts NFTs were minted from
+ */
+
+import type {
+  FarcasterCast,
+  FarcasterChannel,
+  NFT,
+  NeynarCast,
+  NeynarCastSearchResponse,
+  NeynarChannelResponse,
+} from '../../types';
+import { HttpClient } from '../http/client';
+import { MalformedResponseError, NotFoundError } from '../http/errors';
+
+export interface FarcasterDataClient {
+  /**
+   * Channel info; undefined when no such channel exists
+   */
+  getChannel: (id: string) => Promise<FarcasterChannel | undefined>;
+  /**
+   * The cast or frame an NFT was minted from, matched by contract and token;
+   * undefined when none is found
+   */
+  findMintCast: (nft: NFT) => Promise<FarcasterCast | undefined>;
+}
+
+interface NeynarConfig {
+  apiKey: string;
+  baseUrl?: string;
+  http?: HttpClient;
+}
+
+const SEARCH_LIMIT = 25;
+
+/**
+ * Channels and cast search from the Neynar v2 API
+ */
+export class NeynarDataClient implements FarcasterDataClient {
+  private baseUrl: string;
+  private apiKey: string;
+  private http: HttpClient;
+
+  constructor(config: NeynarConfig) {
+    this.baseUrl = (config.baseUrl || 'https://api.neynar.com').replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.http =
+      config.http ||
+      new HttpClient({
+        provider: 'Neynar',
+        rateLimit: { capacity: 5, refillPerSecond: 5 },
+        secrets: [config.apiKey],
+      });
+  }
+
+  async getChannel(id: string): Promise<FarcasterChannel | undefined> {
+    let data: NeynarChannelResponse;
+    try {
+      data = await this.get<NeynarChannelResponse>(
+        `/v2/farcaster/channel?id=${encodeURIComponent(id)}`
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+
+    const channel = data?.channel;
+    if (!channel?.id) {
+      throw new MalformedResponseError('Neynar returned no channel', { provider: 'Neynar' });
+    }
+
+    return {
+      id: channel.id,
+      name: channel.name || channel.id,
+      description: channel.description || undefined,
+      imageUrl: channel.image_url || undefined,
+      url: channel.url || undefined,
+      followerCount: channel.follower_count,
+    };
+  }
+
+  /**
+   * Search casts for the token's contract (or mint), in its channel when known.
+   * A cast linking to this exact token wins over one linking to its contract.
+   * Contract links only count for ERC-721 tokens: an ERC-1155 contract holds
+   * many separate drops, and a cast for one of them isn't the mint of the rest.
+   */
+  async findMintCast(nft: NFT): Promise<FarcasterCast | undefined> {
+    const address = nft.chain === 'solana' ? nft.tokenId : nft.contractAddress;
+    const params = new URLSearchParams({ q: address, limit: String(SEARCH_LIMIT) });
+    if (nft.metadata.farcasterChannel) {
+      params.set('channel_id', nft.metadata.farcasterChannel);
+    }
+
+    const data = await this.get<NeynarCastSearchResponse>(
+      `/v2/farcaster/cast/search?${params.toString()}`
+    );
+    const casts = data?.result?.casts;
+    if (!Array.isArray(casts)) {
+      throw new MalformedResponseError('Neynar returned no casts', { provider: 'Neynar' });
+    }
+
+    const match =
+      casts.find((cast) => linksToToken(cast, nft)) ||
+      (nft.tokenStandard === 'erc721'
+        ? casts.find((cast) => linksToContract(cast, nft))
+        : undefined);
+    return match ? toFarcasterCast(match) : undefined;
+  }
+
+  private get<T>(path: string): Promise<T> {
+    return this.http.get<T>(`${this.baseUrl}${path}`, {
+      headers: { 'x-api-key': this.apiKey },
+    });
+  }
+}
+
+/**
+ * Fixed channels and casts, for tests and offline use
+ */
+export class StaticFarcasterDataClient implements FarcasterDataClient {
+  private channels: Map<string, FarcasterChannel>;
+  private casts: Map<string, FarcasterCast>;
+
+  /**
+   * @param casts NFT id -> the cast it was minted from
+   */
+  constructor(channels: FarcasterChannel[] = [], casts: Record<string, FarcasterCast> = {}) {
+    this.channels = new Map(channels.map((channel) => [channel.id, channel]));
+    this.casts = new Map(Object.entries(casts));
+  }
+
+  async getChannel(id: string): Promise<FarcasterChannel | undefined> {
+    return this.channels.get(id);
+  }
+
+  async findMintCast(nft: NFT): Promise<FarcasterCast | undefined> {
+    return this.casts.get(nft.id);
+  }
+}
+
+function toFarcasterCast(cast: NeynarCast): FarcasterCast {
+  return {
+    hash: cast.hash,
+    author: {
+      fid: cast.author.fid,
+      username: cast.author.username,
+      displayName: cast.author.display_name,
+      pfpUrl: cast.author.pfp_url,
+    },
+    text: cast.text,
+    timestamp: Date.parse(cast.timestamp) || 0,
+    channelId: cast.channel?.id,
+    frameUrl: cast.frames?.[0]?.frames_url,
+  };
+}
+
+/**
+ * Lowercased text and embedded URLs of a cast, where mint links show up
+ */
+function getLinks(cast: NeynarCast): string[] {
+  return [
+    cast.text,
+    ...(cast.embeds || []).map((embed) => embed.url),
+    ...(cast.frames || []).map((frame) => frame.frames_url),
+  ]
+    .filter((text): text is string => !!text)
+    .map((text) => text.toLowerCase());
+}
+
+function linksToContract(cast: NeynarCast, nft: NFT): boolean {
+  const address = (nft.chain === 'solana' ? nft.tokenId : nft.contractAddress).toLowerCase();
+  return getLinks(cast).some((link) => link.includes(address));
+}
+
+/**
+ * Whether a link names the token itself, as mint pages do: `.../{contract}/{tokenId}`
+ */
+function linksToToken(cast: NeynarCast, nft: NFT): boolean {
+  // A Solana mint address already identifies the token
+  if (nft.chain === 'solana') return linksToContract(cast, nft);
+
+  const token = `${nft.contractAddress.toLowerCase()}/${nft.tokenId}`;
+  return getLinks(cast).some((link) => {
+    const index = link.indexOf(token);
+    return index !== -1 && !/\d/.test(link.charAt(index + token.length));
+  });
+}
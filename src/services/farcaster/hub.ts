@@ -0,0 +1,219 @@
+/**
+ * Farcaster Hub Client
+ * Looks up Farcaster accounts through a hub's HTTP API (v1). Any
+ * hub-compatible endpoint works, including a local hub or stub for testing.
+ */
+
+import type {
+  ChainType,
+  HubIdRegistryEvent,
+  HubMessagesResponse,
+  HubUserDataMessage,
+  HubUsernameProof,
+  HubVerificationMessage,
+} from '../../types';
+import { HttpClient } from '../http/client';
+import { HttpError, MalformedResponseError, NotFoundError } from '../http/errors';
+import { paginate, requireComplete } from '../http/pagination';
+import { encodeBase58 } from '../../utils/validation';
+
+export interface HubClientConfig {
+  baseUrl: string; // e.g. http://localhost:2281 for a local hub
+  /**
+   * Extra headers, e.g. an API key for a hosted hub
+   */
+  headers?: Record<string, string>;
+  http?: HttpClient;
+}
+
+export interface FarcasterAddress {
+  address: string;
+  chain: ChainType;
+}
+
+export interface FarcasterAccount {
+  fid: number;
+  username?: string;
+  custodyAddress?: string;
+  verifiedAddresses: FarcasterAddress[];
+}
+
+/**
+ * No Farcaster account has the given username or FID
+ */
+export class FarcasterAccountNotFoundError extends Error {
+  constructor(account: string | number) {
+    super(`No Farcaster account found for ${account}`);
+    this.name = 'FarcasterAccountNotFoundError';
+  }
+}
+
+const PAGE_SIZE = 100;
+
+export class FarcasterHubClient {
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private http: HttpClient;
+
+  constructor(config: HubClientConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.headers = config.headers || {};
+    this.http =
+      config.http ||
+      new HttpClient({
+        provider: 'Farcaster hub',
+        rateLimit: { capacity: 5, refillPerSecond: 5 },
+        secrets: Object.values(this.headers),
+      });
+  }
+
+  /**
+   * Resolve a username ("dwr", "@dwr", "name.eth") or FID ("3", "fid:3", 3)
+   * to the account with its custody and verified addresses
+   */
+  async resolveAccount(input: string | number): Promise<FarcasterAccount> {
+    const fid = parseFid(input) ?? (await this.getFidByUsername(String(input)));
+    if (fid === undefined) {
+      throw new FarcasterAccountNotFoundError(input);
+    }
+
+    const custodyAddress = await this.getCustodyAddress(fid);
+    if (!custodyAddress) {
+      throw new FarcasterAccountNotFoundError(fid);
+    }
+
+    const [username, verifiedAddresses] = await Promise.all([
+      this.getUsername(fid),
+      this.getVerifiedAddresses(fid),
+    ]);
+    return { fid, username, custodyAddress, verifiedAddresses };
+  }
+
+  /**
+   * FID that owns a username (fname or ENS name); undefined if none does
+   */
+  async getFidByUsername(username: string): Promise<number | undefined> {
+    const name = username.trim().replace(/^@/, '').toLowerCase();
+    if (!name) return undefined;
+
+    const proof = await this.getOptional<HubUsernameProof>(
+      `/v1/userNameProofByName?name=${encodeURIComponent(name)}`
+    );
+    return proof?.fid;
+  }
+
+  async getUsername(fid: number): Promise<string | undefined> {
+    const message = await this.getOptional<HubUserDataMessage>(
+      `/v1/userDataByFid?fid=${fid}&user_data_type=USER_DATA_TYPE_USERNAME`
+    );
+    return message?.data.userDataBody?.value || undefined;
+  }
+
+  /**
+   * Current custody address, from the latest ID registry event
+   */
+  async getCustodyAddress(fid: number): Promise<string | undefined> {
+    const event = await this.getOptional<HubIdRegistryEvent>(
+      `/v1/onChainIdRegistryEventByFid?fid=${fid}`
+    );
+    return event?.idRegisterEventBody?.to?.toLowerCase();
+  }
+
+  /**
+   * Verified Ethereum and Solana addresses, in verification order
+   */
+  async getVerifiedAddresses(fid: number): Promise<FarcasterAddress[]> {
+    const result = await paginate<HubVerificationMessage, string>(async (pageToken) => {
+      const params = new URLSearchParams({ fid: String(fid), pageSize: String(PAGE_SIZE) });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const response = await this.get<HubMessagesResponse<HubVerificationMessage>>(
+        `/v1/verificationsByFid?${params.toString()}`
+      );
+      if (!Array.isArray(response?.messages)) {
+        throw new MalformedResponseError('Hub returned no verification messages', {
+          provider: 'Farcaster hub',
+        });
+      }
+      return { items: response.messages, next: response.nextPageToken || undefined };
+    });
+
+    const seen = new Set<string>();
+    const addresses: FarcasterAddress[] = [];
+    requireComplete(result, `Failed to load verifications for FID ${fid}`).forEach((message) => {
+      const address = toFarcasterAddress(message);
+      if (!address) return;
+      const key = `${address.chain}:${address.address}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      addresses.push(address);
+    });
+    return addresses;
+  }
+
+  private get<T>(path: string): Promise<T> {
+    return this.http.get<T>(`${this.baseUrl}${path}`, { headers: this.headers });
+  }
+
+  /**
+   * GET that resolves to undefined when the hub has no such record. Hubs
+   * answer unknown names and FIDs with 404 or with a 400 whose error code is
+   * "not_found"; other 400s (e.g. a malformed name) still throw.
+   */
+  private async getOptional<T>(path: string): Promise<T | undefined> {
+    try {
+      return await this.get<T>(path);
+    } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
+      if (error instanceof HttpError && error.status === 400 && isNotFoundBody(error.body)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * FID from numeric input ("3", "fid:3", 3); undefined for anything else
+ */
+export function parseFid(input: string | number): number | undefined {
+  const text = String(input).trim().replace(/^fid:\s*/i, '');
+  if (!/^\d+$/.test(text)) return undefined;
+  const fid = Number(text);
+  return Number.isSafeInteger(fid) && fid > 0 ? fid : undefined;
+}
+
+/**
+ * Hub error bodies carry the code as `errCode` (e.g. "not_found",
+ * "bad_request.validation_failure") and again in `metadata.errcode`
+ */
+function isNotFoundBody(body: unknown): boolean {
+  if (typeof body !== 'object' || body === null) return false;
+  const { errCode, metadata } = body as { errCode?: unknown; metadata?: { errcode?: unknown } };
+  const codes = [errCode, ...(Array.isArray(metadata?.errcode) ? metadata.errcode : [])];
+  return codes.some((code) => code === 'not_found');
+}
+
+function toFarcasterAddress(message: HubVerificationMessage): FarcasterAddress | undefined {
+  const body = message.data.verificationAddAddressBody;
+  if (!body?.address) return undefined;
+
+  if (body.protocol === 'PROTOCOL_SOLANA') {
+    // Some hubs hex-encode the 32-byte key instead of returning base58
+    const address = /^0x[0-9a-f]{64}$/i.test(body.address)
+      ? encodeBase58(hexToBytes(body.address))
+      : body.address;
+    return { address, chain: 'solana' };
+  }
+
+  return { address: body.address.toLowerCase(), chain: 'evm' };
+}
+
+function hexToBytes(hex: string): number[] {
+  const clean = hex.replace(/^0x/i, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i += 2) {
+    bytes.push(parseInt(clean.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
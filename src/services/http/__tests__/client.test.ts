@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { startStubServer, type StubResponse, type StubServer } from '../../../testing/stubServer';
+import { HttpClient, parseRetryAfter, type HttpClientConfig } from '../client';
+import { AuthError, HttpError, NetworkError, NotFoundError, RateLimitedError } from '../errors';
+
+function createClient(config: Partial<HttpClientConfig> = {}): HttpClient {
+  return new HttpClient({ provider: 'Test', retries: 0, baseDelayMs: 1, ...config });
+}
+
+describe('HttpClient', () => {
+  let server: StubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function serve(...responses: StubResponse[]): Promise<string> {
+    server = await startStubServer(() => responses.shift() ?? { status: 500 });
+    return server.url;
+  }
+
+  it.each([
+    [401, AuthError],
+    [403, AuthError],
+    [404, NotFoundError],
+    [429, RateLimitedError],
+    [500, NetworkError],
+    [503, NetworkError],
+    [400, HttpError],
+  ])('maps status %i to %p', async (status, type) => {
+    const url = await serve({ status, body: { message: 'nope' } });
+
+    const error = await createClient().get(url).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(type);
+    expect(error).toMatchObject({ provider: 'Test', status, body: { message: 'nope' } });
+    if (type === HttpError) expect((error as Error).name).toBe('HttpError');
+  });
+
+  it('retries retryable failures up to the retry count', async () => {
+    const url = await serve({ status: 500 }, { status: 502 }, { body: { ok: true } });
+
+    await expect(createClient({ retries: 2 }).get(url)).resolves.toEqual({ ok: true });
+    expect(server?.requests).toHaveLength(3);
+  });
+
+  it('throws the last failure once retries run out', async () => {
+    const url = await serve({ status: 500 }, { status: 500 }, { status: 503 });
+
+    const error = await createClient({ retries: 2 }).get(url).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ status: 503 });
+    expect(server?.requests).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const url = await serve({ status: 404 }, { body: { ok: true } });
+
+    await expect(createClient({ retries: 3 }).get(url)).rejects.toBeInstanceOf(NotFoundError);
+    expect(server?.requests).toHaveLength(1);
+  });
+
+  it('waits for Retry-After before retrying a rate limit', async () => {
+    const url = await serve(
+      { status: 429, headers: { 'Retry-After': '0.2' } },
+      { body: { ok: true } }
+    );
+
+    const started = Date.now();
+    await expect(createClient({ retries: 1 }).get(url)).resolves.toEqual({ ok: true });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    expect(server?.requests).toHaveLength(2);
+  });
+
+  it('fails at once when Retry-After is longer than it will wait', async () => {
+    const url = await serve({ status: 429, headers: { 'Retry-After': '120' } });
+
+    const error = await createClient({ retries: 3, maxRetryAfterMs: 60_000 })
+      .get(url)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(120_000);
+    expect(server?.requests).toHaveLength(1);
+  });
+
+  it('retries failures reported by validate like HTTP failures', async () => {
+    const url = await serve({ body: { error: 'busy' } }, { body: { result: 1 } });
+    const validate = (data: unknown) => {
+      if ((data as { error?: string }).error) {
+        throw new RateLimitedError('busy', { provider: 'Test' });
+      }
+    };
+
+    await expect(createClient({ retries: 1 }).get(url, { validate })).resolves.toEqual({
+      result: 1,
+    });
+    expect(server?.requests).toHaveLength(2);
+  });
+
+  it('stops retrying when the caller aborts during the backoff', async () => {
+    const url = await serve({ status: 429, headers: { 'Retry-After': '5' } });
+    const controller = new AbortController();
+
+    const pending = createClient({ retries: 1 }).get(url, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 200);
+
+    await expect(pending).rejects.toThrow('Request aborted');
+    expect(server?.requests).toHaveLength(1);
+  });
+
+  it('masks secrets in error URLs', async () => {
+    const url = await serve({ status: 401 });
+
+    const error = await createClient({ secrets: ['sk-123'] })
+      .get(`${url}/v1?key=sk-123`)
+      .catch((e: unknown) => e);
+
+    expect((error as HttpError).url).toBe(`${url}/v1?key=***`);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('reads delay-seconds', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('0', now)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now, never negative', () => {
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
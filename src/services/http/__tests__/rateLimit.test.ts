@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { TokenBucket } from '../rateLimit';
+
+describe('TokenBucket', () => {
+  it('lets an aborted caller leave the queue without taking a token', async () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 20 });
+    await bucket.take(); // empty the bucket
+
+    const controller = new AbortController();
+    const aborted = bucket.take(controller.signal);
+    const next = bucket.take();
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow('Request aborted');
+    const started = Date.now();
+    await next;
+    // The refilled token went to the next caller instead of the aborted one
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  it('rejects a caller whose signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 1 });
+
+    await expect(bucket.take(controller.signal)).rejects.toThrow('Request aborted');
+    await expect(bucket.take()).resolves.toBeUndefined(); // token still there
+  });
+});
+
+describe('TokenBucket refill', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Takes `count` tokens at once and records when (ms after the start) each was granted
+  async function takeTimes(bucket: TokenBucket, count: number, runFor: number) {
+    const start = Date.now();
+    const granted: number[] = [];
+    for (let i = 0; i < count; i++) {
+      bucket.take().then(() => granted.push(Date.now() - start));
+    }
+    await jest.advanceTimersByTimeAsync(runFor);
+    return granted;
+  }
+
+  it('allows a burst of `capacity`, then one token per refill interval', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 10 }, () => Date.now());
+
+    expect(await takeTimes(bucket, 5, 1000)).toEqual([0, 0, 100, 200, 300]);
+  });
+
+  it('refills while idle, but never beyond capacity', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const bucket = new TokenBucket({ capacity: 3, refillPerSecond: 10 }, () => Date.now());
+    await takeTimes(bucket, 3, 0);
+
+    await jest.advanceTimersByTimeAsync(150); // 1.5 tokens back
+    expect(await takeTimes(bucket, 2, 1000)).toEqual([0, 50]);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(await takeTimes(bucket, 4, 1000)).toEqual([0, 0, 0, 100]);
+  });
+
+  it('makes the next caller wait a full interval after drain', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const bucket = new TokenBucket({ capacity: 5, refillPerSecond: 4 }, () => Date.now());
+
+    bucket.drain();
+
+    expect(await takeTimes(bucket, 2, 1000)).toEqual([250, 500]);
+  });
+
+  it('serves waiting callers in the order they asked', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 10 }, () => Date.now());
+    const order: string[] = [];
+
+    ['a', 'b', 'c'].forEach((name) => bucket.take().then(() => order.push(name)));
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(order).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * HTTP Client
+ * Shared JSON request client with retries, rate limiting, timeouts and typed errors
+ */
+
+import {
+  AuthError,
+  HttpError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  isRetryable,
+} from './errors';
+import { TokenBucket, sleep, type RateLimit } from './rateLimit';
+
+export interface HttpClientConfig {
+  /**
+   * Provider name used in error messages, e.g. 'Alchemy'
+   */
+  provider: string;
+  rateLimit?: RateLimit;
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /**
+   * Longest Retry-After we are willing to wait; longer ones fail immediately
+   */
+  maxRetryAfterMs?: number;
+  timeoutMs?: number;
+  /**
+   * Values (API keys) masked out of URLs attached to errors
+   */
+  secrets?: string[];
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  body?: unknown; // sent as JSON
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /**
+   * Check a parsed body for failures reported with a 200 (e.g. JSON-RPC errors)
+   * and throw a typed error; retryable ones are retried like HTTP failures
+   */
+  validate?: (data: unknown) => void;
+}
+
+export class HttpClient {
+  private provider: string;
+  private bucket?: TokenBucket;
+  private retries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxRetryAfterMs: number;
+  private timeoutMs: number;
+  private secrets: string[];
+  private fetchImpl: typeof fetch;
+
+  constructor(config: HttpClientConfig) {
+    this.provider = config.provider;
+    this.bucket = config.rateLimit ? new TokenBucket(config.rateLimit) : undefined;
+    this.retries = config.retries ?? 3;
+    this.baseDelayMs = config.baseDelayMs ?? 500;
+    this.maxDelayMs = config.maxDelayMs ?? 30 * 1000;
+    this.maxRetryAfterMs = config.maxRetryAfterMs ?? 60 * 1000;
+    this.timeoutMs = config.timeoutMs ?? 15 * 1000;
+    this.secrets = (config.secrets || []).filter(Boolean);
+    this.fetchImpl = config.fetch || ((input, init) => fetch(input, init));
+  }
+
+  async get<T>(url: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+    return this.request<T>(url, { ...options, method: 'GET' });
+  }
+
+  async post<T>(
+    url: string,
+    body: unknown,
+    options: Omit<RequestOptions, 'method' | 'body'> = {}
+  ): Promise<T> {
+    return this.request<T>(url, { ...options, method: 'POST', body });
+  }
+
+  /**
+   * Send a request and parse the JSON response. Rate-limited and network
+   * failures are retried with exponential backoff and jitter, honoring Retry-After.
+   */
+  async request<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const retries = options.retries ?? this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket?.take(options.signal);
+
+      try {
+        const data = await this.send<T>(url, options);
+        options.validate?.(data);
+        return data;
+      } catch (error) {
+        if (options.signal?.aborted || !isRetryable(error) || attempt >= retries) {
+          throw error;
+        }
+
+        let delay = this.getBackoff(attempt);
+        if (error instanceof RateLimitedError) {
+          // Stop other queued requests from bursting into the same limit
+          this.bucket?.drain();
+          if (error.retryAfterMs !== undefined) {
+            if (error.retryAfterMs > this.maxRetryAfterMs) throw error;
+            delay = error.retryAfterMs;
+          }
+        }
+
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  private async send<T>(url: string, options: RequestOptions): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs ?? this.timeoutMs);
+
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    let response: Response;
+    try {
+      if (options.signal?.aborted) {
+        controller.abort();
+      }
+
+      const headers: Record<string, string> = { 'Accept': 'application/json', ...options.headers };
+      if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+      }
+
+      response = await this.fetchImpl(url, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      // Caller cancellation is not a network failure; let it through untouched
+      if (options.signal?.aborted) throw error;
+      throw new NetworkError(
+        timedOut
+          ? `${this.provider} request timed out`
+          : `${this.provider} request failed: ${error instanceof Error ? error.message : String(error)}`,
+        { provider: this.provider, url: this.redact(url), cause: error, timedOut }
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!response.ok) {
+      throw this.toHttpError(response, url, await readErrorBody(response));
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return undefined as T;
+    }
+
+    try {
+      return JSON.parse(text) as T;
+    } catch (error) {
+      throw new MalformedResponseError(`${this.provider} returned invalid JSON`, {
+        provider: this.provider,
+        status: response.status,
+        url: this.redact(url),
+        cause: error,
+      });
+    }
+  }
+
+  private toHttpError(response: Response, url: string, body: unknown): HttpError {
+    const message = `${this.provider} API error: ${response.status} ${response.statusText}`;
+    const options = {
+      provider: this.provider,
+      status: response.status,
+      url: this.redact(url),
+      body,
+    };
+
+    if (response.status === 401 || response.status === 403) {
+      return new AuthError(message, options);
+    }
+    if (response.status === 404) {
+      return new NotFoundError(message, options);
+    }
+    if (response.status === 429) {
+      return new RateLimitedError(message, {
+        ...options,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    }
+    if (response.status >= 500) {
+      return new NetworkError(message, options);
+    }
+    return new HttpError(message, options);
+  }
+
+  private redact(url: string): string {
+    return this.secrets.reduce((masked, secret) => masked.split(secret).join('***'), url);
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half fixed, half random
+   */
+  private getBackoff(attempt: number): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Body of a failed response: parsed JSON, the raw text, or undefined if unreadable
+ */
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+}
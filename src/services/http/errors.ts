@@ -0,0 +1,114 @@
+/**
+ * HTTP Errors
+ * Typed failures raised by the shared request client
+ */
+
+export interface HttpErrorOptions {
+  provider: string;
+  status?: number;
+  url?: string;
+  cause?: unknown;
+  body?: unknown; // error response body, parsed when it was JSON
+}
+
+/**
+ * Base class for every request failure. Non-specific HTTP statuses (e.g. 400)
+ * surface as a plain HttpError.
+ */
+export class HttpError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly url?: string;
+  readonly cause?: unknown;
+  readonly body?: unknown;
+  readonly retryable: boolean = false;
+
+  constructor(message: string, options: HttpErrorOptions) {
+    super(message);
+    this.name = 'HttpError';
+    this.provider = options.provider;
+    this.status = options.status;
+    this.url = options.url;
+    this.cause = options.cause;
+    this.body = options.body;
+  }
+}
+
+/**
+ * Missing, invalid or revoked API key (401/403)
+ */
+export class AuthError extends HttpError {
+  constructor(message: string, options: HttpErrorOptions) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Provider rate limit hit (429). `retryAfterMs` comes from Retry-After when sent.
+ */
+export class RateLimitedError extends HttpError {
+  readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: HttpErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Requested resource doesn't exist (404)
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string, options: HttpErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Connection failure, timeout or 5xx; worth retrying
+ */
+export class NetworkError extends HttpError {
+  readonly retryable = true;
+  readonly timedOut: boolean;
+
+  constructor(message: string, options: HttpErrorOptions & { timedOut?: boolean }) {
+    super(message, options);
+    this.name = 'NetworkError';
+    this.timedOut = options.timedOut ?? false;
+  }
+}
+
+/**
+ * Response body wasn't JSON or didn't have the expected shape
+ */
+export class MalformedResponseError extends HttpError {
+  constructor(message: string, options: HttpErrorOptions) {
+    super(message, options);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * Error object in a JSON-RPC response. The provider received and read the
+ * request; `code` is the JSON-RPC error code.
+ */
+export class RpcError extends HttpError {
+  readonly code?: number;
+
+  constructor(message: string, options: HttpErrorOptions & { code?: number }) {
+    super(message, options);
+    this.name = 'RpcError';
+    this.code = options.code;
+  }
+}
+
+/**
+ * Whether retrying the same request may succeed
+ */
+export function isRetryable(error: unknown): boolean {
+  return error instanceof HttpError && error.retryable;
+}
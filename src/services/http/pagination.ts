@@ -0,0 +1,86 @@
+/**
+ * Pagination
+ * Cursor-driven page loading that keeps what it fetched when a page fails
+ */
+
+export interface Page<T, C> {
+  items: T[];
+  next?: C; // cursor for the following page; undefined on the last page
+}
+
+export interface PartialResult<T, C> {
+  items: T[];
+  complete: boolean;
+  /**
+   * Cursor of the first page not loaded; pass back as `from` to resume
+   */
+  cursor?: C;
+  /**
+   * Why loading stopped early, if it stopped because of a failure
+   */
+  error?: Error;
+}
+
+/**
+ * Load pages until the last one, a failure, `maxPages`, or `signal` aborting.
+ * Never throws; failures are reported on the result.
+ */
+export async function paginate<T, C>(
+  fetchPage: (cursor: C | undefined) => Promise<Page<T, C>>,
+  options: { from?: C; maxPages?: number; signal?: AbortSignal } = {}
+): Promise<PartialResult<T, C>> {
+  const items: T[] = [];
+  let cursor = options.from;
+
+  for (let pages = 0; options.maxPages === undefined || pages < options.maxPages; pages++) {
+    if (options.signal?.aborted) {
+      return { items, complete: false, cursor, error: new Error('Pagination aborted') };
+    }
+
+    let page: Page<T, C>;
+    try {
+      page = await fetchPage(cursor);
+    } catch (error) {
+      return {
+        items,
+        complete: false,
+        cursor,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+
+    items.push(...page.items);
+    if (page.next === undefined) {
+      return { items, complete: true };
+    }
+    cursor = page.next;
+  }
+
+  return { items, complete: false, cursor };
+}
+
+/**
+ * Raised by all-or-nothing callers when pagination stopped early.
+ * Carries the items that were loaded so they aren't lost.
+ */
+export class IncompleteResultError<T = unknown> extends Error {
+  readonly items: T[];
+  readonly cause?: Error;
+
+  constructor(message: string, items: T[], cause?: Error) {
+    super(cause ? `${message}: ${cause.message}` : message);
+    this.name = 'IncompleteResultError';
+    this.items = items;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Return the items of a complete result, or throw IncompleteResultError
+ */
+export function requireComplete<T, C>(result: PartialResult<T, C>, message: string): T[] {
+  if (!result.complete) {
+    throw new IncompleteResultError(message, result.items, result.error);
+  }
+  return result.items;
+}
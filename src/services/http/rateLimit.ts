@@ -0,0 +1,78 @@
+/**
+ * Token Bucket
+ * Client-side rate limiting so bursts stay under provider quotas
+ */
+
+export interface RateLimit {
+  capacity: number; // burst size
+  refillPerSecond: number; // sustained requests per second
+}
+
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+  private now: () => number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(limit: RateLimit, now: () => number = Date.now) {
+    this.now = now;
+    this.capacity = Math.max(1, limit.capacity);
+    this.refillPerMs = Math.max(limit.refillPerSecond, 0.001) / 1000;
+    this.tokens = this.capacity;
+    this.updatedAt = this.now();
+  }
+
+  /**
+   * Wait until a token is available, then consume it. Callers are served in order.
+   * A caller whose signal aborts while waiting leaves the queue without a token.
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.acquire(signal));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Empty the bucket, e.g. after the provider reports a rate limit
+   */
+  drain(): void {
+    this.refill();
+    this.tokens = 0;
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw new Error('Request aborted');
+
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs), signal);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Resolve after `ms`, or reject with 'Request aborted' as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+}
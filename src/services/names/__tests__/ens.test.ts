@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { callTarget, startEnsStub, STUB_RESOLVER } from '../../../testing/ensStub';
+import type { StubServer } from '../../../testing/stubServer';
+import { HttpClient } from '../../http/client';
+import { createBasenameResolver, createEnsResolver } from '../ens';
+
+const ENS_REGISTRY = '0x00000000000c2e074ec69a0dfb2997ba6c7d2e1e';
+const BASENAMES_REGISTRY = '0xb94704422c2a1e396835a571837aa5ae53285a1a';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const MALLORY = '0x2222222222222222222222222222222222222222';
+const JESSE = '0x3333333333333333333333333333333333333333';
+
+const http = () => new HttpClient({ provider: 'ENS', retries: 0 });
+
+describe('EnsResolver', () => {
+  const servers: StubServer[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => server.close()));
+  });
+
+  async function mainnet() {
+    const server = await startEnsStub({
+      registry: ENS_REGISTRY,
+      names: {
+        'alice.eth': { address: ALICE, avatar: 'https://example.com/alice.png' },
+        'broken.eth': { revert: true },
+        'vitalik.eth': { address: '0xd8da6bf26964af9d7eed9e03e53415d37aa96045' },
+      },
+      reverse: { [ALICE]: 'alice.eth', [MALLORY]: 'vitalik.eth' },
+    });
+    servers.push(server);
+    return { server, resolver: createEnsResolver(server.url, { http: http() }) };
+  }
+
+  async function base() {
+    const server = await startEnsStub({
+      registry: BASENAMES_REGISTRY,
+      names: { 'jesse.base.eth': { address: JESSE } },
+      reverse: { [JESSE]: 'jesse.base.eth' },
+      reverseNamespace: '80002105.reverse',
+    });
+    servers.push(server);
+    return { server, resolver: createBasenameResolver(server.url, { http: http() }) };
+  }
+
+  it('resolves .eth names through the registry and resolver', async () => {
+    const { server, resolver } = await mainnet();
+
+    await expect(resolver.resolve('Alice.eth ')).resolves.toBe(ALICE);
+    expect(server.requests.map(callTarget)).toEqual([ENS_REGISTRY, STUB_RESOLVER]);
+    await expect(resolver.resolve('nobody.eth')).resolves.toBeUndefined();
+  });
+
+  it('leaves .base.eth names to the Basenames resolver', async () => {
+    const { resolver: ens } = await mainnet();
+    const { server, resolver: basenames } = await base();
+
+    expect(ens.supports('vitalik.eth')).toBe(true);
+    expect(ens.supports('jesse.base.eth')).toBe(false);
+    expect(basenames.supports('jesse.base.eth')).toBe(true);
+    expect(basenames.supports('vitalik.eth')).toBe(false);
+
+    await expect(basenames.resolve('jesse.base.eth')).resolves.toBe(JESSE);
+    expect(callTarget(server.requests[0])).toBe(BASENAMES_REGISTRY);
+  });
+
+  it('treats a reverted call as no address', async () => {
+    const { resolver } = await mainnet();
+
+    await expect(resolver.resolve('broken.eth')).resolves.toBeUndefined();
+  });
+
+  it('looks up primary names that resolve back to the address', async () => {
+    const { resolver } = await mainnet();
+    const { resolver: basenames } = await base();
+
+    await expect(resolver.lookupAddress(ALICE.toUpperCase().replace('0X', '0x'))).resolves.toEqual({
+      name: 'alice.eth',
+      service: 'ens',
+      avatarUrl: 'https://example.com/alice.png',
+    });
+    await expect(basenames.lookupAddress(JESSE)).resolves.toEqual({
+      name: 'jesse.base.eth',
+      service: 'basenames',
+      avatarUrl: undefined,
+    });
+  });
+
+  it('ignores a primary name that points elsewhere', async () => {
+    const { resolver } = await mainnet();
+
+    await expect(resolver.lookupAddress(MALLORY)).resolves.toBeUndefined();
+    await expect(resolver.lookupAddress(JESSE)).resolves.toBeUndefined();
+  });
+});
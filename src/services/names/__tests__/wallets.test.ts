@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import type { Wallet } from '../../../types';
+import { startEnsStub, type EnsStubName } from '../../../testing/ensStub';
+import type { StubServer } from '../../../testing/stubServer';
+import { HttpClient } from '../../http/client';
+import { createEnsResolver } from '../ens';
+import { NameNotResolvedError } from '../resolver';
+import { WalletNameService } from '../wallets';
+
+const ENS_REGISTRY = '0x00000000000c2e074ec69a0dfb2997ba6c7d2e1e';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const ELSEWHERE = '0x4444444444444444444444444444444444444444';
+
+function createWalletStore() {
+  const state = {
+    wallets: [] as Wallet[],
+    addWallet: (wallet: Omit<Wallet, 'id' | 'addedAt'>) => {
+      const id = `wallet-${state.wallets.length + 1}`;
+      state.wallets = [...state.wallets, { ...wallet, id, addedAt: 0 }];
+    },
+    updateWallet: (id: string, updates: Partial<Wallet>) => {
+      state.wallets = state.wallets.map((w) => (w.id === id ? { ...w, ...updates } : w));
+    },
+  };
+  return { getState: () => state };
+}
+
+describe('WalletNameService', () => {
+  let node: StubServer;
+  let names: Record<string, EnsStubName>;
+  let now: number;
+  let store: ReturnType<typeof createWalletStore>;
+  let service: WalletNameService;
+
+  beforeEach(async () => {
+    names = { 'alice.eth': { address: ALICE } };
+    node = await startEnsStub({ registry: ENS_REGISTRY, names, reverse: { [ALICE]: 'alice.eth' } });
+    now = 1000;
+    store = createWalletStore();
+    service = new WalletNameService({
+      store,
+      resolvers: [
+        createEnsResolver(node.url, { http: new HttpClient({ provider: 'ENS', retries: 0 }) }),
+      ],
+      now: () => now,
+    });
+  });
+
+  afterEach(() => node.close());
+
+  it('adds a wallet by name', async () => {
+    await service.addWallet('alice.eth', { label: 'Alice' });
+
+    expect(store.getState().wallets).toEqual([
+      expect.objectContaining({
+        address: ALICE,
+        chain: 'evm',
+        label: 'Alice',
+        name: { name: 'alice.eth', service: 'ens', source: 'input', verifiedAt: 1000 },
+      }),
+    ]);
+    await expect(service.addWallet('nobody.eth')).rejects.toBeInstanceOf(NameNotResolvedError);
+  });
+
+  it('flags a name that was re-pointed and keeps when it was first noticed', async () => {
+    await service.addWallet('alice.eth');
+    const [wallet] = store.getState().wallets;
+
+    names['alice.eth'].address = ELSEWHERE;
+    now = 2000;
+    await service.revalidate(wallet.id);
+    expect(store.getState().wallets[0].name).toEqual({
+      name: 'alice.eth',
+      service: 'ens',
+      source: 'input',
+      verifiedAt: 1000,
+      mismatch: { resolvedTo: ELSEWHERE, detectedAt: 2000 },
+    });
+
+    now = 3000;
+    await service.revalidate(wallet.id);
+    expect(store.getState().wallets[0].name?.mismatch).toEqual({
+      resolvedTo: ELSEWHERE,
+      detectedAt: 2000,
+    });
+
+    names['alice.eth'].address = ALICE;
+    now = 4000;
+    await service.revalidate(wallet.id);
+    expect(store.getState().wallets[0].name).toMatchObject({
+      verifiedAt: 4000,
+      mismatch: undefined,
+    });
+  });
+
+  it("fills in an address wallet's primary name", async () => {
+    store.getState().addWallet({ address: ALICE, chain: 'evm' });
+
+    await service.revalidate('wallet-1');
+
+    expect(store.getState().wallets[0].name).toEqual({
+      name: 'alice.eth',
+      service: 'ens',
+      source: 'reverse',
+      avatarUrl: undefined,
+      verifiedAt: 1000,
+    });
+  });
+});
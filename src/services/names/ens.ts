@@ -0,0 +1,247 @@
+/**
+ * ENS Resolver
+ * Resolves ENS names on Ethereum and Basenames on Base by calling the name
+ * registry and resolver contracts over JSON-RPC (eth_call). Any JSON-RPC
+ * endpoint works, including a local node or mock.
+ */
+
+import type { JsonRpcResponse, NameService } from '../../types';
+import { HttpClient } from '../http/client';
+import { HttpError, MalformedResponseError } from '../http/errors';
+import { NFTNormalizer } from '../nft/normalizer';
+import { keccak256, toHex, utf8Encode } from '../../utils/keccak';
+import { isSameAddress, normalizeName, type NameResolver, type ResolvedName } from './resolver';
+
+export interface EnsResolverConfig {
+  rpcUrl: string;
+  service?: NameService;
+  /**
+   * Registry contract that maps names to resolvers
+   */
+  registry?: string;
+  /**
+   * Where primary names are registered: `{address}.{reverseNamespace}`
+   */
+  reverseNamespace?: string;
+  /**
+   * Names this resolver handles, e.g. ['.eth']
+   */
+  suffixes?: string[];
+  /**
+   * Suffixes handled elsewhere, e.g. '.base.eth' for an ENS resolver
+   */
+  excludedSuffixes?: string[];
+  http?: HttpClient;
+}
+
+const ENS_REGISTRY = '0x00000000000c2e074ec69a0dfb2997ba6c7d2e1e';
+const BASENAMES_REGISTRY = '0xb94704422c2a1e396835a571837aa5ae53285a1a';
+
+// Function selectors: the first 4 bytes of keccak256 of the signature
+const SELECTORS = {
+  resolver: '0178b8bf', // resolver(bytes32)
+  addr: '3b3b57de', // addr(bytes32)
+  name: '691f3431', // name(bytes32)
+  text: '59d1d43c', // text(bytes32,string)
+};
+
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+
+/**
+ * ENS-style names resolved on-chain. Names that rely on offchain (CCIP-read)
+ * resolvers are reported as not resolving.
+ */
+export class EnsResolver implements NameResolver {
+  readonly service: NameService;
+  readonly chain = 'evm' as const;
+  private rpcUrl: string;
+  private registry: string;
+  private reverseNamespace: string;
+  private suffixes: string[];
+  private excludedSuffixes: string[];
+  private provider: string;
+  private http: HttpClient;
+  private requestId = 0;
+
+  constructor(config: EnsResolverConfig) {
+    this.rpcUrl = config.rpcUrl;
+    this.service = config.service || 'ens';
+    this.registry = config.registry || ENS_REGISTRY;
+    this.reverseNamespace = config.reverseNamespace || 'addr.reverse';
+    this.suffixes = config.suffixes || ['.eth'];
+    this.excludedSuffixes = config.excludedSuffixes || [];
+    this.provider = this.service === 'basenames' ? 'Basenames' : 'ENS';
+    this.http =
+      config.http ||
+      new HttpClient({
+        provider: this.provider,
+        rateLimit: { capacity: 10, refillPerSecond: 10 },
+        // Hosted RPC URLs end in the API key
+        secrets: [config.rpcUrl.split('/').pop() || ''],
+      });
+  }
+
+  supports(name: string): boolean {
+    const normalized = normalizeName(name);
+    return (
+      this.suffixes.some((suffix) => normalized.endsWith(suffix)) &&
+      !this.excludedSuffixes.some((suffix) => normalized.endsWith(suffix))
+    );
+  }
+
+  async resolve(name: string): Promise<string | undefined> {
+    const node = namehash(normalizeName(name));
+    const resolver = await this.getResolver(node);
+    if (!resolver) return undefined;
+
+    const address = decodeAddress(await this.call(resolver, SELECTORS.addr + node));
+    return address && address !== ZERO_ADDRESS ? address : undefined;
+  }
+
+  async lookupAddress(address: string): Promise<ResolvedName | undefined> {
+    const reverseNode = namehash(`${address.toLowerCase().slice(2)}.${this.reverseNamespace}`);
+    const resolver = await this.getResolver(reverseNode);
+    if (!resolver) return undefined;
+
+    const name = decodeString(await this.call(resolver, SELECTORS.name + reverseNode));
+    if (!name || !this.supports(name)) return undefined;
+
+    // Anyone can claim any reverse name; it only counts if it points back
+    const forward = await this.resolve(name);
+    if (!forward || !isSameAddress('evm', forward, address)) return undefined;
+
+    return {
+      name: normalizeName(name),
+      service: this.service,
+      avatarUrl: await this.getAvatar(name),
+    };
+  }
+
+  /**
+   * The name's avatar record as an image URL. NFT avatars (`eip155:1/erc721:…`)
+   * aren't resolved.
+   */
+  async getAvatar(name: string): Promise<string | undefined> {
+    const node = namehash(normalizeName(name));
+    const resolver = await this.getResolver(node);
+    if (!resolver) return undefined;
+
+    const avatar = decodeString(
+      await this.call(resolver, SELECTORS.text + node + encodeString('avatar'))
+    );
+    if (!avatar || !/^(https?|ipfs|ar):\/\//.test(avatar)) return undefined;
+    return NFTNormalizer.normalizeImageUrl(avatar);
+  }
+
+  private async getResolver(node: string): Promise<string | undefined> {
+    const resolver = decodeAddress(await this.call(this.registry, SELECTORS.resolver + node));
+    return resolver && resolver !== ZERO_ADDRESS ? resolver : undefined;
+  }
+
+  /**
+   * eth_call against the latest block. A revert (e.g. a resolver without the
+   * function) comes back as undefined.
+   */
+  private async call(to: string, data: string): Promise<string | undefined> {
+    const response = await this.http.post<JsonRpcResponse<string>>(this.rpcUrl, {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method: 'eth_call',
+      params: [{ to, data: `0x${data}` }, 'latest'],
+    });
+
+    if (response?.error) {
+      if (response.error.code === 3 || /revert/i.test(response.error.message)) {
+        return undefined;
+      }
+      throw new HttpError(`JSON-RPC error: ${response.error.message}`, {
+        provider: this.provider,
+      });
+    }
+    if (typeof response?.result !== 'string' || !/^0x[0-9a-f]*$/i.test(response.result)) {
+      throw new MalformedResponseError('JSON-RPC returned no call result', {
+        provider: this.provider,
+      });
+    }
+    return response.result.slice(2);
+  }
+}
+
+/**
+ * ENS names on Ethereum mainnet; `.base.eth` names are left to Basenames
+ */
+export function createEnsResolver(
+  rpcUrl: string,
+  options: Omit<EnsResolverConfig, 'rpcUrl'> = {}
+): EnsResolver {
+  return new EnsResolver({ rpcUrl, excludedSuffixes: ['.base.eth'], ...options });
+}
+
+/**
+ * Basenames (`name.base.eth`) on Base. `rpcUrl` must be a Base endpoint.
+ */
+export function createBasenameResolver(
+  rpcUrl: string,
+  options: Omit<EnsResolverConfig, 'rpcUrl'> = {}
+): EnsResolver {
+  return new EnsResolver({
+    rpcUrl,
+    service: 'basenames',
+    registry: BASENAMES_REGISTRY,
+    // ENSIP-19: primary names for Base live under its coin type, 0x80000000 | 8453
+    reverseNamespace: '80002105.reverse',
+    suffixes: ['.base.eth'],
+    ...options,
+  });
+}
+
+/**
+ * ENS namehash (EIP-137) as 64 hex characters
+ */
+export function namehash(name: string): string {
+  let node: Uint8Array = new Uint8Array(32);
+  if (name) {
+    name
+      .split('.')
+      .reverse()
+      .forEach((label) => {
+        const joined = new Uint8Array(64);
+        joined.set(node);
+        joined.set(keccak256(label), 32);
+        node = keccak256(joined);
+      });
+  }
+  return toHex(node);
+}
+
+/**
+ * ABI-encode a lone string argument after a bytes32, i.e. its offset, length and data
+ */
+function encodeString(value: string): string {
+  const bytes = toHex(utf8Encode(value));
+  const padded = bytes.padEnd(Math.ceil(bytes.length / 64) * 64, '0');
+  return word(64) + word(bytes.length / 2) + padded;
+}
+
+function word(value: number): string {
+  return value.toString(16).padStart(64, '0');
+}
+
+function decodeAddress(result?: string): string | undefined {
+  if (!result || result.length < 64) return undefined;
+  return `0x${result.slice(24, 64).toLowerCase()}`;
+}
+
+function decodeString(result?: string): string | undefined {
+  if (!result || result.length < 128) return undefined;
+  const offset = parseInt(result.slice(0, 64), 16) * 2;
+  const length = parseInt(result.slice(offset, offset + 64), 16) * 2;
+  const data = result.slice(offset + 64, offset + 64 + length);
+  if (!length || data.length !== length) return undefined;
+
+  try {
+    return decodeURIComponent(data.replace(/(..)/g, '%$1'));
+  } catch {
+    return undefined; // not valid UTF-8
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Name Resolvers
+ * Pluggable lookups between wallet names (ENS, Basenames, SNS) and addresses
+ */
+
+import type { ChainType, NameService } from '../../types';
+
+export interface ResolvedName {
+  name: string;
+  service: NameService;
+  avatarUrl?: string;
+}
+
+export interface NameResolver {
+  service: NameService;
+  chain: ChainType;
+  /**
+   * Whether the name belongs to this service, by its suffix
+   */
+  supports: (name: string) => boolean;
+  /**
+   * Address the name points to; undefined when it doesn't resolve
+   */
+  resolve: (name: string) => Promise<string | undefined>;
+  /**
+   * The address's primary name, only if that name resolves back to the address
+   */
+  lookupAddress: (address: string) => Promise<ResolvedName | undefined>;
+  getAvatar?: (name: string) => Promise<string | undefined>;
+}
+
+/**
+ * The name isn't registered or doesn't point to an address
+ */
+export class NameNotResolvedError extends Error {
+  constructor(name: string) {
+    super(`${name} doesn't resolve to an address`);
+    this.name = 'NameNotResolvedError';
+  }
+}
+
+/**
+ * No configured resolver handles the name's suffix
+ */
+export class UnsupportedNameError extends Error {
+  constructor(name: string) {
+    super(`No resolver for ${name}`);
+    this.name = 'UnsupportedNameError';
+  }
+}
+
+/**
+ * Whether wallet input is a name rather than an address: dotted labels
+ * ending in a letter-only TLD, e.g. vitalik.eth or name.sol
+ */
+export function isName(input: string): boolean {
+  return /^[^\s.]+(\.[^\s.]+)*\.[a-z]{2,}$/i.test(input.trim());
+}
+
+/**
+ * Names compare case-insensitively; resolvers get them trimmed and lowercased.
+ * Full UTS-46 normalization (emoji, confusables) is left to the services.
+ */
+export function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Whether two addresses on a chain are the same. EVM addresses compare case-insensitively.
+ */
+export function isSameAddress(chain: ChainType, a: string, b: string): boolean {
+  return chain === 'evm' ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
@@ -0,0 +1,104 @@
+/**
+ * SNS Resolver
+ * Resolves Solana Name Service (.sol) names through the SNS SDK proxy API.
+ * `baseUrl` can point at a self-hosted proxy or a local mock.
+ */
+
+import type { NameService, SnsProxyResponse } from '../../types';
+import { HttpClient } from '../http/client';
+import { MalformedResponseError, NotFoundError } from '../http/errors';
+import { NFTNormalizer } from '../nft/normalizer';
+import { normalizeName, type NameResolver, type ResolvedName } from './resolver';
+
+interface SnsConfig {
+  baseUrl?: string;
+  http?: HttpClient;
+}
+
+export class SnsResolver implements NameResolver {
+  readonly service: NameService = 'sns';
+  readonly chain = 'solana' as const;
+  private baseUrl: string;
+  private http: HttpClient;
+
+  constructor(config: SnsConfig = {}) {
+    this.baseUrl = (config.baseUrl || 'https://sns-sdk-proxy.bonfida.workers.dev').replace(
+      /\/+$/,
+      ''
+    );
+    this.http =
+      config.http ||
+      new HttpClient({ provider: 'SNS', rateLimit: { capacity: 5, refillPerSecond: 5 } });
+  }
+
+  supports(name: string): boolean {
+    return normalizeName(name).endsWith('.sol');
+  }
+
+  async resolve(name: string): Promise<string | undefined> {
+    const domain = toDomain(name);
+    const owner = await this.get<string>(`/resolve/${encodeURIComponent(domain)}`);
+    return typeof owner === 'string' && owner ? owner : undefined;
+  }
+
+  /**
+   * The owner's favorite (primary) domain
+   */
+  async lookupAddress(address: string): Promise<ResolvedName | undefined> {
+    const favorite = await this.get<{ domain?: string; reverse?: string; stale?: boolean }>(
+      `/favorite-domain/${encodeURIComponent(address)}`
+    );
+    // A stale favorite was set by a previous owner of the domain
+    if (!favorite?.reverse || favorite.stale) return undefined;
+
+    const name = `${favorite.reverse}.sol`;
+    return { name, service: this.service, avatarUrl: await this.getAvatar(name) };
+  }
+
+  /**
+   * The domain's `pic` record, when it is an image URL
+   */
+  async getAvatar(name: string): Promise<string | undefined> {
+    try {
+      const record = await this.get<{ deserialized?: string }>(
+        `/record-v2/${encodeURIComponent(toDomain(name))}/pic`
+      );
+      const pic = record?.deserialized;
+      if (!pic || !/^(https?|ipfs|ar):\/\//.test(pic)) return undefined;
+      return NFTNormalizer.normalizeImageUrl(pic);
+    } catch (error) {
+      // The avatar is optional; a malformed record shouldn't fail the lookup
+      if (error instanceof MalformedResponseError || error instanceof NotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * GET a proxy endpoint. The proxy answers unknown domains and owners with
+   * `{ s: 'error' }`, which comes back as undefined.
+   */
+  private async get<T>(path: string): Promise<T | undefined> {
+    let response: SnsProxyResponse<T>;
+    try {
+      response = await this.http.get<SnsProxyResponse<T>>(`${this.baseUrl}${path}`);
+    } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+
+    if (response?.s === 'error') return undefined;
+    if (response?.s !== 'ok') {
+      throw new MalformedResponseError('SNS proxy returned no result', { provider: 'SNS' });
+    }
+    return response.result;
+  }
+}
+
+/**
+ * Domain without the .sol suffix, as the proxy expects
+ */
+function toDomain(name: string): string {
+  return normalizeName(name).replace(/\.sol$/, '');
+}
@@ -0,0 +1,230 @@
+/**
+ * Wallet Names
+ * Adds wallets by name, shows primary names and avatars for existing wallets,
+ * and revalidates names so one that was re-pointed gets flagged
+ */
+
+import type { ChainType, Wallet, WalletName } from '../../types';
+import { validateAddress } from '../../utils/validation';
+import {
+  NameNotResolvedError,
+  UnsupportedNameError,
+  isName,
+  isSameAddress,
+  normalizeName,
+  type NameResolver,
+} from './resolver';
+
+const HOUR = 60 * 60 * 1000;
+
+interface NameStoreState {
+  wallets: Wallet[];
+  addWallet: (wallet: Omit<Wallet, 'id' | 'addedAt'>) => void;
+  updateWallet: (id: string, updates: Partial<Wallet>) => void;
+}
+
+/**
+ * Minimal slice of the Zustand store wallet names depend on
+ */
+export interface NameStore {
+  getState: () => NameStoreState;
+}
+
+export interface WalletNameServiceConfig {
+  store: NameStore;
+  /**
+   * Consulted in order; the first that supports a name resolves it
+   */
+  resolvers: NameResolver[];
+  intervalMs?: number; // how often each wallet's name is revalidated
+  now?: () => number;
+}
+
+export interface WalletInput {
+  address: string;
+  chain: ChainType;
+  name?: WalletName;
+}
+
+export class WalletNameService {
+  private store: NameStore;
+  private resolvers: NameResolver[];
+  private intervalMs: number;
+  private now: () => number;
+  private timer?: ReturnType<typeof setInterval>;
+  private checking = false;
+  // Last check per wallet this session; before that, when its name was last verified
+  private checkedAt = new Map<string, number>();
+
+  constructor(config: WalletNameServiceConfig) {
+    this.store = config.store;
+    this.resolvers = config.resolvers;
+    this.intervalMs = config.intervalMs ?? 24 * HOUR;
+    this.now = config.now || Date.now;
+  }
+
+  /**
+   * Turn wallet input into an address. Names are resolved; anything else is
+   * validated as an address, on `chain` or the chain it looks like.
+   * Throws AddressValidationError for invalid addresses.
+   */
+  async resolveInput(input: string, chain?: ChainType): Promise<WalletInput> {
+    const trimmed = input.trim();
+    if (!isName(trimmed)) {
+      return validateAddress(trimmed, chain);
+    }
+
+    const name = normalizeName(trimmed);
+    const resolver = this.getResolver(name);
+    if (!resolver) {
+      throw new UnsupportedNameError(name);
+    }
+
+    const address = await resolver.resolve(name);
+    if (!address) {
+      throw new NameNotResolvedError(name);
+    }
+
+    return {
+      address,
+      chain: resolver.chain,
+      name: {
+        name,
+        service: resolver.service,
+        source: 'input',
+        avatarUrl: await this.getAvatar(resolver, name),
+        verifiedAt: this.now(),
+      },
+    };
+  }
+
+  /**
+   * Add a wallet from an address or a name. Throws if the name doesn't
+   * resolve, or the address is invalid or already tracked.
+   */
+  async addWallet(
+    input: string,
+    details: Omit<Wallet, 'id' | 'addedAt' | 'address' | 'chain' | 'name'> & {
+      chain?: ChainType;
+    } = {}
+  ): Promise<WalletInput> {
+    const { chain, ...rest } = details;
+    const resolved = await this.resolveInput(input, chain);
+    this.store.getState().addWallet({ ...rest, ...resolved });
+    return resolved;
+  }
+
+  /**
+   * Re-check one wallet's name. A name the wallet was added by is resolved
+   * again and flagged when it points elsewhere; a primary name is replaced by
+   * the address's current one.
+   */
+  async revalidate(walletId: string): Promise<WalletName | undefined> {
+    const wallet = this.store.getState().wallets.find((w) => w.id === walletId);
+    if (!wallet) return undefined;
+
+    this.checkedAt.set(walletId, this.now());
+    const name =
+      wallet.name?.source === 'input'
+        ? await this.revalidateInputName(wallet, wallet.name)
+        : await this.lookupName(wallet);
+
+    if (name !== wallet.name) {
+      this.store.getState().updateWallet(walletId, { name });
+    }
+    return name;
+  }
+
+  /**
+   * Revalidate every wallet not checked within the interval. Never throws;
+   * a wallet that fails keeps its current name until the next round.
+   */
+  async revalidateDue(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const now = this.now();
+      const due = this.store
+        .getState()
+        .wallets.filter((wallet) => this.getLastCheckedAt(wallet) + this.intervalMs <= now);
+
+      for (const wallet of due) {
+        try {
+          await this.revalidate(wallet.id);
+        } catch (error) {
+          console.warn(`Failed to revalidate the name of wallet ${wallet.id}:`, error);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Revalidate now, then whenever wallets come due. Checks run hourly at most.
+   */
+  start(): void {
+    if (this.timer) return;
+    this.revalidateDue();
+    this.timer = setInterval(() => this.revalidateDue(), Math.min(this.intervalMs, HOUR));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async revalidateInputName(wallet: Wallet, current: WalletName): Promise<WalletName> {
+    const resolver = this.getResolver(current.name);
+    if (!resolver) return current;
+
+    const resolvedTo = await resolver.resolve(current.name);
+    if (resolvedTo && isSameAddress(wallet.chain, resolvedTo, wallet.address)) {
+      return {
+        ...current,
+        avatarUrl: (await this.getAvatar(resolver, current.name)) ?? current.avatarUrl,
+        verifiedAt: this.now(),
+        mismatch: undefined,
+      };
+    }
+
+    // Keep when it was first noticed, unless it moved again since
+    if (current.mismatch && current.mismatch.resolvedTo === resolvedTo) {
+      return current;
+    }
+    return { ...current, mismatch: { resolvedTo, detectedAt: this.now() } };
+  }
+
+  /**
+   * The address's primary name from the first resolver on its chain that has one
+   */
+  private async lookupName(wallet: Wallet): Promise<WalletName | undefined> {
+    for (const resolver of this.resolvers.filter((r) => r.chain === wallet.chain)) {
+      const found = await resolver.lookupAddress(wallet.address);
+      if (found) {
+        return { ...found, source: 'reverse', verifiedAt: this.now() };
+      }
+    }
+    return undefined;
+  }
+
+  private getLastCheckedAt(wallet: Wallet): number {
+    return this.checkedAt.get(wallet.id) ?? wallet.name?.verifiedAt ?? 0;
+  }
+
+  private getResolver(name: string): NameResolver | undefined {
+    return this.resolvers.find((resolver) => resolver.supports(name));
+  }
+
+  private async getAvatar(resolver: NameResolver, name: string): Promise<string | undefined> {
+    try {
+      return await resolver.getAvatar?.(name);
+    } catch (error) {
+      console.warn(`Failed to load the avatar for ${name}:`, error);
+      return undefined;
+    }
+  }
+}
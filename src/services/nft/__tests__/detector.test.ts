@@ -0,0 +1,191 @@
+import { describe, expect, it } from '@jest/globals';
+import type { AlchemyNFTV3, NFT } from '../../../types';
+import { FarcasterDetector, applyDetection, detectFarcasterMint } from '../detector';
+import { DEFAULT_FARCASTER_RULES, validateFarcasterRules } from '../farcasterRules';
+import { NFTNormalizer } from '../normalizer';
+import channelMints from './fixtures/alchemy-v3-channel-mints.json';
+import zoraMint from './fixtures/alchemy-v3-zora-mint.json';
+import plainMint from './fixtures/alchemy-v3-plain-mint.json';
+
+// Real responses carry nulls where our types have optional fields
+function normalize(fixture: unknown, chain: 'base' | 'ethereum'): NFT {
+  return NFTNormalizer.fromAlchemy(fixture as AlchemyNFTV3, 'wallet-1', chain);
+}
+
+describe('FarcasterDetector mint contract signal', () => {
+  const detector = new FarcasterDetector();
+
+  it('carries the mint address through normalization', () => {
+    expect(normalize(zoraMint, 'base').metadata.mintedBy).toBe(
+      '0x04e2516a2c207e84a1839755675dfd8ef6302f0a'
+    );
+  });
+
+  it('fires for a token minted through a mint platform contract', () => {
+    const detection = detector.detect(normalize(zoraMint, 'base'));
+
+    expect(detection.signals.map((s) => s.id)).toEqual(['mint-contract', 'base-chain']);
+  });
+
+  it('needs a second signal besides the mint platform', () => {
+    const nft = normalize(zoraMint, 'base');
+    expect(detector.detect(nft).isFarcasterMint).toBe(false);
+
+    const withChannel = {
+      ...nft,
+      metadata: { ...nft.metadata, attributes: [{ trait_type: 'Channel', value: 'art' }] },
+    };
+    expect(detector.detect(withChannel).isFarcasterMint).toBe(true);
+  });
+
+  it('stays quiet for a token minted from its own contract', () => {
+    const detection = detector.detect(normalize(plainMint, 'ethereum'));
+
+    expect(detection.signals).toEqual([]);
+    expect(detection.isFarcasterMint).toBe(false);
+  });
+
+  it('still matches rules that list the token contract itself', () => {
+    const nft = normalize(plainMint, 'ethereum');
+    const custom = new FarcasterDetector({
+      ...detector.getRules(),
+      signals: [
+        {
+          id: 'listed',
+          label: 'Listed collection',
+          type: 'contract',
+          weight: 0.9,
+          addresses: [nft.contractAddress],
+        },
+      ],
+    });
+
+    expect(custom.detect(nft).isFarcasterMint).toBe(true);
+  });
+});
+
+describe('FarcasterDetector channel extraction', () => {
+  const detector = new FarcasterDetector();
+  const page = channelMints as { ownedNfts: unknown[] };
+  const byName = new Map(
+    page.ownedNfts.map((fixture) => {
+      const nft = normalize(fixture, 'base');
+      return [nft.name, nft];
+    })
+  );
+  const channelOf = (name: string) => detector.extractChannel(byName.get(name)!);
+
+  it('reads channel pages on Farcaster clients', () => {
+    expect(channelOf('Daily Light #12')).toBe('itookaphoto');
+    expect(channelOf('Onchain Summer Badge')).toBe('base-builds');
+  });
+
+  it('reads "channel: x" and "/x channel" mentions', () => {
+    expect(channelOf('Glyph 88')).toBe('design');
+    expect(channelOf('Frame Poster')).toBe('frames');
+  });
+
+  it('prefers a channel trait', () => {
+    expect(channelOf('Track 207')).toBe('music');
+  });
+
+  it('ignores URL parts and names that are not channels', () => {
+    expect(channelOf('Archive Print')).toBeUndefined();
+    expect(channelOf('Gallery Pass')).toBeUndefined();
+    expect(channelOf('Long Name')).toBeUndefined();
+  });
+
+  it('sets the channel on detected mints', () => {
+    const detected = detectFarcasterMint(byName.get('Daily Light #12')!);
+
+    expect(detected.metadata.isFarcasterMint).toBe(true);
+    expect(detected.metadata.farcasterChannel).toBe('itookaphoto');
+    expect(detected.metadata.farcasterDetection?.signals.map((s) => s.id)).toEqual([
+      'mint-contract',
+      'base-chain',
+      'farcaster-link',
+    ]);
+  });
+});
+
+describe('applyDetection', () => {
+  const frame = detectFarcasterMint(
+    normalize((channelMints as { ownedNfts: unknown[] }).ownedNfts[3], 'base')
+  );
+
+  it('lets a "not a mint" override win over the detector', () => {
+    expect(frame.metadata.isFarcasterMint).toBe(true);
+
+    const corrected = applyDetection({
+      ...frame,
+      localOverrides: { metadata: { isFarcasterMint: false } },
+    });
+
+    expect(corrected.metadata.isFarcasterMint).toBe(false);
+    expect(corrected.metadata.farcasterChannel).toBeUndefined();
+    expect(corrected.metadata.farcasterDetection).toEqual(frame.metadata.farcasterDetection);
+  });
+
+  it("uses the override's channel", () => {
+    const plain = detectFarcasterMint(normalize(plainMint, 'ethereum'));
+    const corrected = applyDetection({
+      ...plain,
+      localOverrides: { metadata: { isFarcasterMint: true, farcasterChannel: 'art' } },
+    });
+
+    expect(plain.metadata.isFarcasterMint).toBe(false);
+    expect(corrected.metadata.isFarcasterMint).toBe(true);
+    expect(corrected.metadata.farcasterChannel).toBe('art');
+  });
+
+  it('falls back to the detection when the override is removed', () => {
+    const corrected = applyDetection({
+      ...frame,
+      localOverrides: { metadata: { isFarcasterMint: false } },
+    });
+
+    expect(applyDetection({ ...corrected, localOverrides: undefined }).metadata).toMatchObject({
+      isFarcasterMint: true,
+      farcasterChannel: 'frames',
+    });
+  });
+});
+
+describe('validateFarcasterRules', () => {
+  const rules = (changes: Record<string, unknown>) => ({
+    ...JSON.parse(JSON.stringify(DEFAULT_FARCASTER_RULES)),
+    ...changes,
+  });
+  const mintContract = DEFAULT_FARCASTER_RULES.signals[0];
+  const signal = (changes: Record<string, unknown>) =>
+    rules({ signals: [{ ...mintContract, ...changes }] });
+
+  it('accepts the bundled rules as JSON', () => {
+    const json = JSON.parse(JSON.stringify(DEFAULT_FARCASTER_RULES));
+    expect(validateFarcasterRules(json)).toEqual(DEFAULT_FARCASTER_RULES);
+  });
+
+  it.each([
+    ['not an object', []],
+    ['version must be a positive integer', rules({ version: 1.5 })],
+    ['threshold must be in (0, 1]', rules({ threshold: 0 })],
+    ['signals must be an array', rules({ signals: {} })],
+    ['needs a unique id', rules({ signals: [mintContract, { ...mintContract, label: 'Again' }] })],
+    ['has unknown type', signal({ type: 'holder' })],
+    ['weight must be in [0, 1]', signal({ weight: 1.5 })],
+    ['needs a addresses list', signal({ addresses: '0xabc' })],
+    ['has an unknown field', signal({ type: 'keyword', keywords: ['fc'], fields: ['title'] })],
+    ['channels.traitTypes must be a string list', rules({ channels: { patterns: [] } })],
+  ])('rejects rules where %s', (reason, value) => {
+    expect(() => validateFarcasterRules(value)).toThrow(reason);
+  });
+
+  it('rejects channel patterns that do not compile', () => {
+    const value = rules({
+      channels: { ...DEFAULT_FARCASTER_RULES.channels, patterns: ['channel/([a-z]+'] },
+    });
+    expect(() => validateFarcasterRules(value)).toThrow(
+      "channel pattern channel/([a-z]+ doesn't compile"
+    );
+  });
+});
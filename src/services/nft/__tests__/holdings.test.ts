@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import type { NFT, NFTRarity } from '../../../types';
+import { getQuantity, mergeWalletView, removeWalletHolding } from '../holdings';
+
+const CONTRACT = `0x${'cd'.repeat(20)}`;
+const RARITY: NFTRarity = {
+  score: 3,
+  statisticalScore: 2,
+  traitCountScore: 1,
+  rank: 1,
+  total: 10,
+  source: 'owned',
+  computedAt: 0,
+};
+
+function makeEdition(walletId: string, quantity: number, overrides: Partial<NFT> = {}): NFT {
+  return {
+    id: `eip155:8453/nft:${CONTRACT}/7`,
+    walletId,
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: CONTRACT,
+    tokenId: '7',
+    tokenStandard: 'erc1155',
+    name: 'Edition #7',
+    image: '',
+    collection: { name: 'Editions', address: CONTRACT },
+    metadata: { isFarcasterMint: false, attributes: [] },
+    quantity: quantity > 1 ? quantity : undefined,
+    lastFetched: 0,
+    ...overrides,
+  };
+}
+
+describe('mergeWalletView', () => {
+  it('keeps the shared record when an 1155 copy shows up in a second wallet', () => {
+    const stored = mergeWalletView(
+      undefined,
+      makeEdition('wallet-1', 2, {
+        firstSeenAt: 100,
+        hidden: true,
+        localOverrides: { hidden: true },
+        rarity: RARITY,
+      })
+    );
+
+    const merged = mergeWalletView(
+      stored,
+      makeEdition('wallet-2', 3, { name: 'Edition #7 (renamed)', firstSeenAt: 200, lastFetched: 5 })
+    );
+
+    expect(merged.hidden).toBe(true);
+    expect(merged.localOverrides).toEqual({ hidden: true });
+    expect(merged.rarity).toEqual(RARITY);
+    expect(merged.name).toBe('Edition #7 (renamed)');
+    expect(merged.lastFetched).toBe(5);
+    expect(merged.walletId).toBe('wallet-1');
+    expect(merged.firstSeenAt).toBe(100);
+    expect(getQuantity(merged)).toBe(5);
+    expect(merged.holdings).toEqual([
+      { walletId: 'wallet-1', quantity: 2, firstSeenAt: 100 },
+      { walletId: 'wallet-2', quantity: 3, firstSeenAt: 200 },
+    ]);
+
+    const remaining = removeWalletHolding(merged, 'wallet-1')!;
+    expect(remaining.hidden).toBe(true);
+    expect(remaining.walletId).toBe('wallet-2');
+    expect(getQuantity(remaining)).toBe(3);
+    expect(remaining.holdings).toBeUndefined();
+  });
+
+  it("replaces only the syncing wallet's holding", () => {
+    const shared = mergeWalletView(
+      mergeWalletView(undefined, makeEdition('wallet-1', 2)),
+      makeEdition('wallet-2', 1)
+    );
+
+    const updated = mergeWalletView(shared, makeEdition('wallet-1', 4));
+
+    expect(getQuantity(updated, 'wallet-1')).toBe(4);
+    expect(getQuantity(updated, 'wallet-2')).toBe(1);
+    expect(getQuantity(updated)).toBe(5);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@jest/globals';
+import fc from 'fast-check';
+import type { EVMChain } from '../../../types';
+import {
+  EVM_CHAIN_IDS,
+  InvalidIdError,
+  formatCollectionId,
+  formatNFTId,
+  parseCollectionId,
+  parseNFTId,
+  toCanonicalNFTId,
+  tryFormat,
+} from '../ids';
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const evmChain = fc.constantFrom(...(Object.keys(EVM_CHAIN_IDS) as EVMChain[]));
+const contract = fc
+  .hexaString({ minLength: 40, maxLength: 40 })
+  .chain((hex) => fc.constantFrom(`0x${hex}`, `0x${hex.toUpperCase()}`));
+// Up to 78 decimal digits, as uint256 allows
+const tokenValue = fc.bigInt({ min: 0n, max: 10n ** 78n - 1n });
+// The spellings APIs have reported token ids in
+const spellings = (value: bigint) => [
+  value.toString(),
+  `0x${value.toString(16)}`,
+  `00${value.toString()}`,
+];
+const tokenId = tokenValue.chain((value) => fc.constantFrom(...spellings(value)));
+const solanaAddress = fc
+  .array(fc.constantFrom(...BASE58.split('')), { minLength: 32, maxLength: 44 })
+  .map((chars) => chars.join(''));
+
+describe('NFT ids', () => {
+  it('round-trips EVM ids to canonical parts', () => {
+    fc.assert(
+      fc.property(evmChain, contract, tokenValue, (chain, address, value) => {
+        const id = formatNFTId({
+          chain: 'evm',
+          evmChain: chain,
+          contractAddress: address,
+          tokenId: `0x${value.toString(16)}`,
+        });
+        expect(parseNFTId(id)).toEqual({
+          chain: 'evm',
+          evmChain: chain,
+          contractAddress: address.toLowerCase(),
+          tokenId: value.toString(),
+        });
+      })
+    );
+  });
+
+  it('formats every spelling of a token to the same id', () => {
+    fc.assert(
+      fc.property(evmChain, contract, tokenValue, (chain, address, value) => {
+        const ids = spellings(value).map((token) =>
+          formatNFTId({ chain: 'evm', evmChain: chain, contractAddress: address, tokenId: token })
+        );
+        expect(new Set(ids).size).toBe(1);
+        expect(formatNFTId(parseNFTId(ids[0])!)).toBe(ids[0]);
+      })
+    );
+  });
+
+  it('round-trips Solana ids', () => {
+    fc.assert(
+      fc.property(solanaAddress, (mint) => {
+        expect(parseNFTId(formatNFTId({ chain: 'solana', mint }))).toEqual({
+          chain: 'solana',
+          mint,
+        });
+        expect(parseCollectionId(formatCollectionId({ chain: 'solana', address: mint }))).toEqual({
+          chain: 'solana',
+          address: mint,
+        });
+      })
+    );
+  });
+
+  it('parses only what it would format', () => {
+    fc.assert(
+      fc.property(fc.string(), (id) => {
+        const parts = parseNFTId(id);
+        if (parts) expect(formatNFTId(parts)).toBe(id);
+      })
+    );
+  });
+
+  it('upgrades version 1 EVM ids to the canonical id', () => {
+    fc.assert(
+      fc.property(evmChain, contract, tokenId, (chain, address, token) => {
+        const canonical = formatNFTId({
+          chain: 'evm',
+          evmChain: chain,
+          contractAddress: address,
+          tokenId: token,
+        });
+        expect(toCanonicalNFTId(`evm:${chain}:${address}:${token}`)).toBe(canonical);
+      })
+    );
+  });
+
+  it('rejects malformed parts', () => {
+    const parts = { chain: 'evm' as const, evmChain: 'base' as const, tokenId: '1' };
+    expect(() => formatNFTId({ ...parts, contractAddress: '0xabc' })).toThrow(InvalidIdError);
+    expect(tryFormat(() => formatNFTId({ ...parts, contractAddress: '0xabc' }))).toBeUndefined();
+    expect(() => formatNFTId({ chain: 'solana', mint: 'not-base58!' })).toThrow(InvalidIdError);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from '@jest/globals';
+import type { NFT, NFTAttribute } from '../../../types';
+import {
+  buildTraitTable,
+  computeRarity,
+  getRarityPercentile,
+  rankTokens,
+  scoreToken,
+  type TraitToken,
+} from '../rarity';
+import { getCollectionId } from '../collections';
+
+function token(tokenId: string, traits: Record<string, string>): TraitToken {
+  return {
+    tokenId,
+    attributes: Object.entries(traits).map(([trait_type, value]) => ({ trait_type, value })),
+  };
+}
+
+// Background: blue ×3, red ×1. Hat: cap ×2, crown ×1, missing ×1.
+// Three tokens have two traits, one has a single trait.
+const COLLECTION: TraitToken[] = [
+  token('1', { Background: 'Blue', Hat: 'Cap' }),
+  token('2', { Background: 'Blue', Hat: 'Crown' }),
+  token('3', { Background: 'Red', Hat: 'Cap' }),
+  token('4', { Background: 'Blue' }),
+];
+
+function makeNFT(contract: string, tokenId: string, attributes: NFTAttribute[]): NFT {
+  const contractAddress = `0x${contract.repeat(40)}`;
+  return {
+    id: `eip155:1/nft:${contractAddress}/${tokenId}`,
+    walletId: 'wallet-1',
+    chain: 'evm',
+    evmChain: 'ethereum',
+    contractAddress,
+    tokenId,
+    name: `#${tokenId}`,
+    image: '',
+    collection: { name: contract, address: contractAddress },
+    metadata: { isFarcasterMint: false, attributes },
+    lastFetched: 0,
+  };
+}
+
+describe('buildTraitTable', () => {
+  it('counts trait values, missing traits and trait counts', () => {
+    const table = buildTraitTable(COLLECTION);
+
+    expect(table.total).toBe(4);
+    expect(Object.fromEntries(table.traits.get('background')!)).toEqual({ blue: 3, red: 1 });
+    expect(Object.fromEntries(table.traits.get('hat')!)).toEqual({
+      cap: 2,
+      crown: 1,
+      __none__: 1,
+    });
+    expect(Object.fromEntries(table.traitCounts)).toEqual({ 1: 1, 2: 3 });
+  });
+
+  it('ignores case, empty values, "none" and numeric stats', () => {
+    const table = buildTraitTable([
+      {
+        tokenId: '1',
+        attributes: [
+          { trait_type: ' Eyes ', value: 'LASER ' },
+          { trait_type: 'Mouth', value: 'None' },
+          { trait_type: 'Hat', value: '' },
+          { trait_type: 'Level', value: 5, display_type: 'number' },
+        ],
+      },
+      token('2', { eyes: 'laser' }),
+    ]);
+
+    expect(Array.from(table.traits.keys())).toEqual(['eyes']);
+    expect(table.traits.get('eyes')!.get('laser')).toBe(2);
+  });
+});
+
+describe('scoreToken', () => {
+  it('sums inverse frequencies of trait values and the trait count', () => {
+    const table = buildTraitTable(COLLECTION);
+
+    // 4/3 (blue) + 4/1 (no hat) = 5.33; 4/1 (only token with one trait) = 4
+    const lonely = scoreToken(COLLECTION[3], table);
+    expect(lonely.statisticalScore).toBeCloseTo(16 / 3);
+    expect(lonely.traitCountScore).toBeCloseTo(4);
+    expect(lonely.score).toBeCloseTo(28 / 3);
+  });
+
+  it('scores an empty population as zero', () => {
+    expect(scoreToken(COLLECTION[0], buildTraitTable([]))).toEqual({
+      statisticalScore: 0,
+      traitCountScore: 0,
+      score: 0,
+    });
+  });
+});
+
+describe('rankTokens', () => {
+  it('ranks the fixture collection rarest first', () => {
+    const ranks = rankTokens(COLLECTION, 'owned', 100);
+
+    expect(Object.fromEntries(ranks)).toEqual({
+      '4': expect.objectContaining({ rank: 1, score: 9.33, statisticalScore: 5.33, traitCountScore: 4 }),
+      '3': expect.objectContaining({ rank: 2, score: 7.33, statisticalScore: 6, traitCountScore: 1.33 }),
+      '2': expect.objectContaining({ rank: 3, score: 6.67, statisticalScore: 5.33, traitCountScore: 1.33 }),
+      '1': expect.objectContaining({ rank: 4, score: 4.67, statisticalScore: 3.33, traitCountScore: 1.33 }),
+    });
+    expect(ranks.get('1')).toMatchObject({ total: 4, source: 'owned', computedAt: 100 });
+  });
+
+  it('gives tied scores the same rank', () => {
+    const ranks = rankTokens(
+      [token('a', { x: '1' }), token('b', { x: '1' }), token('c', { x: '2' })],
+      'owned'
+    );
+
+    expect(ranks.get('c')).toMatchObject({ rank: 1, score: 4 });
+    expect(ranks.get('a')).toMatchObject({ rank: 2, score: 2.5 });
+    expect(ranks.get('b')).toMatchObject({ rank: 2, score: 2.5 });
+  });
+});
+
+describe('computeRarity', () => {
+  it('ranks each collection separately', () => {
+    const nfts = [
+      ...COLLECTION.map((t) => makeNFT('a', t.tokenId, t.attributes)),
+      makeNFT('b', '1', [{ trait_type: 'Hat', value: 'Cap' }]),
+      makeNFT('b', '2', [{ trait_type: 'Hat', value: 'Crown' }]),
+    ];
+
+    const rarity = computeRarity(nfts);
+
+    expect(rarity.get(nfts[3].id)).toMatchObject({ rank: 1, total: 4, source: 'owned' });
+    expect(rarity.get(nfts[4].id)).toMatchObject({ rank: 1, total: 2 });
+    expect(rarity.get(nfts[5].id)).toMatchObject({ rank: 1, total: 2 });
+  });
+
+  it('ranks against a full collection population when one is given', () => {
+    const owned = makeNFT('a', '1', COLLECTION[0].attributes);
+    const populations = new Map([[getCollectionId(owned), COLLECTION]]);
+
+    expect(computeRarity([owned], populations).get(owned.id)).toMatchObject({
+      rank: 4,
+      total: 4,
+      source: 'collection',
+    });
+  });
+
+  it('skips collections without attributes', () => {
+    expect(computeRarity([makeNFT('c', '1', []), makeNFT('c', '2', [])]).size).toBe(0);
+  });
+});
+
+describe('getRarityPercentile', () => {
+  it('places rank 1 at 0 and rank 4 of 4 at 75', () => {
+    const ranks = rankTokens(COLLECTION, 'owned');
+    expect(getRarityPercentile(ranks.get('4')!)).toBe(0);
+    expect(getRarityPercentile(ranks.get('1')!)).toBe(75);
+  });
+});
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { Wallet, WalletSyncState } from '../../../types';
+import {
+  RefreshScheduler,
+  type RefreshEnvironment,
+  type RefreshSchedulerConfig,
+  type SchedulerStore,
+} from '../scheduler';
+import type { WalletSyncProgress } from '../sync';
+
+// The scheduler only touches AppState through the default environment, which tests replace
+jest.mock('react-native', () => ({ AppState: {} }));
+
+const START = 1_000_000;
+const MINUTE = 60 * 1000;
+
+type StoreState = ReturnType<SchedulerStore['getState']>;
+
+function makeWallet(id: string): Wallet {
+  return { id, address: `0x${id.padStart(40, '0')}`, chain: 'evm', addedAt: 0 };
+}
+
+function createStore(wallets: Wallet[], refreshInterval = 15): SchedulerStore {
+  const listeners = new Set<(state: StoreState, prevState: StoreState) => void>();
+  let state: StoreState = {
+    wallets,
+    settings: { refreshInterval },
+    walletSync: {},
+    updateWalletSync: (walletId, updates) => {
+      const prevState = state;
+      const current: WalletSyncState = state.walletSync[walletId] || { consecutiveFailures: 0 };
+      state = {
+        ...state,
+        walletSync: { ...state.walletSync, [walletId]: { ...current, ...updates } },
+      };
+      listeners.forEach((listener) => listener(state, prevState));
+    },
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Environment whose signals tests flip, notifying the scheduler like AppState would
+ */
+function createEnvironment() {
+  let notify: () => void = () => undefined;
+  const signals = { foreground: true, lowBattery: false };
+  const environment: RefreshEnvironment = {
+    isForeground: () => signals.foreground,
+    isLowBattery: async () => signals.lowBattery,
+    subscribe: (listener) => {
+      notify = listener;
+      return () => {
+        notify = () => undefined;
+      };
+    },
+  };
+  return {
+    environment,
+    set(changes: Partial<typeof signals>) {
+      Object.assign(signals, changes);
+      notify();
+    },
+  };
+}
+
+/**
+ * Sync stub recording when (relative to START) each wallet sync began
+ */
+function createSync(status: (wallet: Wallet) => WalletSyncProgress['status'] = () => 'success') {
+  const started: [string, number][] = [];
+  const sync: RefreshSchedulerConfig['sync'] = {
+    syncWallet: async (wallet) => {
+      started.push([wallet.id, Date.now() - START]);
+      const result = status(wallet);
+      return {
+        walletId: wallet.id,
+        status: result,
+        error: result === 'error' ? new Error('provider down') : undefined,
+      };
+    },
+  };
+  return { sync, started };
+}
+
+describe('RefreshScheduler', () => {
+  let scheduler: RefreshScheduler | undefined;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    scheduler = undefined;
+    jest.useRealTimers();
+  });
+
+  function start(config: Omit<RefreshSchedulerConfig, 'now'>): RefreshScheduler {
+    scheduler = new RefreshScheduler({ ...config, now: () => Date.now() });
+    scheduler.start();
+    return scheduler;
+  }
+
+  it('staggers wallets that are due at the same time', async () => {
+    const store = createStore([makeWallet('a'), makeWallet('b'), makeWallet('c')]);
+    const { sync, started } = createSync();
+    start({ store, sync, environment: createEnvironment().environment, staggerMs: 2000 });
+
+    await jest.advanceTimersByTimeAsync(10_000);
+
+    expect(started).toEqual([
+      ['a', 0],
+      ['b', 2000],
+      ['c', 4000],
+    ]);
+    expect(store.getState().walletSync.a).toMatchObject({
+      lastSyncedAt: START,
+      nextSyncAt: START + 15 * MINUTE,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('plans a synced wallet one interval after its last sync', async () => {
+    const store = createStore([makeWallet('a')], 5);
+    store.getState().updateWalletSync('a', { lastSyncedAt: START - 2 * MINUTE });
+    const { sync, started } = createSync();
+    start({ store, sync, environment: createEnvironment().environment });
+
+    await jest.advanceTimersByTimeAsync(3 * MINUTE - 1);
+    expect(started).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([['a', 3 * MINUTE]]);
+  });
+
+  it('backs off exponentially after consecutive failures, up to the cap', async () => {
+    const store = createStore([makeWallet('a')]);
+    let failing = true;
+    const { sync, started } = createSync(() => (failing ? 'error' : 'success'));
+    start({
+      store,
+      sync,
+      environment: createEnvironment().environment,
+      staggerMs: 0, // the stagger would also space out retries
+      retryBaseMs: 1000,
+      maxBackoffMs: 5000,
+    });
+
+    await jest.advanceTimersByTimeAsync(12_000);
+
+    // Retries 1s, 2s, 4s, then 5s (capped) after each failure
+    expect(started.map(([, at]) => at)).toEqual([0, 1000, 3000, 7000, 12_000]);
+    expect(store.getState().walletSync.a).toMatchObject({
+      nextSyncAt: START + 17_000,
+      lastError: 'provider down',
+      consecutiveFailures: 5,
+    });
+
+    failing = false;
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(store.getState().walletSync.a).toMatchObject({
+      lastSyncedAt: START + 17_000,
+      nextSyncAt: START + 17_000 + 15 * MINUTE,
+      lastError: undefined,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('waits for a backoff retry time set before it started', async () => {
+    const wallets = [makeWallet('a')];
+    const store = createStore(wallets);
+    store.getState().updateWalletSync('a', {
+      lastSyncedAt: START - 60 * MINUTE,
+      nextSyncAt: START + 8000,
+      consecutiveFailures: 3,
+    });
+    const { sync, started } = createSync();
+    start({ store, sync, environment: createEnvironment().environment });
+
+    await jest.advanceTimersByTimeAsync(7999);
+    expect(started).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([['a', 8000]]);
+  });
+
+  it('pauses in the background and on low battery, and resumes when both clear', async () => {
+    const store = createStore([makeWallet('a')]);
+    const { sync, started } = createSync();
+    const env = createEnvironment();
+    env.set({ foreground: false });
+    const running = start({ store, sync, environment: env.environment });
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(started).toEqual([]);
+    expect(running.getPauseReason()).toBe('background');
+
+    env.set({ foreground: true, lowBattery: true });
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(started).toEqual([]);
+    expect(running.getPauseReason()).toBe('low_battery');
+
+    env.set({ lowBattery: false });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([['a', 120_000]]);
+    expect(running.getPauseReason()).toBeUndefined();
+  });
+
+  it('does not sync when refreshing is disabled', async () => {
+    const store = createStore([makeWallet('a')], 0);
+    const { sync, started } = createSync();
+    const running = start({ store, sync, environment: createEnvironment().environment });
+
+    await jest.advanceTimersByTimeAsync(60 * MINUTE);
+
+    expect(started).toEqual([]);
+    expect(running.getPauseReason()).toBe('disabled');
+  });
+
+  it('stops scheduling once stopped', async () => {
+    const store = createStore([makeWallet('a'), makeWallet('b')]);
+    const { sync, started } = createSync();
+    const running = start({ store, sync, environment: createEnvironment().environment });
+
+    await jest.advanceTimersByTimeAsync(0);
+    running.stop();
+    await jest.advanceTimersByTimeAsync(60_000);
+
+    expect(started).toEqual([['a', 0]]);
+  });
+});
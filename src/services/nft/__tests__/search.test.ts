@@ -0,0 +1,137 @@
+import { describe, expect, it } from '@jest/globals';
+import type { NFT, NFTAttribute } from '../../../types';
+import { NFTSearchIndex, parseQuery, tokenize } from '../search';
+
+const CONTRACT = `0x${'ab'.repeat(20)}`;
+
+function makeNFT(
+  tokenId: string,
+  name: string,
+  options: {
+    collection?: string;
+    channel?: string;
+    attributes?: NFTAttribute[];
+    description?: string;
+    evmChain?: NFT['evmChain'];
+  } = {}
+): NFT {
+  return {
+    id: `eip155:8453/nft:${CONTRACT}/${tokenId}`,
+    walletId: 'wallet-1',
+    chain: 'evm',
+    evmChain: options.evmChain ?? 'base',
+    contractAddress: CONTRACT,
+    tokenId,
+    name,
+    description: options.description,
+    image: '',
+    collection: { name: options.collection ?? 'Sunset Club', address: CONTRACT },
+    metadata: {
+      isFarcasterMint: !!options.channel,
+      farcasterChannel: options.channel,
+      attributes: options.attributes ?? [],
+    },
+    lastFetched: 0,
+  };
+}
+
+describe('parseQuery', () => {
+  it('splits free text and qualifiers', () => {
+    expect(parseQuery('Blue hat chain:Base channel:/Zora collection:"Cool Cats"')).toEqual({
+      terms: ['blue', 'hat'],
+      qualifiers: {
+        traits: [],
+        chains: ['base'],
+        channels: ['zora'],
+        collections: ['cool cats'],
+      },
+    });
+  });
+
+  it('parses trait qualifiers with and without values', () => {
+    expect(parseQuery('trait:Background=Blue trait:Hat').qualifiers.traits).toEqual([
+      { trait_type: 'background', value: 'blue' },
+      { trait_type: 'hat', value: undefined },
+    ]);
+  });
+
+  it('parses quoted multi-word trait types and values', () => {
+    const { terms, qualifiers } = parseQuery(
+      'trait:Type="Multi word" trait:"Eye Color"="Deep Blue" trait:"Hat Style" rare'
+    );
+    expect(qualifiers.traits).toEqual([
+      { trait_type: 'type', value: 'multi word' },
+      { trait_type: 'eye color', value: 'deep blue' },
+      { trait_type: 'hat style', value: undefined },
+    ]);
+    expect(terms).toEqual(['rare']);
+  });
+
+  it('treats quoted phrases and unknown qualifiers as text', () => {
+    expect(parseQuery('"Golden Hour" foo:bar').terms).toEqual(['golden', 'hour', 'foo', 'bar']);
+  });
+
+  it('tokenizes across scripts and punctuation', () => {
+    expect(tokenize('Punk #42 — Café')).toEqual(['punk', '42', 'café']);
+    expect(tokenize(undefined)).toEqual([]);
+  });
+});
+
+describe('NFTSearchIndex', () => {
+  const sunrise = makeNFT('1', 'Golden Sunrise', {
+    attributes: [{ trait_type: 'Eye Color', value: 'Deep Blue' }],
+  });
+  const harbor = makeNFT('2', 'Harbor Lights', {
+    collection: 'Night Walks',
+    channel: 'art',
+    description: 'A golden glow over the water',
+  });
+  const rocket = makeNFT('3', 'Rocket', {
+    evmChain: 'ethereum',
+    attributes: [{ trait_type: 'Type', value: 'Multi word' }],
+  });
+
+  function buildIndex(): NFTSearchIndex {
+    const index = new NFTSearchIndex();
+    index.sync(new Map([sunrise, harbor, rocket].map((nft) => [nft.id, nft])));
+    return index;
+  }
+
+  const names = (index: NFTSearchIndex, query: string, candidates?: NFT[]) =>
+    index.search(query, candidates).map((result) => result.nft.name);
+
+  it('ranks name matches above description matches', () => {
+    expect(names(buildIndex(), 'golden')).toEqual(['Golden Sunrise', 'Harbor Lights']);
+  });
+
+  it('matches by prefix and fuzzily, requiring every term', () => {
+    const index = buildIndex();
+    expect(names(index, 'harb')).toEqual(['Harbor Lights']);
+    expect(names(index, 'sunrize')).toEqual(['Golden Sunrise']);
+    expect(names(index, 'golden water')).toEqual(['Harbor Lights']);
+    expect(names(index, 'rok')).toEqual([]);
+  });
+
+  it('applies qualifiers, alone or with terms', () => {
+    const index = buildIndex();
+    expect(names(index, 'channel:art')).toEqual(['Harbor Lights']);
+    expect(names(index, 'chain:ethereum')).toEqual(['Rocket']);
+    expect(names(index, 'collection:night golden')).toEqual(['Harbor Lights']);
+    expect(names(index, 'trait:"Eye Color"="Deep Blue"')).toEqual(['Golden Sunrise']);
+    expect(names(index, 'trait:Type="Multi word"')).toEqual(['Rocket']);
+  });
+
+  it('limits results to the candidates', () => {
+    expect(names(buildIndex(), 'golden', [harbor])).toEqual(['Harbor Lights']);
+  });
+
+  it('follows the NFT map on sync', () => {
+    const index = buildIndex();
+    const renamed = { ...sunrise, name: 'Silver Sunrise' };
+    index.sync(new Map([[renamed.id, renamed]]));
+
+    expect(index.size).toBe(1);
+    expect(names(index, 'golden')).toEqual([]);
+    expect(names(index, 'silver')).toEqual(['Silver Sunrise']);
+  });
+});
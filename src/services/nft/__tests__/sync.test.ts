@@ -0,0 +1,155 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { NFT, NFTChangeSet, Wallet } from '../../../types';
+import type { NFTProvider } from '../providers';
+import { NFTSyncService, type SyncStore } from '../sync';
+
+type SyncStoreState = ReturnType<SyncStore['getState']>;
+
+function makeWallet(id: string): Wallet {
+  return { id, address: `0x${id.padStart(40, '0')}`, chain: 'evm', addedAt: 0 };
+}
+
+const wallet = makeWallet('1');
+
+/**
+ * Store slice the sync service uses, recording writes. `setWallets` notifies
+ * subscribers like Zustand's setState.
+ */
+function createStore(wallets: Wallet[] = [wallet]) {
+  const listeners = new Set<(state: SyncStoreState, prevState: SyncStoreState) => void>();
+  let state: SyncStoreState = {
+    wallets,
+    nfts: new Map<string, NFT>(),
+    setNFTs: jest.fn(
+      (walletId: string): NFTChangeSet => ({
+        walletId,
+        timestamp: 0,
+        added: [],
+        changed: [],
+        removed: [],
+        transferredOut: [],
+        internalTransfers: [],
+      })
+    ),
+    applyFetchedNFT: jest.fn(),
+    redetectFarcaster: jest.fn(),
+  };
+
+  const store: SyncStore = {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  const setWallets = (next: Wallet[]) => {
+    const prevState = state;
+    state = { ...state, wallets: next };
+    listeners.forEach((listener) => listener(state, prevState));
+  };
+  return { store, setWallets };
+}
+
+/**
+ * Provider whose fetches stay pending until the test settles them, or until
+ * their signal aborts, like a fetch honoring its signal
+ */
+function createPendingProvider() {
+  const pending = new Map<string, { resolve: (nfts: NFT[]) => void; signal?: AbortSignal }>();
+  const provider: NFTProvider = {
+    id: 'stub',
+    supports: () => true,
+    fetchForWallet: (target, signal) =>
+      new Promise((resolve, reject) => {
+        pending.set(target.id, { resolve, signal });
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }),
+  };
+  return { provider, pending };
+}
+
+// Let pending promise callbacks run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('NFTSyncService cancellation', () => {
+  it('aborts the provider request when a sync is cancelled', async () => {
+    const { provider, pending } = createPendingProvider();
+    const { store } = createStore();
+    const sync = new NFTSyncService({ store, providers: [provider] });
+
+    const result = sync.syncWallet(wallet);
+    const received = pending.get(wallet.id)?.signal;
+    expect(received?.aborted).toBe(false);
+
+    sync.cancel(wallet.id);
+
+    expect(received?.aborted).toBe(true);
+    expect((await result).status).toBe('cancelled');
+    expect(store.getState().setNFTs).not.toHaveBeenCalled();
+  });
+
+  it('cancels the sync of a wallet removed from the store', async () => {
+    const other = makeWallet('2');
+    const { provider, pending } = createPendingProvider();
+    const { store, setWallets } = createStore([wallet, other]);
+    const sync = new NFTSyncService({ store, providers: [provider] });
+
+    const removed = sync.syncWallet(wallet);
+    const kept = sync.syncWallet(other);
+    setWallets([other]);
+
+    expect(pending.get(wallet.id)?.signal?.aborted).toBe(true);
+    expect((await removed).status).toBe('cancelled');
+    expect(sync.isSyncing(wallet.id)).toBe(false);
+
+    pending.get(other.id)?.resolve([]);
+    expect((await kept).status).toBe('success');
+    expect(store.getState().setNFTs).toHaveBeenCalledTimes(1);
+    expect(store.getState().setNFTs).toHaveBeenCalledWith(other.id, []);
+  });
+});
+
+describe('NFTSyncService.syncAll', () => {
+  it('runs at most `concurrency` wallet syncs at a time', async () => {
+    const wallets = ['1', '2', '3', '4', '5'].map(makeWallet);
+    const { provider, pending } = createPendingProvider();
+    const { store } = createStore(wallets);
+    const sync = new NFTSyncService({ store, providers: [provider], concurrency: 2 });
+
+    const report = sync.syncAll();
+    let maxRunning = 0;
+    const finished: string[] = [];
+
+    while (finished.length < wallets.length) {
+      await settle();
+      const running = wallets.filter((w) => sync.isSyncing(w.id));
+      maxRunning = Math.max(maxRunning, running.length);
+      // Finish the oldest running sync; the next wallet takes its slot
+      const next = running.find((w) => pending.has(w.id))!;
+      pending.get(next.id)!.resolve([]);
+      pending.delete(next.id);
+      finished.push(next.id);
+    }
+
+    const { results } = await report;
+    expect(maxRunning).toBe(2);
+    expect(finished).toEqual(['1', '2', '3', '4', '5']);
+    expect(results.map((r) => [r.walletId, r.status])).toEqual(
+      wallets.map((w) => [w.id, 'success'])
+    );
+  });
+
+  it('skips inactive wallets', async () => {
+    const provider: NFTProvider = {
+      id: 'stub',
+      supports: () => true,
+      fetchForWallet: async () => [],
+    };
+    const { store } = createStore([wallet, { ...makeWallet('2'), isActive: false }]);
+    const sync = new NFTSyncService({ store, providers: [provider] });
+
+    const { results } = await sync.syncAll();
+
+    expect(results.map((r) => r.walletId)).toEqual([wallet.id]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Collection Aggregator
+ * Derives Collection records from the current set of NFTs
+ */
+
+import type { NFT, Collection } from '../../types';
+import { getHoldings, getQuantity } from './holdings';
+import { getNFTCollectionId } from './ids';
+import { isHidden } from './spam';
+
+/**
+ * Canonical collection id (see ./ids), so the same contract address on two
+ * EVM chains yields two collections
+ */
+export function getCollectionId(nft: Pick<NFT, 'chain' | 'evmChain' | 'contractAddress'>): string {
+  return getNFTCollectionId(nft);
+}
+
+/**
+ * Build collection records from scratch for the given NFTs. Counts are in
+ * copies held, so an ERC-1155 balance of 3 counts 3 times.
+ * Hidden and spam NFTs don't count towards any collection.
+ */
+export function aggregateCollections(nfts: Iterable<NFT>): Map<string, Collection> {
+  const collections = new Map<string, Collection>();
+  // Most recently fetched NFT per collection supplies the display metadata
+  const latestFetch = new Map<string, number>();
+
+  for (const nft of nfts) {
+    if (isHidden(nft)) continue;
+
+    const id = getCollectionId(nft);
+    const acquiredAt = nft.firstSeenAt ?? nft.lastFetched;
+    const existing = collections.get(id);
+
+    if (!existing) {
+      collections.set(id, {
+        id,
+        name: nft.collection.name,
+        contractAddress: nft.contractAddress,
+        chain: nft.chain,
+        evmChain: nft.evmChain,
+        nftCount: getQuantity(nft),
+        walletCounts: getWalletCounts(nft, {}),
+        floorPrice: nft.collection.floorPrice,
+        imageUrl: nft.collection.imageUrl,
+        description: nft.collection.description,
+        externalUrl: nft.collection.externalUrl,
+        firstAcquiredAt: acquiredAt,
+      });
+      latestFetch.set(id, nft.lastFetched);
+      continue;
+    }
+
+    existing.nftCount += getQuantity(nft);
+    getWalletCounts(nft, existing.walletCounts);
+    existing.firstAcquiredAt = Math.min(existing.firstAcquiredAt ?? acquiredAt, acquiredAt);
+
+    if (nft.lastFetched > (latestFetch.get(id) ?? 0)) {
+      latestFetch.set(id, nft.lastFetched);
+      existing.name = nft.collection.name || existing.name;
+      existing.floorPrice = nft.collection.floorPrice ?? existing.floorPrice;
+      existing.imageUrl = nft.collection.imageUrl ?? existing.imageUrl;
+      existing.description = nft.collection.description ?? existing.description;
+      existing.externalUrl = nft.collection.externalUrl ?? existing.externalUrl;
+    }
+  }
+
+  collections.forEach((collection) => {
+    collection.totalFloorValue = collection.floorPrice
+      ? {
+          amount: collection.floorPrice.amount * collection.nftCount,
+          currency: collection.floorPrice.currency,
+        }
+      : undefined;
+  });
+
+  return collections;
+}
+
+/**
+ * Collections sorted by name for display
+ */
+export function sortCollections(collections: Iterable<Collection>): Collection[] {
+  return Array.from(collections).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Collections with at least one NFT in the given wallet
+ */
+export function filterCollectionsByWallet(
+  collections: Iterable<Collection>,
+  walletId: string
+): Collection[] {
+  return Array.from(collections).filter((c) => (c.walletCounts[walletId] || 0) > 0);
+}
+
+/**
+ * Add each wallet's quantity of an NFT to `counts`
+ */
+function getWalletCounts(nft: NFT, counts: Record<string, number>): Record<string, number> {
+  getHoldings(nft).forEach((h) => {
+    counts[h.walletId] = (counts[h.walletId] || 0) + h.quantity;
+  });
+  return counts;
+}
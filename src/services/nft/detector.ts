@@ -1,133 +1,116 @@
 /**
  * Farcaster Mint Detector
- * Detects Farcaster mints and extracts channel information
+ * Scores NFTs against weighted Farcaster signals and extracts channel information
  */
 
-import type { NFT, NFTAttribute } from '../../types';
-
-// Known Farcaster mint contract addresses (Base mainnet)
-const FARCASTER_CONTRACTS = new Set([
-  // Zora Protocol (commonly used for Farcaster channel mints)
-  '0x7c74dfe39976dc395529c14e54a597809980e01c',
-  '0x04e2516a2c207e84a1839755675dfd8ef6302f0a', // Zora 1155 Factory
-  
-  // Highlight.xyz (Farcaster channel mints)
-  '0x8087039152c472fa74f47398628ff002994056ea',
-  
-  // Base mints (various Farcaster artists)
-  '0x86c1fe6c5b5c9f0c9b8c3a9b0b5e3e9c5c5c5c5c',
-  
-  // Add more known contracts as discovered
-]);
-
-// Keywords that indicate Farcaster mints
-const FARCASTER_KEYWORDS = [
-  'farcaster',
-  'warpcast',
-  'fc channel',
-  '/channel/',
-  'minted on farcaster',
-  'farcaster mint',
-];
-
-// Channel name patterns
-const CHANNEL_PATTERNS = [
-  /\/([a-z0-9-]+)/i, // Matches /channel-name
-  /farcaster\.xyz\/([a-z0-9-]+)/i,
-  /warpcast\.com\/~\/([a-z0-9-]+)/i,
-  /channel:\s*([a-z0-9-]+)/i,
-];
+import type {
+  FarcasterDetection,
+  FarcasterOverride,
+  FarcasterSignalMatch,
+  NFT,
+} from '../../types';
+import {
+  DEFAULT_FARCASTER_RULES,
+  type FarcasterRuleSet,
+  type FarcasterSignalRule,
+  type FarcasterTextField,
+} from './farcasterRules';
+
+// Farcaster channel names: lowercase letters, digits and dashes, at most 16 long
+const CHANNEL_NAME = /^[a-z0-9][a-z0-9-]{0,15}$/;
 
 export class FarcasterDetector {
-  /**
-   * Detect if an NFT is a Farcaster mint
-   */
-  static isFarcasterMint(nft: NFT): boolean {
-    // Check 1: Known contract address
-    if (FARCASTER_CONTRACTS.has(nft.contractAddress.toLowerCase())) {
-      return true;
-    }
+  private rules: FarcasterRuleSet;
+  private channelPatterns: RegExp[];
 
-    // Check 2: Base chain (most FC mints are on Base)
-    const isBaseChain = nft.chain === 'evm' && nft.evmChain === 'base';
+  constructor(rules: FarcasterRuleSet = DEFAULT_FARCASTER_RULES) {
+    this.rules = rules;
+    this.channelPatterns = compilePatterns(rules);
+  }
 
-    // Check 3: Description contains Farcaster keywords
-    if (this.hasKeywords(nft.description)) {
-      return true;
-    }
+  getRules(): FarcasterRuleSet {
+    return this.rules;
+  }
 
-    // Check 4: Attributes mention Farcaster
-    if (this.hasAttributeKeywords(nft.metadata.attributes)) {
-      return true;
-    }
+  /**
+   * Switch to another rule set, e.g. one fetched by FarcasterRuleUpdater
+   */
+  setRules(rules: FarcasterRuleSet): void {
+    this.rules = rules;
+    this.channelPatterns = compilePatterns(rules);
+  }
 
-    // Check 5: External URL points to Farcaster platforms
-    if (this.isFarcasterUrl(nft.externalUrl)) {
-      return true;
-    }
+  /**
+   * Score an NFT. Signal weights combine like independent probabilities, so
+   * two 0.5 signals give 0.75 and no number of weak signals reaches 1.
+   */
+  detect(nft: NFT): FarcasterDetection {
+    const signals: FarcasterSignalMatch[] = this.rules.signals
+      .filter((rule) => matchesSignal(rule, nft))
+      .map((rule) => ({ id: rule.id, label: rule.label, weight: rule.weight }));
 
-    // Check 6: Collection name/description
-    if (this.hasKeywords(nft.collection.name) || this.hasKeywords(nft.collection.description)) {
-      return true;
-    }
+    const confidence =
+      1 - signals.reduce((remaining, signal) => remaining * (1 - signal.weight), 1);
+    const isFarcasterMint = signals.length > 0 && confidence >= this.rules.threshold;
 
-    return false;
+    return {
+      isFarcasterMint,
+      channel: isFarcasterMint ? this.extractChannel(nft) : undefined,
+      confidence: Math.round(confidence * 100) / 100,
+      signals,
+      rulesVersion: this.rules.version,
+    };
+  }
+
+  /**
+   * Detect if an NFT is a Farcaster mint
+   */
+  isFarcasterMint(nft: NFT): boolean {
+    return this.detect(nft).isFarcasterMint;
   }
 
   /**
-   * Extract Farcaster channel name from NFT metadata
+   * Extract the Farcaster channel from a channel trait, then from channel
+   * links and explicit mentions in the metadata
    */
-  static extractChannel(nft: NFT): string | undefined {
-    // Try to extract from description
-    let channel = this.extractChannelFromText(nft.description);
-    if (channel) return channel;
-
-    // Try to extract from external URL
-    channel = this.extractChannelFromText(nft.externalUrl);
-    if (channel) return channel;
-
-    // Try to extract from attributes
-    const channelAttr = nft.metadata.attributes?.find(
-      (attr) =>
-        attr.trait_type.toLowerCase().includes('channel') ||
-        attr.trait_type.toLowerCase().includes('farcaster')
+  extractChannel(nft: NFT): string | undefined {
+    const traitTypes = new Set(this.rules.channels.traitTypes.map((t) => t.toLowerCase()));
+    const trait = nft.metadata.attributes?.find((attr) =>
+      traitTypes.has(attr.trait_type.trim().toLowerCase())
     );
-    if (channelAttr) {
-      channel = this.extractChannelFromText(String(channelAttr.value));
-      if (channel) return channel;
+    const fromTrait = trait && this.toChannel(String(trait.value));
+    if (fromTrait) return fromTrait;
+
+    const texts = [
+      nft.externalUrl,
+      nft.description,
+      nft.collection.externalUrl,
+      nft.collection.description,
+      nft.collection.name,
+    ];
+    for (const text of texts) {
+      if (!text) continue;
+      for (const pattern of this.channelPatterns) {
+        const channel = this.toChannel(text.match(pattern)?.[1]);
+        if (channel) return channel;
+      }
     }
 
-    // Try collection name/description
-    channel = this.extractChannelFromText(nft.collection.name);
-    if (channel) return channel;
-
-    channel = this.extractChannelFromText(nft.collection.description);
-    if (channel) return channel;
-
     return undefined;
   }
 
   /**
-   * Enrich NFT with Farcaster detection metadata
+   * Enrich NFT with Farcaster detection metadata. A user override on the NFT
+   * wins over the detector.
    */
-  static enrichNFT(nft: NFT): NFT {
-    const isFarcasterMint = this.isFarcasterMint(nft);
-    const farcasterChannel = isFarcasterMint ? this.extractChannel(nft) : undefined;
-
-    return {
-      ...nft,
-      metadata: {
-        ...nft.metadata,
-        isFarcasterMint,
-        farcasterChannel,
-      },
-    };
+  enrichNFT(nft: NFT): NFT {
+    return applyDetection(nft, this.detect(nft));
   }
 
   /**
    * Batch enrich multiple NFTs
    */
-  static enrichNFTs(nfts: NFT[]): NFT[] {
+  enrichNFTs(nfts: NFT[]): NFT[] {
     return nfts.map((nft) => this.enrichNFT(nft));
   }
 
@@ -168,70 +151,162 @@ export class FarcasterDetector {
   }
 
   /**
-   * Check if text contains Farcaster keywords
-   */
-  private static hasKeywords(text?: string): boolean {
-    if (!text) return false;
-    const lowerText = text.toLowerCase();
-    return FARCASTER_KEYWORDS.some((keyword) => lowerText.includes(keyword));
-  }
-
-  /**
-   * Check if attributes contain Farcaster keywords
-   */
-  private static hasAttributeKeywords(attributes?: NFTAttribute[]): boolean {
-    if (!attributes) return false;
-
-    return attributes.some((attr) => {
-      const traitType = attr.trait_type.toLowerCase();
-      const value = String(attr.value).toLowerCase();
-      return (
-        FARCASTER_KEYWORDS.some((keyword) => traitType.includes(keyword)) ||
-        FARCASTER_KEYWORDS.some((keyword) => value.includes(keyword))
-      );
-    });
-  }
-
-  /**
-   * Check if URL is a Farcaster platform URL
+   * Normalize a candidate channel name; undefined unless it is a plausible channel
    */
-  private static isFarcasterUrl(url?: string): boolean {
-    if (!url) return false;
-    const lowerUrl = url.toLowerCase();
-    return (
-      lowerUrl.includes('farcaster.xyz') ||
-      lowerUrl.includes('warpcast.com') ||
-      lowerUrl.includes('supercast.xyz')
-    );
+  private toChannel(value?: string): string | undefined {
+    const channel = normalizeChannel(value);
+    if (!channel || this.rules.channels.ignored.includes(channel)) return undefined;
+    return channel;
   }
+}
 
-  /**
-   * Extract channel name from text using patterns
-   */
-  private static extractChannelFromText(text?: string): string | undefined {
-    if (!text) return undefined;
+/**
+ * Lowercased channel name without a leading slash; undefined unless it is a
+ * valid Farcaster channel name
+ */
+export function normalizeChannel(value?: string): string | undefined {
+  const channel = value?.trim().replace(/^\//, '').toLowerCase();
+  return channel && CHANNEL_NAME.test(channel) ? channel : undefined;
+}
 
-    for (const pattern of CHANNEL_PATTERNS) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return match[1].toLowerCase();
-      }
-    }
+/**
+ * The user's correction of the detector, if any. Stored as local overrides of
+ * `isFarcasterMint` and `farcasterChannel`, so it survives refreshes.
+ */
+export function getFarcasterOverride(nft: NFT): FarcasterOverride | undefined {
+  const overrides = nft.localOverrides?.metadata;
+  if (overrides?.isFarcasterMint === undefined) return undefined;
+  return overrides.isFarcasterMint
+    ? { isFarcasterMint: true, channel: overrides.farcasterChannel }
+    : { isFarcasterMint: false };
+}
 
-    return undefined;
-  }
+/**
+ * Set the detector's verdict on an NFT. `isFarcasterMint` and
+ * `farcasterChannel` follow the user's override when there is one.
+ * Without a detection, re-applies the NFT's own (e.g. after an override changed).
+ */
+export function applyDetection(
+  nft: NFT,
+  detection: FarcasterDetection | undefined = nft.metadata.farcasterDetection
+): NFT {
+  const detected = detection || {
+    isFarcasterMint: nft.metadata.isFarcasterMint,
+    channel: nft.metadata.farcasterChannel,
+  };
+  const override = getFarcasterOverride(nft);
+  const isFarcasterMint = override ? override.isFarcasterMint : detected.isFarcasterMint;
+  const channel = override?.isFarcasterMint ? override.channel : detected.channel;
+
+  return {
+    ...nft,
+    metadata: {
+      ...nft.metadata,
+      isFarcasterMint,
+      farcasterChannel: isFarcasterMint ? channel : undefined,
+      farcasterDetection: detection,
+    },
+  };
 }
 
+// Bundled rules, for callers without a configured detector
+const defaultDetector = new FarcasterDetector();
+
 /**
  * Helper function to detect and enrich a single NFT
  */
 export function detectFarcasterMint(nft: NFT): NFT {
-  return FarcasterDetector.enrichNFT(nft);
+  return defaultDetector.enrichNFT(nft);
 }
 
 /**
  * Helper function to detect and enrich multiple NFTs
  */
 export function detectFarcasterMints(nfts: NFT[]): NFT[] {
-  return FarcasterDetector.enrichNFTs(nfts);
+  return defaultDetector.enrichNFTs(nfts);
+}
+
+function matchesSignal(rule: FarcasterSignalRule, nft: NFT): boolean {
+  switch (rule.type) {
+    case 'contract':
+      // Mint platforms' factory and sale contracts show up as the mint address
+      return (
+        nft.chain === 'evm' &&
+        [nft.contractAddress, nft.metadata.mintedBy].some(
+          (address) => !!address && includesAddress(rule.addresses, address)
+        )
+      );
+    case 'creator':
+      return !!nft.metadata.creator && includesAddress(rule.addresses, nft.metadata.creator);
+    case 'chain':
+      return nft.chain === 'evm' && !!nft.evmChain && rule.chains.includes(nft.evmChain);
+    case 'keyword': {
+      const keywords = rule.keywords.map((k) => k.toLowerCase());
+      return getTexts(nft, rule.fields).some((text) =>
+        keywords.some((keyword) => text.includes(keyword))
+      );
+    }
+    case 'url':
+      return getTexts(nft, rule.fields).some((text) =>
+        rule.hosts.some((host) => containsHost(text, host.toLowerCase()))
+      );
+    case 'trait': {
+      const traitTypes = new Set(rule.traitTypes.map((t) => t.toLowerCase()));
+      return (nft.metadata.attributes || []).some((attr) =>
+        traitTypes.has(attr.trait_type.trim().toLowerCase())
+      );
+    }
+  }
+}
+
+/**
+ * Lowercased text of the given fields. Attributes contribute both trait types and values.
+ */
+function getTexts(nft: NFT, fields: FarcasterTextField[]): string[] {
+  const texts: (string | undefined)[] = [];
+
+  fields.forEach((field) => {
+    switch (field) {
+      case 'name':
+        texts.push(nft.name);
+        break;
+      case 'description':
+        texts.push(nft.description);
+        break;
+      case 'externalUrl':
+        texts.push(nft.externalUrl);
+        break;
+      case 'collectionName':
+        texts.push(nft.collection.name);
+        break;
+      case 'collectionDescription':
+        texts.push(nft.collection.description);
+        break;
+      case 'attributes':
+        nft.metadata.attributes?.forEach((attr) => {
+          texts.push(attr.trait_type, String(attr.value));
+        });
+        break;
+    }
+  });
+
+  return texts.filter((text): text is string => !!text).map((text) => text.toLowerCase());
+}
+
+/**
+ * Whether the text links to `host` or one of its subdomains; a bare mention
+ * inside another domain (e.g. notwarpcast.com) doesn't count
+ */
+function containsHost(text: string, host: string): boolean {
+  const escaped = host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|[/.@\\s])${escaped}(?:[/:?#\\s]|$)`).test(text);
+}
+
+function includesAddress(addresses: string[], address: string): boolean {
+  const lower = address.toLowerCase();
+  return addresses.some((a) => a.toLowerCase() === lower);
+}
+
+function compilePatterns(rules: FarcasterRuleSet): RegExp[] {
+  return rules.channels.patterns.map((pattern) => new RegExp(pattern, 'i'));
 }
@@ -0,0 +1,182 @@
+/**
+ * NFT Diff
+ * Computes per-wallet change sets between stored and freshly fetched NFTs
+ */
+
+import type { NFT, NFTChangeSet } from '../../types';
+import { applyDetection } from './detector';
+
+export interface WalletDiff {
+  /**
+   * NFTs to store for the wallet after the sync, with local fields preserved
+   */
+  nfts: NFT[];
+  added: NFT[];
+  changed: NFT[];
+  unchanged: NFT[];
+  transferredOut: NFT[];
+}
+
+// Fields that describe our copy rather than the token itself
+const BOOKKEEPING_FIELDS = new Set<keyof NFT>([
+  'walletId',
+  'rarity',
+  'lastFetched',
+  'firstSeenAt',
+  'localOverrides',
+]);
+
+/**
+ * Diff the NFTs previously stored for a wallet against a fresh fetch.
+ * Unchanged NFTs keep their previous object so nothing downstream rewrites them.
+ */
+export function diffWalletNFTs(
+  previous: NFT[],
+  incoming: NFT[],
+  now: number = Date.now()
+): WalletDiff {
+  const previousById = new Map(previous.map((nft) => [nft.id, nft]));
+  const incomingIds = new Set<string>();
+
+  const result: WalletDiff = {
+    nfts: [],
+    added: [],
+    changed: [],
+    unchanged: [],
+    transferredOut: [],
+  };
+
+  incoming.forEach((fetched) => {
+    incomingIds.add(fetched.id);
+    const existing = previousById.get(fetched.id);
+    const fresh = existing ? keepKnownImage(existing, fetched) : fetched;
+
+    if (!existing) {
+      const added: NFT = { ...fresh, firstSeenAt: fresh.firstSeenAt ?? now };
+      result.added.push(added);
+      result.nfts.push(added);
+      return;
+    }
+
+    if (!hasChanged(existing, fresh)) {
+      result.unchanged.push(existing);
+      result.nfts.push(existing);
+      return;
+    }
+
+    const merged = mergeNFT(existing, fresh, now);
+    result.changed.push(merged);
+    result.nfts.push(merged);
+  });
+
+  previous.forEach((nft) => {
+    if (!incomingIds.has(nft.id)) {
+      result.transferredOut.push(nft);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Apply fresh API data on top of a stored NFT, keeping local edits and firstSeenAt
+ */
+export function mergeNFT(existing: NFT, fresh: NFT, now: number = Date.now()): NFT {
+  // Re-applied so a "not a Farcaster mint" override also drops the detected channel
+  return applyDetection({
+    ...fresh,
+    ...existing.localOverrides,
+    metadata: {
+      ...fresh.metadata,
+      ...existing.localOverrides?.metadata,
+    },
+    localOverrides: existing.localOverrides,
+    rarity: existing.rarity,
+    firstSeenAt: existing.firstSeenAt ?? existing.lastFetched,
+    lastFetched: now,
+  });
+}
+
+/**
+ * Build the change set emitted to the UI and notifications
+ */
+export function toChangeSet(
+  walletId: string,
+  diff: Pick<WalletDiff, 'added' | 'changed' | 'transferredOut'> &
+    Partial<Pick<NFTChangeSet, 'internalTransfers'>>,
+  timestamp: number = Date.now()
+): NFTChangeSet {
+  return {
+    walletId,
+    timestamp,
+    added: diff.added,
+    changed: diff.changed,
+    removed: [],
+    transferredOut: diff.transferredOut,
+    internalTransfers: diff.internalTransfers || [],
+  };
+}
+
+/**
+ * Whether a change set carries any changes
+ */
+export function isEmptyChangeSet(changes: NFTChangeSet): boolean {
+  return (
+    changes.added.length === 0 &&
+    changes.changed.length === 0 &&
+    changes.removed.length === 0 &&
+    changes.transferredOut.length === 0 &&
+    changes.internalTransfers.length === 0
+  );
+}
+
+/**
+ * A fetch can come back without an image when a provider put off a slow
+ * lookup (see HeliusFetcher's off-chain JSON images); keep the one we had
+ */
+function keepKnownImage(existing: NFT, fresh: NFT): NFT {
+  if (fresh.image || !existing.image) return fresh;
+  return { ...fresh, image: existing.image, imageOptimized: existing.imageOptimized };
+}
+
+/**
+ * Compare API-sourced fields, skipping bookkeeping and locally overridden ones
+ */
+function hasChanged(existing: NFT, fresh: NFT): boolean {
+  const overrides = existing.localOverrides || {};
+  const keys = new Set([
+    ...Object.keys(existing),
+    ...Object.keys(fresh),
+  ]) as Set<keyof NFT>;
+
+  for (const key of keys) {
+    if (BOOKKEEPING_FIELDS.has(key)) continue;
+
+    if (key === 'metadata') {
+      const metadataOverrides = overrides.metadata || {};
+      const metadataKeys = new Set([
+        ...Object.keys(existing.metadata),
+        ...Object.keys(fresh.metadata),
+      ]) as Set<keyof NFT['metadata']>;
+
+      for (const metadataKey of metadataKeys) {
+        if (metadataKey in metadataOverrides) continue;
+        if (!isEqual(existing.metadata[metadataKey], fresh.metadata[metadataKey])) {
+          return true;
+        }
+      }
+      continue;
+    }
+
+    if (key in overrides) continue;
+    if (!isEqual(existing[key], fresh[key])) return true;
+  }
+
+  return false;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
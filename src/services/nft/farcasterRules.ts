@@ -0,0 +1,344 @@
+/**
+ * Farcaster Detection Rules
+ * The signals and channel patterns the detector runs on. Rules are plain JSON,
+ * so a newer set can be fetched and applied without an app release.
+ */
+
+import type { EVMChain } from '../../types';
+import { HttpClient } from '../http/client';
+import { MalformedResponseError } from '../http/errors';
+
+// Text fields a keyword or URL signal can look at
+export type FarcasterTextField =
+  | 'name'
+  | 'description'
+  | 'externalUrl'
+  | 'collectionName'
+  | 'collectionDescription'
+  | 'attributes';
+
+interface SignalRuleBase {
+  id: string;
+  label: string;
+  weight: number; // 0-1, roughly how sure this signal alone makes us
+}
+
+export type FarcasterSignalRule =
+  | (SignalRuleBase & { type: 'contract'; addresses: string[] })
+  | (SignalRuleBase & { type: 'creator'; addresses: string[] })
+  | (SignalRuleBase & { type: 'chain'; chains: EVMChain[] })
+  | (SignalRuleBase & { type: 'keyword'; fields: FarcasterTextField[]; keywords: string[] })
+  | (SignalRuleBase & { type: 'url'; fields: FarcasterTextField[]; hosts: string[] })
+  | (SignalRuleBase & { type: 'trait'; traitTypes: string[] });
+
+export interface FarcasterChannelRules {
+  /**
+   * Regex sources; the first capture group is the channel name
+   */
+  patterns: string[];
+  /**
+   * Trait types whose value is the channel, e.g. 'Channel'
+   */
+  traitTypes: string[];
+  /**
+   * Names that look like channels but never are (URL parts, gateways)
+   */
+  ignored: string[];
+}
+
+export interface FarcasterRuleSet {
+  version: number;
+  /**
+   * Confidence at which an NFT counts as a Farcaster mint
+   */
+  threshold: number;
+  signals: FarcasterSignalRule[];
+  channels: FarcasterChannelRules;
+}
+
+const TEXT_FIELDS: FarcasterTextField[] = [
+  'name',
+  'description',
+  'externalUrl',
+  'collectionName',
+  'collectionDescription',
+  'attributes',
+];
+
+const SIGNAL_TYPES: FarcasterSignalRule['type'][] = [
+  'contract',
+  'creator',
+  'chain',
+  'keyword',
+  'url',
+  'trait',
+];
+
+export const DEFAULT_FARCASTER_RULES: FarcasterRuleSet = {
+  version: 2,
+  threshold: 0.5,
+  signals: [
+    {
+      id: 'mint-contract',
+      label: 'Minted through a Farcaster mint contract',
+      type: 'contract',
+      // Below the threshold: these platforms mint far more than Farcaster drops,
+      // so another signal has to agree
+      weight: 0.4,
+      addresses: [
+        '0x7c74dfe39976dc395529c14e54a597809980e01c', // Zora
+        '0x04e2516a2c207e84a1839755675dfd8ef6302f0a', // Zora 1155 factory
+        '0x8087039152c472fa74f47398628ff002994056ea', // Highlight
+      ],
+    },
+    {
+      id: 'mint-deployer',
+      label: 'Contract deployed by a Farcaster mint platform',
+      type: 'creator',
+      weight: 0.4,
+      addresses: [
+        '0x04e2516a2c207e84a1839755675dfd8ef6302f0a',
+        '0x8087039152c472fa74f47398628ff002994056ea',
+      ],
+    },
+    {
+      id: 'base-chain',
+      label: 'On Base',
+      type: 'chain',
+      weight: 0.15,
+      chains: ['base'],
+    },
+    {
+      id: 'zora-chain',
+      label: 'On Zora',
+      type: 'chain',
+      weight: 0.1,
+      chains: ['zora'],
+    },
+    {
+      id: 'farcaster-link',
+      label: 'Links to a Farcaster client',
+      type: 'url',
+      weight: 0.7,
+      fields: ['externalUrl', 'description'],
+      hosts: ['warpcast.com', 'farcaster.xyz', 'supercast.xyz'],
+    },
+    {
+      id: 'channel-trait',
+      label: 'Has a channel trait',
+      type: 'trait',
+      weight: 0.6,
+      traitTypes: ['channel', 'farcaster channel', 'fc channel'],
+    },
+    {
+      id: 'description-mentions',
+      label: 'Description mentions Farcaster',
+      type: 'keyword',
+      weight: 0.5,
+      fields: ['description'],
+      keywords: ['farcaster', 'warpcast', 'fc channel', 'minted on farcaster'],
+    },
+    {
+      id: 'collection-mentions',
+      label: 'Collection mentions Farcaster',
+      type: 'keyword',
+      weight: 0.5,
+      fields: ['collectionName', 'collectionDescription'],
+      keywords: ['farcaster', 'warpcast'],
+    },
+    {
+      id: 'trait-mentions',
+      label: 'Traits mention Farcaster',
+      type: 'keyword',
+      weight: 0.4,
+      fields: ['attributes'],
+      keywords: ['farcaster', 'warpcast'],
+    },
+  ],
+  channels: {
+    patterns: [
+      // Channel pages on Farcaster clients
+      '(?:warpcast\\.com|farcaster\\.xyz)/~/channel/([a-z0-9-]+)',
+      'supercast\\.xyz/c/([a-z0-9-]+)',
+      // "channel: art", "Channel - art"
+      '\\bchannel\\s*[:\\-]\\s*/?([a-z0-9-]+)',
+      // "/art channel", "in the /art channel"
+      '(?:^|\\s)/([a-z][a-z0-9-]*)\\s+channel\\b',
+    ],
+    traitTypes: ['channel', 'farcaster channel', 'fc channel'],
+    ignored: ['ipfs', 'ipns', 'www', 'http', 'https', 'channel', 'home', 'token'],
+  },
+};
+
+/**
+ * Check an untrusted rule set (e.g. fetched JSON). Throws on anything the
+ * detector couldn't run, including channel patterns that don't compile.
+ */
+export function validateFarcasterRules(value: unknown): FarcasterRuleSet {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid Farcaster rules: ${reason}`);
+  };
+  if (!isObject(value)) return fail('not an object');
+
+  const { version, threshold, signals, channels } = value;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    fail('version must be a positive integer');
+  }
+  if (!isWeight(threshold) || threshold === 0) fail('threshold must be in (0, 1]');
+  if (!Array.isArray(signals)) return fail('signals must be an array');
+
+  const ids = new Set<string>();
+  signals.forEach((signal, index) => {
+    if (!isObject(signal)) return fail(`signal ${index} is not an object`);
+    const { id, label, type, weight } = signal;
+    if (typeof id !== 'string' || !id || ids.has(id)) fail(`signal ${index} needs a unique id`);
+    if (typeof label !== 'string') fail(`signal ${id} needs a label`);
+    if (!SIGNAL_TYPES.includes(type as FarcasterSignalRule['type'])) {
+      fail(`signal ${id} has unknown type ${String(type)}`);
+    }
+    if (!isWeight(weight)) fail(`signal ${id} weight must be in [0, 1]`);
+    ids.add(id as string);
+
+    const list = (key: string) => {
+      if (!isStringList(signal[key])) fail(`signal ${id} needs a ${key} list`);
+    };
+    switch (type) {
+      case 'contract':
+      case 'creator':
+        list('addresses');
+        break;
+      case 'chain':
+        list('chains');
+        break;
+      case 'keyword':
+      case 'url':
+        list(type === 'keyword' ? 'keywords' : 'hosts');
+        list('fields');
+        if ((signal.fields as string[]).some((f) => !TEXT_FIELDS.includes(f as FarcasterTextField))) {
+          fail(`signal ${id} has an unknown field`);
+        }
+        break;
+      case 'trait':
+        list('traitTypes');
+        break;
+    }
+  });
+
+  if (!isObject(channels)) return fail('channels must be an object');
+  if (!isStringList(channels.patterns)) fail('channels.patterns must be a string list');
+  if (!isStringList(channels.traitTypes)) fail('channels.traitTypes must be a string list');
+  if (!isStringList(channels.ignored)) fail('channels.ignored must be a string list');
+  (channels.patterns as string[]).forEach((pattern) => {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      fail(`channel pattern ${pattern} doesn't compile`);
+    }
+  });
+
+  return value as unknown as FarcasterRuleSet;
+}
+
+/**
+ * Where the last fetched rules are kept between launches. AsyncStorage fits.
+ */
+export interface FarcasterRuleCache {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+/**
+ * Receives each newer rule set, e.g. to re-run detection over stored NFTs
+ */
+export type FarcasterRulesListener = (rules: FarcasterRuleSet) => void;
+
+export interface FarcasterRuleUpdaterConfig {
+  url: string;
+  cache?: FarcasterRuleCache;
+  http?: HttpClient;
+  onUpdate?: FarcasterRulesListener;
+}
+
+const CACHE_KEY = 'farcaster-rules';
+
+/**
+ * Keeps the rule set current: starts from the bundled rules, then any cached
+ * copy, then whatever `url` serves. Only newer versions are applied.
+ */
+export class FarcasterRuleUpdater {
+  private url: string;
+  private cache?: FarcasterRuleCache;
+  private http: HttpClient;
+  private onUpdate?: FarcasterRulesListener;
+  private rules: FarcasterRuleSet = DEFAULT_FARCASTER_RULES;
+
+  constructor(config: FarcasterRuleUpdaterConfig) {
+    this.url = config.url;
+    this.cache = config.cache;
+    this.onUpdate = config.onUpdate;
+    this.http =
+      config.http || new HttpClient({ provider: 'Farcaster rules', retries: 1, timeoutMs: 10_000 });
+  }
+
+  getRules(): FarcasterRuleSet {
+    return this.rules;
+  }
+
+  /**
+   * Apply the cached rules if they are newer than the current ones.
+   * A corrupt cache is ignored.
+   */
+  async loadCached(): Promise<boolean> {
+    const cached = await this.cache?.getItem(CACHE_KEY);
+    if (!cached) return false;
+
+    try {
+      return this.apply(validateFarcasterRules(JSON.parse(cached)));
+    } catch (error) {
+      console.warn('Ignoring cached Farcaster rules:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch the published rules and apply them if newer. Returns whether they
+   * were applied.
+   */
+  async refresh(): Promise<boolean> {
+    const data = await this.http.get<unknown>(this.url);
+
+    let rules: FarcasterRuleSet;
+    try {
+      rules = validateFarcasterRules(data);
+    } catch (error) {
+      throw new MalformedResponseError((error as Error).message, {
+        provider: 'Farcaster rules',
+        url: this.url,
+        cause: error,
+      });
+    }
+
+    if (!this.apply(rules)) return false;
+    await this.cache?.setItem(CACHE_KEY, JSON.stringify(rules));
+    return true;
+  }
+
+  private apply(rules: FarcasterRuleSet): boolean {
+    if (rules.version <= this.rules.version) return false;
+    this.rules = rules;
+    this.onUpdate?.(rules);
+    return true;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
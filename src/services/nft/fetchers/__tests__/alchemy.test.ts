@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import type { AlchemyNFTV3, EVMChain } from '../../../../types';
+import { startStubServer, type StubServer } from '../../../../testing/stubServer';
+import { HttpClient } from '../../../http/client';
+import { AlchemyFetcher } from '../alchemy';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+
+// One NFT per chain, each from a contract only that chain has
+const CONTRACTS: Record<string, string> = {
+  ethereum: '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+  polygon: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+  base: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+};
+
+function ownedNft(chain: string): AlchemyNFTV3 {
+  return {
+    contract: { address: CONTRACTS[chain], name: `${chain} collection`, tokenType: 'ERC721' },
+    tokenId: '1',
+    tokenType: 'ERC721',
+    name: `${chain} #1`,
+  };
+}
+
+function createHttp(): HttpClient {
+  return new HttpClient({ provider: 'Alchemy', retries: 0 });
+}
+
+describe('AlchemyFetcher endpoints', () => {
+  let servers: StubServer[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+    servers = [];
+  });
+
+  it('sends each chain to its own endpoint', async () => {
+    const chains: EVMChain[] = ['ethereum', 'polygon', 'base'];
+    const byChain = {} as Record<EVMChain, StubServer>;
+    for (const chain of chains) {
+      byChain[chain] = await startStubServer(() => ({
+        body: { ownedNfts: [ownedNft(chain)], totalCount: 1 },
+      }));
+      servers.push(byChain[chain]);
+    }
+
+    const fetcher = new AlchemyFetcher({
+      apiKey: 'test-key',
+      chains,
+      endpoints: {
+        ethereum: byChain.ethereum.url,
+        polygon: byChain.polygon.url,
+        base: `${byChain.base.url}/`,
+      },
+      http: createHttp(),
+    });
+
+    const nfts = await fetcher.fetchForAddressAllChains(OWNER, 'wallet-1');
+
+    for (const chain of chains) {
+      const { requests } = byChain[chain];
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url.pathname).toBe('/test-key/getNFTsForOwner');
+      expect(requests[0].url.searchParams.get('owner')).toBe(OWNER);
+
+      const nft = nfts.find((n) => n.evmChain === chain);
+      expect(nft?.contractAddress).toBe(CONTRACTS[chain]);
+      expect(nft?.walletId).toBe('wallet-1');
+    }
+    expect(nfts).toHaveLength(chains.length);
+  });
+
+  it('fills {network} in the base URL for each chain', async () => {
+    const server = await startStubServer((request) => {
+      const network = request.url.pathname.split('/')[1];
+      const chain = network === 'polygon-mainnet' ? 'polygon' : 'ethereum';
+      return { body: { ownedNfts: [ownedNft(chain)], totalCount: 1 } };
+    });
+    servers.push(server);
+
+    const fetcher = new AlchemyFetcher({
+      apiKey: 'test-key',
+      baseUrl: `${server.url}/{network}/nft/v3`,
+      chains: ['ethereum', 'polygon'],
+      http: createHttp(),
+    });
+
+    const nfts = await fetcher.fetchForAddressAllChains(OWNER, 'wallet-1');
+
+    expect(server.requests.map((r) => r.url.pathname).sort()).toEqual([
+      '/eth-mainnet/nft/v3/test-key/getNFTsForOwner',
+      '/polygon-mainnet/nft/v3/test-key/getNFTsForOwner',
+    ]);
+    expect(nfts.find((n) => n.evmChain === 'polygon')?.contractAddress).toBe(CONTRACTS.polygon);
+  });
+
+  it('rejects a base URL without {network} when a chain has no endpoint', () => {
+    expect(
+      () =>
+        new AlchemyFetcher({
+          apiKey: 'test-key',
+          baseUrl: 'http://127.0.0.1:1/nft/v3',
+          chains: ['ethereum', 'polygon'],
+          endpoints: { ethereum: 'http://127.0.0.1:2' },
+        })
+    ).toThrow(/endpoints must be set for polygon/);
+  });
+
+  it('accepts a base URL without {network} when every chain has an endpoint', async () => {
+    const server = await startStubServer(() => ({ body: { ownedNfts: [], totalCount: 0 } }));
+    servers.push(server);
+
+    const fetcher = new AlchemyFetcher({
+      apiKey: 'test-key',
+      baseUrl: 'http://127.0.0.1:1/nft/v3',
+      chains: ['base'],
+      endpoints: { base: server.url },
+      http: createHttp(),
+    });
+
+    await expect(fetcher.fetchForWallet(OWNER, 'base', 'wallet-1')).resolves.toEqual([]);
+    await expect(fetcher.fetchForWallet(OWNER, 'zora', 'wallet-1')).rejects.toThrow(
+      /No Alchemy endpoint configured for zora/
+    );
+  });
+});
+
+describe('AlchemyFetcher cancellation', () => {
+  it('stops paginating once the signal aborts', async () => {
+    const controller = new AbortController();
+    const server = await startStubServer(() => {
+      // Cancel while the first page is in flight; a second page is on offer
+      controller.abort();
+      return {
+        body: { ownedNfts: [ownedNft('ethereum')], totalCount: 2, pageKey: 'page-2' },
+      };
+    });
+
+    try {
+      const fetcher = new AlchemyFetcher({
+        apiKey: 'test-key',
+        endpoints: { ethereum: server.url },
+        chains: ['ethereum'],
+        http: createHttp(),
+      });
+
+      const result = await fetcher.fetchAllPages(
+        OWNER,
+        'ethereum',
+        'wallet-1',
+        undefined,
+        controller.signal
+      );
+
+      expect(result.complete).toBe(false);
+      expect(server.requests.filter((r) => r.url.searchParams.has('pageKey'))).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('AlchemyFetcher floor prices', () => {
+  it('keeps the currency Alchemy quotes the floor in', async () => {
+    const server = await startStubServer(() => ({
+      body: { openSea: { floorPrice: 0.25, priceCurrency: 'WETH' } },
+    }));
+
+    try {
+      const fetcher = new AlchemyFetcher({
+        apiKey: 'test-key',
+        endpoints: { polygon: server.url },
+        chains: ['polygon'],
+        http: createHttp(),
+      });
+
+      await expect(fetcher.fetchFloorPrice(CONTRACTS.polygon, 'polygon')).resolves.toEqual({
+        amount: 0.25,
+        currency: 'WETH',
+      });
+      expect(server.requests[0].url.pathname).toBe('/test-key/getFloorPrice');
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("falls back to the chain's native currency", async () => {
+    const server = await startStubServer(() => ({ body: { openSea: { floorPrice: 12 } } }));
+
+    try {
+      const fetcher = new AlchemyFetcher({
+        apiKey: 'test-key',
+        endpoints: { polygon: server.url },
+        chains: ['polygon'],
+        http: createHttp(),
+      });
+
+      await expect(fetcher.fetchFloorPrice(CONTRACTS.polygon, 'polygon')).resolves.toEqual({
+        amount: 12,
+        currency: 'MATIC',
+      });
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('AlchemyFetcher normalization', () => {
+  it('skips NFTs without a valid id instead of failing the page', async () => {
+    const broken: AlchemyNFTV3 = {
+      ...ownedNft('ethereum'),
+      contract: { address: '0xnot-a-contract', tokenType: 'ERC721' },
+    };
+    const server = await startStubServer(() => ({
+      body: { ownedNfts: [ownedNft('ethereum'), broken], totalCount: 2 },
+    }));
+
+    try {
+      const fetcher = new AlchemyFetcher({
+        apiKey: 'test-key',
+        endpoints: { ethereum: server.url },
+        chains: ['ethereum'],
+        http: createHttp(),
+      });
+
+      const page = await fetcher.fetchPage(OWNER, 'ethereum', 'wallet-1');
+      expect(page.items.map((nft) => nft.contractAddress)).toEqual([CONTRACTS.ethereum]);
+      expect(page.skipped).toBe(1);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import type { HeliusAsset } from '../../../../types';
+import { startStubServer, type StubResponse, type StubServer } from '../../../../testing/stubServer';
+import { HttpClient } from '../../../http/client';
+import { MalformedResponseError, RateLimitedError } from '../../../http/errors';
+import { HeliusFetcher } from '../helius';
+
+function createFetcher(rpcUrl: string, retries: number = 0): HeliusFetcher {
+  return new HeliusFetcher({
+    apiKey: 'test-key',
+    rpcUrl,
+    http: new HttpClient({ provider: 'Helius', retries, baseDelayMs: 1 }),
+  });
+}
+
+describe('HeliusFetcher RPC errors', () => {
+  let server: StubServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  async function serve(...responses: StubResponse[]): Promise<string> {
+    server = await startStubServer(() => responses.shift() ?? { status: 500 });
+    return server.url;
+  }
+
+  it('retries JSON-RPC rate limits with backoff', async () => {
+    const url = await serve(
+      { body: { jsonrpc: '2.0', id: '1', error: { code: -32429, message: 'Rate limit exceeded' } } },
+      { body: { jsonrpc: '2.0', id: '1', result: { total: 0, limit: 1000, page: 1, items: [] } } }
+    );
+
+    await expect(createFetcher(url, 1).fetchForWallet('owner', 'wallet-1')).resolves.toEqual([]);
+    expect(server?.requests).toHaveLength(2);
+  });
+
+  it('gives up on JSON-RPC rate limits once retries run out', async () => {
+    const url = await serve({
+      body: { jsonrpc: '2.0', id: '1', error: { code: 429, message: 'Too many requests' } },
+    });
+
+    await expect(createFetcher(url).fetchPage('owner', 'wallet-1')).rejects.toBeInstanceOf(
+      RateLimitedError
+    );
+  });
+
+  it('accepts the key when Helius answers with an RPC error', async () => {
+    const url = await serve({
+      body: { jsonrpc: '2.0', id: '1', error: { code: -32000, message: 'Asset Not Found' } },
+    });
+
+    await expect(createFetcher(url).verifyApiKey()).resolves.toBe(true);
+  });
+
+  it('rejects the key on auth errors, malformed responses and network failures', async () => {
+    const url = await serve(
+      { status: 401, body: { error: 'invalid api key' } },
+      { body: { jsonrpc: '2.0', id: '1' } }
+    );
+    const fetcher = createFetcher(url);
+
+    await expect(fetcher.verifyApiKey()).resolves.toBe(false);
+    await expect(fetcher.verifyApiKey()).resolves.toBe(false);
+
+    await server?.close();
+    server = undefined;
+    await expect(fetcher.verifyApiKey()).resolves.toBe(false);
+  });
+
+  it('rejects results without the expected shape', async () => {
+    const url = await serve(
+      { body: { jsonrpc: '2.0', id: '1', result: { total: 0 } } },
+      { body: { jsonrpc: '2.0', id: '1', result: 'asset' } },
+      { body: { jsonrpc: '2.0', id: '1', result: { items: [] } } }
+    );
+    const fetcher = createFetcher(url);
+
+    await expect(fetcher.fetchPage('owner', 'wallet-1')).rejects.toThrow('returned no items');
+    await expect(fetcher.fetchAsset('mint', 'wallet-1')).rejects.toThrow('returned no asset');
+    await expect(fetcher.fetchAssetBatch(['mint'], 'wallet-1')).rejects.toBeInstanceOf(
+      MalformedResponseError
+    );
+  });
+});
+
+function imagelessAsset(n: number, jsonUri: string): HeliusAsset {
+  return {
+    id: `${'A'.repeat(31)}${n}`,
+    content: { json_uri: jsonUri, metadata: { name: `Asset ${n}`, symbol: 'A' } },
+    authorities: [],
+    compression: { eligible: false, compressed: false },
+    grouping: [],
+    royalty: { royalty_model: 'creators', percent: 0 },
+    creators: [],
+    ownership: { frozen: false, delegated: false, ownership_model: 'single', owner: 'owner' },
+  };
+}
+
+describe('HeliusFetcher off-chain images', () => {
+  let servers: StubServer[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+    servers = [];
+  });
+
+  it('bounds new json_uri lookups per page and caches the ones made', async () => {
+    const metadata = await startStubServer((request) => ({
+      body: { image: `https://images.example${request.path}.png` },
+    }));
+    servers.push(metadata);
+    const assets = [1, 2, 3].map((n) => imagelessAsset(n, `${metadata.url}/${n}`));
+    const rpc = await startStubServer(() => ({
+      body: { jsonrpc: '2.0', id: '1', result: { total: 3, limit: 1000, page: 1, items: assets } },
+    }));
+    servers.push(rpc);
+
+    const fetcher = new HeliusFetcher({
+      apiKey: 'test-key',
+      rpcUrl: rpc.url,
+      http: new HttpClient({ provider: 'Helius', retries: 0 }),
+      metadataHttp: new HttpClient({ provider: 'Metadata host', retries: 0 }),
+      maxJsonImagesPerPage: 2,
+    });
+
+    const first = await fetcher.fetchPage('owner', 'wallet-1');
+    expect(first.items.map((nft) => nft.image)).toEqual([
+      'https://images.example/1.png',
+      'https://images.example/2.png',
+      '',
+    ]);
+
+    // Cached lookups don't count, so the next sync reaches the third asset
+    const second = await fetcher.fetchPage('owner', 'wallet-1');
+    expect(second.items.map((nft) => nft.image)).toEqual([
+      'https://images.example/1.png',
+      'https://images.example/2.png',
+      'https://images.example/3.png',
+    ]);
+    expect(metadata.requests.map((r) => r.path)).toEqual(['/1', '/2', '/3']);
+  });
+});
@@ -5,47 +5,188 @@
 
 import type { NFT, AlchemyNFT, EVMChain, PaginatedResult } from '../../../types';
 import { NFTNormalizer } from '../normalizer';
+import { HttpClient } from '../../http/client';
+import { AuthError, HttpError, MalformedResponseError, NotFoundError } from '../../http/errors';
+import {
+  IncompleteResultError,
+  paginate,
+  requireComplete,
+  type PartialResult,
+} from '../../http/pagination';
 
-interface AlchemyConfig {
+export interface AlchemyConfig {
   apiKey: string;
+  /**
+   * Endpoint template; `{network}` is replaced with the Alchemy network name.
+   * Must contain `{network}` unless every chain has an entry in `endpoints`.
+   */
   baseUrl?: string;
+  /**
+   * Per-chain endpoint overrides (e.g. self-hosted proxies)
+   */
+  endpoints?: Partial<Record<EVMChain, string>>;
+  /**
+   * Chains queried when fanning an address out across networks
+   */
+  chains?: EVMChain[];
+  /**
+   * Request client; share one between fetchers to share a rate limit
+   */
+  http?: HttpClient;
+  /**
+   * NFT API version; inferred from `baseUrl` when omitted (v3 by default)
+   */
+  apiVersion?: AlchemyApiVersion;
 }
 
+export type AlchemyApiVersion = 'v2' | 'v3';
+
 interface AlchemyResponse {
   ownedNfts: AlchemyNFT[];
   totalCount: number;
   pageKey?: string;
 }
 
+const DEFAULT_BASE_URL = 'https://{network}.g.alchemy.com/nft/v3';
+
+// Currency a floor is quoted in when Alchemy doesn't say
+const NATIVE_CURRENCIES: Record<EVMChain, string> = {
+  ethereum: 'ETH',
+  polygon: 'MATIC',
+  arbitrum: 'ETH',
+  optimism: 'ETH',
+  base: 'ETH',
+  zora: 'ETH',
+};
+
+const DEFAULT_CHAINS: EVMChain[] = [
+  'ethereum',
+  'polygon',
+  'arbitrum',
+  'optimism',
+  'base',
+  'zora',
+];
+
 export class AlchemyFetcher {
   private apiKey: string;
   private baseUrl: string;
+  private endpoints: Partial<Record<EVMChain, string>>;
+  private chains: EVMChain[];
+  private http: HttpClient;
+  private apiVersion: AlchemyApiVersion;
 
   constructor(config: AlchemyConfig) {
     this.apiKey = config.apiKey;
-    this.baseUrl = config.baseUrl || 'https://api.g.alchemy.com/nft/v3';
+    this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+    this.endpoints = config.endpoints || {};
+    this.chains = config.chains || DEFAULT_CHAINS;
+    this.apiVersion = config.apiVersion || (/\/nft\/v2\b/.test(this.baseUrl) ? 'v2' : 'v3');
+
+    // Without {network} every chain would hit the same host and get one chain's NFTs
+    const unrouted = this.chains.filter((chain) => !this.endpoints[chain]);
+    if (!this.baseUrl.includes('{network}') && unrouted.length > 0) {
+      throw new Error(
+        `Alchemy baseUrl must contain {network}, or endpoints must be set for ${unrouted.join(', ')}`
+      );
+    }
+
+    this.http =
+      config.http ||
+      new HttpClient({
+        provider: 'Alchemy',
+        rateLimit: { capacity: 10, refillPerSecond: 5 },
+        secrets: [config.apiKey],
+      });
   }
 
   /**
-   * Fetch all NFTs for a wallet address
+   * Chains this fetcher fans out to
+   */
+  getChains(): EVMChain[] {
+    return [...this.chains];
+  }
+
+  /**
+   * Fetch all NFTs for a wallet address.
+   * Throws IncompleteResultError with the loaded NFTs if a page fails or `signal` aborts.
    */
   async fetchForWallet(
     address: string,
     chain: EVMChain,
-    walletId: string
+    walletId: string,
+    signal?: AbortSignal
   ): Promise<NFT[]> {
+    const result = await this.fetchAllPages(address, chain, walletId, undefined, signal);
+    return requireComplete(result, `Incomplete NFT list for ${address} on ${chain}`);
+  }
+
+  /**
+   * Fetch pages until done, a page fails or `signal` aborts. Pass the returned
+   * cursor back as `fromPageKey` to resume.
+   */
+  async fetchAllPages(
+    address: string,
+    chain: EVMChain,
+    walletId: string,
+    fromPageKey?: string,
+    signal?: AbortSignal
+  ): Promise<PartialResult<NFT, string>> {
+    return paginate(
+      async (pageKey) => {
+        const page = await this.fetchPage(address, chain, walletId, pageKey, signal);
+        return { items: page.items, next: page.hasMore ? page.pageKey : undefined };
+      },
+      { from: fromPageKey, signal }
+    );
+  }
+
+  /**
+   * Fetch NFTs for an address across every configured chain.
+   * If some chains fail, throws IncompleteResultError with every NFT that did
+   * load; if all fail with nothing loaded, throws the first error.
+   */
+  async fetchForAddressAllChains(
+    address: string,
+    walletId: string,
+    chains: EVMChain[] = this.chains,
+    signal?: AbortSignal
+  ): Promise<NFT[]> {
+    const results = await Promise.allSettled(
+      chains.map((chain) => this.fetchForWallet(address, chain, walletId, signal))
+    );
+
     const allNFTs: NFT[] = [];
-    let pageKey: string | undefined;
-    let hasMore = true;
-
-    while (hasMore) {
-      const result = await this.fetchPage(address, chain, walletId, pageKey);
-      allNFTs.push(...result.items);
-      pageKey = result.pageKey;
-      hasMore = result.hasMore && !!pageKey;
+    const failedChains: EVMChain[] = [];
+    const errors: unknown[] = [];
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        allNFTs.push(...result.value);
+        return;
+      }
+
+      console.warn(`Failed to fetch NFTs on ${chains[index]}:`, result.reason);
+      failedChains.push(chains[index]);
+      errors.push(result.reason);
+      if (result.reason instanceof IncompleteResultError) {
+        allNFTs.push(...(result.reason.items as NFT[]));
+      }
+    });
+
+    if (errors.length === 0) {
+      return allNFTs;
+    }
+    if (errors.length === chains.length && allNFTs.length === 0) {
+      throw errors[0];
     }
 
-    return allNFTs;
+    const cause = errors[0] instanceof Error ? errors[0] : undefined;
+    throw new IncompleteResultError(
+      `Incomplete NFT list for ${address} (${failedChains.join(', ')})`,
+      allNFTs,
+      cause
+    );
   }
 
   /**
@@ -55,10 +196,10 @@ export class AlchemyFetcher {
     address: string,
     chain: EVMChain,
     walletId: string,
-    pageKey?: string
+    pageKey?: string,
+    signal?: AbortSignal
   ): Promise<PaginatedResult<NFT>> {
-    const network = this.mapChainToNetwork(chain);
-    const url = `${this.baseUrl}/${this.apiKey}/getNFTsForOwner`;
+    const url = this.buildUrl(chain, this.getOwnerMethod());
 
     const params = new URLSearchParams({
       owner: address,
@@ -70,28 +211,27 @@ export class AlchemyFetcher {
       params.append('pageKey', pageKey);
     }
 
-    const response = await fetch(`${url}?${params.toString()}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
+    const data = await this.http.get<AlchemyResponse>(`${url}?${params.toString()}`, { signal });
 
-    if (!response.ok) {
-      throw new Error(`Alchemy API error: ${response.status} ${response.statusText}`);
+    if (!data || !Array.isArray(data.ownedNfts)) {
+      throw new MalformedResponseError(`Alchemy ${this.getOwnerMethod()} returned no ownedNfts`, {
+        provider: 'Alchemy',
+      });
     }
 
-    const data: AlchemyResponse = await response.json();
-
-    const nfts = data.ownedNfts.map(alchemyNFT =>
+    const { nfts, skipped } = NFTNormalizer.normalizeAll(data.ownedNfts, (alchemyNFT) =>
       NFTNormalizer.fromAlchemy(alchemyNFT, walletId, chain)
     );
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} NFTs with invalid ids for ${address} on ${chain}`);
+    }
 
     return {
       items: nfts,
       pageKey: data.pageKey,
       totalCount: data.totalCount,
       hasMore: !!data.pageKey,
+      skipped,
     };
   }
 
@@ -101,65 +241,83 @@ export class AlchemyFetcher {
   async fetchMetadata(
     contractAddress: string,
     tokenId: string,
-    chain: EVMChain
+    chain: EVMChain,
+    refreshCache: boolean = false
   ): Promise<AlchemyNFT> {
-    const network = this.mapChainToNetwork(chain);
-    const url = `${this.baseUrl}/${this.apiKey}/getNFTMetadata`;
+    const url = this.buildUrl(chain, 'getNFTMetadata');
 
     const params = new URLSearchParams({
       contractAddress,
       tokenId,
-      refreshCache: 'false',
+      refreshCache: String(refreshCache),
     });
 
-    const response = await fetch(`${url}?${params.toString()}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
+    const data = await this.http.get<AlchemyNFT>(`${url}?${params.toString()}`);
 
-    if (!response.ok) {
-      throw new Error(`Alchemy API error: ${response.status} ${response.statusText}`);
+    if (!data || !data.contract) {
+      throw new MalformedResponseError('Alchemy getNFTMetadata returned no contract', {
+        provider: 'Alchemy',
+      });
     }
 
-    return response.json();
+    return data;
   }
 
   /**
-   * Fetch floor price for a collection
+   * Fetch floor price for a collection, in the currency Alchemy quotes it in
+   * (the chain's native currency when the response doesn't say)
    */
   async fetchFloorPrice(
     contractAddress: string,
     chain: EVMChain
-  ): Promise<number | undefined> {
+  ): Promise<{ amount: number; currency: string } | undefined> {
     try {
-      const network = this.mapChainToNetwork(chain);
-      const url = `${this.baseUrl}/${this.apiKey}/getFloorPrice`;
+      const url = this.buildUrl(chain, 'getFloorPrice');
 
       const params = new URLSearchParams({
         contractAddress,
       });
 
-      const response = await fetch(`${url}?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
+      const data = await this.http.get<{
+        openSea?: { floorPrice?: number; priceCurrency?: string };
+      }>(`${url}?${params.toString()}`);
 
-      if (!response.ok) {
-        return undefined;
-      }
-
-      const data = await response.json();
-      return data.openSea?.floorPrice;
+      const floor = data?.openSea;
+      if (typeof floor?.floorPrice !== 'number') return undefined;
+      return {
+        amount: floor.floorPrice,
+        currency: floor.priceCurrency || NATIVE_CURRENCIES[chain] || 'ETH',
+      };
     } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
       console.warn('Failed to fetch floor price:', error);
       return undefined;
     }
   }
 
+  /**
+   * v2 named the owner listing getNFTs; v3 renamed it getNFTsForOwner
+   */
+  private getOwnerMethod(): string {
+    return this.apiVersion === 'v2' ? 'getNFTs' : 'getNFTsForOwner';
+  }
+
+  /**
+   * Build the endpoint URL for a chain-specific API method
+   */
+  private buildUrl(chain: EVMChain, method: string): string {
+    const override = this.endpoints[chain];
+    if (override) {
+      return `${override.replace(/\/+$/, '')}/${this.apiKey}/${method}`;
+    }
+    if (!this.baseUrl.includes('{network}')) {
+      throw new Error(`No Alchemy endpoint configured for ${chain}`);
+    }
+
+    const base = this.baseUrl.replace('{network}', this.mapChainToNetwork(chain));
+    return `${base}/${this.apiKey}/${method}`;
+  }
+
   /**
    * Map app chain names to Alchemy network names
    */
@@ -177,21 +335,23 @@ export class AlchemyFetcher {
   }
 
   /**
-   * Verify API key is valid
+   * Verify API key is valid. False when the key is rejected or the check
+   * couldn't reach Alchemy.
    */
   async verifyApiKey(): Promise<boolean> {
     try {
-      // Test with a simple request
-      const url = `${this.baseUrl}/${this.apiKey}/getNFTsForOwner`;
+      const url = this.buildUrl(this.chains[0] || 'ethereum', this.getOwnerMethod());
       const params = new URLSearchParams({
         owner: '0x0000000000000000000000000000000000000000',
         pageSize: '1',
       });
 
-      const response = await fetch(`${url}?${params.toString()}`);
-      return response.ok || response.status === 400; // 400 is ok, means API key works but invalid address
+      await this.http.get(`${url}?${params.toString()}`, { retries: 0 });
+      return true;
     } catch (error) {
-      return false;
+      // 400 means the key was accepted but the request was rejected
+      if (error instanceof AuthError) return false;
+      return error instanceof HttpError && error.status === 400;
     }
   }
 }
@@ -199,6 +359,9 @@ export class AlchemyFetcher {
 /**
  * Create Alchemy fetcher instance
  */
-export function createAlchemyFetcher(apiKey: string): AlchemyFetcher {
-  return new AlchemyFetcher({ apiKey });
+export function createAlchemyFetcher(
+  apiKey: string,
+  options?: Omit<AlchemyConfig, 'apiKey'>
+): AlchemyFetcher {
+  return new AlchemyFetcher({ apiKey, ...options });
 }
@@ -3,12 +3,45 @@
  * Fetches NFTs from Solana using Helius DAS API
  */
 
-import type { NFT, HeliusAsset, PaginatedResult } from '../../../types';
-import { NFTNormalizer } from '../normalizer';
+import type {
+  NFT,
+  HeliusAsset,
+  HeliusCollectionMetadata,
+  PaginatedResult,
+} from '../../../types';
+import { NFTNormalizer, getHeliusCollectionGroup } from '../normalizer';
+import { HttpClient } from '../../http/client';
+import {
+  AuthError,
+  HttpError,
+  MalformedResponseError,
+  NotFoundError,
+  RateLimitedError,
+  RpcError,
+} from '../../http/errors';
+import { paginate, requireComplete, type PartialResult } from '../../http/pagination';
 
 interface HeliusConfig {
   apiKey: string;
   rpcUrl?: string;
+  /**
+   * Request client; share one between fetchers to share a rate limit
+   */
+  http?: HttpClient;
+  /**
+   * Client for off-chain metadata (`json_uri`) hosts
+   */
+  metadataHttp?: HttpClient;
+  /**
+   * Off-chain metadata lookups per page for assets without an image. The rest
+   * keep the image they had and are looked up on later syncs.
+   */
+  maxJsonImagesPerPage?: number;
+}
+
+interface RpcErrorBody {
+  code?: number;
+  message?: string;
 }
 
 interface HeliusResponse {
@@ -28,34 +61,73 @@ interface GetAssetsByOwnerParams {
   };
 }
 
+interface SearchAssetsParams extends GetAssetsByOwnerParams {
+  grouping?: [string, string];
+  creatorAddress?: string;
+  compressed?: boolean;
+}
+
 export class HeliusFetcher {
   private apiKey: string;
   private rpcUrl: string;
+  private http: HttpClient;
+  private metadataHttp: HttpClient;
+  private maxJsonImagesPerPage: number;
+  // json_uri -> image; cached for the session so each sync looks up new assets
+  private jsonImages = new Map<string, Promise<string | undefined>>();
+  // Collection address -> metadata; collections rarely change, so cache for the session
+  private collections = new Map<string, Promise<HeliusCollectionMetadata | undefined>>();
 
   constructor(config: HeliusConfig) {
     this.apiKey = config.apiKey;
     this.rpcUrl = config.rpcUrl || `https://mainnet.helius-rpc.com/?api-key=${config.apiKey}`;
+    this.http =
+      config.http ||
+      new HttpClient({
+        provider: 'Helius',
+        rateLimit: { capacity: 10, refillPerSecond: 10 },
+        secrets: [config.apiKey],
+      });
+    this.metadataHttp =
+      config.metadataHttp ||
+      new HttpClient({
+        provider: 'Metadata host',
+        rateLimit: { capacity: 5, refillPerSecond: 5 },
+        retries: 1,
+        timeoutMs: 10 * 1000,
+      });
+    // At the metadata host's 5 req/s, about 5 seconds per page
+    this.maxJsonImagesPerPage = config.maxJsonImagesPerPage ?? 25;
   }
 
   /**
-   * Fetch all NFTs for a Solana wallet address
+   * Fetch all NFTs for a Solana wallet address.
+   * Throws IncompleteResultError with the loaded NFTs if a page fails or `signal` aborts.
    */
-  async fetchForWallet(address: string, walletId: string): Promise<NFT[]> {
-    const allNFTs: NFT[] = [];
-    let page = 1;
-    let hasMore = true;
-    const limit = 1000; // Helius max per page
+  async fetchForWallet(address: string, walletId: string, signal?: AbortSignal): Promise<NFT[]> {
+    const result = await this.fetchAllPages(address, walletId, 1, signal);
+    return requireComplete(result, `Incomplete NFT list for ${address}`);
+  }
 
-    while (hasMore) {
-      const result = await this.fetchPage(address, walletId, page, limit);
-      allNFTs.push(...result.items);
-      
-      // Check if there are more pages
-      hasMore = result.items.length === limit;
-      page++;
-    }
+  /**
+   * Fetch pages until done, a page fails or `signal` aborts. Pass the returned
+   * cursor (a page number) back as `fromPage` to resume.
+   */
+  async fetchAllPages(
+    address: string,
+    walletId: string,
+    fromPage: number = 1,
+    signal?: AbortSignal
+  ): Promise<PartialResult<NFT, number>> {
+    const limit = 1000; // Helius max per page
 
-    return allNFTs;
+    return paginate(
+      async (page = fromPage) => {
+        const result = await this.fetchPage(address, walletId, page, limit, signal);
+        return { items: result.items, next: result.hasMore ? page + 1 : undefined };
+      },
+      { from: fromPage, signal }
+    );
   }
 
   /**
@@ -65,7 +137,8 @@ export class HeliusFetcher {
     address: string,
     walletId: string,
     page: number = 1,
-    limit: number = 1000
+    limit: number = 1000,
+    signal?: AbortSignal
   ): Promise<PaginatedResult<NFT>> {
     const params: GetAssetsByOwnerParams = {
       ownerAddress: address,
@@ -77,16 +150,16 @@ export class HeliusFetcher {
       },
     };
 
-    const response = await this.makeRpcCall('getAssetsByOwner', params);
+    const response = await this.makeRpcCall('getAssetsByOwner', params, signal);
+    assertItems(response, 'getAssetsByOwner');
 
-    const nfts = response.items.map((asset: HeliusAsset) =>
-      NFTNormalizer.fromHelius(asset, walletId)
-    );
+    const nfts = await this.normalizeAssets(response.items, walletId, signal);
 
     return {
       items: nfts,
       totalCount: response.total,
       hasMore: response.items.length === limit,
+      skipped: response.items.length - nfts.length,
     };
   }
 
@@ -97,8 +170,15 @@ export class HeliusFetcher {
     const response = await this.makeRpcCall('getAsset', {
       id: mintAddress,
     });
+    assertAsset(response, 'getAsset');
 
-    return NFTNormalizer.fromHelius(response, walletId);
+    const [nft] = await this.normalizeAssets([response], walletId);
+    if (!nft) {
+      throw new MalformedResponseError(`Helius getAsset returned an invalid asset: ${mintAddress}`, {
+        provider: 'Helius',
+      });
+    }
+    return nft;
   }
 
   /**
@@ -111,10 +191,14 @@ export class HeliusFetcher {
     const response = await this.makeRpcCall('getAssetBatch', {
       ids: mintAddresses,
     });
+    if (!Array.isArray(response)) {
+      throw new MalformedResponseError('Helius getAssetBatch returned no assets', {
+        provider: 'Helius',
+      });
+    }
 
-    return response.map((asset: HeliusAsset) =>
-      NFTNormalizer.fromHelius(asset, walletId)
-    );
+    // Unknown mints come back as null entries
+    return this.normalizeAssets(response.filter(isHeliusAsset), walletId);
   }
 
   /**
@@ -129,10 +213,13 @@ export class HeliusFetcher {
       compressed?: boolean;
     }
   ): Promise<NFT[]> {
-    const params: any = {
+    const params: SearchAssetsParams = {
       ownerAddress,
       page: 1,
       limit: 1000,
+      displayOptions: {
+        showCollectionMetadata: true,
+      },
     };
 
     if (options?.collectionAddress) {
@@ -148,10 +235,9 @@ export class HeliusFetcher {
     }
 
     const response = await this.makeRpcCall('getAssetsByOwner', params);
+    assertItems(response, 'getAssetsByOwner');
 
-    return response.items.map((asset: HeliusAsset) =>
-      NFTNormalizer.fromHelius(asset, walletId)
-    );
+    return this.normalizeAssets(response.items, walletId);
   }
 
   /**
@@ -169,14 +255,132 @@ export class HeliusFetcher {
       page,
       limit,
     });
+    assertItems(response, 'getAssetsByGroup');
 
     return response.items;
   }
 
+  /**
+   * Collection name, image and description for a collection address.
+   * Looked up once per address via the collection's own asset.
+   */
+  async getCollectionMetadata(
+    collectionAddress: string
+  ): Promise<HeliusCollectionMetadata | undefined> {
+    let pending = this.collections.get(collectionAddress);
+    if (!pending) {
+      pending = this.fetchCollectionAsset(collectionAddress);
+      this.collections.set(collectionAddress, pending);
+      // Let transient failures be retried on the next lookup
+      pending.catch(() => this.collections.delete(collectionAddress));
+    }
+
+    try {
+      return await pending;
+    } catch (error) {
+      console.warn(`Failed to fetch collection ${collectionAddress}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Normalize assets, resolving collection metadata Helius didn't inline and
+   * images that only live in the off-chain JSON (up to `maxJsonImagesPerPage`
+   * new lookups per call). Assets without a valid id are skipped.
+   */
+  private async normalizeAssets(
+    assets: HeliusAsset[],
+    walletId: string,
+    signal?: AbortSignal
+  ): Promise<NFT[]> {
+    let budget = this.maxJsonImagesPerPage;
+    const images = assets.map((asset) => {
+      const jsonUri = NFTNormalizer.getHeliusImage(asset) ? undefined : asset.content?.json_uri;
+      if (!jsonUri) return undefined;
+
+      const cached = this.jsonImages.get(jsonUri);
+      if (cached || budget <= 0) return cached;
+      budget--;
+      return this.getJsonImage(jsonUri, signal);
+    });
+
+    const resolved = await Promise.all(
+      assets.map(async (asset, index) => {
+        const group = getHeliusCollectionGroup(asset);
+        const [collection, image] = await Promise.all([
+          group && !group.collection_metadata?.name
+            ? this.getCollectionMetadata(group.group_value)
+            : undefined,
+          images[index],
+        ]);
+        return { collection, image };
+      })
+    );
+
+    const { nfts, skipped } = NFTNormalizer.normalizeAll(assets, (asset, index) =>
+      NFTNormalizer.fromHelius(asset, walletId, resolved[index])
+    );
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} Helius assets with invalid ids`);
+    }
+    return nfts;
+  }
+
+  /**
+   * Cached image lookup for a `json_uri`; failures are retried on the next sync
+   */
+  private getJsonImage(jsonUri: string, signal?: AbortSignal): Promise<string | undefined> {
+    const pending = this.fetchJsonImage(jsonUri, signal).catch(() => {
+      this.jsonImages.delete(jsonUri);
+      return undefined;
+    });
+    this.jsonImages.set(jsonUri, pending);
+    return pending;
+  }
+
+  private async fetchCollectionAsset(
+    collectionAddress: string
+  ): Promise<HeliusCollectionMetadata | undefined> {
+    let asset: unknown;
+    try {
+      asset = await this.makeRpcCall('getAsset', { id: collectionAddress });
+    } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+    if (!isHeliusAsset(asset)) return undefined;
+
+    const metadata = asset.content?.metadata;
+    if (!metadata) return undefined;
+
+    return {
+      name: metadata.name || undefined,
+      symbol: metadata.symbol || undefined,
+      description: metadata.description,
+      image: NFTNormalizer.getHeliusImage(asset) || undefined,
+      external_url: asset.content.links?.external_url,
+    };
+  }
+
+  /**
+   * Image from the asset's off-chain JSON; undefined if the JSON has none
+   */
+  private async fetchJsonImage(jsonUri: string, signal?: AbortSignal): Promise<string | undefined> {
+    const data = await this.metadataHttp.get<{ image?: unknown }>(
+      NFTNormalizer.normalizeImageUrl(jsonUri),
+      { signal }
+    );
+    return typeof data?.image === 'string' && data.image ? data.image : undefined;
+  }
+
   /**
    * Make RPC call to Helius DAS API
    */
-  private async makeRpcCall(method: string, params: any): Promise<any> {
+  private async makeRpcCall(
+    method: string,
+    params: object,
+    signal?: AbortSignal
+  ): Promise<unknown> {
     const payload = {
       jsonrpc: '2.0',
       id: Date.now().toString(),
@@ -184,63 +388,101 @@ export class HeliusFetcher {
       params,
     };
 
-    const response = await fetch(this.rpcUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Helius API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const data = await this.http.post<{ result?: unknown; error?: RpcErrorBody }>(
+      this.rpcUrl,
+      payload,
+      {
+        signal,
+        // Inside the client so RPC rate limits get its backoff and retries
+        validate: (body) => {
+          const error = (body as { error?: RpcErrorBody } | undefined)?.error;
+          if (error) throw toRpcError(method, error);
+        },
+      }
+    );
 
-    if (data.error) {
-      throw new Error(`Helius RPC error: ${data.error.message}`);
+    if (!data || data.result === undefined) {
+      throw new MalformedResponseError(`Helius ${method} returned no result`, {
+        provider: 'Helius',
+      });
     }
 
     return data.result;
   }
 
   /**
-   * Verify API key is valid
+   * Verify API key is valid. A JSON-RPC error (e.g. asset not found) still
+   * means the key was accepted; auth, network, server and malformed responses do not.
    */
   async verifyApiKey(): Promise<boolean> {
     try {
-      // Test with a simple request
       await this.makeRpcCall('getAsset', {
         id: '11111111111111111111111111111111', // System program address
       });
       return true;
     } catch (error) {
-      // If we get a proper error response, API key is valid
-      return true;
+      if (error instanceof AuthError) return false;
+      return (
+        error instanceof RpcError || (error instanceof HttpError && error.cause instanceof RpcError)
+      );
     }
   }
 
   /**
    * Get webhook configuration (for future use)
    */
-  async getWebhooks(): Promise<any> {
-    const response = await fetch(
-      `https://api.helius.xyz/v0/webhooks?api-key=${this.apiKey}`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+  async getWebhooks(): Promise<unknown> {
+    return this.http.get(`https://api.helius.xyz/v0/webhooks?api-key=${this.apiKey}`);
+  }
+}
 
-    if (!response.ok) {
-      throw new Error('Failed to fetch webhooks');
-    }
+function assertItems(response: unknown, method: string): asserts response is HeliusResponse {
+  if (!isObject(response) || !Array.isArray(response.items)) {
+    throw new MalformedResponseError(`Helius ${method} returned no items`, {
+      provider: 'Helius',
+    });
+  }
+}
 
-    return response.json();
+function assertAsset(response: unknown, method: string): asserts response is HeliusAsset {
+  if (!isHeliusAsset(response)) {
+    throw new MalformedResponseError(`Helius ${method} returned no asset`, {
+      provider: 'Helius',
+    });
+  }
+}
+
+/**
+ * Whether a result looks like a DAS asset; the normalizer checks the rest
+ */
+function isHeliusAsset(value: unknown): value is HeliusAsset {
+  return isObject(value) && typeof value.id === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Map a JSON-RPC error body onto the typed HTTP errors. Each carries the
+ * RpcError as its cause, so callers can tell it came from Helius itself.
+ */
+function toRpcError(method: string, error: RpcErrorBody): HttpError {
+  const message = `Helius RPC error: ${error.message || 'unknown error'}`;
+  const rpcError = new RpcError(message, { provider: 'Helius', code: error.code });
+  const options = { provider: 'Helius', cause: rpcError };
+  const text = (error.message || '').toLowerCase();
+
+  if (error.code === 429 || error.code === -32429 || text.includes('rate limit')) {
+    return new RateLimitedError(message, options);
+  }
+  if (error.code === 401 || error.code === 403 || text.includes('api key')) {
+    return new AuthError(message, options);
+  }
+  if (text.includes('not found')) {
+    return new NotFoundError(`${message} (${method})`, options);
   }
+  return rpcError;
 }
 
 /**
@@ -0,0 +1,93 @@
+/**
+ * Magic Eden Floor Fetcher
+ * Solana collection floor prices, resolved from any mint in the collection
+ */
+
+import type { SolanaFloorSource } from '../../valuation/history';
+import { HttpClient } from '../../http/client';
+import { NotFoundError } from '../../http/errors';
+
+interface MagicEdenConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  http?: HttpClient;
+}
+
+// Fields read from Magic Eden responses; anything else is ignored
+interface MagicEdenToken {
+  mintAddress?: string;
+  collection?: string; // collection symbol
+}
+
+interface MagicEdenCollectionStats {
+  symbol?: string;
+  floorPrice?: number; // lamports
+  listedCount?: number;
+}
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+export class MagicEdenFetcher implements SolanaFloorSource {
+  private apiKey?: string;
+  private baseUrl: string;
+  private http: HttpClient;
+  // Mint -> Magic Eden collection symbol; symbols don't change, so cache for the session
+  private symbols = new Map<string, string | null>();
+
+  constructor(config: MagicEdenConfig = {}) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl || 'https://api-mainnet.magiceden.dev/v2';
+    // Public API allows 2 requests per second
+    this.http =
+      config.http ||
+      new HttpClient({ provider: 'Magic Eden', rateLimit: { capacity: 2, refillPerSecond: 2 } });
+  }
+
+  /**
+   * Floor price in SOL for the collection a mint belongs to
+   */
+  async fetchFloorPrice(mintAddress: string): Promise<number | undefined> {
+    const symbol = await this.getCollectionSymbol(mintAddress);
+    if (!symbol) return undefined;
+
+    const data = await this.get<MagicEdenCollectionStats>(`/collections/${encodeURIComponent(symbol)}/stats`);
+    if (typeof data?.floorPrice !== 'number') return undefined;
+
+    return data.floorPrice / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Magic Eden collection symbol for a mint, or undefined if it isn't listed there
+   */
+  async getCollectionSymbol(mintAddress: string): Promise<string | undefined> {
+    if (this.symbols.has(mintAddress)) {
+      return this.symbols.get(mintAddress) ?? undefined;
+    }
+
+    const data = await this.get<MagicEdenToken>(`/tokens/${encodeURIComponent(mintAddress)}`);
+    const symbol = typeof data?.collection === 'string' && data.collection ? data.collection : null;
+    this.symbols.set(mintAddress, symbol);
+    return symbol ?? undefined;
+  }
+
+  /**
+   * GET a Magic Eden endpoint; undefined when it answers 404
+   */
+  private async get<T>(path: string): Promise<T | undefined> {
+    try {
+      return await this.http.get<T>(`${this.baseUrl}${path}`, {
+        headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a Magic Eden fetcher
+ */
+export function createMagicEdenFetcher(apiKey?: string): MagicEdenFetcher {
+  return new MagicEdenFetcher({ apiKey });
+}
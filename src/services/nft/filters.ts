@@ -0,0 +1,374 @@
+/**
+ * NFT Filters
+ * Applies FilterOptions to NFT lists and describes active filters as chips
+ */
+
+import type {
+  NFT,
+  Collection,
+  CustomGroup,
+  FilterOptions,
+  Wallet,
+} from '../../types';
+import { getCollectionId } from './collections';
+import { getHoldings } from './holdings';
+import { isHidden } from './spam';
+import { getMediaType } from '../../utils/media';
+import {
+  ASSET_STATE_LABELS,
+  TOKEN_STANDARD_LABELS,
+  getAssetStates,
+} from '../../utils/standards';
+import { getWalletDisplayName } from '../../utils/formatting';
+
+export interface FilterContext {
+  customGroups?: CustomGroup[];
+  /**
+   * Stored records by id, so per-wallet items can be judged by the whole token
+   */
+  nfts?: Map<string, NFT>;
+}
+
+export interface FilterLabelContext extends FilterContext {
+  collections?: Map<string, Collection>;
+  wallets?: Wallet[];
+}
+
+export type FilterField = Exclude<
+  keyof FilterOptions,
+  'combinator' | 'attributeCombinator'
+>;
+
+export interface FilterChip {
+  key: string;
+  field: FilterField;
+  value?: string | number | boolean;
+  label: string;
+}
+
+type Predicate = (nft: NFT) => boolean;
+
+/**
+ * Build one predicate per active criterion
+ */
+function buildPredicates(options: FilterOptions, context: FilterContext): Predicate[] {
+  const predicates: Predicate[] = [];
+
+  if (options.collections?.length) {
+    const ids = new Set(options.collections);
+    predicates.push((nft) => ids.has(getCollectionId(nft)));
+  }
+
+  if (options.farcaster !== undefined) {
+    predicates.push((nft) => nft.metadata.isFarcasterMint === options.farcaster);
+  }
+
+  if (options.customGroups?.length) {
+    const selected = new Set(options.customGroups);
+    const memberIds = new Set(
+      (context.customGroups || [])
+        .filter((g) => selected.has(g.id))
+        .flatMap((g) => g.nftIds)
+    );
+    predicates.push((nft) => memberIds.has(nft.id));
+  }
+
+  if (options.chains?.length) {
+    const chains = new Set(options.chains);
+    predicates.push((nft) => chains.has(nft.chain));
+  }
+
+  if (options.evmChains?.length) {
+    const evmChains = new Set(options.evmChains);
+    predicates.push((nft) => !!nft.evmChain && evmChains.has(nft.evmChain));
+  }
+
+  if (options.wallets?.length) {
+    const wallets = new Set(options.wallets);
+    predicates.push((nft) => getHoldings(nft).some((h) => wallets.has(h.walletId)));
+  }
+
+  if (options.hasFloorPrice !== undefined) {
+    predicates.push((nft) => !!nft.collection.floorPrice === options.hasFloorPrice);
+  }
+
+  if (options.mediaTypes?.length) {
+    const mediaTypes = new Set(options.mediaTypes);
+    predicates.push((nft) => mediaTypes.has(getMediaType(nft)));
+  }
+
+  if (options.multiWallet !== undefined) {
+    predicates.push((nft) => {
+      const record = context.nfts?.get(nft.id) || nft;
+      return getHoldings(record).length > 1 === options.multiWallet;
+    });
+  }
+
+  if (options.tokenStandards?.length) {
+    const standards = new Set(options.tokenStandards);
+    predicates.push((nft) => !!nft.tokenStandard && standards.has(nft.tokenStandard));
+  }
+
+  if (options.assetStates?.length) {
+    const states = new Set(options.assetStates);
+    predicates.push((nft) => getAssetStates(nft).some((state) => states.has(state)));
+  }
+
+  if (options.attributes?.length) {
+    const pairs = options.attributes;
+    const matchAll = (options.attributeCombinator || 'and') === 'and';
+    predicates.push((nft) => {
+      const attributes = nft.metadata.attributes || [];
+      const hasPair = (pair: (typeof pairs)[number]) =>
+        attributes.some(
+          (attr) =>
+            attr.trait_type.toLowerCase() === pair.trait_type.toLowerCase() &&
+            String(attr.value).toLowerCase() === String(pair.value).toLowerCase()
+        );
+      return matchAll ? pairs.every(hasPair) : pairs.some(hasPair);
+    });
+  }
+
+  return predicates;
+}
+
+/**
+ * Whether any criterion is set, including a non-default visibility
+ */
+export function hasActiveFilters(options: FilterOptions): boolean {
+  return (
+    buildPredicates(options, {}).length > 0 ||
+    (options.visibility !== undefined && options.visibility !== 'visible')
+  );
+}
+
+/**
+ * Narrow to the hidden/spam bucket, the visible NFTs, or both
+ */
+export function applyVisibility(nfts: NFT[], visibility: FilterOptions['visibility']): NFT[] {
+  switch (visibility || 'visible') {
+    case 'all':
+      return nfts;
+    case 'hidden':
+      return nfts.filter((nft) => isHidden(nft));
+    default:
+      return nfts.filter((nft) => !isHidden(nft));
+  }
+}
+
+/**
+ * Apply every FilterOptions criterion. Values within a criterion are OR'd;
+ * criteria combine with `options.combinator` (AND by default). Visibility is
+ * a scope applied first, so OR never pulls hidden NFTs back in.
+ */
+export function applyFilters(
+  nfts: NFT[],
+  options: FilterOptions,
+  context: FilterContext = {}
+): NFT[] {
+  const scoped = applyVisibility(nfts, options.visibility);
+  const predicates = buildPredicates(options, context);
+  if (predicates.length === 0) return scoped;
+
+  const matchAll = (options.combinator || 'and') === 'and';
+  return scoped.filter((nft) =>
+    matchAll ? predicates.every((p) => p(nft)) : predicates.some((p) => p(nft))
+  );
+}
+
+/**
+ * Describe each active filter value as a removable chip
+ */
+export function getFilterChips(
+  options: FilterOptions,
+  context: FilterLabelContext = {}
+): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  options.collections?.forEach((id) => {
+    chips.push({
+      key: `collections:${id}`,
+      field: 'collections',
+      value: id,
+      label: context.collections?.get(id)?.name || id,
+    });
+  });
+
+  if (options.farcaster !== undefined) {
+    chips.push({
+      key: 'farcaster',
+      field: 'farcaster',
+      value: options.farcaster,
+      label: options.farcaster ? 'Farcaster' : 'Not Farcaster',
+    });
+  }
+
+  options.customGroups?.forEach((id) => {
+    chips.push({
+      key: `customGroups:${id}`,
+      field: 'customGroups',
+      value: id,
+      label: context.customGroups?.find((g) => g.id === id)?.name || id,
+    });
+  });
+
+  options.chains?.forEach((chain) => {
+    chips.push({
+      key: `chains:${chain}`,
+      field: 'chains',
+      value: chain,
+      label: chain === 'evm' ? 'EVM' : 'Solana',
+    });
+  });
+
+  options.evmChains?.forEach((evmChain) => {
+    chips.push({
+      key: `evmChains:${evmChain}`,
+      field: 'evmChains',
+      value: evmChain,
+      label: evmChain.charAt(0).toUpperCase() + evmChain.slice(1),
+    });
+  });
+
+  options.wallets?.forEach((id) => {
+    const wallet = context.wallets?.find((w) => w.id === id);
+    chips.push({
+      key: `wallets:${id}`,
+      field: 'wallets',
+      value: id,
+      label: wallet ? getWalletDisplayName(wallet) : id,
+    });
+  });
+
+  if (options.hasFloorPrice !== undefined) {
+    chips.push({
+      key: 'hasFloorPrice',
+      field: 'hasFloorPrice',
+      value: options.hasFloorPrice,
+      label: options.hasFloorPrice ? 'Has floor' : 'No floor',
+    });
+  }
+
+  options.mediaTypes?.forEach((mediaType) => {
+    chips.push({
+      key: `mediaTypes:${mediaType}`,
+      field: 'mediaTypes',
+      value: mediaType,
+      label: mediaType.charAt(0).toUpperCase() + mediaType.slice(1),
+    });
+  });
+
+  if (options.multiWallet !== undefined) {
+    chips.push({
+      key: 'multiWallet',
+      field: 'multiWallet',
+      value: options.multiWallet,
+      label: options.multiWallet ? 'In several wallets' : 'In one wallet',
+    });
+  }
+
+  options.tokenStandards?.forEach((standard) => {
+    chips.push({
+      key: `tokenStandards:${standard}`,
+      field: 'tokenStandards',
+      value: standard,
+      label: TOKEN_STANDARD_LABELS[standard] || standard,
+    });
+  });
+
+  options.assetStates?.forEach((state) => {
+    chips.push({
+      key: `assetStates:${state}`,
+      field: 'assetStates',
+      value: state,
+      label: ASSET_STATE_LABELS[state] || state,
+    });
+  });
+
+  options.attributes?.forEach((pair, index) => {
+    chips.push({
+      key: `attributes:${index}:${pair.trait_type}=${pair.value}`,
+      field: 'attributes',
+      value: index,
+      label: `${pair.trait_type}: ${pair.value}`,
+    });
+  });
+
+  if (options.visibility && options.visibility !== 'visible') {
+    chips.push({
+      key: 'visibility',
+      field: 'visibility',
+      value: options.visibility,
+      label: options.visibility === 'hidden' ? 'Hidden & spam' : 'Including hidden',
+    });
+  }
+
+  return chips;
+}
+
+/**
+ * Filter options containing only the chip's criterion, within the current visibility
+ */
+export function chipToOptions(options: FilterOptions, chip: FilterChip): FilterOptions {
+  const scope = { visibility: options.visibility };
+  switch (chip.field) {
+    case 'farcaster':
+    case 'hasFloorPrice':
+    case 'multiWallet':
+    case 'visibility':
+      return { ...scope, [chip.field]: chip.value };
+    case 'attributes':
+      return { ...scope, attributes: [options.attributes![chip.value as number]] };
+    default:
+      return { ...scope, [chip.field]: [chip.value] };
+  }
+}
+
+/**
+ * Remove a single chip's value from the filter options
+ */
+export function removeFilterChip(options: FilterOptions, chip: FilterChip): FilterOptions {
+  const next: FilterOptions = { ...options };
+
+  switch (chip.field) {
+    case 'farcaster':
+    case 'hasFloorPrice':
+    case 'multiWallet':
+    case 'visibility':
+      delete next[chip.field];
+      break;
+    case 'attributes':
+      next.attributes = options.attributes?.filter((_, i) => i !== chip.value);
+      break;
+    default: {
+      const values = (options[chip.field] as string[] | undefined) || [];
+      (next as Record<string, unknown>)[chip.field] = values.filter((v) => v !== chip.value);
+    }
+  }
+
+  // Drop empty lists so hasActiveFilters stays accurate
+  (Object.keys(next) as (keyof FilterOptions)[]).forEach((key) => {
+    const value = next[key];
+    if (Array.isArray(value) && value.length === 0) {
+      delete next[key];
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Number of NFTs matching each chip on its own
+ */
+export function countChipMatches(
+  nfts: NFT[],
+  options: FilterOptions,
+  chips: FilterChip[],
+  context: FilterContext = {}
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  chips.forEach((chip) => {
+    counts.set(chip.key, applyFilters(nfts, chipToOptions(options, chip), context).length);
+  });
+  return counts;
+}
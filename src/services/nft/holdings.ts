@@ -0,0 +1,126 @@
+/**
+ * NFT Holdings
+ * Per-wallet ownership of a token, so one token can be held by several of
+ * our wallets and in several copies (ERC-1155)
+ */
+
+import type { NFT, NFTHolding } from '../../types';
+import { mergeNFT } from './diff';
+
+/**
+ * Copies of an NFT held: by one wallet when given, otherwise across all wallets
+ */
+export function getQuantity(nft: NFT, walletId?: string): number {
+  if (walletId === undefined) return nft.quantity ?? 1;
+  return getHoldings(nft).find((h) => h.walletId === walletId)?.quantity ?? 0;
+}
+
+/**
+ * Every wallet holding the NFT. Single-wallet NFTs don't store `holdings`,
+ * so this synthesizes the one holding from `walletId` and `quantity`.
+ */
+export function getHoldings(nft: NFT): NFTHolding[] {
+  return (
+    nft.holdings || [
+      { walletId: nft.walletId, quantity: nft.quantity ?? 1, firstSeenAt: nft.firstSeenAt },
+    ]
+  );
+}
+
+export function isHeldBy(nft: NFT, walletId: string): boolean {
+  return getHoldings(nft).some((h) => h.walletId === walletId);
+}
+
+/**
+ * The NFT as seen from one wallet: that wallet's quantity and firstSeenAt.
+ * Undefined if the wallet doesn't hold it.
+ */
+export function getWalletView(nft: NFT, walletId: string): NFT | undefined {
+  if (!nft.holdings) {
+    return nft.walletId === walletId ? nft : undefined;
+  }
+
+  const holding = nft.holdings.find((h) => h.walletId === walletId);
+  if (!holding) return undefined;
+
+  return {
+    ...nft,
+    walletId,
+    quantity: holding.quantity > 1 ? holding.quantity : undefined,
+    firstSeenAt: holding.firstSeenAt,
+    holdings: undefined,
+  };
+}
+
+/**
+ * One wallet view per holding
+ */
+export function splitByWallet(nft: NFT): NFT[] {
+  if (!nft.holdings) return [nft];
+  return nft.holdings.map((h) => getWalletView(nft, h.walletId)!);
+}
+
+/**
+ * Replace the NFT's holdings, keeping `walletId`, `quantity` and
+ * `firstSeenAt` consistent with them. Undefined when no holdings are left.
+ */
+export function setHoldings(nft: NFT, holdings: NFTHolding[]): NFT | undefined {
+  if (holdings.length === 0) return undefined;
+
+  const quantity = holdings.reduce((sum, h) => sum + h.quantity, 0);
+  const seen = holdings
+    .map((h) => h.firstSeenAt)
+    .filter((t): t is number => t !== undefined);
+
+  return {
+    ...nft,
+    walletId: holdings[0].walletId,
+    quantity: quantity > 1 ? quantity : undefined,
+    firstSeenAt: seen.length > 0 ? Math.min(...seen) : undefined,
+    holdings: holdings.length > 1 ? holdings : undefined,
+  };
+}
+
+/**
+ * Fold one wallet's view of a token into the stored token, replacing that
+ * wallet's holding and keeping the others. Fresh token data comes from `view`;
+ * the stored token's local overrides and rarity are kept.
+ */
+export function mergeWalletView(existing: NFT | undefined, view: NFT): NFT {
+  const holding: NFTHolding = {
+    walletId: view.walletId,
+    quantity: view.quantity ?? 1,
+    firstSeenAt: view.firstSeenAt,
+  };
+  if (!existing) return setHoldings(view, [holding])!;
+
+  const holdings = getHoldings(existing);
+  const index = holdings.findIndex((h) => h.walletId === view.walletId);
+  const next =
+    index === -1
+      ? [...holdings, holding]
+      : holdings.map((h, i) => (i === index ? holding : h));
+  return setHoldings(mergeNFT(existing, view, view.lastFetched), next)!;
+}
+
+/**
+ * Add the holdings of another copy of the same token; wallets that hold both
+ * keep `nft`'s holding. Token data comes from `nft`.
+ */
+export function mergeHoldings(nft: NFT, other: NFT): NFT {
+  const holdings = getHoldings(nft);
+  const added = getHoldings(other).filter(
+    (holding) => !holdings.some((h) => h.walletId === holding.walletId)
+  );
+  return setHoldings(nft, [...holdings, ...added])!;
+}
+
+/**
+ * Drop a wallet's holding. Undefined when no other wallet holds the token.
+ */
+export function removeWalletHolding(nft: NFT, walletId: string): NFT | undefined {
+  return setHoldings(
+    nft,
+    getHoldings(nft).filter((h) => h.walletId !== walletId)
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * NFT Identifiers
+ * Canonical ids for NFTs and collections, modelled on CAIP-19 asset ids:
+ *
+ *   NFT         eip155:{chainId}/nft:{contract}/{tokenId}
+ *               solana:{genesisHash}/nft:{mint}
+ *   Collection  eip155:{chainId}/nft:{contract}
+ *               solana:{genesisHash}/collection:{address}
+ *
+ * EVM contracts are lowercase and token ids decimal, so the same token always
+ * gets the same id whichever API reported it. Solana addresses are base58 and
+ * case-sensitive, so they are kept as-is.
+ *
+ * Version 1 ids were colon-separated (`evm:base:0xabc:1`, `solana:{mint}`);
+ * `toCanonicalNFTId` and `toCanonicalCollectionId` upgrade them.
+ */
+
+import type { EVMChain, NFT } from '../../types';
+
+export const ID_VERSION = 2;
+
+export type NFTIdParts =
+  | { chain: 'evm'; evmChain: EVMChain; contractAddress: string; tokenId: string }
+  | { chain: 'solana'; mint: string };
+
+export type CollectionIdParts =
+  | { chain: 'evm'; evmChain: EVMChain; contractAddress: string }
+  | { chain: 'solana'; address: string };
+
+/**
+ * Parts that can't form a valid id (unknown chain, malformed address or token id)
+ */
+export class InvalidIdError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidIdError';
+  }
+}
+
+// EIP-155 chain ids
+export const EVM_CHAIN_IDS: Record<EVMChain, number> = {
+  ethereum: 1,
+  optimism: 10,
+  polygon: 137,
+  base: 8453,
+  arbitrum: 42161,
+  zora: 7777777,
+};
+
+// CAIP-30 reference: the first 32 characters of the mainnet genesis hash
+const SOLANA_MAINNET = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+const EVM_CHAINS_BY_ID = new Map(
+  (Object.keys(EVM_CHAIN_IDS) as EVMChain[]).map((chain): [string, EVMChain] => [
+    String(EVM_CHAIN_IDS[chain]),
+    chain,
+  ])
+);
+
+const EVM_ADDRESS = /^0x[0-9a-f]{40}$/;
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const DECIMAL_TOKEN_ID = /^(0|[1-9]\d{0,77})$/;
+
+/**
+ * Canonical id for an NFT. Throws InvalidIdError for parts that don't form one.
+ */
+export function formatNFTId(parts: NFTIdParts): string {
+  if (parts.chain === 'solana') {
+    return `solana:${SOLANA_MAINNET}/nft:${checkSolanaAddress(parts.mint)}`;
+  }
+  return `${formatEvmAssetType(parts.evmChain, parts.contractAddress)}/${canonicalTokenId(parts.tokenId)}`;
+}
+
+/**
+ * Parse a canonical NFT id. Null for anything `formatNFTId` wouldn't produce,
+ * including version 1 ids.
+ */
+export function parseNFTId(id: string): NFTIdParts | null {
+  const segments = id.split('/');
+
+  if (segments.length === 3) {
+    const assetType = parseEvmAssetType(segments[0], segments[1]);
+    const tokenId = segments[2];
+    if (!assetType || !DECIMAL_TOKEN_ID.test(tokenId)) return null;
+    return { chain: 'evm', ...assetType, tokenId };
+  }
+
+  if (segments.length === 2 && segments[0] === `solana:${SOLANA_MAINNET}`) {
+    const mint = stripPrefix(segments[1], 'nft:');
+    return mint && SOLANA_ADDRESS.test(mint) ? { chain: 'solana', mint } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Canonical id for a collection. Throws InvalidIdError for parts that don't form one.
+ */
+export function formatCollectionId(parts: CollectionIdParts): string {
+  if (parts.chain === 'solana') {
+    return `solana:${SOLANA_MAINNET}/collection:${checkSolanaAddress(parts.address)}`;
+  }
+  return formatEvmAssetType(parts.evmChain, parts.contractAddress);
+}
+
+/**
+ * Parse a canonical collection id; null for anything else
+ */
+export function parseCollectionId(id: string): CollectionIdParts | null {
+  const segments = id.split('/');
+  if (segments.length !== 2) return null;
+
+  if (segments[0] === `solana:${SOLANA_MAINNET}`) {
+    const address = stripPrefix(segments[1], 'collection:');
+    return address && SOLANA_ADDRESS.test(address) ? { chain: 'solana', address } : null;
+  }
+
+  const assetType = parseEvmAssetType(segments[0], segments[1]);
+  return assetType ? { chain: 'evm', ...assetType } : null;
+}
+
+/**
+ * Id for a normalized NFT. Solana NFTs carry their mint as `tokenId`.
+ */
+export function getNFTId(nft: Pick<NFT, 'chain' | 'evmChain' | 'contractAddress' | 'tokenId'>): string {
+  return formatNFTId(
+    nft.chain === 'solana'
+      ? { chain: 'solana', mint: nft.tokenId }
+      : {
+          chain: 'evm',
+          evmChain: requireEvmChain(nft.evmChain),
+          contractAddress: nft.contractAddress,
+          tokenId: nft.tokenId,
+        }
+  );
+}
+
+/**
+ * Id of the collection an NFT belongs to
+ */
+export function getNFTCollectionId(
+  nft: Pick<NFT, 'chain' | 'evmChain' | 'contractAddress'>
+): string {
+  return formatCollectionId(
+    nft.chain === 'solana'
+      ? { chain: 'solana', address: nft.contractAddress }
+      : { chain: 'evm', evmChain: requireEvmChain(nft.evmChain), contractAddress: nft.contractAddress }
+  );
+}
+
+/**
+ * Format version of an id: ID_VERSION for canonical ids, 1 for the old
+ * colon-separated ids, undefined for neither
+ */
+export function getIdVersion(id: string): number | undefined {
+  if (parseNFTId(id) || parseCollectionId(id)) return ID_VERSION;
+  if (parseLegacyNFTId(id) || parseLegacyCollectionId(id)) return 1;
+  return undefined;
+}
+
+/**
+ * Canonical form of a current or version 1 NFT id; undefined when it can't be
+ * resolved (e.g. an EVM id that never recorded its chain)
+ */
+export function toCanonicalNFTId(id: string): string | undefined {
+  if (parseNFTId(id)) return id;
+  const parts = parseLegacyNFTId(id);
+  return parts ? tryFormat(() => formatNFTId(parts)) : undefined;
+}
+
+/**
+ * Canonical form of a current or version 1 collection id; undefined when it
+ * can't be resolved
+ */
+export function toCanonicalCollectionId(id: string): string | undefined {
+  if (parseCollectionId(id)) return id;
+  const parts = parseLegacyCollectionId(id);
+  return parts ? tryFormat(() => formatCollectionId(parts)) : undefined;
+}
+
+/**
+ * Version 1 NFT ids: `evm:{chain}:{contract}:{tokenId}`, `solana:{mint}`, and
+ * `solana:{contract}:{tokenId}` from the old generateId (the token id is the mint)
+ */
+function parseLegacyNFTId(id: string): NFTIdParts | null {
+  const parts = id.split(':');
+
+  if (parts[0] === 'evm' && parts.length === 4 && parts[1] in EVM_CHAIN_IDS) {
+    return {
+      chain: 'evm',
+      evmChain: parts[1] as EVMChain,
+      contractAddress: parts[2],
+      tokenId: parts[3],
+    };
+  }
+
+  if (parts[0] === 'solana' && (parts.length === 2 || parts.length === 3)) {
+    return { chain: 'solana', mint: parts[parts.length - 1] };
+  }
+
+  return null;
+}
+
+/**
+ * Version 1 collection ids: `evm:{chain}:{contract}` and `solana:{address}`
+ */
+function parseLegacyCollectionId(id: string): CollectionIdParts | null {
+  const parts = id.split(':');
+
+  if (parts[0] === 'evm' && parts.length === 3 && parts[1] in EVM_CHAIN_IDS) {
+    return { chain: 'evm', evmChain: parts[1] as EVMChain, contractAddress: parts[2] };
+  }
+
+  if (parts[0] === 'solana' && parts.length === 2) {
+    return { chain: 'solana', address: parts[1] };
+  }
+
+  return null;
+}
+
+function formatEvmAssetType(evmChain: EVMChain, contractAddress: string): string {
+  const chainId = EVM_CHAIN_IDS[evmChain];
+  if (chainId === undefined) {
+    throw new InvalidIdError(`Unknown EVM chain: ${evmChain}`);
+  }
+
+  const address = contractAddress.toLowerCase();
+  if (!EVM_ADDRESS.test(address)) {
+    throw new InvalidIdError(`Invalid contract address: ${contractAddress}`);
+  }
+  return `eip155:${chainId}/nft:${address}`;
+}
+
+function parseEvmAssetType(
+  chain: string,
+  asset: string
+): { evmChain: EVMChain; contractAddress: string } | null {
+  const chainId = stripPrefix(chain, 'eip155:');
+  const evmChain = chainId ? EVM_CHAINS_BY_ID.get(chainId) : undefined;
+  const contractAddress = stripPrefix(asset, 'nft:');
+  if (!evmChain || !contractAddress || !EVM_ADDRESS.test(contractAddress)) return null;
+  return { evmChain, contractAddress };
+}
+
+/**
+ * Token ids in decimal without leading zeros. Older Alchemy responses report
+ * them in hex.
+ */
+function canonicalTokenId(tokenId: string): string {
+  if (/^0x[0-9a-f]+$/i.test(tokenId)) {
+    return BigInt(tokenId).toString();
+  }
+  if (/^\d+$/.test(tokenId)) {
+    const trimmed = tokenId.replace(/^0+(?=\d)/, '');
+    if (DECIMAL_TOKEN_ID.test(trimmed)) return trimmed;
+  }
+  throw new InvalidIdError(`Invalid token id: ${tokenId}`);
+}
+
+function checkSolanaAddress(address: string): string {
+  if (!SOLANA_ADDRESS.test(address)) {
+    throw new InvalidIdError(`Invalid Solana address: ${address}`);
+  }
+  return address;
+}
+
+function requireEvmChain(evmChain?: EVMChain): EVMChain {
+  if (!evmChain) {
+    throw new InvalidIdError('EVM NFT is missing its chain');
+  }
+  return evmChain;
+}
+
+function stripPrefix(value: string, prefix: string): string | undefined {
+  return value.startsWith(prefix) ? value.slice(prefix.length) : undefined;
+}
+
+/**
+ * Run a step that formats ids; undefined when the parts can't form a valid id
+ */
+export function tryFormat<T>(format: () => T): T | undefined {
+  try {
+    return format();
+  } catch (error) {
+    if (error instanceof InvalidIdError) return undefined;
+    throw error;
+  }
+}
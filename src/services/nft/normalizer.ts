@@ -6,23 +6,140 @@
 import type {
   NFT,
   AlchemyNFT,
+  AlchemyNFTV2,
   HeliusAsset,
+  HeliusCollectionMetadata,
   ChainType,
   EVMChain,
+  NFTOwnershipState,
+  TokenStandard,
 } from '../../types';
+import { formatNFTId, getNFTId, parseNFTId, tryFormat } from './ids';
+import { classifySpam } from './spam';
+
+/**
+ * Data resolved outside the asset itself, e.g. by a follow-up request
+ */
+export interface HeliusResolvedFields {
+  collection?: HeliusCollectionMetadata;
+  image?: string;
+}
 
 export class NFTNormalizer {
   /**
-   * Normalize Alchemy NFT response to unified format
+   * Normalize a page of assets, skipping (and counting) those whose parts
+   * can't form a valid id instead of failing the whole page
+   */
+  static normalizeAll<T>(
+    assets: T[],
+    normalize: (asset: T, index: number) => NFT
+  ): { nfts: NFT[]; skipped: number } {
+    const nfts: NFT[] = [];
+    assets.forEach((asset, index) => {
+      const nft = tryFormat(() => normalize(asset, index));
+      if (nft) nfts.push(nft);
+    });
+    return { nfts, skipped: assets.length - nfts.length };
+  }
+
+  /**
+   * Normalize Alchemy NFT response to unified format.
+   * Handles the v3 shape, falling back to v2 for older endpoints.
    */
   static fromAlchemy(
     alchemyNFT: AlchemyNFT,
     walletId: string,
     chain: EVMChain
+  ): NFT {
+    if (isAlchemyV2(alchemyNFT)) {
+      return this.fromAlchemyV2(alchemyNFT, walletId, chain);
+    }
+
+    const contract = alchemyNFT.contract;
+    const contractAddress = contract.address.toLowerCase();
+    const tokenId = alchemyNFT.tokenId;
+    const id = formatNFTId({ chain: 'evm', evmChain: chain, contractAddress, tokenId });
+    const raw = alchemyNFT.raw?.metadata;
+    const openSea = contract.openSeaMetadata;
+
+    // Get best available image
+    const image =
+      alchemyNFT.image?.cachedUrl ||
+      alchemyNFT.image?.pngUrl ||
+      alchemyNFT.image?.originalUrl ||
+      raw?.image ||
+      '';
+
+    const thumbnail = alchemyNFT.image?.thumbnailUrl;
+    const animation =
+      alchemyNFT.animation?.cachedUrl ||
+      alchemyNFT.animation?.originalUrl ||
+      raw?.animation_url;
+
+    const mintedAt = alchemyNFT.mint?.timestamp
+      ? new Date(alchemyNFT.mint.timestamp).getTime()
+      : undefined;
+
+    const nft: NFT = {
+      id,
+      walletId,
+      chain: 'evm',
+      evmChain: chain,
+      contractAddress,
+      tokenId,
+      name: alchemyNFT.name || raw?.name || `#${tokenId}`,
+      description: alchemyNFT.description || raw?.description,
+      image: this.normalizeImageUrl(image),
+      imageOptimized: thumbnail ? this.normalizeImageUrl(thumbnail) : undefined,
+      animationUrl: animation ? this.normalizeImageUrl(animation) : undefined,
+      externalUrl: raw?.external_url,
+      tokenStandard: toEvmStandard(alchemyNFT.tokenType || contract.tokenType),
+      quantity: toQuantity(alchemyNFT.balance),
+      collection: {
+        name:
+          alchemyNFT.collection?.name ||
+          openSea?.collectionName ||
+          contract.name ||
+          'Unknown Collection',
+        address: contractAddress,
+        description: openSea?.description,
+        imageUrl: openSea?.imageUrl,
+        externalUrl: openSea?.externalUrl || alchemyNFT.collection?.externalUrl,
+        floorPrice: openSea?.floorPrice
+          ? {
+              amount: openSea.floorPrice,
+              currency: 'ETH',
+            }
+          : undefined,
+      },
+      metadata: {
+        attributes: raw?.attributes || [],
+        isFarcasterMint: false, // Will be detected separately
+        mintedAt: Number.isNaN(mintedAt) ? undefined : mintedAt,
+        mintedBy: alchemyNFT.mint?.mintAddress?.toLowerCase(),
+        creator: contract.contractDeployer?.toLowerCase(),
+      },
+      lastFetched: Date.now(),
+    };
+
+    nft.spam = classifySpam(nft, {
+      isSpam: contract.isSpam,
+      classifications: contract.spamClassifications,
+    });
+    return nft;
+  }
+
+  /**
+   * Normalize a v2-shaped Alchemy NFT (title, media[], contractMetadata.openSea)
+   */
+  private static fromAlchemyV2(
+    alchemyNFT: AlchemyNFTV2,
+    walletId: string,
+    chain: EVMChain
   ): NFT {
     const contractAddress = alchemyNFT.contract.address.toLowerCase();
     const tokenId = alchemyNFT.tokenId;
-    const id = `evm:${chain}:${contractAddress}:${tokenId}`;
+    const id = formatNFTId({ chain: 'evm', evmChain: chain, contractAddress, tokenId });
 
     // Get best available image
     const image = 
@@ -33,7 +150,7 @@ export class NFTNormalizer {
 
     const thumbnail = alchemyNFT.media?.[0]?.thumbnail;
 
-    return {
+    const nft: NFT = {
       id,
       walletId,
       chain: 'evm',
@@ -45,6 +162,8 @@ export class NFTNormalizer {
       image: this.normalizeImageUrl(image),
       imageOptimized: thumbnail ? this.normalizeImageUrl(thumbnail) : undefined,
       externalUrl: alchemyNFT.metadata?.external_url,
+      tokenStandard: toEvmStandard(alchemyNFT.tokenType || alchemyNFT.contract.tokenType),
+      quantity: toQuantity(alchemyNFT.balance),
       collection: {
         name: alchemyNFT.contractMetadata?.name || 
               alchemyNFT.contract.name || 
@@ -67,27 +186,38 @@ export class NFTNormalizer {
       },
       lastFetched: Date.now(),
     };
+
+    nft.spam = classifySpam(nft, {
+      isSpam: alchemyNFT.spamInfo?.isSpam === 'true',
+      classifications: alchemyNFT.spamInfo?.classifications,
+    });
+    return nft;
   }
 
   /**
-   * Normalize Helius asset response to unified format
+   * Normalize Helius asset response to unified format.
+   * `resolved` fills in collection metadata and an image the asset itself lacks.
    */
   static fromHelius(
     heliusAsset: HeliusAsset,
-    walletId: string
+    walletId: string,
+    resolved: HeliusResolvedFields = {}
   ): NFT {
-    const id = `solana:${heliusAsset.id}`;
+    const id = formatNFTId({ chain: 'solana', mint: heliusAsset.id });
     
     // Extract collection info from grouping
-    const collectionGroup = heliusAsset.grouping.find(
-      g => g.group_key === 'collection'
-    );
+    const collectionGroup = getHeliusCollectionGroup(heliusAsset);
     const collectionAddress = collectionGroup?.group_value || heliusAsset.id;
+    const collectionMetadata = collectionGroup?.collection_metadata?.name
+      ? collectionGroup.collection_metadata
+      : resolved.collection || collectionGroup?.collection_metadata;
 
-    const image = heliusAsset.content.links?.image || '';
+    const image = this.getHeliusImage(heliusAsset) || resolved.image || '';
+    const animation = heliusAsset.content.links?.animation_url;
     const metadata = heliusAsset.content.metadata;
+    const tokenStandard = toSolanaStandard(heliusAsset);
 
-    return {
+    const nft: NFT = {
       id,
       walletId,
       chain: 'solana',
@@ -96,10 +226,20 @@ export class NFTNormalizer {
       name: metadata.name || 'Unknown',
       description: metadata.description,
       image: this.normalizeImageUrl(image),
+      animationUrl: animation ? this.normalizeImageUrl(animation) : undefined,
       externalUrl: heliusAsset.content.links?.external_url,
+      tokenStandard,
+      compressed: heliusAsset.compression?.compressed || undefined,
+      ownershipState: toOwnershipState(heliusAsset, tokenStandard),
       collection: {
-        name: metadata.symbol || 'Unknown Collection',
+        name: collectionMetadata?.name || metadata.symbol || 'Unknown Collection',
         address: collectionAddress,
+        description: collectionMetadata?.description || undefined,
+        imageUrl: collectionMetadata?.image
+          ? this.normalizeImageUrl(collectionMetadata.image)
+          : undefined,
+        externalUrl: collectionMetadata?.external_url || undefined,
+        // Helius has no market data; HistoryTracker fills floors from Magic Eden
       },
       metadata: {
         attributes: metadata.attributes || [],
@@ -109,6 +249,25 @@ export class NFTNormalizer {
       },
       lastFetched: Date.now(),
     };
+
+    // Helius has no spam verdict, so only our heuristics apply
+    nft.spam = classifySpam(nft);
+    return nft;
+  }
+
+  /**
+   * Best image on a Helius asset: `links.image`, then the first image file
+   * (CDN copy preferred). Empty when the asset only has `json_uri`.
+   */
+  static getHeliusImage(heliusAsset: HeliusAsset): string {
+    const linked = heliusAsset.content.links?.image;
+    if (linked) return linked;
+
+    const files = heliusAsset.content.files || [];
+    const imageFile =
+      files.find((file) => file.mime?.startsWith('image/') && (file.cdn_uri || file.uri)) ||
+      files.find((file) => !file.mime && (file.cdn_uri || file.uri));
+    return imageFile?.cdn_uri || imageFile?.uri || '';
   }
 
   /**
@@ -146,7 +305,8 @@ export class NFTNormalizer {
   }
 
   /**
-   * Generate composite NFT ID
+   * Generate canonical NFT ID; see ./ids for the format.
+   * For Solana the token id is the mint.
    */
   static generateId(
     chain: ChainType,
@@ -154,14 +314,11 @@ export class NFTNormalizer {
     tokenId: string,
     evmChain?: EVMChain
   ): string {
-    if (chain === 'evm' && evmChain) {
-      return `evm:${evmChain}:${contractAddress.toLowerCase()}:${tokenId}`;
-    }
-    return `${chain}:${contractAddress.toLowerCase()}:${tokenId}`;
+    return getNFTId({ chain, contractAddress, tokenId, evmChain });
   }
 
   /**
-   * Parse composite NFT ID
+   * Parse canonical NFT ID. For Solana the mint is both contract and token id.
    */
   static parseId(id: string): {
     chain: ChainType;
@@ -169,25 +326,90 @@ export class NFTNormalizer {
     contractAddress: string;
     tokenId: string;
   } | null {
-    const parts = id.split(':');
-    
-    if (parts[0] === 'evm' && parts.length === 4) {
-      return {
-        chain: 'evm',
-        evmChain: parts[1] as EVMChain,
-        contractAddress: parts[2],
-        tokenId: parts[3],
-      };
-    }
-    
-    if (parts[0] === 'solana' && parts.length === 2) {
-      return {
-        chain: 'solana',
-        contractAddress: parts[1],
-        tokenId: parts[1],
-      };
+    const parts = parseNFTId(id);
+    if (!parts) return null;
+
+    if (parts.chain === 'solana') {
+      return { chain: 'solana', contractAddress: parts.mint, tokenId: parts.mint };
     }
-    
-    return null;
+    return parts;
+  }
+}
+
+/**
+ * v2 responses carry `title`/`media`; v3 replaced them with `name`/`image`/`raw`
+ */
+function isAlchemyV2(nft: AlchemyNFT): nft is AlchemyNFTV2 {
+  return !('raw' in nft) && !('image' in nft) && ('media' in nft || 'title' in nft);
+}
+
+/**
+ * The `collection` grouping of a Helius asset, if it belongs to one
+ */
+export function getHeliusCollectionGroup(
+  asset: HeliusAsset
+): HeliusAsset['grouping'][number] | undefined {
+  return asset.grouping?.find((g) => g.group_key === 'collection');
+}
+
+/**
+ * ERC-1155 balance as a quantity; omitted for a single copy
+ */
+function toQuantity(balance?: string): number | undefined {
+  const quantity = balance ? parseInt(balance, 10) : NaN;
+  return Number.isFinite(quantity) && quantity > 1 ? quantity : undefined;
+}
+
+function toEvmStandard(tokenType?: string): TokenStandard | undefined {
+  switch (tokenType?.toUpperCase()) {
+    case 'ERC721':
+      return 'erc721';
+    case 'ERC1155':
+      return 'erc1155';
+    default:
+      return undefined;
   }
 }
+
+function toSolanaStandard(asset: HeliusAsset): TokenStandard | undefined {
+  if (asset.compression?.compressed) return 'cnft';
+
+  switch (asset.interface) {
+    case 'ProgrammableNFT':
+      return 'pnft';
+    case 'MplCoreAsset':
+      return 'core';
+    case 'V1_NFT':
+    case 'V2_NFT':
+    case 'V1_PRINT':
+    case 'LEGACY_NFT':
+      return 'metaplex';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Freeze and delegate state from a Helius asset. An NFT that is frozen with a
+ * delegate can't move until that delegate releases it, which is how
+ * non-custodial staking works. Undefined when the NFT is neither.
+ */
+function toOwnershipState(
+  asset: HeliusAsset,
+  standard?: TokenStandard
+): NFTOwnershipState | undefined {
+  const ownership = asset.ownership;
+  if (!ownership) return undefined;
+
+  // pNFT token accounts are always frozen by the program, so a delegate alone means locked
+  const frozen = standard === 'pnft' ? false : !!ownership.frozen;
+  const delegated = !!ownership.delegated;
+  if (!frozen && !delegated) return undefined;
+
+  return {
+    frozen,
+    delegated,
+    staked: delegated && (frozen || standard === 'pnft'),
+    delegate: ownership.delegate || undefined,
+  };
+}
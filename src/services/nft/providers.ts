@@ -0,0 +1,102 @@
+/**
+ * NFT Provider Registry
+ * Maps wallets to the fetcher that knows how to load their NFTs
+ */
+
+import type { NFT, Wallet } from '../../types';
+import type { AlchemyFetcher } from './fetchers/alchemy';
+import type { HeliusFetcher } from './fetchers/helius';
+import { NFTNormalizer } from './normalizer';
+
+export interface NFTProvider {
+  /**
+   * Unique provider identifier (e.g. 'alchemy', 'helius')
+   */
+  id: string;
+
+  /**
+   * Whether this provider can load NFTs for the wallet
+   */
+  supports: (wallet: Wallet) => boolean;
+
+  /**
+   * Load every NFT owned by the wallet. Throws IncompleteResultError, carrying
+   * the NFTs that did load, when only part of the wallet could be fetched.
+   * Requests and pagination stop once `signal` aborts.
+   */
+  fetchForWallet: (wallet: Wallet, signal?: AbortSignal) => Promise<NFT[]>;
+
+  /**
+   * Re-fetch a single NFT's metadata, bypassing provider caches where possible
+   */
+  fetchNFT?: (wallet: Wallet, nft: NFT) => Promise<NFT>;
+}
+
+export class ProviderRegistry {
+  private providers: NFTProvider[] = [];
+
+  constructor(providers: NFTProvider[] = []) {
+    providers.forEach((provider) => this.register(provider));
+  }
+
+  /**
+   * Register a provider, replacing any existing one with the same id
+   */
+  register(provider: NFTProvider): void {
+    this.unregister(provider.id);
+    this.providers.push(provider);
+  }
+
+  /**
+   * Remove a provider by id
+   */
+  unregister(id: string): void {
+    this.providers = this.providers.filter((p) => p.id !== id);
+  }
+
+  /**
+   * Find the first registered provider that supports the wallet
+   */
+  resolve(wallet: Wallet): NFTProvider | undefined {
+    return this.providers.find((p) => p.supports(wallet));
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getAll(): NFTProvider[] {
+    return [...this.providers];
+  }
+}
+
+/**
+ * Provider for EVM wallets backed by Alchemy.
+ * Wallets without an `evmChain` are fanned out across every configured chain.
+ */
+export function createAlchemyProvider(fetcher: AlchemyFetcher): NFTProvider {
+  return {
+    id: 'alchemy',
+    supports: (wallet) => wallet.chain === 'evm',
+    fetchForWallet: (wallet, signal) =>
+      wallet.evmChain
+        ? fetcher.fetchForWallet(wallet.address, wallet.evmChain, wallet.id, signal)
+        : fetcher.fetchForAddressAllChains(wallet.address, wallet.id, undefined, signal),
+    fetchNFT: async (wallet, nft) => {
+      const chain = nft.evmChain || wallet.evmChain || 'ethereum';
+      const raw = await fetcher.fetchMetadata(nft.contractAddress, nft.tokenId, chain, true);
+      return NFTNormalizer.fromAlchemy(raw, wallet.id, chain);
+    },
+  };
+}
+
+/**
+ * Provider for Solana wallets backed by Helius
+ */
+export function createHeliusProvider(fetcher: HeliusFetcher): NFTProvider {
+  return {
+    id: 'helius',
+    supports: (wallet) => wallet.chain === 'solana',
+    fetchForWallet: (wallet, signal) => fetcher.fetchForWallet(wallet.address, wallet.id, signal),
+    fetchNFT: (wallet, nft) => fetcher.fetchAsset(nft.tokenId, wallet.id),
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Trait Rarity Engine
+ * Builds per-collection trait frequency tables and scores tokens against them
+ */
+
+import type { NFT, NFTAttribute, NFTRarity, RaritySource } from '../../types';
+import type { HeliusFetcher } from './fetchers/helius';
+import { getCollectionId } from './collections';
+
+// Stand-in value for tokens that lack a trait type others in the collection have
+const MISSING_TRAIT = '__none__';
+
+export interface TraitToken {
+  tokenId: string;
+  attributes: NFTAttribute[];
+}
+
+export interface TraitTable {
+  total: number;
+  traits: Map<string, Map<string, number>>; // trait_type -> value -> count
+  traitCounts: Map<number, number>; // number of traits -> count
+}
+
+/**
+ * Count how often each trait value, and each trait count, occurs
+ */
+export function buildTraitTable(tokens: TraitToken[]): TraitTable {
+  const traits = new Map<string, Map<string, number>>();
+  const traitCounts = new Map<number, number>();
+
+  tokens.forEach((token) => {
+    const present = normalizeAttributes(token.attributes);
+    traitCounts.set(present.size, (traitCounts.get(present.size) || 0) + 1);
+
+    present.forEach((value, traitType) => {
+      if (!traits.has(traitType)) {
+        traits.set(traitType, new Map());
+      }
+      const values = traits.get(traitType)!;
+      values.set(value, (values.get(value) || 0) + 1);
+    });
+  });
+
+  // Tokens without a trait type share the implicit "none" value
+  traits.forEach((values) => {
+    const withTrait = Array.from(values.values()).reduce((sum, n) => sum + n, 0);
+    if (withTrait < tokens.length) {
+      values.set(MISSING_TRAIT, tokens.length - withTrait);
+    }
+  });
+
+  return { total: tokens.length, traits, traitCounts };
+}
+
+/**
+ * Score a token against a trait table. Higher is rarer.
+ * - statistical: sum of inverse trait-value frequencies (including missing traits)
+ * - traitCount: inverse frequency of the token's number of traits
+ */
+export function scoreToken(
+  token: TraitToken,
+  table: TraitTable
+): { statisticalScore: number; traitCountScore: number; score: number } {
+  if (table.total === 0) {
+    return { statisticalScore: 0, traitCountScore: 0, score: 0 };
+  }
+
+  const present = normalizeAttributes(token.attributes);
+  let statisticalScore = 0;
+
+  table.traits.forEach((values, traitType) => {
+    const value = present.get(traitType) ?? MISSING_TRAIT;
+    const count = values.get(value) || 1;
+    statisticalScore += table.total / count;
+  });
+
+  const traitCount = table.traitCounts.get(present.size) || 1;
+  const traitCountScore = table.total / traitCount;
+
+  return {
+    statisticalScore,
+    traitCountScore,
+    score: statisticalScore + traitCountScore,
+  };
+}
+
+/**
+ * Score and rank every token in a population. Rank 1 is the rarest.
+ */
+export function rankTokens(
+  tokens: TraitToken[],
+  source: RaritySource,
+  computedAt: number = Date.now()
+): Map<string, NFTRarity> {
+  const table = buildTraitTable(tokens);
+  const scored = tokens.map((token) => ({
+    tokenId: token.tokenId,
+    ...scoreToken(token, table),
+  }));
+
+  scored.sort((a, b) => b.score - a.score);
+
+  const result = new Map<string, NFTRarity>();
+  let rank = 0;
+  scored.forEach((entry, index) => {
+    // Ties share a rank
+    if (index === 0 || round(entry.score) !== round(scored[index - 1].score)) {
+      rank = index + 1;
+    }
+    result.set(entry.tokenId, {
+      score: round(entry.score),
+      statisticalScore: round(entry.statisticalScore),
+      traitCountScore: round(entry.traitCountScore),
+      rank,
+      total: tokens.length,
+      source,
+      computedAt,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Compute rarity for every NFT, grouped by collection. Collections with a full
+ * population (e.g. from Helius) are ranked against it; the rest against owned tokens.
+ * NFTs in collections without attributes get no rarity.
+ */
+export function computeRarity(
+  nfts: Iterable<NFT>,
+  populations: Map<string, TraitToken[]> = new Map(),
+  computedAt: number = Date.now()
+): Map<string, NFTRarity> {
+  const byCollection = new Map<string, NFT[]>();
+  for (const nft of nfts) {
+    const id = getCollectionId(nft);
+    if (!byCollection.has(id)) {
+      byCollection.set(id, []);
+    }
+    byCollection.get(id)!.push(nft);
+  }
+
+  const result = new Map<string, NFTRarity>();
+
+  byCollection.forEach((collectionNfts, collectionId) => {
+    const population = populations.get(collectionId);
+    const tokens = population || uniqueTokens(collectionNfts);
+
+    if (!tokens.some((token) => token.attributes.length > 0)) return;
+
+    const ranks = rankTokens(tokens, population ? 'collection' : 'owned', computedAt);
+    collectionNfts.forEach((nft) => {
+      const rarity = ranks.get(nft.tokenId);
+      if (rarity) {
+        result.set(nft.id, rarity);
+      }
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Load a Solana collection's full population via Helius getAssetsByGroup
+ */
+export async function fetchSolanaCollectionTokens(
+  fetcher: HeliusFetcher,
+  collectionAddress: string,
+  maxPages: number = 10
+): Promise<TraitToken[]> {
+  const tokens: TraitToken[] = [];
+  const limit = 1000;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const assets = await fetcher.getAssetsByGroup('collection', collectionAddress, page, limit);
+    assets.forEach((asset) => {
+      tokens.push({
+        tokenId: asset.id,
+        attributes: asset.content.metadata.attributes || [],
+      });
+    });
+    if (assets.length < limit) break;
+  }
+
+  return tokens;
+}
+
+/**
+ * Percentile position of a rank (0 = rarest, 100 = most common)
+ */
+export function getRarityPercentile(rarity: NFTRarity): number {
+  return rarity.total > 0 ? ((rarity.rank - 1) / rarity.total) * 100 : 100;
+}
+
+function uniqueTokens(nfts: NFT[]): TraitToken[] {
+  const seen = new Map<string, TraitToken>();
+  nfts.forEach((nft) => {
+    if (!seen.has(nft.tokenId)) {
+      seen.set(nft.tokenId, {
+        tokenId: nft.tokenId,
+        attributes: nft.metadata.attributes || [],
+      });
+    }
+  });
+  return Array.from(seen.values());
+}
+
+function normalizeAttributes(attributes: NFTAttribute[]): Map<string, string> {
+  const present = new Map<string, string>();
+  attributes.forEach((attr) => {
+    const value = String(attr.value).trim().toLowerCase();
+    // Empty values and numeric stats don't count as traits
+    if (!value || value === 'none' || attr.display_type) return;
+    present.set(attr.trait_type.trim().toLowerCase(), value);
+  });
+  return present;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,297 @@
+/**
+ * Refresh Scheduler
+ * Re-syncs wallets on settings.refreshInterval while the app is in the foreground
+ */
+
+import { AppState } from 'react-native';
+import type { Wallet, WalletSyncState } from '../../types';
+import type { WalletSyncProgress } from './sync';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Device signals the scheduler reacts to. Battery and network signals are
+ * optional so the app can supply them from whichever modules it ships with.
+ */
+export interface RefreshEnvironment {
+  isForeground: () => boolean;
+  isLowBattery?: () => boolean | Promise<boolean>;
+  isMetered?: () => boolean | Promise<boolean>;
+  /**
+   * Called whenever any of the signals above may have changed
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export type PauseReason = 'background' | 'low_battery' | 'metered' | 'disabled';
+
+interface SchedulerStoreState {
+  wallets: Wallet[];
+  settings: { refreshInterval: number };
+  walletSync: Record<string, WalletSyncState>;
+  updateWalletSync: (walletId: string, updates: Partial<WalletSyncState>) => void;
+}
+
+/**
+ * Minimal slice of the Zustand store the scheduler depends on
+ */
+export interface SchedulerStore {
+  getState: () => SchedulerStoreState;
+  subscribe: (
+    listener: (state: SchedulerStoreState, prevState: SchedulerStoreState) => void
+  ) => () => void;
+}
+
+export interface RefreshSchedulerConfig {
+  store: SchedulerStore;
+  sync: { syncWallet: (wallet: Wallet) => Promise<WalletSyncProgress> };
+  environment?: RefreshEnvironment;
+  staggerMs?: number; // minimum gap between starting two wallet syncs
+  retryBaseMs?: number; // first retry delay after a failure, doubled per failure
+  maxBackoffMs?: number;
+  now?: () => number;
+}
+
+export class RefreshScheduler {
+  private store: SchedulerStore;
+  private sync: RefreshSchedulerConfig['sync'];
+  private environment: RefreshEnvironment;
+  private staggerMs: number;
+  private retryBaseMs: number;
+  private maxBackoffMs: number;
+  private now: () => number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private syncing = false;
+  private lastStartedAt = 0;
+  private pauseReason?: PauseReason;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(config: RefreshSchedulerConfig) {
+    this.store = config.store;
+    this.sync = config.sync;
+    this.environment = config.environment || createAppStateEnvironment();
+    this.staggerMs = config.staggerMs ?? 2000;
+    this.retryBaseMs = config.retryBaseMs ?? 30 * 1000;
+    this.maxBackoffMs = config.maxBackoffMs ?? 60 * MINUTE;
+    this.now = config.now || Date.now;
+  }
+
+  /**
+   * Start scheduling. Wallets never synced, or overdue, are queued right away.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.unsubscribers.push(
+      this.environment.subscribe(() => this.reschedule()),
+      this.store.subscribe((state, prevState) => {
+        if (
+          state.wallets !== prevState.wallets ||
+          state.settings.refreshInterval !== prevState.settings.refreshInterval
+        ) {
+          this.planWallets();
+          this.reschedule();
+        }
+      })
+    );
+
+    this.planWallets();
+    this.reschedule();
+  }
+
+  /**
+   * Stop scheduling; a sync already running is left to finish
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Why refreshes are currently paused, if they are
+   */
+  getPauseReason(): PauseReason | undefined {
+    return this.pauseReason;
+  }
+
+  /**
+   * Mark wallets as due now (all active wallets when none given)
+   */
+  refreshNow(walletIds?: string[]): void {
+    const state = this.store.getState();
+    const now = this.now();
+    this.getActiveWallets()
+      .filter((w) => !walletIds || walletIds.includes(w.id))
+      .forEach((w, index) => {
+        state.updateWalletSync(w.id, { nextSyncAt: now + index * this.staggerMs });
+      });
+    this.reschedule();
+  }
+
+  /**
+   * Give each active wallet a nextSyncAt: one interval after its last sync,
+   * or staggered from now when it has never synced or is overdue.
+   */
+  private planWallets(): void {
+    const state = this.store.getState();
+    const interval = state.settings.refreshInterval * MINUTE;
+    const now = this.now();
+    let slot = 0;
+
+    this.getActiveWallets().forEach((wallet) => {
+      const sync = state.walletSync[wallet.id];
+      // Keep retry times chosen by backoff
+      if (sync?.consecutiveFailures && sync.nextSyncAt) return;
+
+      const due = sync?.lastSyncedAt !== undefined ? sync.lastSyncedAt + interval : now;
+      const nextSyncAt = due > now ? due : now + slot++ * this.staggerMs;
+      if (sync?.nextSyncAt !== nextSyncAt) {
+        state.updateWalletSync(wallet.id, { nextSyncAt });
+      }
+    });
+  }
+
+  private async reschedule(): Promise<void> {
+    this.clearTimer();
+    if (!this.running || this.syncing) return;
+
+    this.pauseReason = await this.checkPause();
+    // The scheduler may have been stopped while the environment was queried
+    if (!this.running || this.syncing) return;
+    if (this.pauseReason) return;
+
+    const next = this.getNextDue();
+    if (!next) return;
+
+    const now = this.now();
+    const delay = Math.max(
+      (next.sync?.nextSyncAt ?? now) - now,
+      this.lastStartedAt + this.staggerMs - now,
+      0
+    );
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.runWallet(next.wallet);
+    }, delay);
+  }
+
+  private async runWallet(wallet: Wallet): Promise<void> {
+    if (!this.running || this.syncing) return;
+    if (!this.getActiveWallets().some((w) => w.id === wallet.id)) {
+      this.reschedule();
+      return;
+    }
+
+    this.syncing = true;
+    this.lastStartedAt = this.now();
+
+    try {
+      const progress = await this.sync.syncWallet(wallet);
+      this.recordResult(wallet.id, progress);
+    } finally {
+      this.syncing = false;
+      this.reschedule();
+    }
+  }
+
+  private recordResult(walletId: string, progress: WalletSyncProgress): void {
+    const state = this.store.getState();
+    // The wallet may have been removed mid-sync
+    if (!state.wallets.some((w) => w.id === walletId)) return;
+
+    const now = this.now();
+    const interval = state.settings.refreshInterval * MINUTE;
+
+    if (progress.status === 'success') {
+      state.updateWalletSync(walletId, {
+        lastSyncedAt: now,
+        nextSyncAt: now + interval,
+        lastError: undefined,
+        consecutiveFailures: 0,
+      });
+      return;
+    }
+
+    if (progress.status === 'error') {
+      const failures = (state.walletSync[walletId]?.consecutiveFailures ?? 0) + 1;
+      const backoff = Math.min(this.retryBaseMs * 2 ** (failures - 1), this.maxBackoffMs);
+      state.updateWalletSync(walletId, {
+        nextSyncAt: now + backoff,
+        lastError: progress.error?.message,
+        consecutiveFailures: failures,
+      });
+      return;
+    }
+
+    // Cancelled (e.g. restarted elsewhere): try again on the normal interval
+    state.updateWalletSync(walletId, { nextSyncAt: now + interval });
+  }
+
+  private getNextDue(): { wallet: Wallet; sync?: WalletSyncState } | undefined {
+    const { walletSync } = this.store.getState();
+    let next: { wallet: Wallet; sync?: WalletSyncState } | undefined;
+
+    this.getActiveWallets().forEach((wallet) => {
+      const sync = walletSync[wallet.id];
+      const at = sync?.nextSyncAt ?? 0;
+      if (!next || at < (next.sync?.nextSyncAt ?? 0)) {
+        next = { wallet, sync };
+      }
+    });
+
+    return next;
+  }
+
+  private async checkPause(): Promise<PauseReason | undefined> {
+    if (this.store.getState().settings.refreshInterval <= 0) return 'disabled';
+    if (!this.environment.isForeground()) return 'background';
+
+    try {
+      if (await this.environment.isLowBattery?.()) return 'low_battery';
+      if (await this.environment.isMetered?.()) return 'metered';
+    } catch (error) {
+      console.warn('Failed to read refresh environment:', error);
+    }
+    return undefined;
+  }
+
+  private getActiveWallets(): Wallet[] {
+    return this.store.getState().wallets.filter((w) => w.isActive !== false);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * Environment backed by React Native AppState. Battery and network signals
+ * default to "never pause" unless provided.
+ */
+export function createAppStateEnvironment(
+  signals: Pick<RefreshEnvironment, 'isLowBattery' | 'isMetered'> = {}
+): RefreshEnvironment {
+  return {
+    isForeground: () => AppState.currentState === 'active',
+    ...signals,
+    subscribe: (listener) => {
+      const subscription = AppState.addEventListener('change', listener);
+      return () => subscription.remove();
+    },
+  };
+}
+
+/**
+ * Create a scheduler for the given store and sync service
+ */
+export function createRefreshScheduler(config: RefreshSchedulerConfig): RefreshScheduler {
+  return new RefreshScheduler(config);
+}
@@ -0,0 +1,320 @@
+/**
+ * NFT Search Index
+ * In-memory full-text index over names, descriptions, collections, traits and channels
+ */
+
+import type { NFT } from '../../types';
+
+type SearchField = 'name' | 'collection' | 'channel' | 'trait' | 'description';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  collection: 3,
+  channel: 3,
+  trait: 2,
+  description: 1,
+};
+
+const EXACT_BOOST = 1;
+const PREFIX_BOOST = 0.7;
+const FUZZY_BOOST = 0.4;
+
+export interface SearchQualifiers {
+  traits: { trait_type: string; value?: string }[];
+  chains: string[];
+  channels: string[];
+  collections: string[];
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  qualifiers: SearchQualifiers;
+}
+
+export interface SearchResult {
+  nft: NFT;
+  score: number;
+}
+
+interface IndexedDocument {
+  nft: NFT;
+  tokens: Map<string, number>; // token -> best field weight
+}
+
+/**
+ * Lowercase and split text into searchable tokens
+ */
+export function tokenize(text?: string): string[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Split a query into free-text terms and field qualifiers.
+ * Supported qualifiers: trait:Type=Value, chain:base, channel:zora, collection:name.
+ * Values may be double-quoted to include spaces.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const qualifiers: SearchQualifiers = {
+    traits: [],
+    chains: [],
+    channels: [],
+    collections: [],
+  };
+  const terms: string[] = [];
+
+  // field:value, where value (and a trait's Type=Value halves) may each be quoted
+  const pattern = /(\w+):((?:"[^"]*"|[^\s"=]+)(?:=(?:"[^"]*"|\S+))?|\S+)|"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, field, rawValue, quoted, word] = match;
+
+    if (field) {
+      const value = unquote(rawValue);
+      switch (field.toLowerCase()) {
+        case 'trait': {
+          // Split before unquoting, so both halves of "Type"="Value" can be quoted
+          const [, traitType, traitValue] = /^("[^"]*"|[^=]*)(?:=(.*))?$/.exec(rawValue)!;
+          qualifiers.traits.push({
+            trait_type: unquote(traitType).toLowerCase(),
+            value: traitValue ? unquote(traitValue).toLowerCase() : undefined,
+          });
+          continue;
+        }
+        case 'chain':
+          qualifiers.chains.push(value.toLowerCase());
+          continue;
+        case 'channel':
+          qualifiers.channels.push(value.replace(/^\//, '').toLowerCase());
+          continue;
+        case 'collection':
+          qualifiers.collections.push(value.toLowerCase());
+          continue;
+        default:
+          // Unknown qualifier: treat the whole thing as text
+          terms.push(...tokenize(match[0]));
+          continue;
+      }
+    }
+
+    terms.push(...tokenize(quoted ?? word));
+  }
+
+  return { terms, qualifiers };
+}
+
+export class NFTSearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>(); // token -> nft ids
+
+  /**
+   * Number of indexed NFTs
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add or replace an NFT in the index
+   */
+  upsert(nft: NFT): void {
+    const existing = this.documents.get(nft.id);
+    if (existing?.nft === nft) return;
+    if (existing) this.remove(nft.id);
+
+    const tokens = new Map<string, number>();
+    const addTokens = (text: string | undefined, field: SearchField) => {
+      tokenize(text).forEach((token) => {
+        tokens.set(token, Math.max(tokens.get(token) || 0, FIELD_WEIGHTS[field]));
+      });
+    };
+
+    addTokens(nft.name, 'name');
+    addTokens(nft.collection.name, 'collection');
+    addTokens(nft.metadata.farcasterChannel, 'channel');
+    addTokens(nft.description, 'description');
+    nft.metadata.attributes?.forEach((attr) => {
+      addTokens(attr.trait_type, 'trait');
+      addTokens(String(attr.value), 'trait');
+    });
+
+    this.documents.set(nft.id, { nft, tokens });
+    tokens.forEach((_, token) => {
+      if (!this.postings.has(token)) {
+        this.postings.set(token, new Set());
+      }
+      this.postings.get(token)!.add(nft.id);
+    });
+  }
+
+  /**
+   * Remove an NFT from the index
+   */
+  remove(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+
+    doc.tokens.forEach((_, token) => {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        this.postings.delete(token);
+      }
+    });
+    this.documents.delete(id);
+  }
+
+  /**
+   * Bring the index in line with the store's NFT map.
+   * NFTs whose object identity is unchanged are not re-indexed.
+   */
+  sync(nfts: Map<string, NFT>): void {
+    Array.from(this.documents.keys()).forEach((id) => {
+      if (!nfts.has(id)) this.remove(id);
+    });
+    nfts.forEach((nft) => this.upsert(nft));
+  }
+
+  /**
+   * Ranked search. All free-text terms must match (exactly, by prefix or fuzzily)
+   * and every qualifier must hold.
+   */
+  search(query: string, candidates?: Iterable<NFT>): SearchResult[] {
+    const { terms, qualifiers } = parseQuery(query);
+    const allowed = candidates ? new Set(Array.from(candidates, (nft) => nft.id)) : undefined;
+
+    let scores: Map<string, number> | undefined;
+
+    for (const term of terms) {
+      const termScores = this.scoreTerm(term);
+      if (!scores) {
+        scores = termScores;
+        continue;
+      }
+      const next = new Map<string, number>();
+      termScores.forEach((score, id) => {
+        const previous = scores!.get(id);
+        if (previous !== undefined) next.set(id, previous + score);
+      });
+      scores = next;
+    }
+
+    const results: SearchResult[] = [];
+    const consider = (id: string, score: number) => {
+      if (allowed && !allowed.has(id)) return;
+      const doc = this.documents.get(id);
+      if (doc && matchesQualifiers(doc.nft, qualifiers)) {
+        results.push({ nft: doc.nft, score });
+      }
+    };
+
+    if (scores) {
+      scores.forEach((score, id) => consider(id, score));
+    } else {
+      // Qualifier-only query
+      this.documents.forEach((_, id) => consider(id, 0));
+    }
+
+    return results.sort(
+      (a, b) => b.score - a.score || a.nft.name.localeCompare(b.nft.name)
+    );
+  }
+
+  /**
+   * Remove everything from the index
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+  }
+
+  private scoreTerm(term: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    this.postings.forEach((ids, token) => {
+      let boost = 0;
+      if (token === term) {
+        boost = EXACT_BOOST;
+      } else if (token.startsWith(term)) {
+        boost = PREFIX_BOOST;
+      } else if (
+        maxDistance > 0 &&
+        Math.abs(token.length - term.length) <= maxDistance &&
+        levenshtein(token, term, maxDistance) <= maxDistance
+      ) {
+        boost = FUZZY_BOOST;
+      }
+      if (boost === 0) return;
+
+      ids.forEach((id) => {
+        const weight = this.documents.get(id)!.tokens.get(token)!;
+        scores.set(id, Math.max(scores.get(id) || 0, weight * boost));
+      });
+    });
+
+    return scores;
+  }
+}
+
+function matchesQualifiers(nft: NFT, qualifiers: SearchQualifiers): boolean {
+  if (
+    qualifiers.chains.length > 0 &&
+    !qualifiers.chains.some((c) => c === nft.chain || c === nft.evmChain)
+  ) {
+    return false;
+  }
+
+  const channel = nft.metadata.farcasterChannel?.toLowerCase();
+  if (qualifiers.channels.length > 0 && !qualifiers.channels.some((c) => c === channel)) {
+    return false;
+  }
+
+  const collectionName = nft.collection.name.toLowerCase();
+  if (
+    qualifiers.collections.length > 0 &&
+    !qualifiers.collections.some((c) => collectionName.includes(c))
+  ) {
+    return false;
+  }
+
+  const attributes = nft.metadata.attributes || [];
+  return qualifiers.traits.every((trait) =>
+    attributes.some(
+      (attr) =>
+        attr.trait_type.toLowerCase() === trait.trait_type &&
+        (trait.value === undefined || String(attr.value).toLowerCase() === trait.value)
+    )
+  );
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+}
+
+/**
+ * Edit distance with early exit once every cell exceeds `max`
+ */
+function levenshtein(a: string, b: string, max: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,93 @@
+/**
+ * Spam Classifier
+ * Flags airdropped spam from provider signals and our own heuristics
+ */
+
+import type { NFT, NFTSpamInfo } from '../../types';
+
+export interface ProviderSpamSignals {
+  isSpam?: boolean;
+  classifications?: string[];
+}
+
+// Links in a token name are almost always phishing bait
+const URL_PATTERN = /(https?:\/\/|www\.)\S+/i;
+const DOMAIN_PATTERN = /\b[a-z0-9-]+\.(com|io|xyz|org|net|app|site|online|live|club|gift|top|fun|claims?)\b/i;
+
+const BAIT_PATTERNS: [RegExp, string][] = [
+  [/\b(claim|redeem)\b/i, 'Claim bait'],
+  [/\b(airdrop|giveaway|free mint)\b/i, 'Airdrop bait'],
+  [/\b(reward|voucher|bonus|prize)s?\b/i, 'Reward bait'],
+  [/\bvisit\b/i, 'Asks to visit a site'],
+  [/\$\s?\d[\d,.]*\s*(usdc|usdt|eth|sol)?\b/i, 'Promises a payout'],
+];
+
+/**
+ * Classify an NFT. Provider verdicts are trusted as-is; heuristics only look
+ * at the name, collection name and description.
+ */
+export function classifySpam(
+  nft: Pick<NFT, 'name' | 'description' | 'collection'>,
+  provider: ProviderSpamSignals = {}
+): NFTSpamInfo | undefined {
+  if (provider.isSpam) {
+    return {
+      isSpam: true,
+      reasons: provider.classifications?.length
+        ? provider.classifications.map(describeClassification)
+        : ['Flagged by provider'],
+      source: 'provider',
+    };
+  }
+
+  const reasons = getHeuristicReasons(nft);
+  return reasons.length > 0 ? { isSpam: true, reasons, source: 'heuristic' } : undefined;
+}
+
+/**
+ * Heuristic reasons an NFT looks like spam; empty when it looks legitimate
+ */
+export function getHeuristicReasons(
+  nft: Pick<NFT, 'name' | 'description' | 'collection'>
+): string[] {
+  const reasons = new Set<string>();
+  const titles = [nft.name, nft.collection.name].filter(Boolean);
+
+  if (titles.some((text) => URL_PATTERN.test(text) || DOMAIN_PATTERN.test(text))) {
+    reasons.add('Link in name');
+  }
+
+  // Bait phrases count in descriptions only when paired with a link
+  const description = nft.description || '';
+  const descriptionHasLink = URL_PATTERN.test(description) || DOMAIN_PATTERN.test(description);
+  const texts = descriptionHasLink ? [...titles, description] : titles;
+
+  BAIT_PATTERNS.forEach(([pattern, reason]) => {
+    if (texts.some((text) => pattern.test(text))) {
+      reasons.add(reason);
+    }
+  });
+
+  // A single bait word in an otherwise clean name is too weak on its own
+  if (reasons.size === 1 && !reasons.has('Link in name') && !descriptionHasLink) {
+    return [];
+  }
+
+  return Array.from(reasons);
+}
+
+/**
+ * Whether an NFT belongs in the hidden bucket. A user choice always wins
+ * over the spam verdict.
+ */
+export function isHidden(nft: Pick<NFT, 'hidden' | 'spam'>): boolean {
+  return nft.hidden ?? nft.spam?.isSpam ?? false;
+}
+
+/**
+ * Turn Alchemy classification codes (e.g. 'HighAirdrops') into readable text
+ */
+function describeClassification(code: string): string {
+  const words = code.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
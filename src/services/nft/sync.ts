@@ -0,0 +1,383 @@
+/**
+ * NFT Sync Service
+ * Orchestrates wallets, providers, Farcaster detection and store updates
+ */
+
+import type { FarcasterDetection, NFT, NFTChangeSet, Wallet } from '../../types';
+import { FarcasterDetector } from './detector';
+import type { FarcasterRuleSet } from './farcasterRules';
+import { ProviderRegistry, type NFTProvider } from './providers';
+import { IncompleteResultError } from '../http/pagination';
+
+export type WalletSyncStatus =
+  | 'pending'
+  | 'syncing'
+  | 'success'
+  | 'error'
+  | 'cancelled';
+
+export interface WalletSyncProgress {
+  walletId: string;
+  status: WalletSyncStatus;
+  providerId?: string;
+  nftCount?: number;
+  changes?: NFTChangeSet;
+  error?: Error;
+  startedAt?: number;
+  finishedAt?: number;
+  durationMs?: number;
+}
+
+export interface SyncReport {
+  results: WalletSyncProgress[];
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+interface SyncStoreState {
+  wallets: Wallet[];
+  nfts: Map<string, NFT>;
+  setNFTs: (walletId: string, nfts: NFT[], options?: { partial?: boolean }) => NFTChangeSet;
+  applyFetchedNFT: (nft: NFT) => void;
+  redetectFarcaster: (detect: (nft: NFT) => FarcasterDetection) => void;
+}
+
+/**
+ * Minimal slice of the Zustand store the sync service depends on
+ */
+export interface SyncStore {
+  getState: () => SyncStoreState;
+  subscribe: (
+    listener: (state: SyncStoreState, prevState: SyncStoreState) => void
+  ) => () => void;
+}
+
+export interface NFTSyncConfig {
+  store: SyncStore;
+  providers?: NFTProvider[] | ProviderRegistry;
+  detector?: FarcasterDetector;
+  concurrency?: number;
+  onProgress?: (progress: WalletSyncProgress) => void;
+}
+
+export class SyncCancelledError extends Error {
+  constructor(walletId: string) {
+    super(`Sync cancelled for wallet ${walletId}`);
+    this.name = 'SyncCancelledError';
+  }
+}
+
+export class NFTSyncService {
+  private store: SyncStore;
+  private registry: ProviderRegistry;
+  private detector: FarcasterDetector;
+  private concurrency: number;
+  private listeners = new Set<(progress: WalletSyncProgress) => void>();
+  private inFlight = new Map<string, AbortController>();
+  private progress = new Map<string, WalletSyncProgress>();
+  private unsubscribe?: () => void;
+
+  constructor(config: NFTSyncConfig) {
+    this.store = config.store;
+    this.registry =
+      config.providers instanceof ProviderRegistry
+        ? config.providers
+        : new ProviderRegistry(config.providers);
+    this.detector = config.detector || new FarcasterDetector();
+    this.concurrency = Math.max(1, config.concurrency ?? 3);
+
+    if (config.onProgress) {
+      this.listeners.add(config.onProgress);
+    }
+
+    // Cancel in-flight syncs for wallets that get removed from the store
+    this.unsubscribe = this.store.subscribe((state, prevState) => {
+      if (state.wallets === prevState.wallets) return;
+      const remaining = new Set(state.wallets.map((w) => w.id));
+      prevState.wallets
+        .filter((w) => !remaining.has(w.id))
+        .forEach((w) => this.cancel(w.id));
+    });
+  }
+
+  /**
+   * Provider registry used to resolve fetchers for wallets
+   */
+  getRegistry(): ProviderRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Switch Farcaster rules and re-run detection over stored NFTs.
+   * Suits FarcasterRuleUpdater's onUpdate.
+   */
+  applyFarcasterRules(rules: FarcasterRuleSet): void {
+    this.detector.setRules(rules);
+    this.store.getState().redetectFarcaster((nft) => this.detector.detect(nft));
+  }
+
+  /**
+   * Subscribe to per-wallet progress updates
+   */
+  onProgress(listener: (progress: WalletSyncProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Latest progress for a wallet
+   */
+  getProgress(walletId: string): WalletSyncProgress | undefined {
+    return this.progress.get(walletId);
+  }
+
+  /**
+   * Whether a wallet is currently syncing
+   */
+  isSyncing(walletId: string): boolean {
+    return this.inFlight.has(walletId);
+  }
+
+  /**
+   * Fetch and enrich NFTs for a wallet without writing to the store.
+   * Aborting `signal` stops the provider's requests.
+   */
+  async fetchNFTsForWallet(wallet: Wallet, signal?: AbortSignal): Promise<NFT[]> {
+    const provider = this.registry.resolve(wallet);
+    if (!provider) {
+      throw new Error(`No NFT provider registered for ${wallet.chain} wallet ${wallet.id}`);
+    }
+
+    const nfts = await provider.fetchForWallet(wallet, signal);
+    return this.detector.enrichNFTs(nfts);
+  }
+
+  /**
+   * Sync every active wallet in the store, honoring the concurrency limit
+   */
+  async syncAll(): Promise<SyncReport> {
+    const startedAt = Date.now();
+    const wallets = this.store
+      .getState()
+      .wallets.filter((w) => w.isActive !== false);
+
+    wallets.forEach((w) => this.emit({ walletId: w.id, status: 'pending' }));
+
+    const results: WalletSyncProgress[] = new Array(wallets.length);
+    let cursor = 0;
+
+    const worker = async () => {
+      while (cursor < wallets.length) {
+        const index = cursor++;
+        results[index] = await this.syncWallet(wallets[index]);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, wallets.length) }, worker)
+    );
+
+    const finishedAt = Date.now();
+    return {
+      results,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+    };
+  }
+
+  /**
+   * Sync a single wallet and write its NFTs to the store.
+   * Never throws; failures are reported in the returned progress.
+   */
+  async syncWallet(wallet: Wallet): Promise<WalletSyncProgress> {
+    // Restart any sync already running for this wallet
+    this.cancel(wallet.id);
+
+    const controller = new AbortController();
+    this.inFlight.set(wallet.id, controller);
+
+    const provider = this.registry.resolve(wallet);
+    const startedAt = Date.now();
+    this.emit({
+      walletId: wallet.id,
+      status: 'syncing',
+      providerId: provider?.id,
+      startedAt,
+    });
+
+    let result: WalletSyncProgress;
+
+    try {
+      const nfts = await this.withAbort(
+        this.fetchNFTsForWallet(wallet, controller.signal),
+        controller.signal,
+        wallet.id
+      );
+
+      // Wallet may have been removed while we were fetching
+      if (controller.signal.aborted || !this.hasWallet(wallet.id)) {
+        throw new SyncCancelledError(wallet.id);
+      }
+
+      const changes = this.store.getState().setNFTs(wallet.id, nfts);
+
+      result = this.finish(wallet.id, startedAt, {
+        status: 'success',
+        providerId: provider?.id,
+        nftCount: nfts.length,
+        changes,
+      });
+    } catch (error) {
+      const cancelled = error instanceof SyncCancelledError;
+      let partial: Pick<WalletSyncProgress, 'nftCount' | 'changes'> = {};
+
+      // Keep whatever loaded before the provider gave up
+      if (
+        error instanceof IncompleteResultError &&
+        !controller.signal.aborted &&
+        this.hasWallet(wallet.id)
+      ) {
+        const nfts = this.detector.enrichNFTs(error.items as NFT[]);
+        partial = {
+          nftCount: nfts.length,
+          changes: this.store.getState().setNFTs(wallet.id, nfts, { partial: true }),
+        };
+      }
+
+      result = this.finish(wallet.id, startedAt, {
+        status: cancelled ? 'cancelled' : 'error',
+        providerId: provider?.id,
+        error: error instanceof Error ? error : new Error(String(error)),
+        ...partial,
+      });
+    } finally {
+      if (this.inFlight.get(wallet.id) === controller) {
+        this.inFlight.delete(wallet.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-fetch metadata for a single NFT and merge it into the store
+   */
+  async refreshNFT(nftId: string): Promise<NFT> {
+    const state = this.store.getState();
+    const nft = state.nfts.get(nftId);
+    if (!nft) {
+      throw new Error(`NFT ${nftId} not found`);
+    }
+
+    const wallet = state.wallets.find((w) => w.id === nft.walletId);
+    if (!wallet) {
+      throw new Error(`Wallet ${nft.walletId} not found`);
+    }
+
+    const provider = this.registry.resolve(wallet);
+    if (!provider?.fetchNFT) {
+      throw new Error(`No provider can refresh ${wallet.chain} NFT ${nftId}`);
+    }
+
+    const fresh = this.detector.enrichNFT(await provider.fetchNFT(wallet, nft));
+    this.store.getState().applyFetchedNFT(fresh);
+    return this.store.getState().nfts.get(fresh.id) || fresh;
+  }
+
+  /**
+   * Cancel an in-flight sync: its requests are aborted and its results are
+   * not written to the store
+   */
+  cancel(walletId: string): void {
+    const controller = this.inFlight.get(walletId);
+    if (controller) {
+      controller.abort();
+      this.inFlight.delete(walletId);
+    }
+  }
+
+  /**
+   * Cancel all in-flight syncs
+   */
+  cancelAll(): void {
+    Array.from(this.inFlight.keys()).forEach((id) => this.cancel(id));
+  }
+
+  /**
+   * Cancel everything and stop listening to the store
+   */
+  dispose(): void {
+    this.cancelAll();
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.listeners.clear();
+  }
+
+  private hasWallet(walletId: string): boolean {
+    return this.store.getState().wallets.some((w) => w.id === walletId);
+  }
+
+  private finish(
+    walletId: string,
+    startedAt: number,
+    fields: Omit<WalletSyncProgress, 'walletId' | 'startedAt'>
+  ): WalletSyncProgress {
+    const finishedAt = Date.now();
+    const progress: WalletSyncProgress = {
+      walletId,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      ...fields,
+    };
+    this.emit(progress);
+    return progress;
+  }
+
+  private emit(progress: WalletSyncProgress): void {
+    this.progress.set(progress.walletId, progress);
+    this.listeners.forEach((listener) => listener(progress));
+  }
+
+  /**
+   * Reject as soon as the signal aborts, without waiting for the provider to
+   * wind down its requests
+   */
+  private withAbort<T>(
+    promise: Promise<T>,
+    signal: AbortSignal,
+    walletId: string
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new SyncCancelledError(walletId));
+        return;
+      }
+
+      const onAbort = () => reject(new SyncCancelledError(walletId));
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+/**
+ * Create a sync service with the given providers
+ */
+export function createNFTSyncService(config: NFTSyncConfig): NFTSyncService {
+  return new NFTSyncService(config);
+}
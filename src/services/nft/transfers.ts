@@ -0,0 +1,106 @@
+/**
+ * Internal Transfers
+ * Recognizes NFTs moving between our own wallets, so a move isn't reported
+ * as one wallet selling and another acquiring
+ */
+
+import type { NFT, NFTInternalTransfer } from '../../types';
+import { mergeNFT, type WalletDiff } from './diff';
+import { getHoldings, getWalletView } from './holdings';
+
+const DEFAULT_DEPARTURE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a token can only be in one wallet at a time. ERC-1155 copies can
+ * be split across wallets, so arriving in one says nothing about another.
+ */
+export function isSingleOwner(nft: NFT): boolean {
+  return nft.tokenStandard !== 'erc1155' && (nft.quantity ?? 1) <= 1;
+}
+
+/**
+ * Tokens that recently left one of our wallets. Wallets sync one at a time,
+ * so the wallet a token moved to may only sync after the one it left.
+ */
+export class DepartureLog {
+  private ttl: number;
+  private departures = new Map<string, { walletId: string; nft: NFT; at: number }>(); // by nft id
+
+  constructor(ttl: number = DEFAULT_DEPARTURE_TTL) {
+    this.ttl = ttl;
+  }
+
+  record(walletId: string, nfts: NFT[], now: number = Date.now()): void {
+    nfts.forEach((nft) => this.departures.set(nft.id, { walletId, nft, at: now }));
+  }
+
+  /**
+   * Wallet the token left and the token as it was stored there, if it left a
+   * wallet other than `walletId` recently. Consumes the entry.
+   */
+  take(
+    nftId: string,
+    walletId: string,
+    now: number = Date.now()
+  ): { walletId: string; nft: NFT } | undefined {
+    const departure = this.departures.get(nftId);
+    if (!departure) return undefined;
+
+    this.departures.delete(nftId);
+    if (departure.walletId === walletId || departure.at + this.ttl < now) return undefined;
+    return departure;
+  }
+
+  clear(): void {
+    this.departures.clear();
+  }
+}
+
+export interface ReconciledDiff {
+  added: NFT[];
+  transferredOut: NFT[];
+  internalTransfers: NFTInternalTransfer[];
+}
+
+/**
+ * Split a wallet's diff into real arrivals and departures vs. moves between
+ * our wallets. An arrival is a move when a single-owner token is still
+ * recorded in another of our wallets, or recently left one. A moved token
+ * keeps its local overrides, rarity and firstSeenAt from the wallet it left.
+ */
+export function reconcileTransfers(
+  walletId: string,
+  diff: Pick<WalletDiff, 'added' | 'transferredOut'>,
+  stored: Map<string, NFT>,
+  departures: DepartureLog,
+  now: number = Date.now()
+): ReconciledDiff {
+  const added: NFT[] = [];
+  const internalTransfers: NFTInternalTransfer[] = [];
+
+  diff.added.forEach((nft) => {
+    const record = stored.get(nft.id);
+    const otherHolder = record
+      ? getHoldings(record).find((h) => h.walletId !== walletId)
+      : undefined;
+
+    const from =
+      otherHolder && isSingleOwner(nft)
+        ? { walletId: otherHolder.walletId, nft: getWalletView(record!, otherHolder.walletId)! }
+        : departures.take(nft.id, walletId, now);
+
+    if (from) {
+      internalTransfers.push({
+        nft: mergeNFT(from.nft, nft, now),
+        fromWalletId: from.walletId,
+        toWalletId: walletId,
+      });
+    } else {
+      added.push(nft);
+    }
+  });
+
+  departures.record(walletId, diff.transferredOut, now);
+
+  return { added, transferredOut: diff.transferredOut, internalTransfers };
+}
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import type { NFT, Wallet } from '../../../types';
+import { createInMemoryDriver, type InMemoryDriver } from '../../../testing/sqlJsDriver';
+import { MIGRATIONS, NFTDatabase } from '../database';
+
+const CONTRACT = `0x${'ab'.repeat(20)}`;
+
+function makeNFT(tokenId: string, walletId: string = 'wallet-1'): NFT {
+  return {
+    id: `eip155:8453/nft:${CONTRACT}/${tokenId}`,
+    walletId,
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: CONTRACT,
+    tokenId,
+    name: `Token #${tokenId}`,
+    image: 'https://example.com/image.png',
+    collection: { name: 'Test Collection', address: CONTRACT },
+    metadata: {
+      isFarcasterMint: false,
+      attributes: [
+        { trait_type: 'Background', value: 'Blue' },
+        { trait_type: 'Level', value: 3, display_type: 'number' },
+      ],
+    },
+    lastFetched: 1000,
+  };
+}
+
+describe('NFTDatabase', () => {
+  let driver: InMemoryDriver;
+  let db: NFTDatabase;
+
+  beforeEach(async () => {
+    driver = await createInMemoryDriver();
+    db = new NFTDatabase(driver);
+    await db.migrate();
+  });
+
+  afterEach(() => driver.close());
+
+  it('applies every migration once', async () => {
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    expect(await db.getSchemaVersion()).toBe(latest);
+    expect(await db.migrate()).toBe(latest);
+  });
+
+  it('round-trips NFTs with typed attributes', async () => {
+    const nft = makeNFT('1');
+    await db.upsertNFTs([nft]);
+
+    const [loaded] = await db.loadNFTs();
+    expect(loaded).toEqual(nft);
+    expect(loaded.metadata.attributes?.[1].value).toBe(3);
+  });
+
+  it("replaces a wallet's NFTs, deleting the ones it no longer holds", async () => {
+    await db.replaceWalletNFTs('wallet-1', [makeNFT('1'), makeNFT('2')]);
+    await db.upsertNFTs([makeNFT('9', 'wallet-2')]);
+
+    const renamed = { ...makeNFT('2'), name: 'Renamed' };
+    await db.replaceWalletNFTs('wallet-1', [renamed, makeNFT('3')]);
+
+    const loaded = await db.loadNFTs();
+    expect(loaded.map((nft) => nft.tokenId).sort()).toEqual(['2', '3', '9']);
+    expect(loaded.find((nft) => nft.tokenId === '2')?.name).toBe('Renamed');
+
+    const attributes = await driver.getAllAsync<{ nft_id: string }>(
+      'SELECT DISTINCT nft_id FROM nft_attributes'
+    );
+    expect(attributes).toHaveLength(3);
+  });
+
+  it("removes a wallet's NFTs and their attributes", async () => {
+    await db.upsertNFTs([makeNFT('1'), makeNFT('2', 'wallet-2')]);
+    await db.removeNFTsByWallet('wallet-1');
+
+    expect((await db.loadNFTs()).map((nft) => nft.walletId)).toEqual(['wallet-2']);
+    expect(await driver.getAllAsync('SELECT * FROM nft_attributes')).toHaveLength(2);
+  });
+
+  it('round-trips wallets and groups', async () => {
+    const wallets: Wallet[] = [
+      {
+        id: 'wallet-1',
+        address: '0x1111111111111111111111111111111111111111',
+        chain: 'evm',
+        evmChain: 'base',
+        addedAt: 1,
+        isActive: true,
+        sourceId: 'source-1',
+        name: { name: 'alice.eth', service: 'ens', source: 'reverse', verifiedAt: 5 },
+      },
+      {
+        id: 'wallet-2',
+        address: 'So11111111111111111111111111111111111111112',
+        chain: 'solana',
+        label: 'Phantom',
+        addedAt: 2,
+        isActive: false,
+      },
+    ];
+    await db.replaceWallets(wallets);
+    expect(await db.loadWallets()).toEqual([
+      { ...wallets[0], label: undefined, color: undefined },
+      { ...wallets[1], evmChain: undefined, color: undefined, sourceId: undefined, name: undefined },
+    ]);
+
+    const group = {
+      id: 'group-1',
+      name: 'Favorites',
+      color: '#fff',
+      nftIds: ['b', 'a'],
+      createdAt: 1,
+      updatedAt: 2,
+    };
+    await db.replaceGroups([group]);
+    expect(await db.loadGroups()).toEqual([
+      { ...group, description: undefined, icon: undefined },
+    ]);
+  });
+
+  it('rolls back a failed write', async () => {
+    await db.upsertNFTs([makeNFT('1')]);
+    const broken = { ...makeNFT('2'), name: null } as unknown as NFT; // violates NOT NULL
+
+    await expect(db.replaceWalletNFTs('wallet-1', [broken])).rejects.toThrow();
+    expect((await db.loadNFTs()).map((nft) => nft.tokenId)).toEqual(['1']);
+  });
+
+  it('deletes the snapshots the selector does not keep', async () => {
+    await db.insertFloorSnapshots([
+      { collectionId: 'c', timestamp: 1, amount: 1, currency: 'ETH' },
+      { collectionId: 'c', timestamp: 2, amount: 2, currency: 'ETH' },
+    ]);
+    await db.pruneSnapshots((points) => points.slice(-1));
+
+    expect(await db.loadFloorSnapshots('c')).toEqual([
+      { collectionId: 'c', timestamp: 2, amount: 2, currency: 'ETH' },
+    ]);
+  });
+
+  it('clears data but keeps the schema', async () => {
+    await db.upsertNFTs([makeNFT('1')]);
+    await db.clear();
+
+    expect(await db.loadNFTs()).toEqual([]);
+    await db.upsertNFTs([makeNFT('2')]);
+    expect(await db.loadNFTs()).toHaveLength(1);
+  });
+});
+
+describe('NFTDatabase id migration', () => {
+  let driver: InMemoryDriver;
+
+  beforeEach(async () => {
+    driver = await createInMemoryDriver();
+    await new NFTDatabase(driver, MIGRATIONS.slice(0, 3)).migrate();
+  });
+
+  afterEach(() => driver.close());
+
+  async function insertRow(id: string, nft: NFT): Promise<void> {
+    await driver.runAsync(
+      `INSERT INTO nfts (id, wallet_id, chain, evm_chain, contract_address, token_id, name, data, last_fetched)
+       VALUES (?, ?, 'evm', 'base', ?, ?, ?, ?, 0)`,
+      [id, nft.walletId, CONTRACT, nft.tokenId, nft.name, JSON.stringify({ ...nft, id })]
+    );
+  }
+
+  it('merges rows whose ids map to the same canonical id', async () => {
+    // A version 1 id for a token that also has a row on its canonical id
+    await insertRow(`evm:base:0x${'AB'.repeat(20)}:1`, makeNFT('1', 'wallet-2'));
+    await insertRow(makeNFT('1').id, makeNFT('1', 'wallet-1'));
+    // Two version 1 ids (decimal and hex token id) for another token
+    await insertRow(`evm:base:${CONTRACT}:2`, makeNFT('2', 'wallet-1'));
+    await insertRow(`evm:base:${CONTRACT}:0x02`, makeNFT('2', 'wallet-3'));
+    // Unresolvable: no chain recorded
+    await driver.runAsync(
+      `INSERT INTO nfts (id, wallet_id, chain, contract_address, token_id, name, data, last_fetched)
+       VALUES ('evm:0xabc:1', 'wallet-1', 'evm', '0xabc', '1', 'Lost', '{}', 0)`
+    );
+
+    const db = new NFTDatabase(driver);
+    await db.migrate();
+
+    const loaded = await db.loadNFTs();
+    expect(loaded.map((nft) => nft.id).sort()).toEqual([makeNFT('1').id, makeNFT('2').id]);
+    const holders = (nft: NFT | undefined) => nft?.holdings?.map((h) => h.walletId);
+    expect(holders(loaded.find((nft) => nft.tokenId === '1'))).toEqual(['wallet-1', 'wallet-2']);
+    expect(holders(loaded.find((nft) => nft.tokenId === '2'))).toEqual(['wallet-1', 'wallet-3']);
+  });
+});
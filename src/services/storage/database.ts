@@ -0,0 +1,831 @@
+/**
+ * NFT Database
+ * SQLite-backed offline storage for NFTs, collections, wallets and groups
+ */
+
+import type {
+  NFT,
+  NFTAttribute,
+  Collection,
+  CustomGroup,
+  Wallet,
+  ChainType,
+  EVMChain,
+} from '../../types';
+import { mergeHoldings } from '../nft/holdings';
+import { toCanonicalCollectionId, toCanonicalNFTId } from '../nft/ids';
+
+export type SQLValue = string | number | null;
+
+/**
+ * Minimal async SQLite interface.
+ * Implemented by expo-sqlite on device and by any in-memory driver in tests.
+ */
+export interface SQLiteDriver {
+  execAsync: (sql: string) => Promise<void>;
+  runAsync: (sql: string, params?: SQLValue[]) => Promise<void>;
+  getAllAsync: <T>(sql: string, params?: SQLValue[]) => Promise<T[]>;
+  withTransactionAsync: (task: () => Promise<void>) => Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  up: string;
+  /**
+   * Rewrites existing rows after `up`, in the same transaction
+   */
+  migrateData?: (driver: SQLiteDriver) => Promise<void>;
+}
+
+/**
+ * Schema migrations, applied in order. Never edit a shipped migration;
+ * append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    up: `
+      CREATE TABLE IF NOT EXISTS wallets (
+        id TEXT PRIMARY KEY NOT NULL,
+        address TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        evm_chain TEXT,
+        label TEXT,
+        color TEXT,
+        added_at INTEGER NOT NULL,
+        is_active INTEGER NOT NULL DEFAULT 1
+      );
+
+      CREATE TABLE IF NOT EXISTS collections (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        contract_address TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        evm_chain TEXT,
+        nft_count INTEGER NOT NULL DEFAULT 0,
+        floor_amount REAL,
+        floor_currency TEXT,
+        image_url TEXT,
+        description TEXT,
+        external_url TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS nfts (
+        id TEXT PRIMARY KEY NOT NULL,
+        wallet_id TEXT NOT NULL,
+        chain TEXT NOT NULL,
+        evm_chain TEXT,
+        contract_address TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        data TEXT NOT NULL,
+        last_fetched INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_nfts_wallet ON nfts (wallet_id);
+      CREATE INDEX IF NOT EXISTS idx_nfts_contract ON nfts (chain, contract_address);
+
+      CREATE TABLE IF NOT EXISTS nft_attributes (
+        nft_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        trait_type TEXT NOT NULL,
+        value TEXT NOT NULL,
+        value_type TEXT NOT NULL,
+        display_type TEXT,
+        PRIMARY KEY (nft_id, position)
+      );
+      CREATE INDEX IF NOT EXISTS idx_attributes_trait ON nft_attributes (trait_type, value);
+
+      CREATE TABLE IF NOT EXISTS custom_groups (
+        id TEXT PRIMARY KEY NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        color TEXT NOT NULL,
+        icon TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS group_members (
+        group_id TEXT NOT NULL,
+        nft_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (group_id, nft_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_group_members_nft ON group_members (nft_id);
+    `,
+  },
+  {
+    version: 2,
+    up: `
+      ALTER TABLE collections ADD COLUMN wallet_counts TEXT NOT NULL DEFAULT '{}';
+      ALTER TABLE collections ADD COLUMN total_floor_amount REAL;
+      ALTER TABLE collections ADD COLUMN first_acquired_at INTEGER;
+    `,
+  },
+  {
+    version: 3,
+    up: `
+      CREATE TABLE IF NOT EXISTS floor_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        currency TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_floor_snapshots_collection ON floor_snapshots (collection_id, timestamp);
+
+      CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        quote TEXT NOT NULL,
+        total REAL NOT NULL,
+        native TEXT NOT NULL DEFAULT '{}'
+      );
+      CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_quote ON portfolio_snapshots (quote, timestamp);
+    `,
+  },
+  {
+    // NFT and collection ids move to the canonical format (see nft/ids)
+    version: 4,
+    up: '',
+    migrateData: migrateIds,
+  },
+  {
+    version: 5,
+    up: `
+      ALTER TABLE wallets ADD COLUMN source_id TEXT;
+    `,
+  },
+  {
+    version: 6,
+    up: `
+      ALTER TABLE wallets ADD COLUMN name TEXT;
+    `,
+  },
+];
+
+export interface FloorSnapshot {
+  collectionId: string;
+  timestamp: number;
+  amount: number;
+  currency: string;
+}
+
+export interface PortfolioSnapshot {
+  timestamp: number;
+  quote: string;
+  total: number;
+  native: Record<string, number>;
+}
+
+/**
+ * Picks which snapshots of one series survive pruning
+ */
+export type SnapshotSelector = <T extends { timestamp: number }>(points: T[]) => T[];
+
+interface NFTRow {
+  id: string;
+  data: string;
+}
+
+interface AttributeRow {
+  nft_id: string;
+  trait_type: string;
+  value: string;
+  value_type: string;
+  display_type: string | null;
+}
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  contract_address: string;
+  chain: string;
+  evm_chain: string | null;
+  nft_count: number;
+  wallet_counts: string;
+  floor_amount: number | null;
+  floor_currency: string | null;
+  total_floor_amount: number | null;
+  image_url: string | null;
+  description: string | null;
+  external_url: string | null;
+  first_acquired_at: number | null;
+}
+
+interface FloorSnapshotRow {
+  id: number;
+  collection_id: string;
+  timestamp: number;
+  amount: number;
+  currency: string;
+}
+
+interface PortfolioSnapshotRow {
+  id: number;
+  timestamp: number;
+  quote: string;
+  total: number;
+  native: string;
+}
+
+interface WalletRow {
+  id: string;
+  address: string;
+  chain: string;
+  evm_chain: string | null;
+  label: string | null;
+  color: string | null;
+  added_at: number;
+  is_active: number;
+  source_id: string | null;
+  name: string | null; // JSON WalletName
+}
+
+interface GroupRow {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string;
+  icon: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface GroupMemberRow {
+  group_id: string;
+  nft_id: string;
+}
+
+export class NFTDatabase {
+  private driver: SQLiteDriver;
+  private migrations: Migration[];
+
+  constructor(driver: SQLiteDriver, migrations: Migration[] = MIGRATIONS) {
+    this.driver = driver;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Apply pending migrations. Returns the resulting schema version.
+   */
+  async migrate(): Promise<number> {
+    await this.driver.execAsync(
+      'CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY NOT NULL, applied_at INTEGER NOT NULL);'
+    );
+
+    let current = await this.getSchemaVersion();
+
+    for (const migration of this.migrations) {
+      if (migration.version <= current) continue;
+
+      await this.driver.withTransactionAsync(async () => {
+        if (migration.up.trim()) {
+          await this.driver.execAsync(migration.up);
+        }
+        await migration.migrateData?.(this.driver);
+        await this.driver.runAsync(
+          'INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)',
+          [migration.version, Date.now()]
+        );
+      });
+      current = migration.version;
+    }
+
+    return current;
+  }
+
+  /**
+   * Highest applied migration version (0 for a fresh database)
+   */
+  async getSchemaVersion(): Promise<number> {
+    const rows = await this.driver.getAllAsync<{ version: number | null }>(
+      'SELECT MAX(version) AS version FROM schema_migrations'
+    );
+    return rows[0]?.version ?? 0;
+  }
+
+  // NFTs
+
+  /**
+   * Load every stored NFT, including attributes
+   */
+  async loadNFTs(): Promise<NFT[]> {
+    const rows = await this.driver.getAllAsync<NFTRow>('SELECT id, data FROM nfts');
+    const attributeRows = await this.driver.getAllAsync<AttributeRow>(
+      'SELECT nft_id, trait_type, value, value_type, display_type FROM nft_attributes ORDER BY nft_id, position'
+    );
+
+    const attributesByNft = new Map<string, NFTAttribute[]>();
+    attributeRows.forEach((row) => {
+      if (!attributesByNft.has(row.nft_id)) {
+        attributesByNft.set(row.nft_id, []);
+      }
+      attributesByNft.get(row.nft_id)!.push(rowToAttribute(row));
+    });
+
+    return rows.map((row) => {
+      const nft: NFT = JSON.parse(row.data);
+      return {
+        ...nft,
+        metadata: {
+          ...nft.metadata,
+          attributes: attributesByNft.get(row.id) || [],
+        },
+      };
+    });
+  }
+
+  /**
+   * Make the stored NFTs for a wallet match `nfts`: upsert what is present
+   * and delete what the wallet no longer holds.
+   */
+  async replaceWalletNFTs(walletId: string, nfts: NFT[]): Promise<void> {
+    await this.driver.withTransactionAsync(async () => {
+      const existing = await this.driver.getAllAsync<{ id: string }>(
+        'SELECT id FROM nfts WHERE wallet_id = ?',
+        [walletId]
+      );
+      const keep = new Set(nfts.map((nft) => nft.id));
+      const stale = existing.map((row) => row.id).filter((id) => !keep.has(id));
+
+      await this.deleteNFTRows(stale);
+      for (const nft of nfts) {
+        await this.writeNFT(nft);
+      }
+    });
+  }
+
+  /**
+   * Insert or update individual NFTs
+   */
+  async upsertNFTs(nfts: NFT[]): Promise<void> {
+    if (nfts.length === 0) return;
+    await this.driver.withTransactionAsync(async () => {
+      for (const nft of nfts) {
+        await this.writeNFT(nft);
+      }
+    });
+  }
+
+  /**
+   * Delete NFTs by id
+   */
+  async deleteNFTs(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.driver.withTransactionAsync(() => this.deleteNFTRows(ids));
+  }
+
+  /**
+   * Delete every NFT held by a wallet
+   */
+  async removeNFTsByWallet(walletId: string): Promise<void> {
+    await this.driver.withTransactionAsync(async () => {
+      await this.driver.runAsync(
+        'DELETE FROM nft_attributes WHERE nft_id IN (SELECT id FROM nfts WHERE wallet_id = ?)',
+        [walletId]
+      );
+      await this.driver.runAsync('DELETE FROM nfts WHERE wallet_id = ?', [walletId]);
+    });
+  }
+
+  // Collections
+
+  async loadCollections(): Promise<Collection[]> {
+    const rows = await this.driver.getAllAsync<CollectionRow>('SELECT * FROM collections');
+    return rows.map(rowToCollection);
+  }
+
+  /**
+   * Replace the stored collections with the given set
+   */
+  async replaceCollections(collections: Collection[]): Promise<void> {
+    await this.driver.withTransactionAsync(async () => {
+      await this.driver.runAsync('DELETE FROM collections');
+      for (const collection of collections) {
+        await this.driver.runAsync(
+          `INSERT INTO collections (id, name, contract_address, chain, evm_chain, nft_count, wallet_counts, floor_amount, floor_currency, total_floor_amount, image_url, description, external_url, first_acquired_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            collection.id,
+            collection.name,
+            collection.contractAddress,
+            collection.chain,
+            collection.evmChain ?? null,
+            collection.nftCount,
+            JSON.stringify(collection.walletCounts),
+            collection.floorPrice?.amount ?? null,
+            collection.floorPrice?.currency ?? null,
+            collection.totalFloorValue?.amount ?? null,
+            collection.imageUrl ?? null,
+            collection.description ?? null,
+            collection.externalUrl ?? null,
+            collection.firstAcquiredAt ?? null,
+          ]
+        );
+      }
+    });
+  }
+
+  // Wallets
+
+  async loadWallets(): Promise<Wallet[]> {
+    const rows = await this.driver.getAllAsync<WalletRow>(
+      'SELECT * FROM wallets ORDER BY added_at'
+    );
+    return rows.map(rowToWallet);
+  }
+
+  async replaceWallets(wallets: Wallet[]): Promise<void> {
+    await this.driver.withTransactionAsync(async () => {
+      await this.driver.runAsync('DELETE FROM wallets');
+      for (const wallet of wallets) {
+        await this.driver.runAsync(
+          `INSERT INTO wallets (id, address, chain, evm_chain, label, color, added_at, is_active, source_id, name)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            wallet.id,
+            wallet.address,
+            wallet.chain,
+            wallet.evmChain ?? null,
+            wallet.label ?? null,
+            wallet.color ?? null,
+            wallet.addedAt,
+            wallet.isActive === false ? 0 : 1,
+            wallet.sourceId ?? null,
+            wallet.name ? JSON.stringify(wallet.name) : null,
+          ]
+        );
+      }
+    });
+  }
+
+  // Custom groups
+
+  async loadGroups(): Promise<CustomGroup[]> {
+    const rows = await this.driver.getAllAsync<GroupRow>(
+      'SELECT * FROM custom_groups ORDER BY created_at'
+    );
+    const members = await this.driver.getAllAsync<GroupMemberRow>(
+      'SELECT group_id, nft_id FROM group_members ORDER BY group_id, position'
+    );
+
+    const membersByGroup = new Map<string, string[]>();
+    members.forEach((row) => {
+      if (!membersByGroup.has(row.group_id)) {
+        membersByGroup.set(row.group_id, []);
+      }
+      membersByGroup.get(row.group_id)!.push(row.nft_id);
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      color: row.color,
+      icon: row.icon ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      nftIds: membersByGroup.get(row.id) || [],
+    }));
+  }
+
+  async replaceGroups(groups: CustomGroup[]): Promise<void> {
+    await this.driver.withTransactionAsync(async () => {
+      await this.driver.runAsync('DELETE FROM group_members');
+      await this.driver.runAsync('DELETE FROM custom_groups');
+
+      for (const group of groups) {
+        await this.driver.runAsync(
+          `INSERT INTO custom_groups (id, name, description, color, icon, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            group.id,
+            group.name,
+            group.description ?? null,
+            group.color,
+            group.icon ?? null,
+            group.createdAt,
+            group.updatedAt,
+          ]
+        );
+
+        for (let i = 0; i < group.nftIds.length; i++) {
+          await this.driver.runAsync(
+            'INSERT OR IGNORE INTO group_members (group_id, nft_id, position) VALUES (?, ?, ?)',
+            [group.id, group.nftIds[i], i]
+          );
+        }
+      }
+    });
+  }
+
+  // Value history
+
+  async insertFloorSnapshots(snapshots: FloorSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) return;
+    await this.driver.withTransactionAsync(async () => {
+      for (const snapshot of snapshots) {
+        await this.driver.runAsync(
+          'INSERT INTO floor_snapshots (collection_id, timestamp, amount, currency) VALUES (?, ?, ?, ?)',
+          [snapshot.collectionId, snapshot.timestamp, snapshot.amount, snapshot.currency]
+        );
+      }
+    });
+  }
+
+  /**
+   * Floor history for a collection, oldest first
+   */
+  async loadFloorSnapshots(collectionId: string, since: number = 0): Promise<FloorSnapshot[]> {
+    const rows = await this.driver.getAllAsync<FloorSnapshotRow>(
+      'SELECT * FROM floor_snapshots WHERE collection_id = ? AND timestamp >= ? ORDER BY timestamp',
+      [collectionId, since]
+    );
+    return rows.map((row) => ({
+      collectionId: row.collection_id,
+      timestamp: row.timestamp,
+      amount: row.amount,
+      currency: row.currency,
+    }));
+  }
+
+  async insertPortfolioSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+    await this.driver.runAsync(
+      'INSERT INTO portfolio_snapshots (timestamp, quote, total, native) VALUES (?, ?, ?, ?)',
+      [snapshot.timestamp, snapshot.quote, snapshot.total, JSON.stringify(snapshot.native)]
+    );
+  }
+
+  /**
+   * Portfolio value history in a quote currency, oldest first
+   */
+  async loadPortfolioSnapshots(quote: string, since: number = 0): Promise<PortfolioSnapshot[]> {
+    const rows = await this.driver.getAllAsync<PortfolioSnapshotRow>(
+      'SELECT * FROM portfolio_snapshots WHERE quote = ? AND timestamp >= ? ORDER BY timestamp',
+      [quote, since]
+    );
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      quote: row.quote,
+      total: row.total,
+      native: JSON.parse(row.native),
+    }));
+  }
+
+  /**
+   * Delete snapshots the selector doesn't keep. Each collection's floor series
+   * and each quote currency's portfolio series is pruned independently.
+   */
+  async pruneSnapshots(select: SnapshotSelector): Promise<void> {
+    const floorRows = await this.driver.getAllAsync<{ id: number; series: string; timestamp: number }>(
+      'SELECT id, collection_id AS series, timestamp FROM floor_snapshots'
+    );
+    const portfolioRows = await this.driver.getAllAsync<{ id: number; series: string; timestamp: number }>(
+      'SELECT id, quote AS series, timestamp FROM portfolio_snapshots'
+    );
+
+    const staleFloors = findPruned(floorRows, select);
+    const stalePortfolio = findPruned(portfolioRows, select);
+    if (staleFloors.length === 0 && stalePortfolio.length === 0) return;
+
+    await this.driver.withTransactionAsync(async () => {
+      for (const id of staleFloors) {
+        await this.driver.runAsync('DELETE FROM floor_snapshots WHERE id = ?', [id]);
+      }
+      for (const id of stalePortfolio) {
+        await this.driver.runAsync('DELETE FROM portfolio_snapshots WHERE id = ?', [id]);
+      }
+    });
+  }
+
+  // Utility
+
+  /**
+   * Delete all stored data, keeping the schema
+   */
+  async clear(): Promise<void> {
+    await this.driver.withTransactionAsync(async () => {
+      await this.driver.runAsync('DELETE FROM nft_attributes');
+      await this.driver.runAsync('DELETE FROM nfts');
+      await this.driver.runAsync('DELETE FROM collections');
+      await this.driver.runAsync('DELETE FROM group_members');
+      await this.driver.runAsync('DELETE FROM custom_groups');
+      await this.driver.runAsync('DELETE FROM wallets');
+      await this.driver.runAsync('DELETE FROM floor_snapshots');
+      await this.driver.runAsync('DELETE FROM portfolio_snapshots');
+    });
+  }
+
+  private async writeNFT(nft: NFT): Promise<void> {
+    // Attributes live in their own table; keep them out of the JSON blob
+    const { attributes, ...metadata } = nft.metadata;
+    const data = JSON.stringify({ ...nft, metadata });
+
+    await this.driver.runAsync(
+      `INSERT INTO nfts (id, wallet_id, chain, evm_chain, contract_address, token_id, name, data, last_fetched)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         wallet_id = excluded.wallet_id,
+         chain = excluded.chain,
+         evm_chain = excluded.evm_chain,
+         contract_address = excluded.contract_address,
+         token_id = excluded.token_id,
+         name = excluded.name,
+         data = excluded.data,
+         last_fetched = excluded.last_fetched`,
+      [
+        nft.id,
+        nft.walletId,
+        nft.chain,
+        nft.evmChain ?? null,
+        nft.contractAddress,
+        nft.tokenId,
+        nft.name,
+        data,
+        nft.lastFetched,
+      ]
+    );
+
+    await this.driver.runAsync('DELETE FROM nft_attributes WHERE nft_id = ?', [nft.id]);
+    const list = attributes || [];
+    for (let i = 0; i < list.length; i++) {
+      const attr = list[i];
+      await this.driver.runAsync(
+        `INSERT INTO nft_attributes (nft_id, position, trait_type, value, value_type, display_type)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          nft.id,
+          i,
+          attr.trait_type,
+          String(attr.value),
+          typeof attr.value === 'number' ? 'number' : 'string',
+          attr.display_type ?? null,
+        ]
+      );
+    }
+  }
+
+  private async deleteNFTRows(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.driver.runAsync('DELETE FROM nft_attributes WHERE nft_id = ?', [id]);
+      await this.driver.runAsync('DELETE FROM nfts WHERE id = ?', [id]);
+    }
+  }
+}
+
+/**
+ * Rewrite stored NFT and collection ids in their canonical form. NFTs whose
+ * id can't be resolved are dropped (the next sync brings them back), as are
+ * group memberships pointing at them. Where two old ids resolve to the same
+ * token, the first row wins.
+ */
+async function migrateIds(driver: SQLiteDriver): Promise<void> {
+  const nftRows = await driver.getAllAsync<NFTRow>('SELECT id, data FROM nfts');
+
+  // Version 1 ids differing only in case or token id format share a canonical id
+  const rowsById = new Map<string, NFTRow[]>();
+  for (const row of nftRows) {
+    const id = toCanonicalNFTId(row.id);
+    if (!id) {
+      await deleteNFTRow(driver, row.id);
+      continue;
+    }
+    rowsById.set(id, [...(rowsById.get(id) || []), row]);
+  }
+
+  for (const [id, rows] of rowsById) {
+    if (rows.length === 1 && rows[0].id === id) continue;
+
+    // Keep one row (the canonical one if present) and fold the others' holdings into it
+    const target = rows.find((row) => row.id === id) || rows[0];
+    let nft: NFT = JSON.parse(target.data);
+    for (const row of rows) {
+      if (row === target) continue;
+      nft = mergeHoldings(nft, JSON.parse(row.data));
+      await deleteNFTRow(driver, row.id);
+    }
+
+    const data = JSON.stringify({ ...nft, id });
+    await driver.runAsync('UPDATE nfts SET id = ?, wallet_id = ?, data = ? WHERE id = ?', [
+      id,
+      nft.walletId,
+      data,
+      target.id,
+    ]);
+    await driver.runAsync('UPDATE nft_attributes SET nft_id = ? WHERE nft_id = ?', [id, target.id]);
+  }
+
+  const members = await driver.getAllAsync<GroupMemberRow>(
+    'SELECT group_id, nft_id FROM group_members'
+  );
+  for (const member of members) {
+    const id = toCanonicalNFTId(member.nft_id);
+    if (id === member.nft_id) continue;
+
+    // A group already holding the canonical id keeps that entry
+    if (id) {
+      await driver.runAsync(
+        'UPDATE OR IGNORE group_members SET nft_id = ? WHERE group_id = ? AND nft_id = ?',
+        [id, member.group_id, member.nft_id]
+      );
+    }
+    await driver.runAsync('DELETE FROM group_members WHERE group_id = ? AND nft_id = ?', [
+      member.group_id,
+      member.nft_id,
+    ]);
+  }
+
+  // Collections are rebuilt from NFTs on load, so only their history needs keeping
+  await driver.runAsync('DELETE FROM collections');
+  const series = await driver.getAllAsync<{ collection_id: string }>(
+    'SELECT DISTINCT collection_id FROM floor_snapshots'
+  );
+  for (const { collection_id } of series) {
+    const id = toCanonicalCollectionId(collection_id);
+    if (id === collection_id) continue;
+
+    if (id) {
+      await driver.runAsync('UPDATE floor_snapshots SET collection_id = ? WHERE collection_id = ?', [
+        id,
+        collection_id,
+      ]);
+    } else {
+      await driver.runAsync('DELETE FROM floor_snapshots WHERE collection_id = ?', [collection_id]);
+    }
+  }
+}
+
+async function deleteNFTRow(driver: SQLiteDriver, id: string): Promise<void> {
+  await driver.runAsync('DELETE FROM nft_attributes WHERE nft_id = ?', [id]);
+  await driver.runAsync('DELETE FROM nfts WHERE id = ?', [id]);
+}
+
+function findPruned(
+  rows: { id: number; series: string; timestamp: number }[],
+  select: SnapshotSelector
+): number[] {
+  const bySeries = new Map<string, { id: number; timestamp: number }[]>();
+  rows.forEach((row) => {
+    if (!bySeries.has(row.series)) {
+      bySeries.set(row.series, []);
+    }
+    bySeries.get(row.series)!.push(row);
+  });
+
+  const stale: number[] = [];
+  bySeries.forEach((points) => {
+    const kept = new Set(select(points).map((point) => point.id));
+    points.forEach((point) => {
+      if (!kept.has(point.id)) stale.push(point.id);
+    });
+  });
+  return stale;
+}
+
+function rowToAttribute(row: AttributeRow): NFTAttribute {
+  return {
+    trait_type: row.trait_type,
+    value: row.value_type === 'number' ? Number(row.value) : row.value,
+    display_type: row.display_type ?? undefined,
+  };
+}
+
+function rowToCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    name: row.name,
+    contractAddress: row.contract_address,
+    chain: row.chain as ChainType,
+    evmChain: (row.evm_chain ?? undefined) as EVMChain | undefined,
+    nftCount: row.nft_count,
+    walletCounts: JSON.parse(row.wallet_counts),
+    floorPrice:
+      row.floor_amount !== null && row.floor_currency !== null
+        ? { amount: row.floor_amount, currency: row.floor_currency }
+        : undefined,
+    totalFloorValue:
+      row.total_floor_amount !== null && row.floor_currency !== null
+        ? { amount: row.total_floor_amount, currency: row.floor_currency }
+        : undefined,
+    imageUrl: row.image_url ?? undefined,
+    description: row.description ?? undefined,
+    externalUrl: row.external_url ?? undefined,
+    firstAcquiredAt: row.first_acquired_at ?? undefined,
+  };
+}
+
+function rowToWallet(row: WalletRow): Wallet {
+  return {
+    id: row.id,
+    address: row.address,
+    chain: row.chain as ChainType,
+    evmChain: (row.evm_chain ?? undefined) as EVMChain | undefined,
+    label: row.label ?? undefined,
+    color: row.color ?? undefined,
+    addedAt: row.added_at,
+    isActive: row.is_active === 1,
+    sourceId: row.source_id ?? undefined,
+    name: row.name ? JSON.parse(row.name) : undefined,
+  };
+}
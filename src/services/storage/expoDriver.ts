@@ -0,0 +1,40 @@
+/**
+ * Expo SQLite Driver
+ * Adapts expo-sqlite to the SQLiteDriver interface used by NFTDatabase
+ */
+
+import { openDatabaseAsync } from 'expo-sqlite/next';
+import type { SQLiteDriver } from './database';
+import { NFTDatabase } from './database';
+
+const DEFAULT_DATABASE_NAME = 'nft-portfolio.db';
+
+/**
+ * Open an expo-sqlite database as a SQLiteDriver
+ */
+export async function createExpoSQLiteDriver(
+  databaseName: string = DEFAULT_DATABASE_NAME
+): Promise<SQLiteDriver> {
+  const db = await openDatabaseAsync(databaseName);
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+
+  return {
+    execAsync: (sql) => db.execAsync(sql),
+    runAsync: async (sql, params = []) => {
+      await db.runAsync(sql, params);
+    },
+    getAllAsync: (sql, params = []) => db.getAllAsync(sql, params),
+    withTransactionAsync: (task) => db.withTransactionAsync(task),
+  };
+}
+
+/**
+ * Open and migrate the on-device NFT database
+ */
+export async function openNFTDatabase(
+  databaseName: string = DEFAULT_DATABASE_NAME
+): Promise<NFTDatabase> {
+  const database = new NFTDatabase(await createExpoSQLiteDriver(databaseName));
+  await database.migrate();
+  return database;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  computeChange,
+  computeChanges,
+  downsample,
+  type RetentionRule,
+  type ValuePoint,
+} from '../history';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = 1000 * DAY;
+
+function at(ageMs: number, value: number = 0): ValuePoint {
+  return { timestamp: NOW - ageMs, value };
+}
+
+describe('downsample', () => {
+  it('keeps every point younger than a day', () => {
+    const points = [at(5 * HOUR), at(HOUR), at(HOUR - 1), at(0)];
+
+    expect(downsample(points, undefined, NOW)).toEqual(points);
+  });
+
+  it('keeps the latest point per bucket in each older tier', () => {
+    // Three points in one hour two days back, two in one 6-hour bucket two weeks back
+    const hour = Math.floor((NOW - 2 * DAY) / HOUR) * HOUR;
+    const sixHours = Math.floor((NOW - 14 * DAY) / (6 * HOUR)) * 6 * HOUR;
+    const points: ValuePoint[] = [
+      { timestamp: hour + 10, value: 1 },
+      { timestamp: hour + 30 * 60 * 1000, value: 2 },
+      { timestamp: hour + HOUR - 1, value: 3 },
+      { timestamp: sixHours + HOUR, value: 4 },
+      { timestamp: sixHours + 5 * HOUR, value: 5 },
+    ];
+
+    expect(downsample(points, undefined, NOW).map((p) => p.value)).toEqual([5, 3]);
+  });
+
+  it('keeps one point per day past a month and drops points older than a year', () => {
+    const day = Math.floor((NOW - 100 * DAY) / DAY) * DAY;
+    const points: ValuePoint[] = [
+      { timestamp: day + HOUR, value: 1 },
+      { timestamp: day + 20 * HOUR, value: 2 },
+      { timestamp: day + DAY + HOUR, value: 3 },
+      at(366 * DAY, 4),
+    ];
+
+    expect(downsample(points, undefined, NOW).map((p) => p.value)).toEqual([2, 3]);
+  });
+
+  it('accepts unsorted input and returns it sorted', () => {
+    const points = [at(0, 3), at(3 * DAY, 1), at(2 * HOUR, 2)];
+
+    expect(downsample(points, undefined, NOW).map((p) => p.value)).toEqual([1, 2, 3]);
+  });
+
+  it('buckets each rule separately, even where bucket numbers coincide', () => {
+    const rules: RetentionRule[] = [
+      { maxAge: 10, interval: 100 },
+      { maxAge: 1000, interval: 100 },
+    ];
+    // Both in bucket 9 (900-999), but on either side of the first rule's maxAge
+    const points = [
+      { timestamp: 950, value: 1 },
+      { timestamp: 995, value: 2 },
+    ];
+
+    expect(downsample(points, rules, 1000).map((p) => p.value)).toEqual([1, 2]);
+  });
+
+  it('returns nothing for no points', () => {
+    expect(downsample([], undefined, NOW)).toEqual([]);
+  });
+});
+
+describe('computeChange', () => {
+  it('needs at least two points', () => {
+    expect(computeChange([], DAY, NOW)).toBeUndefined();
+    expect(computeChange([at(2 * DAY, 10)], DAY, NOW)).toBeUndefined();
+  });
+
+  it('needs a point at or before the start of the window', () => {
+    expect(computeChange([at(12 * HOUR, 10), at(0, 12)], DAY, NOW)).toBeUndefined();
+  });
+
+  it('compares the latest point with the last one before the window', () => {
+    const points = [at(3 * DAY, 5), at(DAY, 8), at(12 * HOUR, 100), at(0, 10)];
+
+    expect(computeChange(points, DAY, NOW)).toEqual({
+      from: 8,
+      to: 10,
+      absolute: 2,
+      percent: 25,
+    });
+  });
+
+  it('leaves the percentage out when the baseline is zero', () => {
+    expect(computeChange([at(DAY, 0), at(0, 4)], DAY, NOW)).toEqual({
+      from: 0,
+      to: 4,
+      absolute: 4,
+      percent: undefined,
+    });
+  });
+
+  it('needs a point inside the window to compare with', () => {
+    // Even the latest point is older than the window, so it would be its own baseline
+    expect(computeChange([at(3 * DAY, 1), at(2 * DAY, 3)], DAY, NOW)).toBeUndefined();
+  });
+});
+
+describe('computeChanges', () => {
+  it('includes only the windows history reaches back to', () => {
+    const points = [at(8 * DAY, 50), at(2 * DAY, 80), at(0, 100)];
+
+    const changes = computeChanges(points, NOW);
+
+    expect(Object.keys(changes)).toEqual(['24h', '7d']);
+    expect(changes['24h']?.from).toBe(80);
+    expect(changes['7d']?.percent).toBe(100);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import type { EVMChain, NFT, Wallet } from '../../../types';
+import { getHeldCurrencies, getNFTValue, valuePortfolio } from '../portfolio';
+import { StaticPriceSource, convert, normalizeCurrency } from '../prices';
+
+const prices = new StaticPriceSource({
+  USD: { ETH: 3000, SOL: 150, MATIC: 0.5 },
+  EUR: { ETH: 2800, SOL: 140 },
+});
+
+const SOLANA_MINT = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const wallets: Wallet[] = [
+  { id: 'main', address: `0x${'11'.repeat(20)}`, chain: 'evm', addedAt: 0, label: 'Main' },
+  { id: 'vault', address: `0x${'22'.repeat(20)}`, chain: 'evm', addedAt: 0, label: 'Vault' },
+  { id: 'phantom', address: SOLANA_MINT, chain: 'solana', addedAt: 0, label: 'Phantom' },
+];
+
+let contracts = 0;
+
+function makeNFT(
+  name: string,
+  floor: { amount: number; currency: string } | undefined,
+  overrides: Partial<NFT> = {}
+): NFT {
+  const solana = overrides.chain === 'solana';
+  const evmChain: EVMChain | undefined = solana ? undefined : overrides.evmChain || 'ethereum';
+  const contract = solana ? SOLANA_MINT : `0x${String(++contracts).padStart(40, '0')}`;
+  return {
+    id: `${contract}/1`,
+    walletId: 'main',
+    chain: 'evm',
+    evmChain,
+    contractAddress: contract,
+    tokenId: '1',
+    name: `${name} #1`,
+    image: '',
+    collection: { name, address: contract, floorPrice: floor },
+    metadata: { isFarcasterMint: false, attributes: [] },
+    lastFetched: 0,
+    ...overrides,
+  };
+}
+
+describe('prices', () => {
+  it('values wrapped and renamed tokens as their base asset', () => {
+    expect(normalizeCurrency('weth')).toBe('ETH');
+    expect(normalizeCurrency('POL')).toBe('MATIC');
+    expect(normalizeCurrency('WSOL')).toBe('SOL');
+    expect(normalizeCurrency('degen')).toBe('DEGEN');
+  });
+
+  it('serves only the rates it has for the requested quote', async () => {
+    const usd = await prices.getPrices(['WETH', 'SOL', 'DEGEN'], 'usd');
+    expect(usd.quote).toBe('USD');
+    expect(usd.rates).toEqual({ ETH: 3000, SOL: 150 });
+
+    const gbp = await prices.getPrices(['ETH'], 'GBP');
+    expect(gbp.rates).toEqual({});
+  });
+
+  it('converts into the quote currency, passing the quote itself through', async () => {
+    const table = await prices.getPrices(['ETH', 'MATIC'], 'USD');
+
+    expect(convert(0.5, 'WETH', table)).toBe(1500);
+    expect(convert(10, 'POL', table)).toBe(5);
+    expect(convert(42, 'usd', table)).toBe(42);
+    expect(convert(1, 'SOL', table)).toBeUndefined();
+  });
+});
+
+describe('valuePortfolio', () => {
+  const nfts = [
+    makeNFT('eth-art', { amount: 0.5, currency: 'ETH' }),
+    makeNFT('base-mint', { amount: 0.01, currency: 'WETH' }, { evmChain: 'base', quantity: 3 }),
+    makeNFT('polygon-pass', { amount: 10, currency: 'POL' }, { evmChain: 'polygon' }),
+    makeNFT('sol-pfp', { amount: 2, currency: 'SOL' }, { chain: 'solana', walletId: 'phantom' }),
+    makeNFT('degen-drop', { amount: 1000, currency: 'DEGEN' }, { evmChain: 'base' }),
+    makeNFT('no-floor', undefined),
+    makeNFT('hidden', { amount: 100, currency: 'ETH' }, { hidden: true }),
+  ];
+
+  it('totals priced holdings across chains and counts unpriced ones', async () => {
+    const table = await prices.getPrices(getHeldCurrencies(nfts), 'USD');
+    const valuation = valuePortfolio(nfts, table, wallets);
+
+    expect(valuation.quote).toBe('USD');
+    expect(valuation.total).toBeCloseTo(1500 + 90 + 5 + 300);
+    expect(valuation.native).toEqual({
+      ETH: expect.closeTo(0.53),
+      MATIC: 10,
+      SOL: 2,
+      DEGEN: 1000,
+    });
+    expect(valuation.nftCount).toBe(8);
+    expect(valuation.pricedCount).toBe(6);
+
+    expect(valuation.byChain.map(({ label, value }) => [label, Math.round(value)])).toEqual([
+      ['Ethereum', 1500],
+      ['Solana', 300],
+      ['Base', 90],
+      ['Polygon', 5],
+    ]);
+    expect(valuation.byWallet.map(({ label, value }) => [label, Math.round(value)])).toEqual([
+      ['Main', 1595],
+      ['Phantom', 300],
+    ]);
+    expect(valuation.byCollection[0]).toMatchObject({ label: 'eth-art', value: 1500 });
+  });
+
+  it('values the same holdings in another quote currency', async () => {
+    const table = await prices.getPrices(getHeldCurrencies(nfts), 'EUR');
+    const valuation = valuePortfolio(nfts, table, wallets);
+
+    // No MATIC rate in EUR, so the Polygon pass is unpriced
+    expect(valuation.total).toBeCloseTo(1400 + 84 + 280);
+    expect(valuation.pricedCount).toBe(5);
+  });
+
+  it('leaves an NFT unvalued when there is no rate or no floor', async () => {
+    const table = await prices.getPrices(['ETH'], 'USD');
+
+    expect(getNFTValue(nfts[0], table)).toBe(1500);
+    expect(getNFTValue(nfts[3], table)).toBeUndefined();
+    expect(getNFTValue(nfts[5], table)).toBeUndefined();
+  });
+
+  it('splits a token shared by two wallets between them', async () => {
+    const shared = makeNFT(
+      'edition',
+      { amount: 0.1, currency: 'ETH' },
+      {
+        quantity: 3,
+        holdings: [
+          { walletId: 'main', quantity: 1 },
+          { walletId: 'vault', quantity: 2 },
+        ],
+      }
+    );
+    const table = await prices.getPrices(['ETH'], 'USD');
+    const valuation = valuePortfolio([shared], table, wallets);
+
+    expect(valuation.total).toBeCloseTo(900);
+    expect(valuation.byWallet.map(({ key, value }) => [key, Math.round(value)])).toEqual([
+      ['vault', 600],
+      ['main', 300],
+    ]);
+  });
+
+  it('lists the currencies held, normalized and without duplicates', () => {
+    expect(getHeldCurrencies(nfts)).toEqual(['DEGEN', 'ETH', 'MATIC', 'SOL']);
+  });
+});
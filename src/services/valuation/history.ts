@@ -0,0 +1,251 @@
+/**
+ * Value History
+ * Floor and portfolio snapshots, retention/downsampling and change calculations
+ */
+
+import type { Collection, PriceTable, Wallet, NFT, EVMChain } from '../../types';
+import type { NFTDatabase } from '../storage/database';
+import type { AlchemyFetcher } from '../nft/fetchers/alchemy';
+import { valuePortfolio } from './portfolio';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface ValuePoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface RetentionRule {
+  maxAge: number; // ms; points older than this fall through to the next rule
+  interval: number; // ms bucket size; 0 keeps every point
+}
+
+/**
+ * Keep everything for a day, then progressively coarser buckets; drop after a year
+ */
+export const DEFAULT_RETENTION: RetentionRule[] = [
+  { maxAge: DAY, interval: 0 },
+  { maxAge: 7 * DAY, interval: HOUR },
+  { maxAge: 30 * DAY, interval: 6 * HOUR },
+  { maxAge: 365 * DAY, interval: DAY },
+];
+
+export type ChangeWindow = '24h' | '7d' | '30d';
+
+export const CHANGE_WINDOWS: Record<ChangeWindow, number> = {
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+};
+
+export interface ValueChange {
+  from: number;
+  to: number;
+  absolute: number;
+  percent?: number; // undefined when the baseline is zero
+}
+
+/**
+ * Select the points to keep under the retention rules. Within each bucket the
+ * latest point survives. Input need not be sorted; output is sorted by time.
+ */
+export function downsample<T extends { timestamp: number }>(
+  points: T[],
+  rules: RetentionRule[] = DEFAULT_RETENTION,
+  now: number = Date.now()
+): T[] {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const buckets = new Map<string, T>();
+  const kept: T[] = [];
+
+  sorted.forEach((point) => {
+    const age = now - point.timestamp;
+    const ruleIndex = rules.findIndex((rule) => age <= rule.maxAge);
+    if (ruleIndex === -1) return;
+
+    const { interval } = rules[ruleIndex];
+    if (interval === 0) {
+      kept.push(point);
+      return;
+    }
+
+    // Later points overwrite earlier ones in the same bucket
+    buckets.set(`${ruleIndex}:${Math.floor(point.timestamp / interval)}`, point);
+  });
+
+  return [...kept, ...buckets.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Change between the latest point and the last point at or before `now - window`.
+ * Returns undefined when history doesn't reach back far enough.
+ */
+export function computeChange(
+  points: ValuePoint[],
+  window: number,
+  now: number = Date.now()
+): ValueChange | undefined {
+  if (points.length < 2) return undefined;
+
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const latest = sorted[sorted.length - 1];
+  const cutoff = now - window;
+
+  let baseline: ValuePoint | undefined;
+  for (const point of sorted) {
+    if (point.timestamp > cutoff) break;
+    baseline = point;
+  }
+  if (!baseline || baseline === latest) return undefined;
+
+  const absolute = latest.value - baseline.value;
+  return {
+    from: baseline.value,
+    to: latest.value,
+    absolute,
+    percent: baseline.value !== 0 ? (absolute / baseline.value) * 100 : undefined,
+  };
+}
+
+/**
+ * 24h / 7d / 30d changes for a series
+ */
+export function computeChanges(
+  points: ValuePoint[],
+  now: number = Date.now()
+): Partial<Record<ChangeWindow, ValueChange>> {
+  const changes: Partial<Record<ChangeWindow, ValueChange>> = {};
+  (Object.keys(CHANGE_WINDOWS) as ChangeWindow[]).forEach((window) => {
+    const change = computeChange(points, CHANGE_WINDOWS[window], now);
+    if (change) changes[window] = change;
+  });
+  return changes;
+}
+
+/**
+ * Floor prices for Solana collections, looked up by one of their mints
+ */
+export interface SolanaFloorSource {
+  fetchFloorPrice: (mintAddress: string) => Promise<number | undefined>;
+}
+
+interface HistoryStoreState {
+  nfts: Map<string, NFT>;
+  collections: Map<string, Collection>;
+  wallets: Wallet[];
+  priceTable?: PriceTable;
+  settings: { quoteCurrency: string };
+  setCollectionFloor: (
+    collectionId: string,
+    floorPrice: { amount: number; currency: string }
+  ) => void;
+  markHistoryUpdated: () => void;
+}
+
+export interface HistoryStore {
+  getState: () => HistoryStoreState;
+}
+
+export interface HistoryTrackerConfig {
+  store: HistoryStore;
+  database: NFTDatabase;
+  alchemy?: AlchemyFetcher;
+  solanaFloors?: SolanaFloorSource;
+  retention?: RetentionRule[];
+}
+
+export class HistoryTracker {
+  private store: HistoryStore;
+  private database: NFTDatabase;
+  private alchemy?: AlchemyFetcher;
+  private solanaFloors?: SolanaFloorSource;
+  private retention: RetentionRule[];
+
+  constructor(config: HistoryTrackerConfig) {
+    this.store = config.store;
+    this.database = config.database;
+    this.alchemy = config.alchemy;
+    this.solanaFloors = config.solanaFloors;
+    this.retention = config.retention || DEFAULT_RETENTION;
+  }
+
+  /**
+   * Refresh floors, record floor and portfolio snapshots, and apply retention
+   */
+  async snapshot(now: number = Date.now()): Promise<void> {
+    await this.refreshFloors();
+
+    const state = this.store.getState();
+    const collections = Array.from(state.collections.values());
+
+    await this.database.insertFloorSnapshots(
+      collections
+        .filter((c) => c.floorPrice)
+        .map((c) => ({
+          collectionId: c.id,
+          timestamp: now,
+          amount: c.floorPrice!.amount,
+          currency: c.floorPrice!.currency,
+        }))
+    );
+
+    const quote = state.settings.quoteCurrency;
+    if (state.priceTable && state.priceTable.quote === quote) {
+      const valuation = valuePortfolio(state.nfts.values(), state.priceTable, state.wallets);
+      await this.database.insertPortfolioSnapshot({
+        timestamp: now,
+        quote,
+        total: valuation.total,
+        native: valuation.native,
+      });
+    }
+
+    await this.database.pruneSnapshots((points) => downsample(points, this.retention, now));
+    this.store.getState().markHistoryUpdated();
+  }
+
+  /**
+   * Fetch current floors for every held collection and write them to the store
+   */
+  async refreshFloors(): Promise<void> {
+    const state = this.store.getState();
+    const collections = Array.from(state.collections.values());
+
+    // One owned mint per Solana collection, for floor lookups by mint
+    const solanaMints = new Map<string, string>();
+    state.nfts.forEach((nft) => {
+      if (nft.chain === 'solana' && !solanaMints.has(nft.contractAddress)) {
+        solanaMints.set(nft.contractAddress, nft.tokenId);
+      }
+    });
+
+    for (const collection of collections) {
+      const floor = await this.fetchFloor(collection, solanaMints);
+      if (floor) {
+        state.setCollectionFloor(collection.id, floor);
+      }
+    }
+  }
+
+  private async fetchFloor(
+    collection: Collection,
+    solanaMints: Map<string, string>
+  ): Promise<{ amount: number; currency: string } | undefined> {
+    try {
+      if (collection.chain === 'evm' && this.alchemy) {
+        const chain: EVMChain = collection.evmChain || 'ethereum';
+        return await this.alchemy.fetchFloorPrice(collection.contractAddress, chain);
+      }
+
+      const mint = solanaMints.get(collection.contractAddress);
+      if (collection.chain === 'solana' && this.solanaFloors && mint) {
+        const amount = await this.solanaFloors.fetchFloorPrice(mint);
+        return amount !== undefined ? { amount, currency: 'SOL' } : undefined;
+      }
+    } catch (error) {
+      console.warn(`Failed to refresh floor for ${collection.id}:`, error);
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Portfolio Valuation
+ * Aggregates floor-price holdings into wallet, chain, collection and total values
+ */
+
+import type { NFT, Wallet, PriceTable } from '../../types';
+import { getCollectionId } from '../nft/collections';
+import { getQuantity, splitByWallet } from '../nft/holdings';
+import { isHidden } from '../nft/spam';
+import { convert, normalizeCurrency } from './prices';
+import { getWalletDisplayName } from '../../utils/formatting';
+
+export interface ValueBreakdown {
+  key: string;
+  label: string;
+  value: number; // in the quote currency; unpriced holdings count as 0
+  native: Record<string, number>; // currency -> amount
+  nftCount: number;
+  pricedCount: number;
+}
+
+export interface PortfolioValuation {
+  quote: string;
+  total: number;
+  native: Record<string, number>;
+  nftCount: number;
+  pricedCount: number;
+  byWallet: ValueBreakdown[];
+  byChain: ValueBreakdown[];
+  byCollection: ValueBreakdown[];
+  pricedAt?: number;
+}
+
+/**
+ * Floor value of the copies held of an NFT, in its native currency
+ */
+export function getNativeValue(nft: NFT): { amount: number; currency: string } | undefined {
+  const floor = nft.collection.floorPrice;
+  if (!floor) return undefined;
+  return { amount: floor.amount * getQuantity(nft), currency: normalizeCurrency(floor.currency) };
+}
+
+/**
+ * Floor value of the copies held of an NFT, in the table's quote currency
+ */
+export function getNFTValue(nft: NFT, table: PriceTable): number | undefined {
+  const native = getNativeValue(nft);
+  return native ? convert(native.amount, native.currency, table) : undefined;
+}
+
+/**
+ * Value every visible holding and break the total down by wallet, chain and
+ * collection. Breakdowns are sorted by value, highest first.
+ */
+export function valuePortfolio(
+  nfts: Iterable<NFT>,
+  table: PriceTable,
+  wallets: Wallet[] = []
+): PortfolioValuation {
+  const walletLabels = new Map(wallets.map((w) => [w.id, getWalletDisplayName(w)]));
+
+  const byWallet = new Map<string, ValueBreakdown>();
+  const byChain = new Map<string, ValueBreakdown>();
+  const byCollection = new Map<string, ValueBreakdown>();
+  const totals = createBreakdown('total', 'Total');
+
+  for (const record of nfts) {
+    if (isHidden(record)) continue;
+
+    // Value each wallet's holding on its own so byWallet splits shared tokens
+    for (const nft of splitByWallet(record)) {
+      const native = getNativeValue(nft);
+      const value = native ? convert(native.amount, native.currency, table) : undefined;
+      const quantity = getQuantity(nft);
+
+      const chainKey = nft.evmChain || nft.chain;
+      const collectionKey = getCollectionId(nft);
+
+      [
+        totals,
+        getOrCreate(byWallet, nft.walletId, walletLabels.get(nft.walletId) || nft.walletId),
+        getOrCreate(byChain, chainKey, chainKey.charAt(0).toUpperCase() + chainKey.slice(1)),
+        getOrCreate(byCollection, collectionKey, nft.collection.name),
+      ].forEach((breakdown) => addHolding(breakdown, native, value, quantity));
+    }
+  }
+
+  const sortByValue = (map: Map<string, ValueBreakdown>) =>
+    Array.from(map.values()).sort((a, b) => b.value - a.value || b.nftCount - a.nftCount);
+
+  return {
+    quote: table.quote,
+    total: totals.value,
+    native: totals.native,
+    nftCount: totals.nftCount,
+    pricedCount: totals.pricedCount,
+    byWallet: sortByValue(byWallet),
+    byChain: sortByValue(byChain),
+    byCollection: sortByValue(byCollection),
+    pricedAt: table.fetchedAt,
+  };
+}
+
+/**
+ * Currencies that appear in floor prices, for requesting rates
+ */
+export function getHeldCurrencies(nfts: Iterable<NFT>): string[] {
+  const currencies = new Set<string>();
+  for (const nft of nfts) {
+    const native = getNativeValue(nft);
+    if (native) currencies.add(native.currency);
+  }
+  return Array.from(currencies).sort();
+}
+
+function createBreakdown(key: string, label: string): ValueBreakdown {
+  return { key, label, value: 0, native: {}, nftCount: 0, pricedCount: 0 };
+}
+
+function getOrCreate(
+  map: Map<string, ValueBreakdown>,
+  key: string,
+  label: string
+): ValueBreakdown {
+  if (!map.has(key)) {
+    map.set(key, createBreakdown(key, label));
+  }
+  return map.get(key)!;
+}
+
+function addHolding(
+  breakdown: ValueBreakdown,
+  native: { amount: number; currency: string } | undefined,
+  value: number | undefined,
+  quantity: number
+): void {
+  breakdown.nftCount += quantity;
+  if (native) {
+    breakdown.native[native.currency] = (breakdown.native[native.currency] || 0) + native.amount;
+  }
+  if (value !== undefined) {
+    breakdown.value += value;
+    breakdown.pricedCount += quantity;
+  }
+}
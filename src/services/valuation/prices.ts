@@ -0,0 +1,135 @@
+/**
+ * Price Sources
+ * Pluggable crypto-to-fiat exchange rates for portfolio valuation
+ */
+
+import type { PriceTable } from '../../types';
+import { HttpClient } from '../http/client';
+import { MalformedResponseError } from '../http/errors';
+
+export interface PriceSource {
+  /**
+   * Price of one unit of each currency, in the quote currency
+   */
+  getPrices: (currencies: string[], quote: string) => Promise<PriceTable>;
+}
+
+// Floor prices are reported in wrapped or renamed tokens; value them as the base asset
+const CURRENCY_ALIASES: Record<string, string> = {
+  WETH: 'ETH',
+  POL: 'MATIC',
+  WMATIC: 'MATIC',
+  WSOL: 'SOL',
+};
+
+/**
+ * Canonical currency symbol (e.g. WETH -> ETH)
+ */
+export function normalizeCurrency(currency: string): string {
+  const upper = currency.toUpperCase();
+  return CURRENCY_ALIASES[upper] || upper;
+}
+
+/**
+ * Convert an amount into the table's quote currency.
+ * Returns undefined when the table has no rate for the currency.
+ */
+export function convert(
+  amount: number,
+  currency: string,
+  table: PriceTable
+): number | undefined {
+  const symbol = normalizeCurrency(currency);
+  if (symbol === table.quote.toUpperCase()) return amount;
+  const rate = table.rates[symbol];
+  return rate === undefined ? undefined : amount * rate;
+}
+
+/**
+ * Fixed rates, for tests and offline use
+ */
+export class StaticPriceSource implements PriceSource {
+  private rates: Record<string, Record<string, number>>;
+
+  /**
+   * @param rates quote currency -> currency -> price, e.g. { USD: { ETH: 3000 } }
+   */
+  constructor(rates: Record<string, Record<string, number>>) {
+    this.rates = rates;
+  }
+
+  async getPrices(currencies: string[], quote: string): Promise<PriceTable> {
+    const quoteRates = this.rates[quote.toUpperCase()] || {};
+    const rates: Record<string, number> = {};
+
+    currencies.map(normalizeCurrency).forEach((symbol) => {
+      if (quoteRates[symbol] !== undefined) {
+        rates[symbol] = quoteRates[symbol];
+      }
+    });
+
+    return { quote: quote.toUpperCase(), rates, fetchedAt: Date.now() };
+  }
+}
+
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+  SOL: 'solana',
+  MATIC: 'matic-network',
+};
+
+interface CoinGeckoConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  http?: HttpClient;
+}
+
+/**
+ * Live rates from the CoinGecko simple price API
+ */
+export class CoinGeckoPriceSource implements PriceSource {
+  private baseUrl: string;
+  private apiKey?: string;
+  private http: HttpClient;
+
+  constructor(config: CoinGeckoConfig = {}) {
+    this.baseUrl = config.baseUrl || 'https://api.coingecko.com/api/v3';
+    this.apiKey = config.apiKey;
+    // Public tier allows roughly 30 calls per minute
+    this.http =
+      config.http ||
+      new HttpClient({ provider: 'CoinGecko', rateLimit: { capacity: 5, refillPerSecond: 0.5 } });
+  }
+
+  async getPrices(currencies: string[], quote: string): Promise<PriceTable> {
+    const symbols = Array.from(new Set(currencies.map(normalizeCurrency))).filter(
+      (symbol) => COINGECKO_IDS[symbol]
+    );
+    const vsCurrency = quote.toLowerCase();
+
+    const params = new URLSearchParams({
+      ids: symbols.map((symbol) => COINGECKO_IDS[symbol]).join(','),
+      vs_currencies: vsCurrency,
+    });
+
+    const data = await this.http.get<Record<string, Record<string, number>>>(
+      `${this.baseUrl}/simple/price?${params.toString()}`,
+      { headers: this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : {} }
+    );
+
+    if (!data || typeof data !== 'object') {
+      throw new MalformedResponseError('CoinGecko returned no prices', { provider: 'CoinGecko' });
+    }
+
+    const rates: Record<string, number> = {};
+
+    symbols.forEach((symbol) => {
+      const price = data[COINGECKO_IDS[symbol]]?.[vsCurrency];
+      if (price !== undefined) {
+        rates[symbol] = price;
+      }
+    });
+
+    return { quote: quote.toUpperCase(), rates, fetchedAt: Date.now() };
+  }
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { NFT } from '../../types';
+import { NFTDatabase } from '../../services/storage/database';
+import { createInMemoryDriver, type InMemoryDriver } from '../../testing/sqlJsDriver';
+import { connectDatabase, flushDatabaseWrites, useStore } from '../index';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const CONTRACT = `0x${'ab'.repeat(20)}`;
+
+function makeNFT(tokenId: string, walletId: string): NFT {
+  return {
+    id: `eip155:8453/nft:${CONTRACT}/${tokenId}`,
+    walletId,
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: CONTRACT,
+    tokenId,
+    name: `Token #${tokenId}`,
+    image: '',
+    collection: { name: 'Test Collection', address: CONTRACT },
+    metadata: { isFarcasterMint: false, attributes: [] },
+    lastFetched: 0,
+  };
+}
+
+describe('store database writes', () => {
+  let driver: InMemoryDriver;
+  let db: NFTDatabase;
+  let disconnect: () => void;
+  let warn: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(async () => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    driver = await createInMemoryDriver();
+    db = new NFTDatabase(driver);
+    await db.migrate();
+    disconnect = await connectDatabase(db);
+  });
+
+  afterEach(async () => {
+    useStore.getState().clearAllData();
+    await flushDatabaseWrites();
+    disconnect();
+    driver.close();
+    warn.mockRestore();
+  });
+
+  it('applies writes in the order the store changed', async () => {
+    const { setNFTs, removeNFTsByWallet } = useStore.getState();
+    setNFTs('wallet-1', [makeNFT('1', 'wallet-1'), makeNFT('2', 'wallet-1')]);
+    setNFTs('wallet-2', [makeNFT('3', 'wallet-2')]);
+    removeNFTsByWallet('wallet-1');
+    await flushDatabaseWrites();
+
+    expect((await db.loadNFTs()).map((nft) => nft.tokenId)).toEqual(['3']);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('does not bring back rows written before clearing', async () => {
+    useStore.getState().setNFTs('wallet-1', [makeNFT('1', 'wallet-1')]);
+    useStore.getState().clearAllData();
+    await flushDatabaseWrites();
+
+    expect(await db.loadNFTs()).toEqual([]);
+    expect(await db.loadCollections()).toEqual([]);
+  });
+
+  it('keeps writing after a failed write', async () => {
+    const broken = { ...makeNFT('1', 'wallet-1'), name: null } as unknown as NFT;
+    useStore.getState().setNFTs('wallet-1', [broken]);
+    useStore.getState().setNFTs('wallet-2', [makeNFT('2', 'wallet-2')]);
+    await flushDatabaseWrites();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect((await db.loadNFTs()).map((nft) => nft.tokenId)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import type { NFT } from '../../types';
+import { useStore } from '../index';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const CONTRACT = `0x${'ab'.repeat(20)}`;
+const ID = `eip155:8453/nft:${CONTRACT}/1`;
+
+// A token as a fetcher returns it for a wallet
+function fetched(walletId: string): NFT {
+  return {
+    id: ID,
+    walletId,
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: CONTRACT,
+    tokenId: '1',
+    name: 'Token #1',
+    image: '',
+    collection: { name: 'Test Collection', address: CONTRACT },
+    metadata: { isFarcasterMint: false, attributes: [] },
+    lastFetched: 0,
+  };
+}
+
+describe('NFTs moved between our wallets', () => {
+  afterEach(() => {
+    useStore.getState().clearAllData();
+    jest.useRealTimers();
+  });
+
+  function holdInWalletA(): NFT {
+    jest.useFakeTimers({ now: 1000 });
+    const { setNFTs, setNFTHidden, setFarcasterOverride } = useStore.getState();
+    setNFTs('wallet-a', [fetched('wallet-a')]);
+    setNFTHidden([ID], true);
+    setFarcasterOverride(ID, { isFarcasterMint: true, channel: 'art' });
+    jest.setSystemTime(5000);
+    return useStore.getState().nfts.get(ID)!;
+  }
+
+  function expectCarriedOver(before: NFT) {
+    const moved = useStore.getState().nfts.get(ID)!;
+    expect(moved.walletId).toBe('wallet-b');
+    expect(moved.holdings).toBeUndefined();
+    expect(moved.hidden).toBe(true);
+    expect(moved.localOverrides).toEqual(before.localOverrides);
+    expect(moved.metadata.farcasterChannel).toBe('art');
+    expect(moved.firstSeenAt).toBe(1000);
+  }
+
+  it('keeps a hidden NFT hidden when it moves from A to B', () => {
+    const before = holdInWalletA();
+
+    const changes = useStore.getState().setNFTs('wallet-b', [fetched('wallet-b')]);
+
+    expect(changes.added).toEqual([]);
+    expect(changes.internalTransfers.map((t) => t.fromWalletId)).toEqual(['wallet-a']);
+    expectCarriedOver(before);
+  });
+
+  it('keeps it hidden when A syncs before B', () => {
+    const before = holdInWalletA();
+
+    useStore.getState().setNFTs('wallet-a', []);
+    expect(useStore.getState().nfts.has(ID)).toBe(false);
+    useStore.getState().setNFTs('wallet-b', [fetched('wallet-b')]);
+
+    expectCarriedOver(before);
+  });
+});
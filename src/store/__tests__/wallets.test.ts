@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AlertRule, NFT, Wallet } from '../../types';
+import { NFTDatabase } from '../../services/storage/database';
+import { createInMemoryDriver } from '../../testing/sqlJsDriver';
+import { toChecksumAddress } from '../../utils/validation';
+import { connectDatabase, flushDatabaseWrites, useStore } from '../index';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const ADDRESS = '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed';
+const CONTRACT = `0x${'ab'.repeat(20)}`;
+
+function makeWallet(id: string, address: string, addedAt: number): Wallet {
+  return { id, address, chain: 'evm', addedAt, isActive: true };
+}
+
+function makeNFT(tokenId: string, walletId: string): NFT {
+  return {
+    id: `eip155:8453/nft:${CONTRACT}/${tokenId}`,
+    walletId,
+    chain: 'evm',
+    evmChain: 'base',
+    contractAddress: CONTRACT,
+    tokenId,
+    name: `Token #${tokenId}`,
+    image: '',
+    collection: { name: 'Test Collection', address: CONTRACT },
+    metadata: { isFarcasterMint: false, attributes: [] },
+    lastFetched: 0,
+  };
+}
+
+// Persisted store as version 1 wrote it, before addresses were checksummed on add
+async function rehydrate(state: Record<string, unknown>): Promise<void> {
+  await AsyncStorage.setItem('nft-app-storage', JSON.stringify({ state, version: 1 }));
+  await useStore.persist.rehydrate();
+}
+
+describe('persisted wallet migration', () => {
+  afterEach(async () => {
+    useStore.getState().clearAllData();
+    await flushDatabaseWrites();
+    await AsyncStorage.clear();
+  });
+
+  it('checksums EVM addresses and merges wallets sharing one', async () => {
+    const rule: AlertRule = {
+      id: 'rule-1',
+      type: 'new_nft',
+      walletId: 'wallet-2',
+      enabled: true,
+      createdAt: 0,
+    };
+    await rehydrate({
+      wallets: [
+        makeWallet('wallet-1', ADDRESS, 1),
+        makeWallet('wallet-2', toChecksumAddress(ADDRESS), 2),
+      ],
+      activeWalletId: 'wallet-2',
+      walletSync: { 'wallet-1': { lastSyncedAt: 1 }, 'wallet-2': { lastSyncedAt: 2 } },
+      alertRules: [rule],
+    });
+
+    const state = useStore.getState();
+    expect(state.wallets).toEqual([makeWallet('wallet-1', toChecksumAddress(ADDRESS), 1)]);
+    expect(state.activeWalletId).toBe('wallet-1');
+    expect(Object.keys(state.walletSync)).toEqual(['wallet-1']);
+    expect(state.alertRules).toEqual([{ ...rule, walletId: 'wallet-1' }]);
+    expect(() => state.addWallet({ address: ADDRESS })).toThrow('already added');
+  });
+
+  it("drops a merged wallet's stored NFTs when the database connects", async () => {
+    const driver = await createInMemoryDriver();
+    const db = new NFTDatabase(driver);
+    await db.migrate();
+    await db.upsertNFTs([makeNFT('1', 'wallet-1'), makeNFT('2', 'wallet-2')]);
+
+    await rehydrate({
+      wallets: [makeWallet('wallet-1', ADDRESS, 1), makeWallet('wallet-2', ADDRESS, 2)],
+    });
+    const disconnect = await connectDatabase(db);
+    await flushDatabaseWrites();
+
+    expect([...useStore.getState().nfts.values()].map((nft) => nft.tokenId)).toEqual(['1']);
+    expect((await db.loadNFTs()).map((nft) => nft.tokenId)).toEqual(['1']);
+
+    disconnect();
+    driver.close();
+  });
+});
+
+describe('updateWallet', () => {
+  afterEach(async () => {
+    useStore.getState().clearAllData();
+    await flushDatabaseWrites();
+  });
+
+  it('validates a changed address and rejects one another wallet tracks', () => {
+    const { addWallet, updateWallet } = useStore.getState();
+    const first = addWallet({ address: ADDRESS, label: 'Main' });
+    const second = addWallet({ address: CONTRACT });
+
+    expect(() => updateWallet(second, { address: '0x1234' })).toThrow('40 hex characters');
+    const upper = `0x${ADDRESS.slice(2).toUpperCase()}`;
+    expect(() => updateWallet(second, { address: upper })).toThrow('already added as Main');
+    expect(() => updateWallet(second, { chain: 'solana' })).toThrow('not a Solana one');
+
+    updateWallet(first, { address: ADDRESS, label: 'Renamed' });
+    updateWallet(second, { id: 'other', address: `0x${'cd'.repeat(20)}` });
+    const wallets = useStore.getState().wallets.map(({ id, address, label }) => ({
+      id,
+      address,
+      label,
+    }));
+    expect(wallets).toEqual([
+      { id: first, address: toChecksumAddress(ADDRESS), label: 'Renamed' },
+      { id: second, address: toChecksumAddress(`0x${'cd'.repeat(20)}`), label: undefined },
+    ]);
+  });
+});
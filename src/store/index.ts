@@ -3,6 +3,7 @@
  * Main state management with persistence
  */
 
+import { useEffect, useMemo, useState } from 'react';
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -15,23 +16,130 @@ import type {
   SortMode,
   ViewMode,
   FilterOptions,
+  NFTChangeSet,
+  NFTLocalOverrides,
+  FarcasterDetection,
+  FarcasterOverride,
+  PriceTable,
+  AlertRule,
+  AlertNotification,
+  NewAlertRule,
+  WalletSyncState,
+  WalletSource,
+  ChainType,
 } from '../types';
+import type { NFTDatabase } from '../services/storage/database';
+import {
+  diffWalletNFTs,
+  mergeNFT,
+  toChangeSet,
+  isEmptyChangeSet,
+} from '../services/nft/diff';
+import {
+  aggregateCollections,
+  filterCollectionsByWallet,
+  getCollectionId,
+  sortCollections,
+} from '../services/nft/collections';
+import { applyDetection, normalizeChannel } from '../services/nft/detector';
+import { applyFilters, applyVisibility } from '../services/nft/filters';
+import {
+  getHoldings,
+  getWalletView,
+  mergeWalletView,
+  removeWalletHolding,
+  splitByWallet,
+} from '../services/nft/holdings';
+import { toCanonicalCollectionId, toCanonicalNFTId } from '../services/nft/ids';
+import { NFTSearchIndex } from '../services/nft/search';
+import { DepartureLog, isSingleOwner, reconcileTransfers } from '../services/nft/transfers';
+import { computeRarity, type TraitToken } from '../services/nft/rarity';
+import { valuePortfolio } from '../services/valuation/portfolio';
+import { summarizeChannels } from '../services/farcaster/channels';
+import { CHANGE_WINDOWS, type ValuePoint } from '../services/valuation/history';
+import {
+  AddressValidationError,
+  detectChain,
+  findDuplicateWallet,
+  getAddressKey,
+  toChecksumAddress,
+  validateAddress,
+} from '../utils/validation';
+import { getWalletDisplayName } from '../utils/formatting';
+
+export interface SetNFTsOptions {
+  /**
+   * `nfts` is only part of the wallet (e.g. pagination failed midway):
+   * add and update, but don't treat missing NFTs as transferred out
+   */
+  partial?: boolean;
+}
+
+export type NewWallet = Omit<Wallet, 'id' | 'addedAt' | 'chain'> & { chain?: ChainType };
 
 interface AppStore {
   // Wallet Management
   wallets: Wallet[];
   activeWalletId?: string;
-  addWallet: (wallet: Omit<Wallet, 'id' | 'addedAt'>) => void;
+  /**
+   * Add a wallet, detecting its chain when not given. Throws
+   * AddressValidationError for invalid or already tracked addresses.
+   */
+  addWallet: (wallet: NewWallet) => string;
   removeWallet: (id: string) => void;
+  /**
+   * Update a wallet's details. A changed address or chain is validated like
+   * addWallet's, and throws AddressValidationError if another wallet has it.
+   */
   updateWallet: (id: string, updates: Partial<Wallet>) => void;
   setActiveWallet: (id?: string) => void;
+  walletSync: Record<string, WalletSyncState>;
+  updateWalletSync: (walletId: string, updates: Partial<WalletSyncState>) => void;
+
+  // Wallet Sources
+  walletSources: WalletSource[];
+  addWalletSource: (source: Omit<WalletSource, 'id' | 'addedAt'>) => string;
+  updateWalletSource: (id: string, updates: Partial<WalletSource>) => void;
+  /**
+   * Remove a source. Its wallets stay, as if added by hand, unless `removeWallets`.
+   */
+  removeWalletSource: (id: string, removeWallets?: boolean) => void;
+  /**
+   * Add a source's addresses as wallets, skipping ones already tracked.
+   * Returns the wallets created.
+   */
+  addSourceWallets: (
+    sourceId: string,
+    addresses: Pick<Wallet, 'address' | 'chain'>[],
+    label?: string
+  ) => Wallet[];
 
   // NFT Data
   nfts: Map<string, NFT>;
   collections: Map<string, Collection>;
-  setNFTs: (walletId: string, nfts: NFT[]) => void;
+  lastChangeSet?: NFTChangeSet;
+  setNFTs: (walletId: string, nfts: NFT[], options?: SetNFTsOptions) => NFTChangeSet;
   updateNFT: (id: string, updates: Partial<NFT>) => void;
+  setNFTHidden: (ids: string[], hidden: boolean) => void;
+  /**
+   * Correct the Farcaster detector for one NFT; undefined goes back to detection
+   */
+  setFarcasterOverride: (id: string, override?: FarcasterOverride) => void;
+  /**
+   * Re-run Farcaster detection over every NFT, e.g. after a rules update
+   */
+  redetectFarcaster: (detect: (nft: NFT) => FarcasterDetection) => void;
+  applyFetchedNFT: (nft: NFT) => void;
+  rarityPopulations: Map<string, TraitToken[]>;
+  setCollectionPopulation: (collectionId: string, tokens?: TraitToken[]) => void;
+  setCollectionFloor: (
+    collectionId: string,
+    floorPrice: { amount: number; currency: string }
+  ) => void;
   removeNFTsByWallet: (walletId: string) => void;
+  /**
+   * NFTs held by a wallet, each with that wallet's quantity and firstSeenAt
+   */
   getNFTsByWallet: (walletId: string) => NFT[];
   getAllNFTs: () => NFT[];
 
@@ -43,13 +151,34 @@ interface AppStore {
   addToGroup: (groupId: string, nftIds: string[]) => void;
   removeFromGroup: (groupId: string, nftIds: string[]) => void;
 
+  // Alerts
+  alertRules: AlertRule[];
+  addAlertRule: (rule: NewAlertRule) => string;
+  updateAlertRule: (id: string, updates: Partial<AlertRule>) => void;
+  removeAlertRule: (id: string) => void;
+  /**
+   * Notifications raised during quiet hours, delivered when they end
+   */
+  heldAlerts: AlertNotification[];
+  setHeldAlerts: (notifications: AlertNotification[]) => void;
+
   // UI State (not persisted)
   viewMode: ViewMode;
   sortMode: SortMode;
   filterOptions: FilterOptions;
+  searchQuery: string;
   setViewMode: (mode: ViewMode) => void;
   setSortMode: (mode: SortMode) => void;
   setFilterOptions: (options: FilterOptions) => void;
+  setSearchQuery: (query: string) => void;
+
+  // Prices
+  priceTable?: PriceTable;
+  setPriceTable: (table: PriceTable) => void;
+
+  // Value history (snapshots live in SQLite)
+  historyUpdatedAt: number;
+  markHistoryUpdated: () => void;
 
   // Settings
   settings: AppSettings;
@@ -67,27 +196,74 @@ const defaultSettings: AppSettings = {
   defaultSort: 'recent',
   imageQuality: 'medium',
   enableNotifications: false,
+  quoteCurrency: 'USD',
+  holdingsDisplay: 'merged',
 };
 
+// Tokens that recently left a wallet, to recognize them arriving in another of ours
+const departures = new DepartureLog();
+
+// Offline NFT database, attached via connectDatabase()
+let database: NFTDatabase | undefined;
+
+// Wallets the version 2 migration merged into another; connectDatabase drops their NFTs
+let mergedWalletIds: string[] = [];
+
+// Database writes run one at a time, in the order the store changed
+let pendingWrites: Promise<void> = Promise.resolve();
+
+/**
+ * Queue a database write without blocking the store update. A failed write
+ * is logged and doesn't stop the ones queued after it.
+ */
+function persistToDatabase(task: (db: NFTDatabase) => Promise<void>): void {
+  const db = database;
+  if (!db) return;
+  pendingWrites = pendingWrites
+    .then(() => task(db))
+    .catch((error) => {
+      console.warn('Failed to persist NFT data:', error);
+    });
+}
+
+/**
+ * Resolves once every database write queued so far has finished
+ */
+export function flushDatabaseWrites(): Promise<void> {
+  return pendingWrites;
+}
+
 export const useStore = create<AppStore>()(
   persist(
     (set, get) => ({
       // Initial State
       wallets: [],
       activeWalletId: undefined,
+      walletSync: {},
+      walletSources: [],
       nfts: new Map(),
       collections: new Map(),
+      rarityPopulations: new Map(),
       customGroups: [],
+      alertRules: [],
+      heldAlerts: [],
       viewMode: 'grid',
       sortMode: 'recent',
       filterOptions: {},
+      searchQuery: '',
+      historyUpdatedAt: 0,
       settings: defaultSettings,
 
       // Wallet Actions
       addWallet: (wallet) => {
+        const { address, chain } = validateAddress(wallet.address, wallet.chain);
+        assertNotTracked(get().wallets, { address, chain });
+
         const id = `wallet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const newWallet: Wallet = {
           ...wallet,
+          address,
+          chain,
           id,
           addedAt: Date.now(),
           isActive: true,
@@ -97,6 +273,8 @@ export const useStore = create<AppStore>()(
           wallets: [...state.wallets, newWallet],
           activeWalletId: state.activeWalletId || id,
         }));
+
+        return id;
       },
 
       removeWallet: (id) => {
@@ -110,6 +288,11 @@ export const useStore = create<AppStore>()(
           return {
             wallets: newWallets,
             activeWalletId: newActiveId,
+            // Wallet-scoped alerts would otherwise widen to every wallet
+            alertRules: state.alertRules.filter(
+              (rule) => !('walletId' in rule) || rule.walletId !== id
+            ),
+            walletSync: omitKey(state.walletSync, id),
           };
         });
 
@@ -118,9 +301,23 @@ export const useStore = create<AppStore>()(
       },
 
       updateWallet: (id, updates) => {
+        const wallet = get().wallets.find((w) => w.id === id);
+        if (!wallet) return;
+
+        let changes = updates;
+        if (updates.address !== undefined || updates.chain !== undefined) {
+          const { address, chain } = validateAddress(
+            updates.address ?? wallet.address,
+            updates.chain ?? wallet.chain
+          );
+          const others = get().wallets.filter((w) => w.id !== id);
+          assertNotTracked(others, { address, chain });
+          changes = { ...updates, address, chain };
+        }
+
         set((state) => ({
           wallets: state.wallets.map((w) =>
-            w.id === id ? { ...w, ...updates } : w
+            w.id === id ? { ...w, ...changes, id } : w
           ),
         }));
       },
@@ -129,50 +326,164 @@ export const useStore = create<AppStore>()(
         set({ activeWalletId: id });
       },
 
+      updateWalletSync: (walletId, updates) => {
+        set((state) => {
+          const current = state.walletSync[walletId] || { consecutiveFailures: 0 };
+          return {
+            walletSync: { ...state.walletSync, [walletId]: { ...current, ...updates } },
+          };
+        });
+      },
+
+      // Wallet Source Actions
+      addWalletSource: (source) => {
+        const id = `source_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const newSource = { ...source, id, addedAt: Date.now() } as WalletSource;
+
+        set((state) => ({
+          walletSources: [...state.walletSources, newSource],
+        }));
+
+        return id;
+      },
+
+      updateWalletSource: (id, updates) => {
+        set((state) => ({
+          walletSources: state.walletSources.map((source) =>
+            source.id === id ? { ...source, ...updates, id, type: source.type } : source
+          ),
+        }));
+      },
+
+      removeWalletSource: (id, removeWallets = false) => {
+        const sourced = get().wallets.filter((w) => w.sourceId === id);
+
+        set((state) => ({
+          walletSources: state.walletSources.filter((source) => source.id !== id),
+          wallets: removeWallets
+            ? state.wallets
+            : state.wallets.map((w) => (w.sourceId === id ? { ...w, sourceId: undefined } : w)),
+        }));
+
+        if (removeWallets) {
+          sourced.forEach((wallet) => get().removeWallet(wallet.id));
+        }
+      },
+
+      addSourceWallets: (sourceId, addresses, label) => {
+        const { wallets } = get();
+        const tracked = new Set(wallets.map(getAddressKey));
+        const now = Date.now();
+
+        const created: Wallet[] = [];
+        addresses.forEach((entry) => {
+          let valid: Pick<Wallet, 'address' | 'chain'>;
+          try {
+            valid = validateAddress(entry.address, entry.chain);
+          } catch (error) {
+            console.warn(`Skipping invalid address from wallet source ${sourceId}:`, error);
+            return;
+          }
+
+          const key = getAddressKey(valid);
+          if (tracked.has(key)) return;
+          tracked.add(key);
+
+          created.push({
+            id: `wallet_${now}_${Math.random().toString(36).substr(2, 9)}`,
+            address: valid.address,
+            chain: valid.chain,
+            label,
+            addedAt: now,
+            isActive: true,
+            sourceId,
+          });
+        });
+
+        if (created.length > 0) {
+          set((state) => ({
+            wallets: [...state.wallets, ...created],
+            activeWalletId: state.activeWalletId || created[0].id,
+          }));
+        }
+
+        return created;
+      },
+
       // NFT Actions
-      setNFTs: (walletId, nfts) => {
+      setNFTs: (walletId, nfts, options) => {
+        // Diff against this wallet's view of each token, so other wallets' holdings stay put
+        const previous = get().getNFTsByWallet(walletId);
+        const diff = diffWalletNFTs(previous, nfts);
+        if (options?.partial) {
+          // An incomplete fetch can't tell us what left the wallet
+          diff.transferredOut = [];
+        }
+        const reconciled = reconcileTransfers(walletId, diff, get().nfts, departures);
+        const changes = toChangeSet(walletId, { ...diff, ...reconciled });
+        const unchanged = new Set(diff.unchanged);
+        // Tokens moved from another of our wallets, with their overrides carried over
+        const moved = new Map(reconciled.internalTransfers.map(({ nft }) => [nft.id, nft]));
+        const released: NFT[] = []; // still held by another of our wallets
+        let rescored: NFT[] = [];
+
         set((state) => {
           const newNftsMap = new Map(state.nfts);
-          const newCollectionsMap = new Map(state.collections);
-
-          // Remove old NFTs for this wallet
-          Array.from(newNftsMap.values())
-            .filter((nft) => nft.walletId === walletId)
-            .forEach((nft) => newNftsMap.delete(nft.id));
-
-          // Add new NFTs
-          nfts.forEach((nft) => {
-            newNftsMap.set(nft.id, nft);
-
-            // Update collections
-            const collectionId = `${nft.chain}:${nft.contractAddress}`;
-            const existing = newCollectionsMap.get(collectionId);
-
-            if (!existing) {
-              newCollectionsMap.set(collectionId, {
-                id: collectionId,
-                name: nft.collection.name,
-                contractAddress: nft.contractAddress,
-                chain: nft.chain,
-                evmChain: nft.evmChain,
-                nftCount: 1,
-                floorPrice: nft.collection.floorPrice,
-                imageUrl: nft.collection.imageUrl,
-                description: nft.collection.description,
-              });
+
+          // A single-owner token that arrived here has left the wallet we had it in
+          reconciled.internalTransfers.forEach(({ nft, fromWalletId }) => {
+            const record = newNftsMap.get(nft.id);
+            if (!record || !isSingleOwner(nft)) return;
+            const remaining = removeWalletHolding(record, fromWalletId);
+            if (remaining) {
+              newNftsMap.set(nft.id, remaining);
+            } else {
+              newNftsMap.delete(nft.id);
+            }
+          });
+
+          // Drop this wallet's holding of NFTs that left it, then store the merged set
+          diff.transferredOut.forEach((nft) => {
+            const remaining = removeWalletHolding(newNftsMap.get(nft.id) || nft, walletId);
+            if (remaining) {
+              newNftsMap.set(nft.id, remaining);
+              released.push(remaining);
             } else {
-              newCollectionsMap.set(collectionId, {
-                ...existing,
-                nftCount: existing.nftCount + 1,
-              });
+              newNftsMap.delete(nft.id);
             }
           });
+          diff.nfts.forEach((nft) => {
+            if (unchanged.has(nft)) return;
+            const arrived = moved.get(nft.id) ?? nft;
+            newNftsMap.set(nft.id, mergeWalletView(newNftsMap.get(nft.id), arrived));
+          });
+          rescored = applyRarity(newNftsMap, state.rarityPopulations);
 
           return {
             nfts: newNftsMap,
-            collections: newCollectionsMap,
+            collections: aggregateCollections(newNftsMap.values()),
+            lastChangeSet: isEmptyChangeSet(changes) ? state.lastChangeSet : changes,
           };
         });
+
+        const { collections, nfts: stored } = get();
+        const dirtyIds = new Set(
+          [...diff.added, ...diff.changed, ...released, ...rescored].map((nft) => nft.id)
+        );
+        const dirty = Array.from(dirtyIds, (id) => stored.get(id)).filter(
+          (nft): nft is NFT => !!nft
+        );
+        const deleted = diff.transferredOut
+          .filter((nft) => !stored.has(nft.id))
+          .map((nft) => nft.id);
+        persistToDatabase(async (db) => {
+          await db.deleteNFTs(deleted);
+          await db.upsertNFTs(dirty);
+          await db.replaceCollections(Array.from(collections.values()));
+        });
+
+        emitChanges(changes);
+        return changes;
       },
 
       updateNFT: (id, updates) => {
@@ -180,26 +491,228 @@ export const useStore = create<AppStore>()(
           const newNftsMap = new Map(state.nfts);
           const existing = newNftsMap.get(id);
           if (existing) {
-            newNftsMap.set(id, { ...existing, ...updates });
+            newNftsMap.set(id, {
+              ...existing,
+              ...updates,
+              localOverrides: mergeLocalOverrides(existing, updates),
+            });
           }
-          return { nfts: newNftsMap };
+          return {
+            nfts: newNftsMap,
+            collections: aggregateCollections(newNftsMap.values()),
+          };
+        });
+
+        const updated = get().nfts.get(id);
+        if (updated) {
+          persistToDatabase((db) => db.upsertNFTs([updated]));
+        }
+      },
+
+      // Recorded as a local override, so un-hiding spam survives refreshes
+      setNFTHidden: (ids, hidden) => {
+        const updated: NFT[] = [];
+
+        set((state) => {
+          const newNftsMap = new Map(state.nfts);
+          ids.forEach((id) => {
+            const existing = newNftsMap.get(id);
+            if (!existing) return;
+            const next = {
+              ...existing,
+              hidden,
+              localOverrides: mergeLocalOverrides(existing, { hidden }),
+            };
+            newNftsMap.set(id, next);
+            updated.push(next);
+          });
+          return {
+            nfts: newNftsMap,
+            collections: aggregateCollections(newNftsMap.values()),
+          };
+        });
+
+        if (updated.length > 0) {
+          persistToDatabase((db) => db.upsertNFTs(updated));
+        }
+      },
+
+      // Kept as local overrides, so corrections survive refreshes and rule updates
+      setFarcasterOverride: (id, override) => {
+        const existing = get().nfts.get(id);
+        if (!existing) return;
+
+        const { metadata: metadataOverrides, ...otherOverrides } = existing.localOverrides || {};
+        const {
+          isFarcasterMint: _isFarcasterMint,
+          farcasterChannel: _farcasterChannel,
+          ...keptMetadata
+        } = metadataOverrides || {};
+        const metadata: Partial<NFT['metadata']> = { ...keptMetadata };
+        if (override) {
+          metadata.isFarcasterMint = override.isFarcasterMint;
+          const channel = override.isFarcasterMint ? normalizeChannel(override.channel) : undefined;
+          if (channel) metadata.farcasterChannel = channel;
+        }
+
+        const localOverrides: NFTLocalOverrides = {
+          ...otherOverrides,
+          ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+        };
+        const updated = applyDetection({
+          ...existing,
+          localOverrides: Object.keys(localOverrides).length > 0 ? localOverrides : undefined,
+        });
+
+        set((state) => ({ nfts: new Map(state.nfts).set(id, updated) }));
+        persistToDatabase((db) => db.upsertNFTs([updated]));
+      },
+
+      redetectFarcaster: (detect) => {
+        const updated: NFT[] = [];
+
+        set((state) => {
+          const newNftsMap = new Map(state.nfts);
+          state.nfts.forEach((nft, id) => {
+            const next = applyDetection(nft, detect(nft));
+            if (
+              next.metadata.isFarcasterMint === nft.metadata.isFarcasterMint &&
+              next.metadata.farcasterChannel === nft.metadata.farcasterChannel &&
+              JSON.stringify(next.metadata.farcasterDetection) ===
+                JSON.stringify(nft.metadata.farcasterDetection)
+            ) {
+              return;
+            }
+            newNftsMap.set(id, next);
+            updated.push(next);
+          });
+          return updated.length > 0 ? { nfts: newNftsMap } : {};
+        });
+
+        persistToDatabase((db) => db.upsertNFTs(updated));
+      },
+
+      applyFetchedNFT: (nft) => {
+        const existing = get().nfts.get(nft.id);
+        const view = existing && getWalletView(existing, nft.walletId);
+        const merged = mergeWalletView(
+          existing,
+          view ? mergeNFT(view, nft) : { ...nft, firstSeenAt: Date.now() }
+        );
+
+        let rescored: NFT[] = [];
+
+        set((state) => {
+          const newNftsMap = new Map(state.nfts);
+          newNftsMap.set(merged.id, merged);
+          rescored = applyRarity(newNftsMap, state.rarityPopulations);
+          return {
+            nfts: newNftsMap,
+            collections: aggregateCollections(newNftsMap.values()),
+          };
+        });
+
+        const stored = get().nfts.get(merged.id)!;
+        persistToDatabase((db) =>
+          db.upsertNFTs([stored, ...rescored.filter((nft) => nft.id !== stored.id)])
+        );
+      },
+
+      setCollectionPopulation: (collectionId, tokens) => {
+        let rescored: NFT[] = [];
+
+        set((state) => {
+          const populations = new Map(state.rarityPopulations);
+          if (tokens) {
+            populations.set(collectionId, tokens);
+          } else {
+            populations.delete(collectionId);
+          }
+          const newNftsMap = new Map(state.nfts);
+          rescored = applyRarity(newNftsMap, populations);
+          return { nfts: newNftsMap, rarityPopulations: populations };
+        });
+
+        persistToDatabase((db) => db.upsertNFTs(rescored));
+      },
+
+      setCollectionFloor: (collectionId, floorPrice) => {
+        const updated: NFT[] = [];
+
+        set((state) => {
+          const newNftsMap = new Map(state.nfts);
+          state.nfts.forEach((nft) => {
+            if (getCollectionId(nft) !== collectionId) return;
+            const current = nft.collection.floorPrice;
+            if (current?.amount === floorPrice.amount && current?.currency === floorPrice.currency) {
+              return;
+            }
+            const next: NFT = { ...nft, collection: { ...nft.collection, floorPrice } };
+            newNftsMap.set(nft.id, next);
+            updated.push(next);
+          });
+
+          if (updated.length === 0) return {};
+          return {
+            nfts: newNftsMap,
+            collections: aggregateCollections(newNftsMap.values()),
+          };
+        });
+
+        if (updated.length === 0) return;
+        const { collections } = get();
+        persistToDatabase(async (db) => {
+          await db.upsertNFTs(updated);
+          await db.replaceCollections(Array.from(collections.values()));
         });
       },
 
       removeNFTsByWallet: (walletId) => {
+        const removed = get().getNFTsByWallet(walletId);
+        const changes: NFTChangeSet = {
+          ...toChangeSet(walletId, { added: [], changed: [], transferredOut: [] }),
+          removed,
+        };
+
+        const released: NFT[] = []; // still held by another of our wallets
+        let rescored: NFT[] = [];
+
         set((state) => {
           const newNftsMap = new Map(state.nfts);
-          Array.from(newNftsMap.values())
-            .filter((nft) => nft.walletId === walletId)
-            .forEach((nft) => newNftsMap.delete(nft.id));
-          return { nfts: newNftsMap };
+          removed.forEach((nft) => {
+            const remaining = removeWalletHolding(newNftsMap.get(nft.id) || nft, walletId);
+            if (remaining) {
+              newNftsMap.set(nft.id, remaining);
+              released.push(remaining);
+            } else {
+              newNftsMap.delete(nft.id);
+            }
+          });
+          rescored = applyRarity(newNftsMap, state.rarityPopulations);
+          return {
+            nfts: newNftsMap,
+            collections: aggregateCollections(newNftsMap.values()),
+            lastChangeSet: isEmptyChangeSet(changes) ? state.lastChangeSet : changes,
+          };
+        });
+
+        const { collections } = get();
+        persistToDatabase(async (db) => {
+          // Rows are keyed by the first holder, so re-save what other wallets still hold
+          await db.removeNFTsByWallet(walletId);
+          await db.upsertNFTs([...released, ...rescored]);
+          await db.replaceCollections(Array.from(collections.values()));
         });
+        emitChanges(changes);
       },
 
       getNFTsByWallet: (walletId) => {
-        return Array.from(get().nfts.values()).filter(
-          (nft) => nft.walletId === walletId
-        );
+        const held: NFT[] = [];
+        get().nfts.forEach((nft) => {
+          const view = getWalletView(nft, walletId);
+          if (view) held.push(view);
+        });
+        return held;
       },
 
       getAllNFTs: () => {
@@ -268,10 +781,50 @@ export const useStore = create<AppStore>()(
         }));
       },
 
+      // Alert Actions
+      addAlertRule: (rule) => {
+        const id = `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const newRule = {
+          ...rule,
+          id,
+          enabled: rule.enabled ?? true,
+          createdAt: Date.now(),
+        } as AlertRule;
+
+        set((state) => ({
+          alertRules: [...state.alertRules, newRule],
+        }));
+
+        return id;
+      },
+
+      updateAlertRule: (id, updates) => {
+        set((state) => ({
+          alertRules: state.alertRules.map((rule) =>
+            rule.id === id ? ({ ...rule, ...updates, id, type: rule.type } as AlertRule) : rule
+          ),
+        }));
+      },
+
+      removeAlertRule: (id) => {
+        set((state) => ({
+          alertRules: state.alertRules.filter((rule) => rule.id !== id),
+        }));
+      },
+
+      setHeldAlerts: (notifications) => set({ heldAlerts: notifications }),
+
       // UI Actions
       setViewMode: (mode) => set({ viewMode: mode }),
       setSortMode: (mode) => set({ sortMode: mode }),
       setFilterOptions: (options) => set({ filterOptions: options }),
+      setSearchQuery: (query) => set({ searchQuery: query }),
+
+      // Price Actions
+      setPriceTable: (table) => set({ priceTable: table }),
+
+      // History Actions
+      markHistoryUpdated: () => set({ historyUpdatedAt: Date.now() }),
 
       // Settings Actions
       updateSettings: (updates) => {
@@ -285,22 +838,54 @@ export const useStore = create<AppStore>()(
         set({
           wallets: [],
           activeWalletId: undefined,
+          walletSync: {},
+          walletSources: [],
           nfts: new Map(),
           collections: new Map(),
+          rarityPopulations: new Map(),
           customGroups: [],
+          alertRules: [],
+          heldAlerts: [],
           filterOptions: {},
+          searchQuery: '',
         });
+        departures.clear();
+
+        persistToDatabase((db) => db.clear());
       },
     }),
     {
       name: 'nft-app-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      // 1: NFT and collection ids moved to the canonical format (see nft/ids)
+      // 2: EVM wallet addresses checksummed and wallets sharing an address merged
+      version: 2,
+      migrate: (persisted, version) => {
+        let stored = (persisted || {}) as Partial<AppStore>;
+        if (version < 1) stored = migratePersistedIds(stored);
+        if (version < 2) stored = migratePersistedWallets(stored);
+        return stored as AppStore;
+      },
+      // Fill in settings added since the persisted copy was written
+      merge: (persisted, current) => {
+        const stored = (persisted || {}) as Partial<AppStore>;
+        return {
+          ...current,
+          ...stored,
+          settings: { ...defaultSettings, ...stored.settings },
+        };
+      },
       partialize: (state) => ({
-        // Only persist these fields
+        // Only persist these fields; NFTs and collections live in SQLite
         wallets: state.wallets,
         activeWalletId: state.activeWalletId,
+        walletSync: state.walletSync,
+        walletSources: state.walletSources,
         customGroups: state.customGroups,
+        alertRules: state.alertRules,
+        heldAlerts: state.heldAlerts,
         settings: state.settings,
+        priceTable: state.priceTable,
         viewMode: state.viewMode,
         sortMode: state.sortMode,
       }),
@@ -308,6 +893,230 @@ export const useStore = create<AppStore>()(
   )
 );
 
+// Shared search index, updated whenever the NFT map is replaced rather than during render
+const searchIndex = new NFTSearchIndex();
+
+useStore.subscribe((state, prevState) => {
+  if (state.nfts !== prevState.nfts) searchIndex.sync(state.nfts);
+});
+
+// NFT change listeners (UI, notifications)
+const changeListeners = new Set<(changes: NFTChangeSet) => void>();
+
+function emitChanges(changes: NFTChangeSet): void {
+  if (isEmptyChangeSet(changes)) return;
+  changeListeners.forEach((listener) => listener(changes));
+}
+
+/**
+ * Subscribe to NFT change sets produced by setNFTs and removeNFTsByWallet
+ */
+export function subscribeToNFTChanges(
+  listener: (changes: NFTChangeSet) => void
+): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Recompute rarity in place, replacing only NFTs whose rarity changed.
+ * Returns the replaced NFTs so callers can persist them.
+ */
+function applyRarity(
+  nfts: Map<string, NFT>,
+  populations: Map<string, TraitToken[]>
+): NFT[] {
+  const scores = computeRarity(nfts.values(), populations);
+  const updated: NFT[] = [];
+
+  nfts.forEach((nft, id) => {
+    const rarity = scores.get(id);
+    if (
+      rarity?.score === nft.rarity?.score &&
+      rarity?.rank === nft.rarity?.rank &&
+      rarity?.total === nft.rarity?.total
+    ) {
+      return;
+    }
+    const next = { ...nft, rarity };
+    nfts.set(id, next);
+    updated.push(next);
+  });
+
+  return updated;
+}
+
+// Fields updateNFT never treats as local edits
+const NON_OVERRIDABLE_FIELDS = new Set<string>([
+  'id',
+  'walletId',
+  'lastFetched',
+  'firstSeenAt',
+  'quantity',
+  'holdings',
+  'localOverrides',
+]);
+
+/**
+ * Record fields changed via updateNFT so refreshes don't clobber them
+ */
+function mergeLocalOverrides(existing: NFT, updates: Partial<NFT>): NFTLocalOverrides | undefined {
+  const overrides: Record<string, unknown> = { ...existing.localOverrides };
+
+  Object.entries(updates).forEach(([key, value]) => {
+    if (NON_OVERRIDABLE_FIELDS.has(key) || key === 'metadata') return;
+    overrides[key] = value;
+  });
+
+  if (updates.metadata) {
+    const metadataOverrides: Record<string, unknown> = { ...existing.localOverrides?.metadata };
+    Object.entries(updates.metadata).forEach(([key, value]) => {
+      if (existing.metadata[key as keyof NFT['metadata']] !== value) {
+        metadataOverrides[key] = value;
+      }
+    });
+    if (Object.keys(metadataOverrides).length > 0) {
+      overrides.metadata = metadataOverrides;
+    }
+  }
+
+  return Object.keys(overrides).length > 0 ? (overrides as NFTLocalOverrides) : undefined;
+}
+
+/**
+ * Attach the offline database: hydrate NFTs and collections from it, then
+ * mirror subsequent NFT, wallet and group changes into it.
+ * Returns a function that detaches the database.
+ */
+export async function connectDatabase(db: NFTDatabase): Promise<() => void> {
+  const storedNFTs = await db.loadNFTs();
+
+  // Anything fetched while we were loading wins over the stored copy
+  useStore.setState((state) => {
+    const nfts = new Map([
+      ...storedNFTs.map((nft): [string, NFT] => [nft.id, nft]),
+      ...state.nfts,
+    ]);
+    return { nfts, collections: aggregateCollections(nfts.values()) };
+  });
+
+  database = db;
+
+  const { wallets, customGroups } = useStore.getState();
+  persistToDatabase(async (target) => {
+    await target.replaceWallets(wallets);
+    await target.replaceGroups(customGroups);
+  });
+
+  // The kept wallet's next sync brings these back under its own id
+  const merged = mergedWalletIds;
+  mergedWalletIds = [];
+  merged.forEach((walletId) => useStore.getState().removeNFTsByWallet(walletId));
+
+  const unsubscribe = useStore.subscribe((state, prevState) => {
+    if (state.wallets !== prevState.wallets) {
+      persistToDatabase((target) => target.replaceWallets(state.wallets));
+    }
+    if (state.customGroups !== prevState.customGroups) {
+      persistToDatabase((target) => target.replaceGroups(state.customGroups));
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (database === db) {
+      database = undefined;
+    }
+  };
+}
+
+/**
+ * Rewrite group members and alert rule collections written with version 1 ids.
+ * Ids that can't be resolved are dropped from groups and left as-is on rules.
+ */
+function migratePersistedIds(stored: Partial<AppStore>): Partial<AppStore> {
+  return {
+    ...stored,
+    customGroups: stored.customGroups?.map((group) => ({
+      ...group,
+      nftIds: [
+        ...new Set(
+          group.nftIds
+            .map(toCanonicalNFTId)
+            .filter((id): id is string => id !== undefined)
+        ),
+      ],
+    })),
+    alertRules: stored.alertRules?.map((rule) =>
+      'collectionId' in rule
+        ? { ...rule, collectionId: toCanonicalCollectionId(rule.collectionId) ?? rule.collectionId }
+        : rule
+    ),
+  };
+}
+
+/**
+ * Checksum EVM addresses stored before addWallet did, and merge wallets that
+ * then share an address into the one added first. References to a merged
+ * wallet move to the kept one; its NFTs are dropped once the database connects.
+ */
+function migratePersistedWallets(stored: Partial<AppStore>): Partial<AppStore> {
+  if (!stored.wallets) return stored;
+
+  const kept = new Map<string, Wallet>(); // address key -> wallet
+  const replacedBy = new Map<string, string>(); // merged wallet id -> kept wallet id
+  stored.wallets.forEach((wallet) => {
+    const normalized =
+      wallet.chain === 'evm' && detectChain(wallet.address) === 'evm'
+        ? { ...wallet, address: toChecksumAddress(wallet.address.trim()) }
+        : wallet;
+    const key = getAddressKey(normalized);
+    const existing = kept.get(key);
+    if (existing) {
+      replacedBy.set(wallet.id, existing.id);
+    } else {
+      kept.set(key, normalized);
+    }
+  });
+
+  mergedWalletIds = [...replacedBy.keys()];
+  const replace = (id: string) => replacedBy.get(id) ?? id;
+
+  return {
+    ...stored,
+    wallets: [...kept.values()],
+    activeWalletId: stored.activeWalletId && replace(stored.activeWalletId),
+    walletSync:
+      stored.walletSync &&
+      [...replacedBy.keys()].reduce((sync, id) => omitKey(sync, id), stored.walletSync),
+    alertRules: stored.alertRules?.map((rule) =>
+      'walletId' in rule && rule.walletId ? { ...rule, walletId: replace(rule.walletId) } : rule
+    ),
+  };
+}
+
+/**
+ * Throw AddressValidationError if one of `wallets` already has the address
+ */
+function assertNotTracked(wallets: Wallet[], candidate: Pick<Wallet, 'address' | 'chain'>): void {
+  const duplicate = findDuplicateWallet(wallets, candidate);
+  if (duplicate) {
+    throw new AddressValidationError(
+      'duplicate',
+      `This wallet is already added as ${getWalletDisplayName(duplicate)}`,
+      duplicate.id
+    );
+  }
+}
+
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  if (!(key in record)) return record;
+  const { [key]: _omitted, ...rest } = record;
+  return rest;
+}
+
 // Helper function to generate random colors for groups
 function getRandomColor(): string {
   const colors = [
@@ -332,8 +1141,174 @@ export const useActiveWallet = () => {
   const wallets = useStore((state) => state.wallets);
   return wallets.find((w) => w.id === activeId);
 };
+export const useWalletSync = (walletId: string) =>
+  useStore((state) => state.walletSync[walletId]);
 export const useNFTs = () => useStore((state) => state.getAllNFTs());
+export const useFilteredNFTs = () => {
+  const nfts = useStore((state) => state.nfts);
+  const filterOptions = useStore((state) => state.filterOptions);
+  const customGroups = useStore((state) => state.customGroups);
+  const holdingsDisplay = useStore((state) => state.settings.holdingsDisplay);
+  return useMemo(() => {
+    // Split before filtering so a wallet filter keeps only that wallet's items
+    const items =
+      holdingsDisplay === 'separate'
+        ? Array.from(nfts.values()).flatMap(splitByWallet)
+        : Array.from(nfts.values());
+    return applyFilters(items, filterOptions, { customGroups, nfts });
+  }, [nfts, filterOptions, customGroups, holdingsDisplay]);
+};
+
+/**
+ * Tokens held by more than one of our wallets
+ */
+export const useSharedNFTs = () => {
+  const nfts = useStore((state) => state.nfts);
+  return useMemo(
+    () => Array.from(nfts.values()).filter((nft) => getHoldings(nft).length > 1),
+    [nfts]
+  );
+};
+
+/**
+ * Filtered NFTs narrowed by the current search query, ranked by relevance
+ */
+export const useSearchResults = () => {
+  const searchQuery = useStore((state) => state.searchQuery);
+  const filtered = useFilteredNFTs();
+  return useMemo(() => {
+    if (!searchQuery.trim()) return filtered;
+    // Map hits back onto the filtered items, which may be per-wallet splits
+    const itemsById = new Map<string, NFT[]>();
+    filtered.forEach((nft) => {
+      itemsById.set(nft.id, [...(itemsById.get(nft.id) || []), nft]);
+    });
+    return searchIndex
+      .search(searchQuery, filtered)
+      .flatMap((result) => itemsById.get(result.nft.id) || []);
+  }, [searchQuery, filtered]);
+};
+
+/**
+ * Farcaster channels among visible NFTs, most mints first
+ */
+export const useFarcasterChannels = () => {
+  const nfts = useStore((state) => state.nfts);
+  return useMemo(
+    () => summarizeChannels(applyVisibility(Array.from(nfts.values()), 'visible')),
+    [nfts]
+  );
+};
+
+/**
+ * NFTs in the hidden/spam bucket, regardless of the current filters
+ */
+export const useHiddenNFTs = () => {
+  const nfts = useStore((state) => state.nfts);
+  return useMemo(() => applyVisibility(Array.from(nfts.values()), 'hidden'), [nfts]);
+};
+export const useHiddenCount = () => useHiddenNFTs().length;
+export const useSearchQuery = () => useStore((state) => state.searchQuery);
+export const useFilterOptions = () => useStore((state) => state.filterOptions);
 export const useNFTsByWallet = (walletId: string) =>
   useStore((state) => state.getNFTsByWallet(walletId));
+export const useCollections = () => {
+  const collections = useStore((state) => state.collections);
+  return useMemo(() => sortCollections(collections.values()), [collections]);
+};
+export const useCollection = (id: string) =>
+  useStore((state) => state.collections.get(id));
+export const useCollectionsByWallet = (walletId: string) => {
+  const collections = useStore((state) => state.collections);
+  return useMemo(
+    () => sortCollections(filterCollectionsByWallet(collections.values(), walletId)),
+    [collections, walletId]
+  );
+};
+export const usePriceTable = () => useStore((state) => state.priceTable);
+export const usePortfolioValuation = () => {
+  const nfts = useStore((state) => state.nfts);
+  const wallets = useStore((state) => state.wallets);
+  const priceTable = useStore((state) => state.priceTable);
+  const quote = useStore((state) => state.settings.quoteCurrency);
+  return useMemo(
+    () =>
+      valuePortfolio(
+        nfts.values(),
+        priceTable && priceTable.quote === quote
+          ? priceTable
+          : { quote, rates: {}, fetchedAt: 0 },
+        wallets
+      ),
+    [nfts, wallets, priceTable, quote]
+  );
+};
+
+/**
+ * Floor history for a collection over the longest change window, oldest first
+ */
+export const useFloorHistory = (collectionId: string) => {
+  const updatedAt = useStore((state) => state.historyUpdatedAt);
+  const [history, setHistory] = useState<{ points: ValuePoint[]; currency?: string }>({
+    points: [],
+  });
+
+  useEffect(() => {
+    if (!database) return;
+    let cancelled = false;
+    const since = Date.now() - CHANGE_WINDOWS['30d'];
+
+    database
+      .loadFloorSnapshots(collectionId, since)
+      .then((snapshots) => {
+        if (cancelled) return;
+        // A collection can change its floor currency; chart the latest one only
+        const currency = snapshots[snapshots.length - 1]?.currency;
+        setHistory({
+          currency,
+          points: snapshots
+            .filter((s) => s.currency === currency)
+            .map((s) => ({ timestamp: s.timestamp, value: s.amount })),
+        });
+      })
+      .catch((error) => console.warn('Failed to load floor history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [collectionId, updatedAt]);
+
+  return history;
+};
+
+/**
+ * Portfolio value history in the current quote currency, oldest first
+ */
+export const usePortfolioHistory = () => {
+  const updatedAt = useStore((state) => state.historyUpdatedAt);
+  const quote = useStore((state) => state.settings.quoteCurrency);
+  const [points, setPoints] = useState<ValuePoint[]>([]);
+
+  useEffect(() => {
+    if (!database) return;
+    let cancelled = false;
+    const since = Date.now() - CHANGE_WINDOWS['30d'];
+
+    database
+      .loadPortfolioSnapshots(quote, since)
+      .then((snapshots) => {
+        if (cancelled) return;
+        setPoints(snapshots.map((s) => ({ timestamp: s.timestamp, value: s.total })));
+      })
+      .catch((error) => console.warn('Failed to load portfolio history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [quote, updatedAt]);
+
+  return points;
+};
 export const useCustomGroups = () => useStore((state) => state.customGroups);
+export const useAlertRules = () => useStore((state) => state.alertRules);
 export const useSettings = () => useStore((state) => state.settings);
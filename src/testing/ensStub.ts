@@ -0,0 +1,104 @@
+/**
+ * ENS Stub Node
+ * JSON-RPC endpoint answering the registry and resolver calls EnsResolver
+ * makes (resolver, addr, name, text) from a table of names
+ */
+
+import { namehash } from '../services/names/ens';
+import { toHex, utf8Encode } from '../utils/keccak';
+import { startStubServer, type StubRequest, type StubServer } from './stubServer';
+
+// The ENS public resolver, serving every stubbed name
+export const STUB_RESOLVER = '0x231b0ee14048e9dccd1d247744d114a4eb5e8e63';
+
+export interface EnsStubName {
+  address?: string;
+  avatar?: string;
+  revert?: boolean; // addr() reverts, like a resolver without the function
+}
+
+export interface EnsStubConfig {
+  registry: string;
+  /**
+   * Forward records by name. Read on every call, so tests can re-point names.
+   */
+  names: Record<string, EnsStubName>;
+  /**
+   * Primary names by address, under `reverseNamespace`
+   */
+  reverse?: Record<string, string>;
+  reverseNamespace?: string;
+}
+
+interface EthCallRequest {
+  id: unknown;
+  method: string;
+  params: { to: string; data: string }[];
+}
+
+/**
+ * Contract an eth_call request was sent to
+ */
+export function callTarget(request: StubRequest): string {
+  return (request.body as EthCallRequest).params[0].to;
+}
+
+/**
+ * Start a JSON-RPC stub for one chain's name registry
+ */
+export function startEnsStub(config: EnsStubConfig): Promise<StubServer> {
+  const namespace = config.reverseNamespace || 'addr.reverse';
+
+  return startStubServer((request) => {
+    const { id, method, params } = request.body as EthCallRequest;
+    if (method !== 'eth_call') {
+      return { body: { jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } } };
+    }
+
+    const { to, data } = params[0];
+    const selector = data.slice(2, 10);
+    const node = data.slice(10, 74);
+    const forward = Object.keys(config.names).find((name) => namehash(name) === node);
+    const reverse = Object.keys(config.reverse || {}).find(
+      (address) => namehash(`${address.toLowerCase().slice(2)}.${namespace}`) === node
+    );
+    const result = (value: string) => ({ body: { jsonrpc: '2.0', id, result: `0x${value}` } });
+
+    if (to.toLowerCase() === config.registry.toLowerCase() && selector === '0178b8bf') {
+      return result(encodeAddress(forward || reverse ? STUB_RESOLVER : undefined));
+    }
+    if (to.toLowerCase() !== STUB_RESOLVER) {
+      return result('');
+    }
+
+    const record = forward ? config.names[forward] : undefined;
+    switch (selector) {
+      case '3b3b57de': // addr(bytes32)
+        if (record?.revert) {
+          const error = { code: 3, message: 'execution reverted' };
+          return { body: { jsonrpc: '2.0', id, error } };
+        }
+        return result(encodeAddress(record?.address));
+      case '691f3431': // name(bytes32)
+        return result(encodeString(reverse ? config.reverse![reverse] : ''));
+      case '59d1d43c': // text(bytes32,string)
+        return result(encodeString(record?.avatar || ''));
+      default:
+        return result('');
+    }
+  });
+}
+
+function encodeAddress(address?: string): string {
+  return (address ? address.toLowerCase().slice(2) : '').padStart(64, '0');
+}
+
+function encodeString(value: string): string {
+  const bytes = toHex(utf8Encode(value));
+  const padded = bytes.padEnd(Math.ceil(bytes.length / 64) * 64, '0');
+  return word(32) + word(bytes.length / 2) + padded;
+}
+
+function word(value: number): string {
+  return value.toString(16).padStart(64, '0');
+}
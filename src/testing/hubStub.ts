@@ -0,0 +1,86 @@
+/**
+ * Farcaster Hub Stub
+ * HTTP API endpoints FarcasterHubClient reads (username proofs, user data,
+ * custody and verifications) served from a table of accounts
+ */
+
+import { startStubServer, type StubServer } from './stubServer';
+
+export interface HubStubAccount {
+  fid: number;
+  username?: string;
+  custodyAddress?: string;
+  verifiedAddresses: string[]; // Ethereum addresses, in verification order
+}
+
+export interface HubStubConfig {
+  /**
+   * Read on every request, so tests can rename accounts and add verifications
+   */
+  accounts: HubStubAccount[];
+  /**
+   * Answer every request with a 503 while set
+   */
+  unavailable?: boolean;
+}
+
+const notFound = (details: string) => ({
+  status: 400,
+  body: { errCode: 'not_found', presentable: false, name: 'HubError', code: 3, details },
+});
+
+/**
+ * Start a hub stub on a free local port
+ */
+export function startHubStub(config: HubStubConfig): Promise<StubServer> {
+  return startStubServer((request) => {
+    if (config.unavailable) return { status: 503 };
+
+    const params = request.url.searchParams;
+    const name = params.get('name');
+    const fid = Number(params.get('fid'));
+    const account = config.accounts.find((a) =>
+      name !== null ? a.username === name : a.fid === fid
+    );
+
+    switch (request.url.pathname) {
+      case '/v1/userNameProofByName':
+        return account?.username
+          ? { body: { name, owner: account.custodyAddress, fid: account.fid, timestamp: 1 } }
+          : notFound(`NotFound: userNameProof not found for ${name}`);
+      case '/v1/onChainIdRegistryEventByFid':
+        return account
+          ? { body: { fid, idRegisterEventBody: { to: account.custodyAddress } } }
+          : notFound('NotFound: no id registry event');
+      case '/v1/userDataByFid':
+        return account?.username
+          ? {
+              body: {
+                data: {
+                  type: 'MESSAGE_TYPE_USER_DATA_ADD',
+                  fid,
+                  timestamp: 1,
+                  userDataBody: { type: 'USER_DATA_TYPE_USERNAME', value: account.username },
+                },
+              },
+            }
+          : notFound('NotFound: no user data');
+      case '/v1/verificationsByFid':
+        return {
+          body: {
+            messages: (account?.verifiedAddresses || []).map((address, index) => ({
+              data: {
+                type: 'MESSAGE_TYPE_VERIFICATION_ADD_ETH_ADDRESS',
+                fid,
+                timestamp: index + 2,
+                verificationAddAddressBody: { address, protocol: 'PROTOCOL_ETHEREUM' },
+              },
+            })),
+            nextPageToken: '',
+          },
+        };
+      default:
+        return { status: 404 };
+    }
+  });
+}
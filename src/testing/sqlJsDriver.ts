@@ -0,0 +1,53 @@
+/**
+ * In-Memory SQLite Driver
+ * sql.js (SQLite compiled to WebAssembly) behind the SQLiteDriver interface,
+ * so NFTDatabase can be tested on Node
+ */
+
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type { SQLiteDriver, SQLValue } from '../services/storage/database';
+
+export interface InMemoryDriver extends SQLiteDriver {
+  close: () => void;
+}
+
+/**
+ * Open a fresh in-memory database. Like expo-sqlite, a transaction started
+ * while another is open fails instead of joining it.
+ */
+export async function createInMemoryDriver(): Promise<InMemoryDriver> {
+  const SQL = await initSqlJs();
+  const db: Database = new SQL.Database();
+
+  return {
+    execAsync: async (sql) => {
+      db.exec(sql);
+    },
+    runAsync: async (sql, params = []) => {
+      db.run(sql, params as SqlValue[]);
+    },
+    getAllAsync: async <T>(sql: string, params: SQLValue[] = []) => {
+      const statement = db.prepare(sql, params as SqlValue[]);
+      const rows: T[] = [];
+      try {
+        while (statement.step()) {
+          rows.push(statement.getAsObject() as T);
+        }
+      } finally {
+        statement.free();
+      }
+      return rows;
+    },
+    withTransactionAsync: async (task) => {
+      db.exec('BEGIN');
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    close: () => db.close(),
+  };
+}
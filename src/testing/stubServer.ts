@@ -0,0 +1,83 @@
+/**
+ * Stub Server
+ * Local HTTP server for testing API clients against canned JSON responses
+ */
+
+import { createServer, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  path: string; // with the query string
+  url: URL;
+  body?: unknown; // parsed JSON
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown; // sent as JSON
+}
+
+export interface StubServer {
+  url: string; // http://127.0.0.1:{port}
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+export type StubHandler = (request: StubRequest) => StubResponse | Promise<StubResponse>;
+
+/**
+ * Start a server on a free local port. Every request is recorded before the
+ * handler answers it; a handler that throws answers 500.
+ */
+export async function startStubServer(handler: StubHandler): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    let response: StubResponse;
+    try {
+      const body = await readBody(req);
+      const request: StubRequest = {
+        method: req.method || 'GET',
+        path: req.url || '/',
+        url: new URL(req.url || '/', 'http://127.0.0.1'),
+        body: body ? JSON.parse(body) : undefined,
+      };
+      requests.push(request);
+      response = await handler(request);
+    } catch (error) {
+      response = { status: 500, body: { error: String(error) } };
+    }
+
+    res.writeHead(response.status ?? 200, {
+      'Content-Type': 'application/json',
+      ...response.headers,
+    });
+    res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        // fetch keeps connections alive; drop them so close doesn't wait on them
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
@@ -17,7 +17,8 @@ export type SortMode =
   | 'collection'
   | 'farcaster'
   | 'custom'
-  | 'value';
+  | 'value'
+  | 'rarity';
 
 export type ViewMode = 'grid' | 'list';
 
@@ -30,12 +31,56 @@ export interface Wallet {
   color?: string;
   addedAt: number;
   isActive?: boolean;
+  sourceId?: string; // WalletSource that created the wallet, if any
+  name?: WalletName;
 }
 
+export type NameService = 'ens' | 'basenames' | 'sns';
+
+/**
+ * A human-readable name for a wallet (vitalik.eth, name.base.eth, name.sol)
+ */
+export interface WalletName {
+  name: string;
+  service: NameService;
+  /**
+   * 'input': the user added the wallet by this name.
+   * 'reverse': the address's primary name.
+   */
+  source: 'input' | 'reverse';
+  avatarUrl?: string;
+  verifiedAt: number; // last time the name resolved to the wallet's address
+  /**
+   * Set when the name stopped resolving to the wallet: re-pointed to
+   * another address, or to none
+   */
+  mismatch?: {
+    resolvedTo?: string;
+    detectedAt: number;
+  };
+}
+
+/**
+ * Farcaster account whose custody and verified addresses are imported as wallets
+ */
+export interface FarcasterWalletSource {
+  id: string;
+  type: 'farcaster';
+  fid: number;
+  username?: string;
+  addedAt: number;
+  lastCheckedAt?: number; // last successful re-check
+  lastError?: string; // message from the most recent failed re-check
+}
+
+// Where wallets can be imported from, besides adding them by hand
+export type WalletSource = FarcasterWalletSource;
+
 export interface NFTAttribute {
   trait_type: string;
   value: string | number;
-  display_type?: string;
+  display_type?: string; // number | boost_number | boost_percentage | date
+  max_value?: number;
 }
 
 export interface NFTCollection {
@@ -50,18 +95,68 @@ export interface NFTCollection {
   };
 }
 
+export interface FarcasterSignalMatch {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+/**
+ * What the Farcaster detector concluded, before any user override
+ */
+export interface FarcasterDetection {
+  isFarcasterMint: boolean;
+  channel?: string;
+  confidence: number; // 0-1
+  signals: FarcasterSignalMatch[];
+  rulesVersion: number;
+}
+
+// User correction: "not a Farcaster mint", or "channel is X"
+export type FarcasterOverride =
+  | { isFarcasterMint: false }
+  | { isFarcasterMint: true; channel?: string };
+
+export interface FarcasterChannel {
+  id: string; // e.g. 'art', as in /art
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  url?: string;
+  followerCount?: number;
+}
+
+/**
+ * The cast an NFT was minted from
+ */
+export interface FarcasterCast {
+  hash: string;
+  author: {
+    fid: number;
+    username?: string;
+    displayName?: string;
+    pfpUrl?: string;
+  };
+  text: string;
+  timestamp: number;
+  channelId?: string;
+  frameUrl?: string; // set when the mint went through a frame
+}
+
 export interface NFTMetadata {
   attributes?: NFTAttribute[];
-  isFarcasterMint: boolean;
+  isFarcasterMint: boolean; // detection, or the user's override
   farcasterChannel?: string;
+  farcasterDetection?: FarcasterDetection;
   mintedAt?: number;
+  mintedBy?: string; // contract the token was minted through (Alchemy v3 `mint.mintAddress`), lowercase
   creator?: string;
   royalties?: number;
 }
 
 export interface NFT {
-  id: string; // composite: {chain}:{contract}:{tokenId}
-  walletId: string;
+  id: string; // canonical, CAIP-19 style: eip155:{chainId}/nft:{contract}/{tokenId}; see services/nft/ids
+  walletId: string; // first wallet holding it; see `holdings` when several do
   chain: ChainType;
   evmChain?: EVMChain;
   contractAddress: string;
@@ -75,22 +170,113 @@ export interface NFT {
   collection: NFTCollection;
   metadata: NFTMetadata;
   lastFetched: number;
+  rarity?: NFTRarity;
+  firstSeenAt?: number; // when this NFT first appeared in the wallet
+  quantity?: number; // copies held (ERC-1155 balance), across all holdings; 1 when omitted
+  holdings?: NFTHolding[]; // per-wallet ownership, only when more than one wallet holds it
+  tokenStandard?: TokenStandard;
+  compressed?: boolean; // Solana state-compressed (cNFT)
+  ownershipState?: NFTOwnershipState;
+  spam?: NFTSpamInfo;
+  hidden?: boolean; // user choice; overrides the spam verdict when set
+  localOverrides?: NFTLocalOverrides; // fields edited locally via updateNFT
+}
+
+export interface NFTHolding {
+  walletId: string;
+  quantity: number;
+  firstSeenAt?: number;
+}
+
+export type TokenStandard =
+  | 'erc721'
+  | 'erc1155'
+  | 'metaplex' // Token Metadata NFT
+  | 'pnft' // Token Metadata programmable NFT
+  | 'cnft' // Bubblegum compressed NFT
+  | 'core'; // Metaplex Core asset
+
+export interface NFTOwnershipState {
+  frozen: boolean;
+  delegated: boolean;
+  staked: boolean; // locked in place by its delegate, e.g. a staking program
+  delegate?: string;
+}
+
+// Lock and storage states an NFT can be filtered by
+export type NFTAssetState = 'compressed' | 'frozen' | 'delegated' | 'staked';
+
+export interface NFTSpamInfo {
+  isSpam: boolean;
+  reasons: string[];
+  source: 'provider' | 'heuristic';
+}
+
+export type NFTLocalOverrides = Partial<
+  Omit<
+    NFT,
+    | 'id'
+    | 'walletId'
+    | 'metadata'
+    | 'rarity'
+    | 'lastFetched'
+    | 'firstSeenAt'
+    | 'quantity'
+    | 'holdings'
+    | 'localOverrides'
+  >
+> & {
+  metadata?: Partial<NFTMetadata>;
+};
+
+export type RaritySource = 'owned' | 'collection';
+
+export interface NFTRarity {
+  score: number; // statisticalScore + traitCountScore, higher is rarer
+  statisticalScore: number;
+  traitCountScore: number;
+  rank: number; // 1 = rarest
+  total: number; // population size the rank is out of
+  source: RaritySource; // owned tokens only, or the full collection
+  computedAt: number;
+}
+
+export interface NFTChangeSet {
+  walletId: string;
+  timestamp: number;
+  added: NFT[];
+  changed: NFT[];
+  removed: NFT[]; // dropped because the wallet was removed or cleared
+  transferredOut: NFT[]; // no longer held by the wallet after a sync
+  internalTransfers: NFTInternalTransfer[]; // arrived from another of our wallets
+}
+
+export interface NFTInternalTransfer {
+  nft: NFT; // as now held by the receiving wallet
+  fromWalletId: string;
+  toWalletId: string;
 }
 
 export interface Collection {
-  id: string; // {chain}:{contractAddress}
+  id: string; // canonical: eip155:{chainId}/nft:{contract} or solana:{genesis}/collection:{address}
   name: string;
   contractAddress: string;
   chain: ChainType;
   evmChain?: EVMChain;
-  nftCount: number;
+  nftCount: number; // total owned across all wallets
+  walletCounts: Record<string, number>; // walletId -> owned count
   floorPrice?: {
     amount: number;
     currency: string;
   };
+  totalFloorValue?: {
+    amount: number;
+    currency: string;
+  };
   imageUrl?: string;
   description?: string;
   externalUrl?: string;
+  firstAcquiredAt?: number;
 }
 
 export interface CustomGroup {
@@ -104,12 +290,33 @@ export interface CustomGroup {
   updatedAt: number;
 }
 
+export type MediaType = 'image' | 'video' | 'audio' | 'html' | 'model' | 'unknown';
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface AttributeFilter {
+  trait_type: string;
+  value: string | number;
+}
+
+export type NFTVisibility = 'visible' | 'hidden' | 'all';
+
 export interface FilterOptions {
-  collections?: string[];
+  collections?: string[]; // collection ids
   farcaster?: boolean;
   customGroups?: string[];
   chains?: ChainType[];
+  evmChains?: EVMChain[];
   wallets?: string[];
+  hasFloorPrice?: boolean;
+  mediaTypes?: MediaType[];
+  tokenStandards?: TokenStandard[];
+  assetStates?: NFTAssetState[];
+  attributes?: AttributeFilter[];
+  multiWallet?: boolean; // held by more than one of our wallets
+  visibility?: NFTVisibility; // hidden/spam scope (default 'visible')
+  combinator?: FilterCombinator; // how criteria combine (default 'and')
+  attributeCombinator?: FilterCombinator; // how attribute pairs combine (default 'and')
 }
 
 export interface AppSettings {
@@ -120,11 +327,177 @@ export interface AppSettings {
   defaultSort: SortMode;
   imageQuality: 'low' | 'medium' | 'high';
   enableNotifications: boolean;
+  quietHours?: QuietHours; // alerts raised in this window are held until it ends
+  quoteCurrency: string; // fiat currency for portfolio totals, e.g. 'USD'
+  holdingsDisplay: HoldingsDisplay; // tokens held by several wallets: one item or one per wallet
+}
+
+export type HoldingsDisplay = 'merged' | 'separate';
+
+export interface QuietHours {
+  start: number; // hour of day, 0-23, local time
+  end: number; // hour of day, 0-23; may be before start to span midnight
+}
+
+// Alert Types
+
+interface AlertRuleBase {
+  id: string;
+  enabled: boolean;
+  createdAt: number;
+  label?: string;
+}
+
+export interface FloorThresholdRule extends AlertRuleBase {
+  type: 'floor_threshold';
+  collectionId: string;
+  direction: 'above' | 'below';
+  threshold: number; // in the collection's floor currency
+}
+
+export interface FloorChangeRule extends AlertRuleBase {
+  type: 'floor_change';
+  collectionId: string;
+  percent: number; // absolute move that triggers, e.g. 10 for ±10%
+  window: number; // ms
+  direction?: 'up' | 'down'; // either when omitted
+}
+
+export interface NewNFTRule extends AlertRuleBase {
+  type: 'new_nft';
+  walletId?: string; // any wallet when omitted
+}
+
+export interface FarcasterMintRule extends AlertRuleBase {
+  type: 'farcaster_mint';
+  channel?: string; // any channel when omitted
+}
+
+export interface NFTTransferredOutRule extends AlertRuleBase {
+  type: 'nft_transferred_out';
+  walletId?: string; // any wallet when omitted
+}
+
+export type AlertRule =
+  | FloorThresholdRule
+  | FloorChangeRule
+  | NewNFTRule
+  | FarcasterMintRule
+  | NFTTransferredOutRule;
+
+export type AlertRuleType = AlertRule['type'];
+
+// Rule as supplied when creating it; id and createdAt are assigned by the store
+export type NewAlertRule = {
+  [K in AlertRuleType]: Omit<Extract<AlertRule, { type: K }>, 'id' | 'createdAt' | 'enabled'> & {
+    enabled?: boolean;
+  };
+}[AlertRuleType];
+
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  title: string;
+  body: string;
+  createdAt: number;
+  data?: {
+    collectionId?: string;
+    nftIds?: string[];
+    walletId?: string;
+  };
+}
+
+export interface WalletSyncState {
+  lastSyncedAt?: number; // last successful sync
+  nextSyncAt?: number; // when the scheduler will refresh next
+  lastError?: string; // message from the most recent failed sync
+  consecutiveFailures: number;
+}
+
+export interface PriceTable {
+  quote: string; // fiat currency the rates are expressed in
+  rates: Record<string, number>; // currency symbol -> price of one unit
+  fetchedAt: number;
 }
 
 // API Response Types
 
-export interface AlchemyNFT {
+/**
+ * NFT as returned by the Alchemy NFT API v3 (getNFTsForOwner, getNFTMetadata)
+ */
+export interface AlchemyNFTV3 {
+  contract: {
+    address: string;
+    name?: string;
+    symbol?: string;
+    totalSupply?: string;
+    tokenType: string;
+    contractDeployer?: string;
+    deployedBlockNumber?: number;
+    openSeaMetadata?: {
+      floorPrice?: number;
+      collectionName?: string;
+      collectionSlug?: string;
+      safelistRequestStatus?: string;
+      imageUrl?: string;
+      description?: string;
+      externalUrl?: string;
+      lastIngestedAt?: string;
+    };
+    isSpam?: boolean;
+    spamClassifications?: string[];
+  };
+  tokenId: string;
+  tokenType: string;
+  name?: string;
+  description?: string;
+  tokenUri?: string;
+  image?: {
+    cachedUrl?: string;
+    thumbnailUrl?: string;
+    pngUrl?: string;
+    contentType?: string;
+    size?: number;
+    originalUrl?: string;
+  };
+  animation?: {
+    cachedUrl?: string;
+    contentType?: string;
+    size?: number;
+    originalUrl?: string;
+  };
+  raw?: {
+    tokenUri?: string;
+    metadata?: {
+      name?: string;
+      description?: string;
+      image?: string;
+      animation_url?: string;
+      external_url?: string;
+      attributes?: NFTAttribute[];
+    };
+    error?: string | null;
+  };
+  collection?: {
+    name?: string;
+    slug?: string;
+    externalUrl?: string;
+    bannerImageUrl?: string;
+  };
+  mint?: {
+    mintAddress?: string;
+    blockNumber?: number;
+    timestamp?: string;
+    transactionHash?: string;
+  };
+  balance?: string;
+  timeLastUpdated?: string;
+}
+
+/**
+ * NFT as returned by the Alchemy NFT API v2; still served by older endpoints
+ */
+export interface AlchemyNFTV2 {
   contract: {
     address: string;
     name?: string;
@@ -137,21 +510,22 @@ export interface AlchemyNFT {
   title: string;
   description?: string;
   tokenUri?: string;
-  media: Array<{
+  balance?: string;
+  media: {
     raw: string;
     gateway: string;
     thumbnail?: string;
     format?: string;
-  }>;
+  }[];
   metadata: {
     name?: string;
     description?: string;
     image?: string;
     external_url?: string;
-    attributes?: Array<{
+    attributes?: {
       trait_type: string;
       value: string | number;
-    }>;
+    }[];
   };
   timeLastUpdated: string;
   contractMetadata?: {
@@ -165,48 +539,62 @@ export interface AlchemyNFT {
       imageUrl?: string;
     };
   };
+  spamInfo?: {
+    isSpam: string; // 'true' | 'false'
+    classifications: string[];
+  };
 }
 
+export type AlchemyNFT = AlchemyNFTV3 | AlchemyNFTV2;
+
 export interface HeliusAsset {
   id: string;
+  interface?: string; // e.g. 'V1_NFT', 'ProgrammableNFT', 'MplCoreAsset'
   content: {
     json_uri: string;
     metadata: {
       name: string;
       symbol: string;
       description?: string;
-      attributes?: Array<{
+      attributes?: {
         trait_type: string;
         value: string | number;
-      }>;
+      }[];
     };
     links?: {
       image?: string;
+      animation_url?: string;
       external_url?: string;
     };
+    files?: {
+      uri?: string;
+      cdn_uri?: string;
+      mime?: string;
+    }[];
   };
-  authorities: Array<{
+  authorities: {
     address: string;
     scopes: string[];
-  }>;
+  }[];
   compression: {
     eligible: boolean;
     compressed: boolean;
   };
-  grouping: Array<{
+  grouping: {
     group_key: string;
     group_value: string;
-  }>;
+    collection_metadata?: HeliusCollectionMetadata; // with showCollectionMetadata
+  }[];
   royalty: {
     royalty_model: string;
     target?: string;
     percent: number;
   };
-  creators: Array<{
+  creators: {
     address: string;
     share: number;
     verified: boolean;
-  }>;
+  }[];
   ownership: {
     frozen: boolean;
     delegated: boolean;
@@ -217,6 +605,118 @@ export interface HeliusAsset {
   mint_extensions?: any;
 }
 
+export interface HeliusCollectionMetadata {
+  name?: string;
+  symbol?: string;
+  image?: string;
+  description?: string;
+  external_url?: string;
+}
+
+/**
+ * Message envelope as returned by Farcaster hub HTTP API (v1) endpoints
+ */
+export interface HubMessage<T> {
+  data: {
+    type: string; // e.g. MESSAGE_TYPE_VERIFICATION_ADD_ETH_ADDRESS
+    fid: number;
+    timestamp: number;
+  } & T;
+  hash?: string;
+}
+
+export type HubVerificationMessage = HubMessage<{
+  verificationAddAddressBody?: {
+    address: string;
+    protocol?: 'PROTOCOL_ETHEREUM' | 'PROTOCOL_SOLANA';
+    chainId?: number;
+  };
+}>;
+
+export type HubUserDataMessage = HubMessage<{
+  userDataBody?: {
+    type: string; // e.g. USER_DATA_TYPE_USERNAME
+    value: string;
+  };
+}>;
+
+export interface HubMessagesResponse<M> {
+  messages: M[];
+  nextPageToken?: string;
+}
+
+export interface HubUsernameProof {
+  name: string;
+  owner: string;
+  fid: number;
+  timestamp: number;
+  type?: string; // USERNAME_TYPE_FNAME | USERNAME_TYPE_ENS_L1
+}
+
+export interface HubIdRegistryEvent {
+  fid: number;
+  type?: string;
+  idRegisterEventBody?: {
+    to: string; // custody address after the event
+    from?: string;
+    eventType?: string;
+    recoveryAddress?: string;
+  };
+}
+
+export interface NeynarChannel {
+  id: string;
+  name: string;
+  description?: string;
+  image_url?: string;
+  url?: string;
+  follower_count?: number;
+}
+
+export interface NeynarChannelResponse {
+  channel: NeynarChannel;
+}
+
+export interface NeynarCast {
+  hash: string;
+  text: string;
+  timestamp: string; // ISO 8601
+  author: {
+    fid: number;
+    username?: string;
+    display_name?: string;
+    pfp_url?: string;
+  };
+  embeds?: { url?: string }[];
+  frames?: { frames_url: string; title?: string }[];
+  channel?: { id: string } | null;
+}
+
+export interface NeynarCastSearchResponse {
+  result: {
+    casts: NeynarCast[];
+    next?: { cursor?: string | null };
+  };
+}
+
+export interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+/**
+ * Response envelope of the SNS SDK proxy API
+ */
+export interface SnsProxyResponse<T> {
+  s: 'ok' | 'error';
+  result: T;
+}
+
 export interface FetchResult<T> {
   data?: T;
   error?: Error;
@@ -229,4 +729,5 @@ export interface PaginatedResult<T> {
   pageKey?: string;
   totalCount?: number;
   hasMore: boolean;
+  skipped?: number; // items left out because they couldn't be normalized
 }
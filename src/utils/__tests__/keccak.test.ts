@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { namehash } from '../../services/names/ens';
+import { keccak256Hex, utf8Encode } from '../keccak';
+import { toChecksumAddress } from '../validation';
+
+describe('keccak256', () => {
+  it.each([
+    ['', 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'],
+    ['abc', '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45'],
+    [
+      'The quick brown fox jumps over the lazy dog',
+      '4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15',
+    ],
+    ['café ☕', 'fa5242264627aeafc94d3ebb517b5664ac5e0253dfe9a36c16f7715b0c3a92d9'],
+  ])('hashes %j', (input, hash) => {
+    expect(keccak256Hex(input)).toBe(`0x${hash}`);
+    expect(keccak256Hex(utf8Encode(input))).toBe(`0x${hash}`);
+  });
+
+  // The rate is 136 bytes, so these end just inside, at and past the first block
+  it.each([
+    [135, '34367dc248bbd832f4e3e69dfaac2f92638bd0bbd18f2912ba4ef454919cf446'],
+    [136, 'a6c4d403279fe3e0af03729caada8374b5ca54d8065329a3ebcaeb4b60aa386e'],
+    [200, '96ea54061def936c4be90b518992fdc6f12f535068a256229aca54267b4d084d'],
+  ])('hashes %i bytes across block boundaries', (length, hash) => {
+    expect(keccak256Hex('a'.repeat(length))).toBe(`0x${hash}`);
+  });
+});
+
+describe('namehash', () => {
+  it.each([
+    ['', '0000000000000000000000000000000000000000000000000000000000000000'],
+    ['eth', '93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae'],
+    ['foo.eth', 'de9b09fd7c5f901e23a3f19fecc54828e9c848539801e86591bd9801b019f84f'],
+    ['addr.reverse', '91d1777781884d03a6757a803996e38de2a42967fb37eeaca72729271025a9e2'],
+  ])('matches EIP-137 for %j', (name, hash) => {
+    expect(namehash(name)).toBe(hash);
+  });
+});
+
+describe('EIP-55 checksums', () => {
+  it.each([
+    // Test vectors from the EIP: all caps, all lower, then mixed
+    '0x52908400098527886E0F7030069857D2E4169EE7',
+    '0x8617E340B3D01FA5F11F306F4090FD50E238070D',
+    '0xde709f2102306220921060314715629080e2fb77',
+    '0x27b1fdb04752bbc536007a920d24acb045561c26',
+    '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+    '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+    '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+  ])('checksums %s', (address) => {
+    expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from '@jest/globals';
+import type { ChainType, Wallet } from '../../types';
+import {
+  type AddressErrorCode,
+  AddressValidationError,
+  decodeBase58,
+  detectChain,
+  encodeBase58,
+  findDuplicateWallet,
+  isValidChecksum,
+  isValidSolanaAddress,
+  toChecksumAddress,
+  validateAddress,
+} from '../validation';
+
+// From EIP-55
+const CHECKSUMMED = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+const ALL_UPPER = '0x52908400098527886E0F7030069857D2E4169EE7';
+const ALL_LOWER = '0xde709f2102306220921060314715629080e2fb77';
+
+const SOLANA = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function rejection(run: () => unknown): AddressValidationError {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AddressValidationError);
+    return error as AddressValidationError;
+  }
+  throw new Error('expected an AddressValidationError');
+}
+
+describe('EIP-55 checksums', () => {
+  it('checksums a lowercase address', () => {
+    expect(toChecksumAddress(CHECKSUMMED.toLowerCase())).toBe(CHECKSUMMED);
+  });
+
+  it('accepts the correct casing and rejects a flipped letter', () => {
+    expect(isValidChecksum(CHECKSUMMED)).toBe(true);
+    expect(isValidChecksum(CHECKSUMMED.replace('aA', 'Aa'))).toBe(false);
+  });
+
+  it('accepts all-lowercase and all-uppercase addresses, which carry no checksum', () => {
+    expect(isValidChecksum(ALL_LOWER)).toBe(true);
+    expect(isValidChecksum(ALL_UPPER)).toBe(true);
+    expect(validateAddress(ALL_LOWER).address).toBe(toChecksumAddress(ALL_LOWER));
+    expect(validateAddress(ALL_UPPER).address).toBe(ALL_UPPER);
+  });
+
+  it('throws for anything that is not 20-byte hex', () => {
+    expect(rejection(() => toChecksumAddress('0x1234')).code).toBe('invalid_evm');
+  });
+});
+
+describe('validateAddress', () => {
+  it('trims and normalizes EVM and Solana addresses, detecting the chain', () => {
+    expect(validateAddress(`  ${CHECKSUMMED.toLowerCase()}\n`)).toEqual({
+      address: CHECKSUMMED,
+      chain: 'evm',
+    });
+    expect(validateAddress(SOLANA)).toEqual({ address: SOLANA, chain: 'solana' });
+    expect(validateAddress(SOLANA, 'solana').chain).toBe('solana');
+  });
+
+  it.each<[AddressErrorCode, string, ChainType | undefined, string]>([
+    ['empty', '   ', undefined, 'Enter a wallet address'],
+    [
+      'chain_mismatch',
+      CHECKSUMMED,
+      'solana',
+      `${CHECKSUMMED} is an EVM address, not a Solana one`,
+    ],
+    ['chain_mismatch', SOLANA, 'evm', `${SOLANA} is a Solana address, not an EVM one`],
+    ['invalid_evm', 'abc', 'evm', 'EVM addresses start with 0x'],
+    [
+      'invalid_evm',
+      '0x1234',
+      undefined,
+      'EVM addresses are 0x followed by 40 hex characters; this one has 4',
+    ],
+    [
+      'invalid_evm',
+      `0x${'g'.repeat(40)}`,
+      undefined,
+      'EVM addresses only contain 0-9 and a-f after the 0x',
+    ],
+    [
+      'bad_checksum',
+      CHECKSUMMED.replace('aA', 'Aa'),
+      undefined,
+      `The capitalization of ${CHECKSUMMED.replace('aA', 'Aa')} doesn't match its checksum, so ` +
+        'it may have a typo',
+    ],
+    [
+      'invalid_solana',
+      'Token0kegQ',
+      'solana',
+      'Solana addresses use base58 characters only (no 0, O, I or l)',
+    ],
+    [
+      'invalid_solana',
+      'Tokenkeg',
+      'solana',
+      'Tokenkeg is not a Solana public key (32 bytes in base58)',
+    ],
+    [
+      'unknown_format',
+      'vitalik',
+      undefined,
+      "vitalik doesn't look like an EVM (0x…) or Solana address",
+    ],
+  ])('rejects with %s: %s', (code, input, chain, message) => {
+    const error = rejection(() => validateAddress(input, chain));
+    expect(error.code).toBe(code);
+    expect(error.message).toBe(message);
+  });
+});
+
+describe('Solana addresses', () => {
+  it('needs exactly 32 bytes', () => {
+    expect(isValidSolanaAddress('11111111111111111111111111111111')).toBe(true);
+    expect(isValidSolanaAddress(SOLANA)).toBe(true);
+    expect(isValidSolanaAddress(encodeBase58(new Uint8Array(31).fill(7)))).toBe(false);
+    expect(isValidSolanaAddress(encodeBase58(new Uint8Array(33).fill(7)))).toBe(false);
+  });
+
+  it('detects the chain from the format alone', () => {
+    expect(detectChain(CHECKSUMMED)).toBe('evm');
+    expect(detectChain(SOLANA)).toBe('solana');
+    expect(detectChain('vitalik.eth')).toBeUndefined();
+  });
+});
+
+describe('base58', () => {
+  it('matches known encodings', () => {
+    expect(encodeBase58(new TextEncoder().encode('Hello World!'))).toBe('2NEpo7TZRRrLZSi2U');
+    expect(encodeBase58([])).toBe('');
+    expect(encodeBase58([0, 0, 1])).toBe('112');
+  });
+
+  it.each([
+    [[0]],
+    [[0, 0, 0]],
+    [[0, 0, 255, 1]],
+    [[255, 254, 253]],
+    [Array.from({ length: 32 }, (_, i) => (i * 37) % 256)],
+  ])('round-trips %j', (bytes) => {
+    const encoded = encodeBase58(bytes);
+    expect(Array.from(decodeBase58(encoded) ?? [NaN])).toEqual(bytes);
+  });
+
+  it('keeps leading zero bytes as leading 1s', () => {
+    expect(encodeBase58([0, 0, 0, 5])).toBe('1116');
+    expect(Array.from(decodeBase58('1116')!)).toEqual([0, 0, 0, 5]);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(decodeBase58('0OIl')).toBeUndefined();
+  });
+});
+
+describe('findDuplicateWallet', () => {
+  const wallet: Wallet = {
+    id: 'w1',
+    address: CHECKSUMMED,
+    chain: 'evm',
+    addedAt: 0,
+    isActive: true,
+  };
+
+  it('matches EVM addresses case-insensitively', () => {
+    const lower = { address: CHECKSUMMED.toLowerCase(), chain: 'evm' } as const;
+    expect(findDuplicateWallet([wallet], lower)).toBe(wallet);
+    expect(findDuplicateWallet([wallet], { address: ALL_LOWER, chain: 'evm' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Formatting Helpers
+ * Display formatting for addresses, attributes and prices
+ */
+
+import { format } from 'date-fns';
+import type { NFTAttribute, Wallet } from '../types';
+
+/**
+ * Shorten an address to 0x1234…abcd
+ */
+export function shortenAddress(address: string, chars: number = 4): string {
+  if (address.length <= chars * 2 + 2) return address;
+  const prefix = address.startsWith('0x') ? chars + 2 : chars;
+  return `${address.slice(0, prefix)}…${address.slice(-chars)}`;
+}
+
+/**
+ * How to show a wallet: its label, then its name, then its shortened address
+ */
+export function getWalletDisplayName(wallet: Pick<Wallet, 'address' | 'label' | 'name'>): string {
+  return wallet.label || wallet.name?.name || shortenAddress(wallet.address);
+}
+
+/**
+ * Format an attribute value according to its OpenSea display_type
+ */
+export function formatAttributeValue(attribute: NFTAttribute): string {
+  const { value, display_type: displayType, max_value: maxValue } = attribute;
+  const numeric = typeof value === 'number' ? value : Number(value);
+
+  switch (displayType) {
+    case 'number':
+      return maxValue !== undefined ? `${value} of ${maxValue}` : String(value);
+    case 'boost_number':
+      return Number.isFinite(numeric) ? `${numeric >= 0 ? '+' : ''}${numeric}` : String(value);
+    case 'boost_percentage':
+      return Number.isFinite(numeric) ? `${numeric >= 0 ? '+' : ''}${numeric}%` : String(value);
+    case 'date': {
+      if (!Number.isFinite(numeric)) return String(value);
+      // Metadata dates are unix seconds; tolerate milliseconds
+      const ms = numeric < 1e12 ? numeric * 1000 : numeric;
+      return format(new Date(ms), 'MMM d, yyyy');
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Format royalties, which providers report either as a fraction or a percentage
+ */
+export function formatRoyalty(royalty: number): string {
+  const percent = royalty <= 1 ? royalty * 100 : royalty;
+  return `${Number(percent.toFixed(2))}%`;
+}
+
+/**
+ * Format a token amount with sensible precision
+ */
+export function formatAmount(amount: number, currency: string): string {
+  const digits = amount >= 100 ? 1 : amount >= 1 ? 2 : 3;
+  return `${amount.toFixed(digits)} ${currency}`;
+}
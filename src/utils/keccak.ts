@@ -0,0 +1,143 @@
+/**
+ * Keccak-256
+ * The Ethereum hash (pre-standard SHA-3 padding), for ENS namehashes,
+ * ABI selectors and EIP-55 checksums. Inputs here are a few bytes long, so
+ * lanes are plain BigInts rather than split 32-bit words.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+const RATE_BYTES = 136;
+
+const ROUND_CONSTANTS = [
+  '0x0000000000000001', '0x0000000000008082', '0x800000000000808a', '0x8000000080008000',
+  '0x000000000000808b', '0x0000000080000001', '0x8000000080008081', '0x8000000000008009',
+  '0x000000000000008a', '0x0000000000000088', '0x0000000080008009', '0x000000008000000a',
+  '0x000000008000808b', '0x800000000000008b', '0x8000000000008089', '0x8000000000008003',
+  '0x8000000000008002', '0x8000000000000080', '0x000000000000800a', '0x800000008000000a',
+  '0x8000000080008081', '0x8000000000008080', '0x0000000080000001', '0x8000000080008008',
+].map((constant) => BigInt(constant));
+
+// Rotation offsets, indexed x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+].map((offset) => BigInt(offset));
+
+/**
+ * Keccak-256 of a UTF-8 string or raw bytes
+ */
+export function keccak256(input: string | Uint8Array): Uint8Array {
+  const bytes = typeof input === 'string' ? utf8Encode(input) : input;
+
+  // Pad: 0x01, zeros, 0x80 in the last byte of the final block
+  const padded = new Uint8Array((Math.floor(bytes.length / RATE_BYTES) + 1) * RATE_BYTES);
+  padded.set(bytes);
+  padded[bytes.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      state[lane] ^= readLane(padded, offset + lane * 8);
+    }
+    permute(state);
+  }
+
+  const output = new Uint8Array(32);
+  for (let lane = 0; lane < 4; lane++) {
+    writeLane(output, lane * 8, state[lane]);
+  }
+  return output;
+}
+
+/**
+ * Keccak-256 as 0x-prefixed lowercase hex
+ */
+export function keccak256Hex(input: string | Uint8Array): string {
+  return `0x${toHex(keccak256(input))}`;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * UTF-8 bytes of a string, without relying on TextEncoder
+ */
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Keccak-f[1600]: 24 rounds of theta, rho/pi, chi and iota
+ */
+function permute(state: bigint[]): void {
+  const columns: bigint[] = new Array(5);
+  const moved: bigint[] = new Array(25);
+
+  for (let round = 0; round < 24; round++) {
+    for (let x = 0; x < 5; x++) {
+      columns[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotate(columns[(x + 1) % 5], 1n);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y] ^ (~moved[((x + 1) % 5) + y] & moved[((x + 2) % 5) + y] & MASK_64);
+      }
+    }
+
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+}
+
+function rotate(lane: bigint, offset: bigint): bigint {
+  if (offset === 0n) return lane;
+  return ((lane << offset) | (lane >> (64n - offset))) & MASK_64;
+}
+
+function readLane(bytes: Uint8Array, offset: number): bigint {
+  let lane = 0n;
+  for (let i = 7; i >= 0; i--) {
+    lane = (lane << 8n) | BigInt(bytes[offset + i]);
+  }
+  return lane;
+}
+
+function writeLane(bytes: Uint8Array, offset: number, lane: bigint): void {
+  for (let i = 0; i < 8; i++) {
+    bytes[offset + i] = Number((lane >> BigInt(8 * i)) & 0xffn);
+  }
+}
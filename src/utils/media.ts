@@ -0,0 +1,57 @@
+/**
+ * Media Utilities
+ * Classify NFT media by URL
+ */
+
+import type { NFT, MediaType } from '../types';
+
+const EXTENSIONS: Record<Exclude<MediaType, 'image' | 'unknown'>, string[]> = {
+  video: ['mp4', 'webm', 'mov', 'm4v', 'ogv'],
+  audio: ['mp3', 'wav', 'ogg', 'oga', 'flac', 'm4a', 'aac'],
+  html: ['html', 'htm'],
+  model: ['glb', 'gltf', 'usdz'],
+};
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'avif', 'bmp'];
+
+/**
+ * Guess media type from a URL's file extension
+ */
+export function getMediaTypeFromUrl(url?: string): MediaType {
+  if (!url) return 'unknown';
+
+  if (url.startsWith('data:')) {
+    const mime = url.slice(5, url.indexOf(';')).toLowerCase();
+    if (mime.startsWith('image/')) return 'image';
+    if (mime.startsWith('video/')) return 'video';
+    if (mime.startsWith('audio/')) return 'audio';
+    if (mime === 'text/html') return 'html';
+    return 'unknown';
+  }
+
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  const extension = path.includes('.') ? path.slice(path.lastIndexOf('.') + 1) : '';
+
+  for (const [type, extensions] of Object.entries(EXTENSIONS)) {
+    if (extensions.includes(extension)) return type as MediaType;
+  }
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+
+  return 'unknown';
+}
+
+/**
+ * Primary media type of an NFT: its animation if it has one, otherwise its image
+ */
+export function getMediaType(nft: Pick<NFT, 'image' | 'animationUrl'>): MediaType {
+  if (nft.animationUrl) {
+    const type = getMediaTypeFromUrl(nft.animationUrl);
+    // Extensionless animation URLs (IPFS hashes) are almost always video
+    return type === 'unknown' ? 'video' : type;
+  }
+
+  if (!nft.image) return 'unknown';
+  const type = getMediaTypeFromUrl(nft.image);
+  // Extensionless image URLs are still images
+  return type === 'unknown' ? 'image' : type;
+}
@@ -0,0 +1,63 @@
+/**
+ * Token Standard Utilities
+ * Labels for token standards and the lock/storage states of an NFT
+ */
+
+import type { NFT, NFTAssetState, TokenStandard } from '../types';
+
+export const TOKEN_STANDARD_LABELS: Record<TokenStandard, string> = {
+  erc721: 'ERC-721',
+  erc1155: 'ERC-1155',
+  metaplex: 'Metaplex NFT',
+  pnft: 'Programmable NFT',
+  cnft: 'Compressed NFT',
+  core: 'Core asset',
+};
+
+// Short forms for card badges
+const TOKEN_STANDARD_BADGES: Partial<Record<TokenStandard, string>> = {
+  erc1155: '1155',
+  pnft: 'pNFT',
+  cnft: 'cNFT',
+  core: 'Core',
+};
+
+export const ASSET_STATE_LABELS: Record<NFTAssetState, string> = {
+  compressed: 'Compressed',
+  frozen: 'Frozen',
+  delegated: 'Delegated',
+  staked: 'Staked',
+};
+
+/**
+ * Badge text for standards worth calling out; undefined for the common ones
+ */
+export function getTokenStandardBadge(standard?: TokenStandard): string | undefined {
+  return standard ? TOKEN_STANDARD_BADGES[standard] : undefined;
+}
+
+/**
+ * Every lock/storage state that applies to an NFT
+ */
+export function getAssetStates(
+  nft: Pick<NFT, 'compressed' | 'ownershipState'>
+): NFTAssetState[] {
+  const states: NFTAssetState[] = [];
+  if (nft.compressed) states.push('compressed');
+  if (nft.ownershipState?.frozen) states.push('frozen');
+  if (nft.ownershipState?.delegated) states.push('delegated');
+  if (nft.ownershipState?.staked) states.push('staked');
+  return states;
+}
+
+/**
+ * The single most telling lock state, for compact display
+ */
+export function getLockLabel(nft: Pick<NFT, 'ownershipState'>): string | undefined {
+  const state = nft.ownershipState;
+  if (!state) return undefined;
+  if (state.staked) return ASSET_STATE_LABELS.staked;
+  if (state.frozen) return ASSET_STATE_LABELS.frozen;
+  if (state.delegated) return ASSET_STATE_LABELS.delegated;
+  return undefined;
+}
@@ -0,0 +1,221 @@
+/**
+ * Validation Utilities
+ * Wallet address validation: EIP-55 checksums, Solana base58 public keys,
+ * chain detection and duplicate detection
+ */
+
+import type { ChainType, Wallet } from '../types';
+import { keccak256, toHex } from './keccak';
+
+export type AddressErrorCode =
+  | 'empty'
+  | 'unknown_format'
+  | 'invalid_evm'
+  | 'bad_checksum'
+  | 'invalid_solana'
+  | 'chain_mismatch'
+  | 'duplicate';
+
+/**
+ * An address that can't be added as a wallet, with a message fit to show the user
+ */
+export class AddressValidationError extends Error {
+  readonly code: AddressErrorCode;
+  readonly walletId?: string; // the existing wallet, for duplicates
+
+  constructor(code: AddressErrorCode, message: string, walletId?: string) {
+    super(message);
+    this.name = 'AddressValidationError';
+    this.code = code;
+    this.walletId = walletId;
+  }
+}
+
+const EVM_HEX = /^0x[0-9a-f]{40}$/i;
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58 = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+/**
+ * EIP-55 mixed-case form of an EVM address. Throws for anything that isn't 20-byte hex.
+ */
+export function toChecksumAddress(address: string): string {
+  if (!EVM_HEX.test(address)) {
+    throw new AddressValidationError(
+      'invalid_evm',
+      `${address} is not an EVM address (0x followed by 40 hex characters)`
+    );
+  }
+
+  const lower = address.slice(2).toLowerCase();
+  const hash = toHex(keccak256(lower));
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Whether an EVM address's casing is consistent with EIP-55. All-lowercase
+ * and all-uppercase addresses carry no checksum and pass.
+ */
+export function isValidChecksum(address: string): boolean {
+  if (!EVM_HEX.test(address)) return false;
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return true;
+  return toChecksumAddress(address) === address;
+}
+
+export function isValidEvmAddress(address: string): boolean {
+  return EVM_HEX.test(address) && isValidChecksum(address);
+}
+
+/**
+ * Whether the string is a base58 Solana public key (32 bytes)
+ */
+export function isValidSolanaAddress(address: string): boolean {
+  return decodeBase58(address)?.length === 32;
+}
+
+/**
+ * Which chain an address belongs to, from its format alone
+ */
+export function detectChain(address: string): ChainType | undefined {
+  const trimmed = address.trim();
+  if (EVM_HEX.test(trimmed)) return 'evm';
+  if (isValidSolanaAddress(trimmed)) return 'solana';
+  return undefined;
+}
+
+/**
+ * Check a pasted address and put it in canonical form: EIP-55 for EVM,
+ * unchanged base58 for Solana. The chain is detected when not given.
+ * Throws AddressValidationError with a message describing the problem.
+ */
+export function validateAddress(
+  input: string,
+  chain?: ChainType
+): { address: string; chain: ChainType } {
+  const address = input.trim();
+  if (!address) {
+    throw new AddressValidationError('empty', 'Enter a wallet address');
+  }
+
+  const detected = detectChain(address);
+  if (chain && detected && chain !== detected) {
+    throw new AddressValidationError(
+      'chain_mismatch',
+      `${address} is ${detected === 'evm' ? 'an EVM' : 'a Solana'} address, not ${
+        chain === 'evm' ? 'an EVM' : 'a Solana'
+      } one`
+    );
+  }
+
+  // Anything starting with 0x was meant as an EVM address, so explain what's wrong with it
+  switch (chain || detected || (/^0x/i.test(address) ? 'evm' : undefined)) {
+    case 'evm':
+      if (!EVM_HEX.test(address)) {
+        throw new AddressValidationError(
+          'invalid_evm',
+          !/^0x/i.test(address)
+            ? 'EVM addresses start with 0x'
+            : address.length !== 42
+              ? `EVM addresses are 0x followed by 40 hex characters; this one has ${address.length - 2}`
+              : 'EVM addresses only contain 0-9 and a-f after the 0x'
+        );
+      }
+      if (!isValidChecksum(address)) {
+        throw new AddressValidationError(
+          'bad_checksum',
+          `The capitalization of ${address} doesn't match its checksum, so it may have a typo`
+        );
+      }
+      return { address: toChecksumAddress(address), chain: 'evm' };
+
+    case 'solana':
+      if (!BASE58.test(address)) {
+        throw new AddressValidationError(
+          'invalid_solana',
+          'Solana addresses use base58 characters only (no 0, O, I or l)'
+        );
+      }
+      if (!isValidSolanaAddress(address)) {
+        throw new AddressValidationError(
+          'invalid_solana',
+          `${address} is not a Solana public key (32 bytes in base58)`
+        );
+      }
+      return { address, chain: 'solana' };
+
+    default:
+      throw new AddressValidationError(
+        'unknown_format',
+        `${address} doesn't look like an EVM (0x…) or Solana address`
+      );
+  }
+}
+
+/**
+ * Identity of an address for duplicate checks. EVM addresses compare case-insensitively.
+ */
+export function getAddressKey(wallet: Pick<Wallet, 'address' | 'chain'>): string {
+  return wallet.chain === 'evm'
+    ? `evm:${wallet.address.toLowerCase()}`
+    : `${wallet.chain}:${wallet.address}`;
+}
+
+/**
+ * The tracked wallet with the same address, if any
+ */
+export function findDuplicateWallet(
+  wallets: Wallet[],
+  candidate: Pick<Wallet, 'address' | 'chain'>
+): Wallet | undefined {
+  const key = getAddressKey(candidate);
+  return wallets.find((wallet) => getAddressKey(wallet) === key);
+}
+
+export function encodeBase58(bytes: ArrayLike<number>): string {
+  const digits: number[] = [];
+  Array.from(bytes).forEach((byte) => {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  });
+
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+  return '1'.repeat(zeros) + digits.reverse().map((d) => BASE58_ALPHABET[d]).join('');
+}
+
+/**
+ * Bytes of a base58 string; undefined if it isn't base58
+ */
+export function decodeBase58(text: string): Uint8Array | undefined {
+  if (!BASE58.test(text)) return undefined;
+
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === '1') zeros++;
+  return new Uint8Array([...new Array(zeros).fill(0), ...bytes.reverse()]);
+}